@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MAX_CHAT_LENGTH,
+  filterProfanity,
+  forgetChatSender,
+  prepareChatText,
+  tryRecordChat,
+} from "../chat";
+
+describe("filterProfanity", () => {
+  it("should mask a blocked word with asterisks of the same length", () => {
+    expect(filterProfanity("oh shit, a blot")).toBe("oh ****, a blot");
+  });
+
+  it("should ignore case, repeated letters and common endings", () => {
+    expect(filterProfanity("SHIIIT")).toBe("******");
+    expect(filterProfanity("stop fucking around")).toBe("stop ******* around");
+    expect(filterProfanity("bastards")).toBe("********");
+  });
+
+  it("should only match whole words", () => {
+    expect(filterProfanity("Dickens wrote about Scunthorpe")).toBe(
+      "Dickens wrote about Scunthorpe",
+    );
+    expect(filterProfanity("a classic bitcoin pass")).toBe("a classic bitcoin pass");
+  });
+
+  it("should catch patois too", () => {
+    expect(filterProfanity("Bumbaclot dice!")).toBe("********* dice!");
+  });
+});
+
+describe("prepareChatText", () => {
+  it("should collapse whitespace and reject empty messages", () => {
+    expect(prepareChatText("  nice \n\t roll  ")).toBe("nice roll");
+    expect(prepareChatText("   ")).toBeNull();
+    expect(prepareChatText(42)).toBeNull();
+  });
+
+  it("should cap the length", () => {
+    expect(prepareChatText("a".repeat(500))).toHaveLength(MAX_CHAT_LENGTH);
+  });
+});
+
+describe("tryRecordChat", () => {
+  beforeEach(() => {
+    forgetChatSender("a");
+    forgetChatSender("b");
+  });
+
+  it("should allow five messages in ten seconds", () => {
+    for (let i = 0; i < 5; i++) {
+      expect(tryRecordChat("a", i * 1_000)).toBe(true);
+    }
+    expect(tryRecordChat("a", 5_000)).toBe(false);
+  });
+
+  it("should limit each sender on their own", () => {
+    for (let i = 0; i < 5; i++) tryRecordChat("a", 0);
+    expect(tryRecordChat("a", 0)).toBe(false);
+    expect(tryRecordChat("b", 0)).toBe(true);
+  });
+
+  it("should allow more once the oldest message leaves the window", () => {
+    for (let i = 0; i < 5; i++) tryRecordChat("a", i * 1_000);
+    expect(tryRecordChat("a", 9_999)).toBe(false);
+    expect(tryRecordChat("a", 10_000)).toBe(true);
+    expect(tryRecordChat("a", 10_500)).toBe(false);
+  });
+
+  it("should not count rejected messages", () => {
+    for (let i = 0; i < 5; i++) tryRecordChat("a", 0);
+    for (let i = 0; i < 10; i++) tryRecordChat("a", 5_000);
+    expect(tryRecordChat("a", 10_000)).toBe(true);
+  });
+
+  it("should start afresh once the sender is forgotten", () => {
+    for (let i = 0; i < 5; i++) tryRecordChat("a", 0);
+    forgetChatSender("a");
+    expect(tryRecordChat("a", 0)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { Player, createInitialState, offerDouble } from "@backyamon/engine";
+import {
+  createClock,
+  getClockSnapshot,
+  getPlayerOnClock,
+  getTimeUntilFlag,
+  switchClock,
+} from "../clocks";
+
+// One minute banks with a 10 second delay
+const bronstein = () => createClock({ bankSeconds: 60, delaySeconds: 10, style: "bronstein" });
+const fischer = () => createClock({ bankSeconds: 60, delaySeconds: 10, style: "fischer" });
+
+describe("switchClock", () => {
+  it("should not charge a bronstein turn that fits in the delay", () => {
+    const clock = bronstein();
+    switchClock(clock, Player.Gold, 0);
+    switchClock(clock, Player.Red, 8_000);
+    expect(clock.banks[Player.Gold]).toBe(60_000);
+  });
+
+  it("should charge a bronstein turn only past the delay", () => {
+    const clock = bronstein();
+    switchClock(clock, Player.Gold, 0);
+    switchClock(clock, Player.Red, 25_000);
+    expect(clock.banks[Player.Gold]).toBe(45_000);
+  });
+
+  it("should add the fischer increment when the turn starts and charge it all", () => {
+    const clock = fischer();
+    switchClock(clock, Player.Gold, 0);
+    expect(clock.banks[Player.Gold]).toBe(70_000);
+    switchClock(clock, Player.Red, 8_000);
+    expect(clock.banks[Player.Gold]).toBe(62_000);
+    expect(clock.banks[Player.Red]).toBe(70_000);
+  });
+
+  it("should keep one delay for a whole turn", () => {
+    const clock = bronstein();
+    switchClock(clock, Player.Gold, 0);
+    switchClock(clock, Player.Gold, 9_000); // Rolled, now moving
+    switchClock(clock, null, 15_000);
+    expect(clock.banks[Player.Gold]).toBe(55_000);
+  });
+
+  it("should not take a bank below zero", () => {
+    const clock = fischer();
+    switchClock(clock, Player.Gold, 0);
+    switchClock(clock, null, 100_000);
+    expect(clock.banks[Player.Gold]).toBe(0);
+  });
+});
+
+describe("getClockSnapshot", () => {
+  it("should count the running turn down, delay first", () => {
+    const clock = bronstein();
+    switchClock(clock, Player.Gold, 0);
+    expect(getClockSnapshot(clock, 4_000)).toMatchObject({
+      banks: { [Player.Gold]: 60_000, [Player.Red]: 60_000 },
+      running: Player.Gold,
+      delayLeft: 6_000,
+    });
+    expect(getClockSnapshot(clock, 30_000)).toMatchObject({
+      banks: { [Player.Gold]: 40_000 },
+      delayLeft: 0,
+    });
+  });
+});
+
+describe("getTimeUntilFlag", () => {
+  it("should be null with no clock running", () => {
+    expect(getTimeUntilFlag(bronstein(), 0)).toBeNull();
+  });
+
+  it("should include the bronstein delay left", () => {
+    const clock = bronstein();
+    switchClock(clock, Player.Gold, 0);
+    expect(getTimeUntilFlag(clock, 0)).toBe(70_000);
+    expect(getTimeUntilFlag(clock, 4_000)).toBe(66_000);
+    expect(getTimeUntilFlag(clock, 70_000)).toBe(0);
+  });
+
+  it("should count down the fischer bank with its increment", () => {
+    const clock = fischer();
+    switchClock(clock, Player.Red, 1_000);
+    expect(getTimeUntilFlag(clock, 1_000)).toBe(70_000);
+    expect(getTimeUntilFlag(clock, 21_000)).toBe(50_000);
+  });
+});
+
+describe("getPlayerOnClock", () => {
+  it("should run nobody's clock before the opening roll", () => {
+    expect(getPlayerOnClock(createInitialState())).toBeNull();
+  });
+
+  it("should run the clock of whoever answers a double", () => {
+    const state = { ...createInitialState(), currentPlayer: Player.Gold, phase: "ROLLING" as const };
+    expect(getPlayerOnClock(state)).toBe(Player.Gold);
+    expect(getPlayerOnClock(offerDouble(state))).toBe(Player.Red);
+  });
+});
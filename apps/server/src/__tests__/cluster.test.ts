@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { io as connect, type Socket } from "socket.io-client";
+import { Player, getAllLegalTurns, type GameState } from "@backyamon/engine";
+import type { ClientToServerEvents, ServerToClientEvents } from "@backyamon/protocol";
+import { InProcessSharedState, RedisSharedState, type SharedState } from "../shared-state";
+import type { GameServer } from "../server";
+
+// Without REDIS_URL the Redis state talks to an in-memory Redis instead
+vi.mock("ioredis", async (importOriginal) => {
+  if (process.env.REDIS_URL) return importOriginal();
+  const { default: RedisMock } = await import("ioredis-mock");
+  return { Redis: RedisMock };
+});
+
+// Two instances in this process, each handed the shared state the way
+// separate processes would share Redis. Players connect to different
+// instances and only ever meet through the shared state. Set REDIS_URL
+// to run the Redis tests against Redis (or a stand-in that speaks its
+// protocol) rather than in memory.
+const redisUrl = process.env.REDIS_URL ?? "redis://localhost:6379";
+const backends: [string, () => SharedState[]][] = [
+  ["in-process", () => {
+    const shared = new InProcessSharedState();
+    return [shared, shared];
+  }],
+  ["Redis", () => {
+    const prefix = `backyamon-test-${Date.now()}:`; // Keep runs apart
+    // Stand-ins don't always answer INFO, which the ready check relies on
+    const options = { enableReadyCheck: false };
+    return [
+      new RedisSharedState(redisUrl, prefix, options),
+      new RedisSharedState(redisUrl, prefix, options),
+    ];
+  }],
+];
+
+const clients: ClientSocket[] = [];
+
+beforeAll(() => {
+  const dir = mkdtempSync(join(tmpdir(), "backyamon-cluster-"));
+  process.env.TURSO_DATABASE_URL = `file:${join(dir, "test.db")}`;
+});
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+function waitFor<E extends keyof ServerToClientEvents>(
+  socket: ClientSocket,
+  event: E,
+): Promise<Parameters<ServerToClientEvents[E]>[0]> {
+  // socket.io can't match a listener to an event name that is still generic
+  return new Promise((resolve) => (socket as Socket).once(event as string, resolve));
+}
+
+async function registeredClient(url: string): Promise<ClientSocket> {
+  const socket = connect(url, { transports: ["websocket"] });
+  clients.push(socket);
+  const registered = waitFor(socket, "registered");
+  socket.emit("register", {});
+  await registered;
+  return socket;
+}
+
+/**
+ * Play `role`'s side of the game: roll when it's their turn and submit
+ * the first legal turn.
+ */
+function autoPlay(socket: ClientSocket, role: Player): void {
+  let state: GameState | null = null;
+  const act = () => {
+    if (!state || state.currentPlayer !== role) return;
+    if (state.phase === "ROLLING") {
+      socket.emit("roll-dice");
+    } else if (state.phase === "MOVING") {
+      const [moves] = getAllLegalTurns(state);
+      socket.emit("submit-turn", { moves }, () => {});
+    }
+  };
+
+  socket.on("game-start", (data) => {
+    state = data.state;
+    if (role === Player.Gold) socket.emit("roll-dice"); // Opening roll
+  });
+  socket.on("opening-roll-tied", () => {
+    if (role === Player.Gold) socket.emit("roll-dice");
+  });
+  socket.on("opening-roll-result", (data) => {
+    state = { ...state!, currentPlayer: data.firstPlayer, dice: data.dice, phase: "MOVING" };
+    act();
+  });
+  socket.on("dice-rolled", (data) => {
+    state = { ...state!, dice: data.dice, phase: "MOVING" };
+    act();
+  });
+  socket.on("turn-ended", (data) => {
+    state = data.state;
+    act();
+  });
+}
+
+describe.each(backends)("several server instances sharing %s state", (_, createShared) => {
+  let servers: GameServer[] = [];
+  let urls: string[] = [];
+  let states: SharedState[] = [];
+
+  beforeAll(async () => {
+    const { createGameServer } = await import("../server");
+    states = createShared();
+    servers = states.map((shared) => createGameServer({ shared }));
+    const ports = await Promise.all(servers.map((server) => server.listen(0)));
+    urls = ports.map((port) => `http://localhost:${port}`);
+  });
+
+  afterAll(async () => {
+    // Let the servers finish handling the disconnects before shutting down
+    for (const client of clients.splice(0)) client.disconnect();
+    await new Promise((r) => setTimeout(r, 200));
+    await Promise.all(servers.map((server) => server.close()));
+    await Promise.all([...new Set(states)].map((shared) => shared.close()));
+  });
+
+  it("should play a game between players on different instances", async () => {
+    const gold = await registeredClient(urls[0]);
+    const red = await registeredClient(urls[1]);
+    autoPlay(gold, Player.Gold);
+    autoPlay(red, Player.Red);
+
+    const created = waitFor(gold, "room-created");
+    gold.emit("create-room", {});
+    const { roomId } = await created;
+
+    const goldJoined = waitFor(gold, "room-joined");
+    const redJoined = waitFor(red, "room-joined");
+    const goldOver = waitFor(gold, "game-over");
+    const redOver = waitFor(red, "game-over");
+    red.emit("join-room", { roomId });
+    expect((await goldJoined).player).toBe(Player.Gold);
+    expect((await redJoined).player).toBe(Player.Red);
+
+    const [goldResult, redResult] = await Promise.all([goldOver, redOver]);
+    expect(goldResult.matchWinner).not.toBeNull();
+    expect(redResult).toEqual(goldResult);
+  }, 60_000);
+
+  it("should pair quick-match players waiting on different instances", async () => {
+    const first = await registeredClient(urls[0]);
+    const second = await registeredClient(urls[1]);
+
+    const firstFound = waitFor(first, "match-found");
+    const secondFound = waitFor(second, "match-found");
+    first.emit("quick-match", { unrated: true });
+    second.emit("quick-match", { unrated: true });
+
+    const [a, b] = await Promise.all([firstFound, secondFound]);
+    expect(a.roomId).toBe(b.roomId);
+  }, 30_000);
+
+  it("should show a room created on one instance in the lobby of another", async () => {
+    const host = await registeredClient(urls[0]);
+    const browser = await registeredClient(urls[1]);
+
+    const created = waitFor(host, "room-created");
+    host.emit("create-room", {});
+    const { roomId } = await created;
+
+    const listed = waitFor(browser, "room-list");
+    browser.emit("list-rooms");
+    expect((await listed).rooms.map((room) => room.id)).toContain(roomId);
+  });
+});
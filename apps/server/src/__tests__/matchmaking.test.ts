@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import type { QueuePreferences } from "@backyamon/protocol";
+import {
+  createMatchQueue,
+  getQueueStatus,
+  getRatingWindow,
+  joinQueue,
+  tryMatch,
+  type MatchQueue,
+} from "../matchmaking";
+import type { PlayerConnection } from "../rooms";
+
+function player(id: string): PlayerConnection {
+  return { socketId: `socket-${id}`, playerId: id, displayName: id };
+}
+
+// Queue players, each as [id, rating, preferences?, joinedAt?]
+function queueOf(
+  ...entries: [string, number, QueuePreferences?, number?][]
+): MatchQueue {
+  const queue = createMatchQueue();
+  for (const [id, rating, preferences = {}, joinedAt = 0] of entries) {
+    joinQueue(queue, player(id), rating, preferences, joinedAt);
+  }
+  return queue;
+}
+
+describe("getRatingWindow", () => {
+  it("should start at 100 and widen by 10 a second", () => {
+    expect(getRatingWindow(0)).toBe(100);
+    expect(getRatingWindow(15_000)).toBe(250);
+    expect(getRatingWindow(59_999)).toBeCloseTo(700, 0);
+  });
+
+  it("should accept any rating after a minute", () => {
+    expect(getRatingWindow(60_000)).toBe(Infinity);
+  });
+});
+
+describe("tryMatch", () => {
+  it("should pair players within each other's rating window", () => {
+    const queue = queueOf(["a", 1500], ["b", 1580]);
+    const pairing = tryMatch(queue, 0);
+    expect(pairing).toEqual({ gold: player("a"), red: player("b"), matchLength: 1, rated: true });
+    expect(queue.entries).toHaveLength(0);
+  });
+
+  it("should wait for the window to widen to a distant rating", () => {
+    const queue = queueOf(["a", 1500], ["b", 1800]);
+    expect(tryMatch(queue, 0)).toBeNull();
+    expect(tryMatch(queue, 19_000)).toBeNull(); // Window 290
+    expect(tryMatch(queue, 20_000)).not.toBeNull(); // Window 300
+  });
+
+  it("should pair any ratings after a minute", () => {
+    const queue = queueOf(["a", 1000], ["b", 2500]);
+    expect(tryMatch(queue, 59_000)).toBeNull();
+    expect(tryMatch(queue, 60_000)).not.toBeNull();
+  });
+
+  it("should keep different match lengths apart", () => {
+    const queue = queueOf(["a", 1500, { matchLength: 5 }], ["b", 1500, { matchLength: 7 }]);
+    expect(tryMatch(queue, 120_000)).toBeNull();
+  });
+
+  it("should take either player's match length when only one has a preference", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500, { matchLength: 5 }]);
+    expect(tryMatch(queue, 0)?.matchLength).toBe(5);
+  });
+
+  it("should keep unrated players apart from rated ones", () => {
+    const queue = queueOf(["a", 1500, { unrated: true }], ["b", 1500]);
+    expect(tryMatch(queue, 120_000)).toBeNull();
+
+    joinQueue(queue, player("c"), 1500, { unrated: true }, 0);
+    expect(tryMatch(queue, 0)).toMatchObject({ gold: player("a"), red: player("c"), rated: false });
+  });
+
+  it("should give the longest-waiting player the closest rating", () => {
+    const queue = queueOf(["a", 1500], ["b", 1570], ["c", 1520], ["d", 1490]);
+    expect(tryMatch(queue, 0)).toMatchObject({ gold: player("a"), red: player("d") });
+    expect(tryMatch(queue, 0)).toMatchObject({ gold: player("b"), red: player("c") });
+  });
+
+  it("should keep a pair that just played apart", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500]);
+    tryMatch(queue, 0);
+
+    joinQueue(queue, player("a"), 1500, {}, 10_000);
+    joinQueue(queue, player("b"), 1500, {}, 10_000);
+    expect(tryMatch(queue, 10_000)).toBeNull();
+    expect(tryMatch(queue, 39_999)).toBeNull();
+  });
+
+  it("should pair them again once both have waited 30 seconds", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500]);
+    tryMatch(queue, 0);
+
+    joinQueue(queue, player("a"), 1500, {}, 10_000);
+    joinQueue(queue, player("b"), 1500, {}, 10_000);
+    expect(tryMatch(queue, 40_000)).toMatchObject({ gold: player("a"), red: player("b") });
+  });
+
+  it("should pair them again after the cooldown", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500]);
+    tryMatch(queue, 0);
+
+    joinQueue(queue, player("a"), 1500, {}, 120_000);
+    joinQueue(queue, player("b"), 1500, {}, 120_000);
+    expect(tryMatch(queue, 120_000)).not.toBeNull();
+  });
+
+  it("should forget pairings once their cooldown is over", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500]);
+    tryMatch(queue, 0);
+    expect(Object.keys(queue.lastOpponent)).toEqual(["a", "b"]);
+
+    expect(tryMatch(queue, 119_999)).toBeNull();
+    expect(Object.keys(queue.lastOpponent)).toHaveLength(2);
+    expect(tryMatch(queue, 120_000)).toBeNull();
+    expect(queue.lastOpponent).toEqual({});
+  });
+
+  it("should pair someone else in the meantime", () => {
+    const queue = queueOf(["a", 1500], ["b", 1500]);
+    tryMatch(queue, 0);
+
+    joinQueue(queue, player("a"), 1500, {}, 10_000);
+    joinQueue(queue, player("b"), 1500, {}, 10_000);
+    joinQueue(queue, player("c"), 1600, {}, 10_000);
+    expect(tryMatch(queue, 10_000)).toMatchObject({ gold: player("a"), red: player("c") });
+  });
+});
+
+describe("getQueueStatus", () => {
+  it("should be null for someone not queued", () => {
+    expect(getQueueStatus(queueOf(["a", 1500]), "b", 0)).toBeNull();
+  });
+
+  it("should report the position and rating window", () => {
+    const queue = queueOf(["a", 1500, {}, 0], ["b", 1500, {}, 5_000]);
+    expect(getQueueStatus(queue, "b", 10_000)).toMatchObject({
+      position: 2,
+      queueSize: 2,
+      ratingWindow: 150,
+    });
+    expect(getQueueStatus(queue, "a", 60_000)?.ratingWindow).toBeNull();
+  });
+
+  it("should estimate 30 seconds before anyone has been paired", () => {
+    const queue = queueOf(["a", 1500, {}, 0]);
+    expect(getQueueStatus(queue, "a", 0)?.estimatedWaitSeconds).toBe(30);
+    expect(getQueueStatus(queue, "a", 12_000)?.estimatedWaitSeconds).toBe(18);
+  });
+
+  it("should estimate from recent waits, less the time already waited", () => {
+    const queue = queueOf(["a", 1500, {}, 0], ["b", 1500, {}, 10_000]);
+    tryMatch(queue, 20_000); // Waits of 20s and 10s
+
+    joinQueue(queue, player("c"), 1500, {}, 20_000);
+    expect(getQueueStatus(queue, "c", 20_000)?.estimatedWaitSeconds).toBe(15);
+    expect(getQueueStatus(queue, "c", 30_000)?.estimatedWaitSeconds).toBe(5);
+    expect(getQueueStatus(queue, "c", 60_000)?.estimatedWaitSeconds).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { io as connect, type Socket as ClientSocket } from "socket.io-client";
+import type { ErrorPayload } from "@backyamon/protocol";
+import { InProcessSharedState } from "../shared-state";
+import type { GameServer } from "../server";
+
+// Clients that don't speak the protocol: payloads are sent untyped on purpose
+describe("payload validation", () => {
+  const shared = new InProcessSharedState();
+  let server: GameServer;
+  let socket: ClientSocket;
+
+  beforeAll(async () => {
+    const dir = mkdtempSync(join(tmpdir(), "backyamon-protocol-"));
+    process.env.TURSO_DATABASE_URL = `file:${join(dir, "test.db")}`;
+    const { createGameServer } = await import("../server");
+    server = createGameServer({ shared });
+    const port = await server.listen(0);
+    socket = connect(`http://localhost:${port}`, { transports: ["websocket"] });
+    await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+  });
+
+  afterAll(async () => {
+    socket.disconnect();
+    await new Promise((r) => setTimeout(r, 100));
+    await server.close();
+    await shared.close();
+  });
+
+  function nextError(): Promise<ErrorPayload> {
+    return new Promise((resolve) => socket.once("error", resolve));
+  }
+
+  it("should answer a malformed payload with a structured error", async () => {
+    const error = nextError();
+    socket.emit("create-room", { timeControl: { bankSeconds: "forever" } });
+    expect(await error).toMatchObject({
+      code: "invalid-payload",
+      event: "create-room",
+      issues: [
+        { path: "timeControl.bankSeconds" },
+        { path: "timeControl.delaySeconds" },
+        { path: "timeControl.style" },
+      ],
+    });
+  });
+
+  it("should answer a missing payload instead of crashing the handler", async () => {
+    const error = nextError();
+    socket.emit("join-room");
+    expect(await error).toMatchObject({ code: "invalid-payload", event: "join-room" });
+  });
+
+  it("should refuse events the protocol doesn't define", async () => {
+    const error = nextError();
+    socket.emit("set-dice", { values: [6, 6] });
+    expect(await error).toMatchObject({ code: "unknown-event", event: "set-dice" });
+  });
+
+  it("should refuse single moves; turns are submitted whole", async () => {
+    const error = nextError();
+    socket.emit("make-move", { move: { from: 0, to: 3 } });
+    expect(await error).toMatchObject({ code: "unknown-event", event: "make-move" });
+  });
+
+  it("should answer an acknowledged request through its callback", async () => {
+    const response = await socket.emitWithAck("get-replay", { matchId: 42 });
+    expect(response).toMatchObject({ code: "invalid-payload", issues: [{ path: "matchId" }] });
+    expect(typeof response.error).toBe("string");
+  });
+
+  it("should still handle valid requests afterwards", async () => {
+    const registered = new Promise((resolve) => socket.once("registered", resolve));
+    socket.emit("register", null);
+    expect(await registered).toMatchObject({ username: null });
+  });
+});
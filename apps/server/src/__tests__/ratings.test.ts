@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+
+// ratings.ts opens the database on import; keep it off disk
+process.env.TURSO_DATABASE_URL = ":memory:";
+const { getWinProbability, getExperienceFactor, getRatingChanges } = await import("../ratings");
+
+const veteran = (rating: number) => ({ rating, experience: 1000 });
+
+describe("getWinProbability", () => {
+  it("should make equal ratings an even match at any length", () => {
+    expect(getWinProbability(1500, 1500, 1)).toBe(0.5);
+    expect(getWinProbability(1500, 1500, 11)).toBe(0.5);
+  });
+
+  it("should favour the stronger player more in longer matches", () => {
+    // 100 points ahead: 1 / (1 + 10^(-100 * sqrt(N) / 2000))
+    expect(getWinProbability(1600, 1500, 1)).toBeCloseTo(0.52875, 5);
+    expect(getWinProbability(1600, 1500, 7)).toBeCloseTo(0.57557, 5);
+    expect(getWinProbability(1500, 1600, 7)).toBeCloseTo(1 - 0.57557, 5);
+  });
+});
+
+describe("getExperienceFactor", () => {
+  it("should start newcomers at 5 and fall by 1 per 100 match points", () => {
+    expect(getExperienceFactor(0)).toBe(5);
+    expect(getExperienceFactor(100)).toBe(4);
+    expect(getExperienceFactor(350)).toBe(1.5);
+  });
+
+  it("should stay at 1 from 400 match points on", () => {
+    expect(getExperienceFactor(399)).toBeCloseTo(1.01, 5);
+    expect(getExperienceFactor(400)).toBe(1);
+    expect(getExperienceFactor(5000)).toBe(1);
+  });
+});
+
+describe("getRatingChanges", () => {
+  it("should move equal players 2 points in a 1-point match", () => {
+    expect(getRatingChanges(veteran(1500), veteran(1500), 1)).toEqual({ winner: 2, loser: -2 });
+  });
+
+  it("should reward an upset in a long match more than in a short one", () => {
+    // 4 * sqrt(N) * (chance the 1600 player had)
+    const short = getRatingChanges(veteran(1500), veteran(1600), 1);
+    const long = getRatingChanges(veteran(1500), veteran(1600), 7);
+    expect(short.winner).toBeCloseTo(4 * 0.52875, 4);
+    expect(long.winner).toBeCloseTo(4 * Math.sqrt(7) * 0.57557, 4);
+    expect(long.loser).toBeCloseTo(-long.winner, 10);
+  });
+
+  it("should scale each side by its own experience", () => {
+    const newcomer = { rating: 1500, experience: 0 };
+    const changes = getRatingChanges(newcomer, veteran(1500), 1);
+    expect(changes.winner).toBe(10); // 2 points, boosted 5x
+    expect(changes.loser).toBe(-2);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+import { Player, applyMove, cloneState, createInitialState, rollDice } from "@backyamon/engine";
+import type { GameRoom } from "../rooms";
+
+// room-store.ts opens the database on import; keep it in memory
+process.env.TURSO_DATABASE_URL = ":memory:";
+const { db, initDatabase } = await import("../db/index");
+const { activeRooms } = await import("../db/schema");
+const { createClock, switchClock } = await import("../clocks");
+const { restoreFairDice } = await import("../fair-dice");
+const { saveRoomSnapshot, deleteRoomSnapshot, loadRoomSnapshots } = await import("../room-store");
+
+const SAVED_AT = 1_700_000_000_000;
+
+/** Game 2 of a 5-point match, Gold part way through a 63 with the cube on 2. */
+function midMatchRoom(): GameRoom {
+  const start = createInitialState(5);
+  start.matchScore = { [Player.Gold]: 1, [Player.Red]: 2 };
+  start.doublingCube = { value: 2, owner: Player.Red };
+
+  let state = cloneState(start);
+  state.currentPlayer = Player.Gold;
+  state.phase = "MOVING";
+  state.dice = rollDice([6, 3]);
+  state = applyMove(state, { from: 0, to: 6 });
+
+  const clock = createClock({ bankSeconds: 300, delaySeconds: 12, style: "bronstein" });
+  switchClock(clock, Player.Gold, SAVED_AT - 30_000);
+
+  return {
+    id: "blue-mountain",
+    gold: { socketId: "s1", playerId: "alice", displayName: "Alice" },
+    red: { socketId: "s2", playerId: "bob", displayName: "Bob" },
+    spectators: [{ socketId: "s3", playerId: "carol", displayName: "Carol" }],
+    spectatorChat: true,
+    state,
+    gameNumber: 2,
+    gameStartState: start,
+    events: [
+      { type: "double", player: Player.Red, at: 1 },
+      { type: "take", player: Player.Gold, at: 2 },
+      { type: "roll", player: Player.Gold, dice: [6, 3], at: 3 },
+      { type: "move", player: Player.Gold, move: { from: 0, to: 6 }, at: 4 },
+    ],
+    fairDice: restoreFairDice("ab".repeat(32), 7),
+    rated: false,
+    clock,
+    createdAt: new Date(SAVED_AT - 600_000),
+  };
+}
+
+describe("room store", () => {
+  beforeAll(async () => {
+    await initDatabase();
+  });
+
+  beforeEach(() => {
+    // Only Date: the database client still needs real timers
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(SAVED_AT);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.delete(activeRooms).run();
+  });
+
+  it("should restore the game, clock and match details it saved", async () => {
+    const room = midMatchRoom();
+    await saveRoomSnapshot(room);
+
+    const [restored] = await loadRoomSnapshots();
+    expect(restored.state).toEqual(room.state);
+    expect(restored.gameStartState).toEqual(room.gameStartState);
+    expect(restored.events).toEqual(room.events);
+    expect(restored).toMatchObject({
+      id: room.id,
+      gold: room.gold,
+      red: room.red,
+      gameNumber: 2,
+      rated: false,
+      spectatorChat: true,
+      createdAt: room.createdAt,
+    });
+    expect(restored.fairDice).toMatchObject({ seed: room.fairDice.seed, rolled: 7 });
+  });
+
+  it("should not save spectators", async () => {
+    await saveRoomSnapshot(midMatchRoom());
+    const [restored] = await loadRoomSnapshots();
+    expect(restored.spectators).toEqual([]);
+  });
+
+  it("should charge a running clock up to the save and stop it", async () => {
+    await saveRoomSnapshot(midMatchRoom());
+    const [restored] = await loadRoomSnapshots();
+
+    // 30 seconds on Gold's clock, the first 12 covered by the delay
+    expect(restored.clock).toMatchObject({
+      control: { bankSeconds: 300, delaySeconds: 12, style: "bronstein" },
+      banks: { [Player.Gold]: 282_000, [Player.Red]: 300_000 },
+      running: null,
+    });
+  });
+
+  it("should keep only the latest snapshot of a room", async () => {
+    const room = midMatchRoom();
+    await saveRoomSnapshot(room);
+    room.gameNumber = 3;
+    await saveRoomSnapshot(room);
+
+    const restored = await loadRoomSnapshots();
+    expect(restored).toHaveLength(1);
+    expect(restored[0].gameNumber).toBe(3);
+  });
+
+  it("should forget a deleted room", async () => {
+    const room = midMatchRoom();
+    await saveRoomSnapshot(room);
+    await deleteRoomSnapshot(room.id);
+    expect(await loadRoomSnapshots()).toEqual([]);
+  });
+
+  it("should drop a snapshot it can't read", async () => {
+    await saveRoomSnapshot(midMatchRoom());
+    await db.insert(activeRooms).values({ id: "broken", snapshot: "{", updatedAt: SAVED_AT }).run();
+
+    const restored = await loadRoomSnapshots();
+    expect(restored.map((room) => room.id)).toEqual(["blue-mountain"]);
+    expect(await db.select().from(activeRooms).all()).toHaveLength(1);
+  });
+});
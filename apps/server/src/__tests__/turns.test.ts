@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { io as connect, type Socket } from "socket.io-client";
+import { Player, getAllLegalTurns, type GameState, type Move } from "@backyamon/engine";
+import type { ClientToServerEvents, ServerToClientEvents } from "@backyamon/protocol";
+import { InProcessSharedState } from "../shared-state";
+import type { GameServer } from "../server";
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+function waitFor<E extends keyof ServerToClientEvents>(
+  socket: ClientSocket,
+  event: E,
+): Promise<Parameters<ServerToClientEvents[E]>[0]> {
+  // socket.io can't match a listener to an event name that is still generic
+  return new Promise((resolve) => (socket as Socket).once(event as string, resolve));
+}
+
+describe("turn submission", () => {
+  const shared = new InProcessSharedState();
+  const clients: ClientSocket[] = [];
+  let server: GameServer;
+  let mover: ClientSocket; // Whoever won the opening roll
+  let opponent: ClientSocket;
+  let state: GameState;
+
+  async function registeredClient(url: string): Promise<ClientSocket> {
+    const socket = connect(url, { transports: ["websocket"] });
+    clients.push(socket);
+    const registered = waitFor(socket, "registered");
+    socket.emit("register", {});
+    await registered;
+    return socket;
+  }
+
+  beforeAll(async () => {
+    const dir = mkdtempSync(join(tmpdir(), "backyamon-turns-"));
+    process.env.TURSO_DATABASE_URL = `file:${join(dir, "test.db")}`;
+    const { createGameServer } = await import("../server");
+    server = createGameServer({ shared });
+    const url = `http://localhost:${await server.listen(0)}`;
+    const gold = await registeredClient(url);
+    const red = await registeredClient(url);
+
+    const created = waitFor(gold, "room-created");
+    gold.emit("create-room", {});
+    const { roomId } = await created;
+    const joined = waitFor(gold, "room-joined");
+    red.emit("join-room", { roomId });
+    state = (await joined).state;
+
+    // Roll for the opening until it isn't a tie
+    let result: { firstPlayer: Player; dice: GameState["dice"] } | null = null;
+    gold.once("opening-roll-result", (data) => { result = data; });
+    while (!result) {
+      const rolled = Promise.race([waitFor(gold, "opening-roll-tied"), waitFor(gold, "opening-roll-result")]);
+      gold.emit("roll-dice");
+      await rolled;
+    }
+    const { firstPlayer, dice } = result;
+    state = { ...state, currentPlayer: firstPlayer, dice, phase: "MOVING" };
+    [mover, opponent] = firstPlayer === Player.Gold ? [gold, red] : [red, gold];
+  });
+
+  afterAll(async () => {
+    for (const client of clients) client.disconnect();
+    await new Promise((r) => setTimeout(r, 100));
+    await server.close();
+    await shared.close();
+  });
+
+  it("should refuse a turn that leaves dice unplayed", async () => {
+    const [move] = getAllLegalTurns(state)[0];
+    const response = await mover.emitWithAck("submit-turn", { moves: [move] });
+    expect(response).toEqual({ error: "Illegal turn." });
+  });
+
+  it("should refuse a turn from the player who isn't on roll", async () => {
+    const response = await opponent.emitWithAck("submit-turn", { moves: getAllLegalTurns(state)[0] });
+    expect(response).toEqual({ error: "Not your turn." });
+  });
+
+  it("should play a legal turn and pass the dice", async () => {
+    const turn = getAllLegalTurns(state)[0];
+    const seen: Move[] = [];
+    const onMove = (data: { move: Move }) => seen.push(data.move);
+    opponent.on("move-made", onMove);
+    const ended = waitFor(opponent, "turn-ended");
+
+    const response = await mover.emitWithAck("submit-turn", { moves: turn });
+    expect(response).toEqual({ ok: true });
+    const { currentPlayer } = await ended;
+    opponent.off("move-made", onMove);
+
+    // Only the submitted turn reached the opponent, not the refused ones
+    expect(seen).toEqual(turn);
+    expect(currentPlayer).not.toBe(state.currentPlayer);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Room chat for online games: message length limits, a per-sender rate
+ * limit and a simple profanity filter. Messages are not stored; they are
+ * relayed to everyone in the room as they arrive.
+ */
+export const MAX_CHAT_LENGTH = 200;
+
+// At most this many messages per sender in any RATE_WINDOW_MS
+const RATE_LIMIT = 5;
+const RATE_WINDOW_MS = 10_000;
+
+// Matched as whole words (plus common endings), ignoring case; repeated
+// letters are allowed so "shiiit" is caught too
+const BLOCKED_WORDS = [
+  "fuck", "shit", "bitch", "cunt", "bastard", "asshole", "dick", "pussy",
+  "whore", "slut", "fag", "nigger", "retard",
+  // Patois
+  "bumbaclot", "bumboclaat", "raasclaat", "rassclaat", "bloodclaat",
+  "pussyclaat", "batty",
+];
+
+const BLOCKED_PATTERN = new RegExp(
+  `\\b(?:${BLOCKED_WORDS.map((word) => [...word].map((c) => `${c}+`).join("")).join("|")})(?:s|es|ed|er|ers|ing)?\\b`,
+  "gi",
+);
+
+const sentTimes = new Map<string, number[]>(); // Sender id -> recent send times (ms)
+
+/** Replace blocked words with asterisks of the same length. */
+export function filterProfanity(text: string): string {
+  return text.replace(BLOCKED_PATTERN, (word) => "*".repeat(word.length));
+}
+
+/**
+ * Clean up a message for sending: collapse whitespace, cap the length and
+ * filter it. Returns null if nothing is left to send.
+ */
+export function prepareChatText(text: unknown): string | null {
+  if (typeof text !== "string") return null;
+  const trimmed = text.replace(/\s+/g, " ").trim().slice(0, MAX_CHAT_LENGTH);
+  return trimmed ? filterProfanity(trimmed) : null;
+}
+
+/**
+ * Record a message from `senderId` if they are within the rate limit.
+ * Returns false, recording nothing, if they are sending too fast.
+ */
+export function tryRecordChat(senderId: string, now = Date.now()): boolean {
+  const recent = (sentTimes.get(senderId) ?? []).filter((t) => now - t < RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMIT) {
+    sentTimes.set(senderId, recent);
+    return false;
+  }
+  recent.push(now);
+  sentTimes.set(senderId, recent);
+  return true;
+}
+
+/** Forget a sender's history, e.g. when their socket goes away. */
+export function forgetChatSender(senderId: string): void {
+  sentTimes.delete(senderId);
+}
@@ -0,0 +1,131 @@
+import { Player, isResignationPending, opponent, type GameState } from "@backyamon/engine";
+import type { ClockSnapshot, DelayStyle, TimeControl } from "@backyamon/protocol";
+
+/**
+ * Match clocks for online games.
+ *
+ * Each player has a time bank for the whole match. Whenever a player has
+ * to act (roll, move or answer a double) their clock runs, and each time
+ * it starts they get a per-move delay on top:
+ * - bronstein: the first `delaySeconds` of each turn are free; the bank
+ *   only runs down once they are used up
+ * - fischer: `delaySeconds` is added to the bank when the turn starts
+ *
+ * A player whose bank runs out forfeits the match. The server is the only
+ * clock that counts; clients are sent snapshots and count down locally.
+ */
+
+export interface MatchClock {
+  control: TimeControl;
+  banks: Record<Player, number>; // Milliseconds left, not counting the running turn
+  running: Player | null; // Whose clock is running, if anyone's
+  startedAt: number; // When the running clock started (ms)
+}
+
+export const MAX_BANK_SECONDS = 2 * 60 * 60;
+export const MAX_DELAY_SECONDS = 60;
+
+const DELAY_STYLES: DelayStyle[] = ["bronstein", "fischer"];
+
+export function isValidTimeControl(value: unknown): value is TimeControl {
+  if (typeof value !== "object" || value === null) return false;
+  const { bankSeconds, delaySeconds, style } = value as Record<string, unknown>;
+  return (
+    typeof bankSeconds === "number" &&
+    Number.isInteger(bankSeconds) &&
+    bankSeconds >= 1 &&
+    bankSeconds <= MAX_BANK_SECONDS &&
+    typeof delaySeconds === "number" &&
+    Number.isInteger(delaySeconds) &&
+    delaySeconds >= 0 &&
+    delaySeconds <= MAX_DELAY_SECONDS &&
+    DELAY_STYLES.includes(style as DelayStyle)
+  );
+}
+
+/**
+ * The time control given to quick matches: two minutes per match point
+ * plus a 12 second delay per move.
+ */
+export function getStandardTimeControl(matchLength: number): TimeControl {
+  return { bankSeconds: 120 * matchLength, delaySeconds: 12, style: "bronstein" };
+}
+
+export function createClock(control: TimeControl): MatchClock {
+  const bank = control.bankSeconds * 1000;
+  return {
+    control,
+    banks: { [Player.Gold]: bank, [Player.Red]: bank } as Record<Player, number>,
+    running: null,
+    startedAt: 0,
+  };
+}
+
+/**
+ * The player who has to act in `state`: the player to roll or move, or
+ * the opponent while a double or resignation is being considered. Nobody
+ * is on the clock before the opening roll or once the game is over.
+ */
+export function getPlayerOnClock(state: GameState): Player | null {
+  switch (state.phase) {
+    case "ROLLING":
+    case "MOVING":
+      return isResignationPending(state) ? opponent(state.currentPlayer) : state.currentPlayer;
+    case "DOUBLING":
+      return opponent(state.currentPlayer);
+    default:
+      return null;
+  }
+}
+
+function getElapsedCharge(clock: MatchClock, now: number): number {
+  const elapsed = Math.max(0, now - clock.startedAt);
+  if (clock.control.style === "bronstein") {
+    return Math.max(0, elapsed - clock.control.delaySeconds * 1000);
+  }
+  return elapsed;
+}
+
+/**
+ * Stop the running clock, charging its player for the time used, and
+ * start `player`'s (or nobody's). Does nothing if `player` is already on
+ * the clock, so a turn keeps its delay from roll to last move.
+ */
+export function switchClock(
+  clock: MatchClock,
+  player: Player | null,
+  now = Date.now(),
+): void {
+  if (clock.running === player) return;
+  if (clock.running) {
+    const bank = clock.banks[clock.running] - getElapsedCharge(clock, now);
+    clock.banks[clock.running] = Math.max(0, bank);
+  }
+  clock.running = player;
+  clock.startedAt = now;
+  if (player && clock.control.style === "fischer") {
+    clock.banks[player] += clock.control.delaySeconds * 1000;
+  }
+}
+
+export function getClockSnapshot(clock: MatchClock, now = Date.now()): ClockSnapshot {
+  const banks = { ...clock.banks };
+  let delayLeft = 0;
+  if (clock.running) {
+    banks[clock.running] = Math.max(0, banks[clock.running] - getElapsedCharge(clock, now));
+    if (clock.control.style === "bronstein") {
+      delayLeft = Math.max(0, clock.control.delaySeconds * 1000 - (now - clock.startedAt));
+    }
+  }
+  return { control: clock.control, banks, running: clock.running, delayLeft };
+}
+
+/**
+ * Milliseconds until the running player's bank runs out, or null while
+ * no clock is running.
+ */
+export function getTimeUntilFlag(clock: MatchClock, now = Date.now()): number | null {
+  if (!clock.running) return null;
+  const snapshot = getClockSnapshot(clock, now);
+  return snapshot.banks[clock.running] + snapshot.delayLeft;
+}
@@ -0,0 +1,74 @@
+import {
+  Adapter,
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+  type ServerId,
+} from "socket.io-adapter";
+import type { Namespace } from "socket.io";
+import type { SharedState } from "./shared-state.js";
+
+/**
+ * A socket.io adapter that relays broadcasts over the shared state's
+ * pub/sub, so `io.to(socketId).emit(...)` and `io.emit(...)` reach
+ * sockets connected to other instances, and `fetchSockets()` sees them.
+ *
+ * Messages are sent as JSON: binary attachments are not supported.
+ */
+class SharedStateAdapter extends ClusterAdapterWithHeartbeat {
+  private channel: string;
+  private unsubscribers: Promise<() => Promise<void>>[];
+
+  constructor(
+    nsp: Namespace,
+    private shared: SharedState,
+    opts: ClusterAdapterOptions,
+  ) {
+    super(nsp, opts);
+    this.channel = `socket.io#${nsp.name}#`;
+    this.unsubscribers = [
+      shared.subscribe(this.channel, (message) => {
+        this.onMessage(JSON.parse(message) as ClusterMessage);
+      }),
+      shared.subscribe(this.responseChannel(this.uid), (message) => {
+        this.onResponse(JSON.parse(message) as ClusterResponse);
+      }),
+    ];
+  }
+
+  private responseChannel(uid: ServerId): string {
+    return `${this.channel}${uid}#`;
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.shared.publish(this.channel, JSON.stringify(message));
+    return "";
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ): Promise<void> {
+    await this.shared.publish(this.responseChannel(requesterUid), JSON.stringify(response));
+  }
+
+  async close(): Promise<void> {
+    super.close();
+    await Promise.all(this.unsubscribers.map(async (unsubscribe) => (await unsubscribe)()));
+  }
+}
+
+/** Pass as the `adapter` option of a socket.io Server. */
+export function createSharedStateAdapter(
+  shared: SharedState,
+  opts: ClusterAdapterOptions = {},
+): typeof Adapter {
+  // socket.io constructs the adapter itself, one per namespace
+  return class extends SharedStateAdapter {
+    constructor(nsp: Namespace) {
+      super(nsp, shared, opts);
+    }
+  };
+}
@@ -17,6 +17,9 @@ export async function initDatabase(): Promise<void> {
       display_name TEXT NOT NULL,
       username TEXT UNIQUE,
       token TEXT NOT NULL DEFAULT '',
+      rating REAL NOT NULL DEFAULT 1500,
+      peak_rating REAL NOT NULL DEFAULT 1500,
+      experience INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL
     );
 
@@ -27,10 +30,41 @@ export async function initDatabase(): Promise<void> {
       winner_id TEXT,
       win_type TEXT,
       points_won INTEGER,
+      match_length INTEGER NOT NULL DEFAULT 1,
+      game_number INTEGER NOT NULL DEFAULT 1,
+      gold_score INTEGER,
+      red_score INTEGER,
+      match_winner_id TEXT,
+      forfeit_reason TEXT,
       created_at INTEGER NOT NULL,
       completed_at INTEGER
     );
 
+    CREATE TABLE IF NOT EXISTS game_replays (
+      match_id TEXT PRIMARY KEY,
+      initial_state TEXT NOT NULL,
+      events TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS rating_history (
+      id TEXT PRIMARY KEY,
+      player_id TEXT NOT NULL,
+      match_id TEXT NOT NULL,
+      opponent_id TEXT NOT NULL,
+      rating REAL NOT NULL,
+      change REAL NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS active_rooms (
+      id TEXT PRIMARY KEY,
+      snapshot TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS rating_history_player ON rating_history (player_id, created_at);
+
     CREATE TABLE IF NOT EXISTS assets (
       id TEXT PRIMARY KEY,
       creator_id TEXT NOT NULL,
@@ -51,4 +85,28 @@ export async function initDatabase(): Promise<void> {
       created_at INTEGER NOT NULL
     );
   `);
+
+  await addMissingColumns();
+}
+
+// Columns added after a table was first created. CREATE TABLE IF NOT EXISTS
+// leaves existing databases untouched, so add these in place.
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: "matches", column: "match_length", definition: "INTEGER NOT NULL DEFAULT 1" },
+  { table: "matches", column: "game_number", definition: "INTEGER NOT NULL DEFAULT 1" },
+  { table: "matches", column: "gold_score", definition: "INTEGER" },
+  { table: "matches", column: "red_score", definition: "INTEGER" },
+  { table: "matches", column: "match_winner_id", definition: "TEXT" },
+  { table: "matches", column: "forfeit_reason", definition: "TEXT" },
+  { table: "guests", column: "rating", definition: "REAL NOT NULL DEFAULT 1500" },
+  { table: "guests", column: "peak_rating", definition: "REAL NOT NULL DEFAULT 1500" },
+  { table: "guests", column: "experience", definition: "INTEGER NOT NULL DEFAULT 0" },
+];
+
+async function addMissingColumns(): Promise<void> {
+  for (const { table, column, definition } of ADDED_COLUMNS) {
+    const info = await client.execute(`PRAGMA table_info(${table})`);
+    if (info.rows.some((row) => row.name === column)) continue;
+    await client.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
 }
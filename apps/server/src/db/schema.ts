@@ -1,10 +1,13 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
 
 export const guests = sqliteTable("guests", {
   id: text("id").primaryKey(), // UUID
   displayName: text("display_name").notNull(),
   username: text("username").unique(), // Claimed unique username (nullable)
   token: text("token").notNull(), // Persistent auth token
+  rating: real("rating").notNull().default(1500), // FIBS-style rating
+  peakRating: real("peak_rating").notNull().default(1500),
+  experience: integer("experience").notNull().default(0), // Match points played in rated matches
   createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
 });
 
@@ -15,6 +18,12 @@ export const matches = sqliteTable("matches", {
   winnerId: text("winner_id"),
   winType: text("win_type"), // ya_mon, big_ya_mon, massive_ya_mon
   pointsWon: integer("points_won"),
+  matchLength: integer("match_length").notNull().default(1),
+  gameNumber: integer("game_number").notNull().default(1),
+  goldScore: integer("gold_score"), // Match score after this game
+  redScore: integer("red_score"),
+  matchWinnerId: text("match_winner_id"), // Set on the game that decided the match
+  forfeitReason: text("forfeit_reason"), // timeout | abandoned, when the loser forfeited
   createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
   completedAt: integer("completed_at", { mode: "timestamp" }),
 });
@@ -38,3 +47,26 @@ export const assetReports = sqliteTable("asset_reports", {
   reason: text("reason").notNull(),
   createdAt: integer("created_at").notNull(),
 });
+
+export const gameReplays = sqliteTable("game_replays", {
+  matchId: text("match_id").primaryKey(), // matches.id of the recorded game
+  initialState: text("initial_state").notNull(), // JSON GameState when the game began
+  events: text("events").notNull(), // JSON GameEvent[] in the order they happened
+  createdAt: integer("created_at").notNull(),
+});
+
+export const activeRooms = sqliteTable("active_rooms", {
+  id: text("id").primaryKey(), // Room code
+  snapshot: text("snapshot").notNull(), // JSON RoomSnapshot
+  updatedAt: integer("updated_at").notNull(),
+});
+
+export const ratingHistory = sqliteTable("rating_history", {
+  id: text("id").primaryKey(),
+  playerId: text("player_id").notNull(),
+  matchId: text("match_id").notNull(), // matches.id of the game that decided the match
+  opponentId: text("opponent_id").notNull(),
+  rating: real("rating").notNull(), // Rating after the match
+  change: real("change").notNull(),
+  createdAt: integer("created_at").notNull(),
+});
@@ -0,0 +1,45 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { dieFromBytes, type DiceSource } from "@backyamon/engine";
+
+/**
+ * Provably fair dice for one game (commit-reveal).
+ *
+ * A random server seed is drawn when the game starts and only its SHA-256
+ * hash is published. Die number n (counting from 0, opening roll dice
+ * included, Gold's opening die first) is
+ *
+ *   dieFromBytes(HMAC-SHA256(key = seed, message = String(n)))
+ *
+ * When the game ends the seed is revealed, so each player can check that
+ * it matches the hash they were given and recompute every roll. A player
+ * who joins mid-game is told how many dice were already rolled.
+ */
+export interface FairDice {
+  seed: string; // Hex, secret until the game is over
+  hash: string; // Hex SHA-256 of the seed, published at game start
+  rolled: number; // Dice rolled so far, i.e. the index of the next die
+  source: DiceSource;
+}
+
+export function hashSeed(seed: string): string {
+  return createHash("sha256").update(seed).digest("hex");
+}
+
+export function fairDie(seed: string, index: number): number {
+  return dieFromBytes(createHmac("sha256", seed).update(String(index)).digest());
+}
+
+export function createFairDice(): FairDice {
+  return restoreFairDice(randomBytes(32).toString("hex"), 0);
+}
+
+/** Pick up a game's dice where they left off, e.g. after a restart. */
+export function restoreFairDice(seed: string, rolled: number): FairDice {
+  const dice: FairDice = {
+    seed,
+    hash: hashSeed(seed),
+    rolled,
+    source: { rollDie: () => fairDie(seed, dice.rolled++) },
+  };
+  return dice;
+}
@@ -1,57 +1,238 @@
+import type { QueuePreferences, QueueStatus } from "@backyamon/protocol";
 import type { PlayerConnection } from "./rooms.js";
+import type { SharedState } from "./shared-state.js";
 
 interface QueueEntry {
   player: PlayerConnection;
-  joinedAt: Date;
+  rating: number;
+  preferences: QueuePreferences;
+  joinedAt: number; // ms
 }
 
-const queue: QueueEntry[] = [];
+export interface QueuePairing {
+  gold: PlayerConnection; // The player who waited longer
+  red: PlayerConnection;
+  matchLength: number;
+  rated: boolean;
+}
+
+// Rating gap accepted straight away, and how fast it widens while waiting
+const INITIAL_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH_PER_SECOND = 10;
+// After this long anyone compatible will do
+const ANY_RATING_AFTER_MS = 60_000;
+
+// Two players who were just paired are kept apart for this long, unless
+// both have waited REPAIR_WAIT_MS without finding anyone else
+const REPAIR_COOLDOWN_MS = 120_000;
+const REPAIR_WAIT_MS = 30_000;
+
+// Waits of the last few pairings, for the estimate given to new players
+const RECENT_WAITS_KEPT = 20;
+const DEFAULT_WAIT_SECONDS = 30;
+
+/**
+ * Everyone waiting for a quick match, plus what the queue remembers about
+ * recent pairings. Plain data, so it can live in the shared state: load
+ * it with withQueue() to change it, or loadQueue() to look.
+ */
+export interface MatchQueue {
+  entries: QueueEntry[]; // Longest waiting first
+  lastOpponent: Record<string, { playerId: string; pairedAt: number }>;
+  recentWaits: number[]; // Seconds
+}
+
+const QUEUE_KEY = "match-queue";
+
+export function createMatchQueue(): MatchQueue {
+  return { entries: [], lastOpponent: {}, recentWaits: [] };
+}
 
-export function joinQueue(player: PlayerConnection): void {
+export async function loadQueue(shared: SharedState): Promise<MatchQueue> {
+  const value = await shared.get(QUEUE_KEY);
+  return value ? (JSON.parse(value) as MatchQueue) : createMatchQueue();
+}
+
+/**
+ * Load the queue, let `fn` change it and save it again, with the queue
+ * locked throughout so instances take turns.
+ */
+export function withQueue<T>(
+  shared: SharedState,
+  fn: (queue: MatchQueue) => T,
+): Promise<T> {
+  return shared.withLock(QUEUE_KEY, async () => {
+    const queue = await loadQueue(shared);
+    const result = fn(queue);
+    await shared.set(QUEUE_KEY, JSON.stringify(queue));
+    return result;
+  });
+}
+
+export function joinQueue(
+  queue: MatchQueue,
+  player: PlayerConnection,
+  rating = 1500,
+  preferences: QueuePreferences = {},
+  now = Date.now(),
+): void {
   // Don't add if already in queue
-  const existing = queue.findIndex(
+  const existing = queue.entries.findIndex(
     (entry) => entry.player.playerId === player.playerId,
   );
   if (existing !== -1) return;
 
-  queue.push({ player, joinedAt: new Date() });
+  queue.entries.push({ player, rating, preferences, joinedAt: now });
 }
 
-export function leaveQueue(playerId: string): void {
-  const index = queue.findIndex(
+export function leaveQueue(queue: MatchQueue, playerId: string): void {
+  const index = queue.entries.findIndex(
     (entry) => entry.player.playerId === playerId,
   );
   if (index !== -1) {
-    queue.splice(index, 1);
+    queue.entries.splice(index, 1);
   }
 }
 
-export function leaveQueueBySocketId(socketId: string): void {
-  const index = queue.findIndex(
+export function leaveQueueBySocketId(queue: MatchQueue, socketId: string): void {
+  const index = queue.entries.findIndex(
     (entry) => entry.player.socketId === socketId,
   );
   if (index !== -1) {
-    queue.splice(index, 1);
+    queue.entries.splice(index, 1);
+  }
+}
+
+/**
+ * Largest rating gap a player accepts after waiting `waitedMs`: starts
+ * narrow and widens steadily until any rating is fine.
+ */
+export function getRatingWindow(waitedMs: number): number {
+  if (waitedMs >= ANY_RATING_AFTER_MS) return Infinity;
+  return INITIAL_RATING_WINDOW + (waitedMs / 1000) * RATING_WINDOW_GROWTH_PER_SECOND;
+}
+
+function isCompatible(
+  queue: MatchQueue,
+  a: QueueEntry,
+  b: QueueEntry,
+  now: number,
+): boolean {
+  const lengthA = a.preferences.matchLength;
+  const lengthB = b.preferences.matchLength;
+  if (lengthA !== undefined && lengthB !== undefined && lengthA !== lengthB) {
+    return false;
+  }
+  if (Boolean(a.preferences.unrated) !== Boolean(b.preferences.unrated)) {
+    return false;
+  }
+
+  const waitedA = now - a.joinedAt;
+  const waitedB = now - b.joinedAt;
+  const gap = Math.abs(a.rating - b.rating);
+  if (gap > getRatingWindow(waitedA) || gap > getRatingWindow(waitedB)) {
+    return false;
   }
+
+  const last = queue.lastOpponent[a.player.playerId];
+  if (
+    last?.playerId === b.player.playerId &&
+    now - last.pairedAt < REPAIR_COOLDOWN_MS &&
+    Math.min(waitedA, waitedB) < REPAIR_WAIT_MS
+  ) {
+    return false;
+  }
+  return true;
 }
 
 /**
- * Try to match two players from the queue.
- * Returns a pair of PlayerConnections if a match is found, or null.
- * First player in queue becomes Gold.
+ * Try to pair two players from the queue. The longest-waiting player who
+ * has a compatible partner is matched with the closest-rated one and
+ * plays Gold. Returns null when nobody can be paired yet; call again as
+ * time passes, since rating windows widen.
  */
-export function tryMatch(): [PlayerConnection, PlayerConnection] | null {
-  if (queue.length < 2) return null;
+export function tryMatch(queue: MatchQueue, now = Date.now()): QueuePairing | null {
+  forgetOldPairings(queue, now);
+  const entries = queue.entries;
+  for (let i = 0; i < entries.length; i++) {
+    const first = entries[i];
+    let best = -1;
+    for (let j = i + 1; j < entries.length; j++) {
+      if (!isCompatible(queue, first, entries[j], now)) continue;
+      const gap = Math.abs(first.rating - entries[j].rating);
+      if (best === -1 || gap < Math.abs(first.rating - entries[best].rating)) {
+        best = j;
+      }
+    }
+    if (best === -1) continue;
+
+    const second = entries[best];
+    entries.splice(best, 1);
+    entries.splice(i, 1);
 
-  const gold = queue.shift()!;
-  const red = queue.shift()!;
-  return [gold.player, red.player];
+    const recentWaits = queue.recentWaits;
+    for (const entry of [first, second]) {
+      recentWaits.push((now - entry.joinedAt) / 1000);
+    }
+    recentWaits.splice(0, Math.max(0, recentWaits.length - RECENT_WAITS_KEPT));
+    queue.lastOpponent[first.player.playerId] = { playerId: second.player.playerId, pairedAt: now };
+    queue.lastOpponent[second.player.playerId] = { playerId: first.player.playerId, pairedAt: now };
+
+    return {
+      gold: first.player,
+      red: second.player,
+      matchLength: first.preferences.matchLength ?? second.preferences.matchLength ?? 1,
+      rated: !first.preferences.unrated,
+    };
+  }
+  return null;
 }
 
-export function getQueueSize(): number {
-  return queue.length;
+// A pairing past its cooldown no longer keeps anyone apart
+function forgetOldPairings(queue: MatchQueue, now: number): void {
+  for (const [playerId, last] of Object.entries(queue.lastOpponent)) {
+    if (now - last.pairedAt >= REPAIR_COOLDOWN_MS) delete queue.lastOpponent[playerId];
+  }
+}
+
+export function getQueueSize(queue: MatchQueue): number {
+  return queue.entries.length;
+}
+
+export function isInQueue(queue: MatchQueue, playerId: string): boolean {
+  return queue.entries.some((entry) => entry.player.playerId === playerId);
 }
 
-export function isInQueue(playerId: string): boolean {
-  return queue.some((entry) => entry.player.playerId === playerId);
+/** Everyone currently waiting, longest first. */
+export function getQueuedPlayers(queue: MatchQueue): PlayerConnection[] {
+  return queue.entries.map((entry) => entry.player);
+}
+
+/**
+ * Where a player stands in the queue, or null if they are not in it.
+ * The estimated wait is the average wait of recent pairings, less the
+ * time already spent waiting.
+ */
+export function getQueueStatus(
+  queue: MatchQueue,
+  playerId: string,
+  now = Date.now(),
+): QueueStatus | null {
+  const entries = queue.entries;
+  const index = entries.findIndex((entry) => entry.player.playerId === playerId);
+  if (index === -1) return null;
+
+  const waited = now - entries[index].joinedAt;
+  const ratingWindow = getRatingWindow(waited);
+  const recentWaits = queue.recentWaits;
+  const typicalWait =
+    recentWaits.length > 0
+      ? recentWaits.reduce((sum, w) => sum + w, 0) / recentWaits.length
+      : DEFAULT_WAIT_SECONDS;
+  return {
+    position: index + 1,
+    queueSize: entries.length,
+    ratingWindow: Number.isFinite(ratingWindow) ? Math.round(ratingWindow) : null,
+    estimatedWaitSeconds: Math.max(0, Math.round(typicalWait - waited / 1000)),
+  };
 }
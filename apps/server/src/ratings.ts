@@ -0,0 +1,160 @@
+import { randomUUID } from "node:crypto";
+import { and, asc, desc, eq, gt, isNotNull, sql } from "drizzle-orm";
+import { db } from "./db/index.js";
+import { guests, ratingHistory } from "./db/schema.js";
+
+// New players' ratings move faster until they have played this many
+// match points, as on FIBS
+const PROVISIONAL_EXPERIENCE = 400;
+
+/**
+ * FIBS chance that a player rated `rating` beats one rated `oppRating`
+ * in a match to `matchLength`. Longer matches favour the stronger player
+ * more, since luck evens out.
+ */
+export function getWinProbability(
+  rating: number,
+  oppRating: number,
+  matchLength: number,
+): number {
+  const diff = rating - oppRating;
+  return 1 / (1 + Math.pow(10, (-diff * Math.sqrt(matchLength)) / 2000));
+}
+
+/**
+ * FIBS multiplier for a player's rating change: 5 for a newcomer, falling
+ * by 1 per 100 match points played, down to 1 from 400 on.
+ */
+export function getExperienceFactor(experience: number): number {
+  if (experience >= PROVISIONAL_EXPERIENCE) return 1;
+  return Math.max(1, 5 - experience / 100);
+}
+
+export interface RatedPlayer {
+  rating: number;
+  experience: number;
+}
+
+/**
+ * Rating changes after a match to `matchLength`, FIBS formula:
+ * the winner gains 4 * sqrt(N) * (chance the loser would have won), the
+ * loser drops the same amount, each scaled by their own experience.
+ */
+export function getRatingChanges(
+  winner: RatedPlayer,
+  loser: RatedPlayer,
+  matchLength: number,
+): { winner: number; loser: number } {
+  const upset = getWinProbability(loser.rating, winner.rating, matchLength);
+  const points = 4 * Math.sqrt(matchLength) * upset;
+  return {
+    winner: points * getExperienceFactor(winner.experience),
+    loser: -points * getExperienceFactor(loser.experience),
+  };
+}
+
+/**
+ * Rate a finished match: update both players' ratings, peaks and
+ * experience, and record each change in their rating history.
+ * `matchId` is the matches row of the game that decided it.
+ */
+export async function rateMatch(
+  matchId: string,
+  winnerId: string,
+  loserId: string,
+  matchLength: number,
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    const rows = await tx
+      .select({
+        id: guests.id,
+        rating: guests.rating,
+        peakRating: guests.peakRating,
+        experience: guests.experience,
+      })
+      .from(guests)
+      .where(sql`${guests.id} IN (${winnerId}, ${loserId})`)
+      .all();
+    const winner = rows.find((r) => r.id === winnerId);
+    const loser = rows.find((r) => r.id === loserId);
+    if (!winner || !loser) return;
+
+    const changes = getRatingChanges(winner, loser, matchLength);
+    const now = Date.now();
+    for (const [player, opponentId, change] of [
+      [winner, loserId, changes.winner],
+      [loser, winnerId, changes.loser],
+    ] as const) {
+      const rating = player.rating + change;
+      await tx.update(guests)
+        .set({
+          rating,
+          peakRating: Math.max(player.peakRating, rating),
+          experience: player.experience + matchLength,
+        })
+        .where(eq(guests.id, player.id))
+        .run();
+      await tx.insert(ratingHistory)
+        .values({
+          id: randomUUID(),
+          playerId: player.id,
+          matchId,
+          opponentId,
+          rating,
+          change,
+          createdAt: now,
+        })
+        .run();
+    }
+  });
+}
+
+/** A player's rating after each rated match, oldest first. */
+export async function getRatingHistory(
+  playerId: string,
+): Promise<{ rating: number; change: number; createdAt: number }[]> {
+  return db
+    .select({
+      rating: ratingHistory.rating,
+      change: ratingHistory.change,
+      createdAt: ratingHistory.createdAt,
+    })
+    .from(ratingHistory)
+    .where(eq(ratingHistory.playerId, playerId))
+    .orderBy(asc(ratingHistory.createdAt))
+    .all();
+}
+
+/**
+ * Named players who have finished at least one rated match, best first.
+ */
+export async function getLeaderboard(limit: number): Promise<
+  {
+    rank: number;
+    username: string;
+    rating: number;
+    peakRating: number;
+    experience: number;
+  }[]
+> {
+  const rows = await db
+    .select({
+      username: guests.username,
+      rating: guests.rating,
+      peakRating: guests.peakRating,
+      experience: guests.experience,
+    })
+    .from(guests)
+    .where(and(isNotNull(guests.username), gt(guests.experience, 0)))
+    .orderBy(desc(guests.rating))
+    .limit(limit)
+    .all();
+
+  return rows.map((row, i) => ({
+    rank: i + 1,
+    username: row.username!,
+    rating: row.rating,
+    peakRating: row.peakRating,
+    experience: row.experience,
+  }));
+}
@@ -0,0 +1,78 @@
+import { eq, sql } from "drizzle-orm";
+import { cloneState, type GameEvent, type GameState, type UntimedEvent } from "@backyamon/engine";
+import type { Replay } from "@backyamon/protocol";
+import { db } from "./db/index.js";
+import { gameReplays, guests, matches } from "./db/schema.js";
+import type { GameRoom } from "./rooms.js";
+
+/**
+ * Append an event to the room's current game log, stamped with the time
+ * the server handled it.
+ */
+export function recordEvent(room: GameRoom, event: UntimedEvent): void {
+  room.events.push({ ...event, at: Date.now() } as GameEvent);
+}
+
+/**
+ * Start a fresh log for the room's next game. The starting position is
+ * copied because the opening roll updates room.state in place.
+ */
+export function resetRecording(room: GameRoom): void {
+  room.gameStartState = cloneState(room.state);
+  room.events = [];
+}
+
+export async function saveReplay(
+  matchId: string,
+  initialState: GameState,
+  events: GameEvent[],
+): Promise<void> {
+  await db.insert(gameReplays)
+    .values({
+      matchId,
+      initialState: JSON.stringify(initialState),
+      events: JSON.stringify(events),
+      createdAt: Date.now(),
+    })
+    .run();
+}
+
+/**
+ * Load a recorded game with both players' names resolved.
+ * Returns null when no replay exists for the match.
+ */
+export async function loadReplay(matchId: string): Promise<Replay | null> {
+  const [row] = await db
+    .select({
+      matchId: gameReplays.matchId,
+      initialState: gameReplays.initialState,
+      events: gameReplays.events,
+      goldPlayerId: matches.goldPlayerId,
+      redPlayerId: matches.redPlayerId,
+      gameNumber: matches.gameNumber,
+      completedAt: matches.completedAt,
+    })
+    .from(gameReplays)
+    .innerJoin(matches, eq(matches.id, gameReplays.matchId))
+    .where(eq(gameReplays.matchId, matchId))
+    .all();
+
+  if (!row) return null;
+
+  const playerRows = await db
+    .select({ id: guests.id, username: guests.username, displayName: guests.displayName })
+    .from(guests)
+    .where(sql`${guests.id} IN (${row.goldPlayerId}, ${row.redPlayerId})`)
+    .all();
+  const names = new Map(playerRows.map((p) => [p.id, p.username ?? p.displayName]));
+
+  return {
+    matchId: row.matchId,
+    goldPlayer: names.get(row.goldPlayerId) ?? "Unknown",
+    redPlayer: names.get(row.redPlayerId) ?? "Unknown",
+    gameNumber: row.gameNumber,
+    initialState: JSON.parse(row.initialState) as GameState,
+    events: JSON.parse(row.events) as GameEvent[],
+    completedAt: row.completedAt?.toISOString() ?? null,
+  };
+}
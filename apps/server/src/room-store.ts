@@ -0,0 +1,68 @@
+import { eq } from "drizzle-orm";
+import { db } from "./db/index.js";
+import { activeRooms } from "./db/schema.js";
+import { switchClock } from "./clocks.js";
+import { fromSnapshot, toSnapshot, type GameRoom, type RoomSnapshot } from "./rooms.js";
+
+/**
+ * Rooms saved to the database so a restart doesn't end every live game.
+ * Each room is written after every change and deleted when it closes; on
+ * startup the saved rooms are rebuilt and players get back in with
+ * reconnect-to-game.
+ *
+ * Socket ids in a snapshot are stale by the time it is loaded: players
+ * are matched by playerId when they reconnect, and spectators are not
+ * saved at all.
+ */
+
+// Writes go out one at a time so a room's snapshots land in order
+let writes: Promise<void> = Promise.resolve();
+
+function enqueue(write: () => Promise<unknown>): Promise<void> {
+  writes = writes.then(write).then(
+    () => undefined,
+    (err: unknown) => console.error("Failed to save room:", err),
+  );
+  return writes;
+}
+
+/**
+ * Rebuild a room. A clock that was running is charged up to `savedAt` and
+ * stopped; it starts again once a player is back.
+ */
+function restoreSnapshot(snapshot: RoomSnapshot, savedAt: number): GameRoom {
+  const room = fromSnapshot(snapshot);
+  if (room.clock) switchClock(room.clock, null, savedAt);
+  return room;
+}
+
+/** Save the room as it is now, replacing any earlier snapshot. */
+export function saveRoomSnapshot(room: GameRoom): Promise<void> {
+  const snapshot = JSON.stringify({ ...toSnapshot(room), spectators: [] });
+  const updatedAt = Date.now();
+  return enqueue(() =>
+    db.insert(activeRooms)
+      .values({ id: room.id, snapshot, updatedAt })
+      .onConflictDoUpdate({ target: activeRooms.id, set: { snapshot, updatedAt } })
+      .run(),
+  );
+}
+
+export function deleteRoomSnapshot(roomId: string): Promise<void> {
+  return enqueue(() => db.delete(activeRooms).where(eq(activeRooms.id, roomId)).run());
+}
+
+/** Every saved room, rebuilt. Snapshots that fail to load are dropped. */
+export async function loadRoomSnapshots(): Promise<GameRoom[]> {
+  const rows = await db.select().from(activeRooms).all();
+  const restored: GameRoom[] = [];
+  for (const row of rows) {
+    try {
+      restored.push(restoreSnapshot(JSON.parse(row.snapshot) as RoomSnapshot, row.updatedAt));
+    } catch (err) {
+      console.error(`Dropping unreadable saved room ${row.id}:`, err);
+      await db.delete(activeRooms).where(eq(activeRooms.id, row.id)).run();
+    }
+  }
+  return restored;
+}
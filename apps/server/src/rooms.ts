@@ -1,4 +1,14 @@
-import { Player, createInitialState, type GameState } from "@backyamon/engine";
+import {
+  Player,
+  cloneState,
+  createInitialState,
+  type GameEvent,
+  type GameState,
+} from "@backyamon/engine";
+import type { LiveGame, TimeControl, WaitingRoom } from "@backyamon/protocol";
+import { createFairDice, restoreFairDice, type FairDice } from "./fair-dice.js";
+import { createClock, type MatchClock } from "./clocks.js";
+import type { SharedState } from "./shared-state.js";
 
 export interface PlayerConnection {
   socketId: string;
@@ -10,12 +20,84 @@ export interface GameRoom {
   id: string; // Short room code (6 chars)
   gold: PlayerConnection | null;
   red: PlayerConnection | null;
+  spectators: PlayerConnection[]; // Watching, not playing
+  spectatorChat: boolean; // Whether spectators may post in the room chat
   state: GameState;
+  gameNumber: number; // 1-based index of the current game within the match
+  gameStartState: GameState; // Position the current game began from (for replays)
+  events: GameEvent[]; // Everything that has happened in the current game
+  fairDice: FairDice; // Committed dice for the current game
+  rated: boolean; // Whether the finished match updates both players' ratings
+  clock: MatchClock | null; // null for an untimed match
   createdAt: Date;
-  disconnectTimer: NodeJS.Timeout | null;
 }
 
-const rooms = new Map<string, GameRoom>();
+/**
+ * A room as stored: plain data, with the dice reduced to their seed and
+ * how many have been rolled.
+ */
+export interface RoomSnapshot {
+  id: string;
+  gold: PlayerConnection | null;
+  red: PlayerConnection | null;
+  spectators: PlayerConnection[];
+  state: GameState;
+  gameNumber: number;
+  gameStartState: GameState;
+  events: GameEvent[];
+  dice: { seed: string; rolled: number };
+  rated: boolean;
+  spectatorChat: boolean;
+  clock: MatchClock | null;
+  createdAt: number;
+}
+
+export function toSnapshot(room: GameRoom): RoomSnapshot {
+  return {
+    id: room.id,
+    gold: room.gold,
+    red: room.red,
+    spectators: room.spectators,
+    state: room.state,
+    gameNumber: room.gameNumber,
+    gameStartState: room.gameStartState,
+    events: room.events,
+    dice: { seed: room.fairDice.seed, rolled: room.fairDice.rolled },
+    rated: room.rated,
+    spectatorChat: room.spectatorChat,
+    clock: room.clock,
+    createdAt: room.createdAt.getTime(),
+  };
+}
+
+export function fromSnapshot(snapshot: RoomSnapshot): GameRoom {
+  return {
+    id: snapshot.id,
+    gold: snapshot.gold,
+    red: snapshot.red,
+    spectators: snapshot.spectators ?? [],
+    spectatorChat: snapshot.spectatorChat,
+    state: snapshot.state,
+    gameNumber: snapshot.gameNumber,
+    gameStartState: snapshot.gameStartState,
+    events: snapshot.events,
+    fairDice: restoreFairDice(snapshot.dice.seed, snapshot.dice.rolled),
+    rated: snapshot.rated,
+    clock: snapshot.clock,
+    createdAt: new Date(snapshot.createdAt),
+  };
+}
+
+export const MAX_MATCH_LENGTH = 25;
+
+export function isValidMatchLength(matchLength: unknown): matchLength is number {
+  return (
+    typeof matchLength === "number" &&
+    Number.isInteger(matchLength) &&
+    matchLength >= 1 &&
+    matchLength <= MAX_MATCH_LENGTH
+  );
+}
 
 // Reggae legends + iconic words — single words used as room names
 const ROOM_NAMES = [
@@ -38,90 +120,184 @@ function pick<T>(arr: T[]): T {
   return arr[Math.floor(Math.random() * arr.length)];
 }
 
-function generateRoomName(): string {
+function normalizeRoomId(id: string): string {
+  return id.trim().toUpperCase().replace(/\s+/g, "-");
+}
+
+// Rooms live in the shared state, so every instance sees them. Each
+// player's and spectator's socket is indexed to its room; entries can go
+// stale (a player reconnects, a spectator moves on), so lookups check the
+// room still has that socket.
+const ROOMS_KEY = "rooms"; // Room id -> RoomSnapshot
+const PLAYER_SOCKETS_KEY = "room-players"; // Socket id -> room id
+const SPECTATOR_SOCKETS_KEY = "room-spectators"; // Socket id -> room id
+
+function roomLock(roomId: string): string {
+  return `room:${roomId}`;
+}
+
+async function hasRoom(shared: SharedState, roomId: string): Promise<boolean> {
+  return (await shared.hget(ROOMS_KEY, roomId)) !== null;
+}
+
+/**
+ * Store the room as it is now. withRoom() does this for you; call it
+ * directly only to update the lobby lists before withRoom() returns.
+ */
+export async function saveRoom(shared: SharedState, room: GameRoom): Promise<void> {
+  await shared.hset(ROOMS_KEY, room.id, JSON.stringify(toSnapshot(room)));
+  for (const conn of [room.gold, room.red]) {
+    if (conn) await shared.hset(PLAYER_SOCKETS_KEY, conn.socketId, room.id);
+  }
+  for (const spectator of room.spectators) {
+    await shared.hset(SPECTATOR_SOCKETS_KEY, spectator.socketId, room.id);
+  }
+}
+
+async function generateRoomName(shared: SharedState): Promise<string> {
   let name: string;
   do {
     name = pick(ROOM_NAMES);
-  } while (rooms.has(name)); // Ensure uniqueness
+  } while (await hasRoom(shared, name)); // Ensure uniqueness
   return name;
 }
 
-function normalizeRoomId(id: string): string {
-  return id.trim().toUpperCase().replace(/\s+/g, "-");
-}
-
-export function createRoom(player: PlayerConnection, customName?: string): GameRoom {
+/**
+ * Open a new room with `player` in the Gold seat. `settings` are applied
+ * before the room is first saved, so nobody sees it without them.
+ */
+export async function createRoom(
+  shared: SharedState,
+  player: PlayerConnection,
+  customName?: string,
+  matchLength = 1,
+  timeControl: TimeControl | null = null,
+  settings: Partial<Pick<GameRoom, "red" | "rated" | "spectatorChat">> = {},
+): Promise<GameRoom> {
+  if (!isValidMatchLength(matchLength)) {
+    throw new Error(`Match length must be between 1 and ${MAX_MATCH_LENGTH}.`);
+  }
   let id: string;
   if (customName) {
     id = normalizeRoomId(customName);
     if (id.length < 2 || id.length > 30) {
       throw new Error("Room name must be 2-30 characters.");
     }
-    if (rooms.has(id)) {
-      throw new Error("Room name already taken. Try another!");
-    }
   } else {
-    id = generateRoomName();
+    id = await generateRoomName(shared);
   }
+  const state = createInitialState(matchLength);
   const room: GameRoom = {
     id,
     gold: player,
     red: null,
-    state: createInitialState(),
+    spectators: [],
+    spectatorChat: false,
+    state,
+    gameNumber: 1,
+    gameStartState: cloneState(state),
+    events: [],
+    fairDice: createFairDice(),
+    rated: true,
+    clock: timeControl ? createClock(timeControl) : null,
     createdAt: new Date(),
-    disconnectTimer: null,
+    ...settings,
   };
-  rooms.set(id, room);
+  await shared.withLock(roomLock(id), async () => {
+    if (await hasRoom(shared, id)) {
+      throw new Error("Room name already taken. Try another!");
+    }
+    await saveRoom(shared, room);
+  });
   return room;
 }
 
 export function joinRoom(
+  shared: SharedState,
   roomId: string,
   player: PlayerConnection,
-): GameRoom | null {
-  const room = rooms.get(normalizeRoomId(roomId));
-  if (!room) return null;
-  if (room.red !== null) return null; // Room is full
-  if (room.gold && room.gold.playerId === player.playerId) return null; // Can't join your own room
-  room.red = player;
-  return room;
+): Promise<GameRoom | null> {
+  return withRoom(shared, roomId, (room) => {
+    if (room.red !== null) return null; // Room is full
+    if (room.gold && room.gold.playerId === player.playerId) return null; // Can't join your own room
+    room.red = player;
+    return room;
+  }).then((room) => room ?? null);
 }
 
-export function getRoom(roomId: string): GameRoom | undefined {
-  return rooms.get(normalizeRoomId(roomId));
+/**
+ * Put a room rebuilt from a saved snapshot back in play, unless another
+ * instance already has. Returns whether it was added.
+ */
+export function addRestoredRoom(shared: SharedState, room: GameRoom): Promise<boolean> {
+  return shared.withLock(roomLock(room.id), async () => {
+    if (await hasRoom(shared, room.id)) return false;
+    await saveRoom(shared, room);
+    return true;
+  });
 }
 
-export function removeRoom(roomId: string): void {
-  const normalized = normalizeRoomId(roomId);
-  const room = rooms.get(normalized);
-  if (room?.disconnectTimer) {
-    clearTimeout(room.disconnectTimer);
-  }
-  rooms.delete(normalized);
+/** The room as it is now. To change it, use withRoom(). */
+export async function getRoom(
+  shared: SharedState,
+  roomId: string,
+): Promise<GameRoom | undefined> {
+  const value = await shared.hget(ROOMS_KEY, normalizeRoomId(roomId));
+  return value ? fromSnapshot(JSON.parse(value) as RoomSnapshot) : undefined;
 }
 
-export function findRoomBySocketId(socketId: string): GameRoom | undefined {
-  for (const room of rooms.values()) {
-    if (
-      room.gold?.socketId === socketId ||
-      room.red?.socketId === socketId
-    ) {
-      return room;
-    }
-  }
-  return undefined;
+/**
+ * Load a room, let `fn` change it and save it again, with the room locked
+ * throughout so its events are handled one at a time whichever instance
+ * receives them. Resolves to undefined, without calling `fn`, if there is
+ * no such room. A room removed by `fn` stays removed.
+ */
+export function withRoom<T>(
+  shared: SharedState,
+  roomId: string,
+  fn: (room: GameRoom) => T | Promise<T>,
+): Promise<T | undefined> {
+  const id = normalizeRoomId(roomId);
+  return shared.withLock(roomLock(id), async () => {
+    const room = await getRoom(shared, id);
+    if (!room) return undefined;
+    const result = await fn(room);
+    if (await hasRoom(shared, id)) await saveRoom(shared, room);
+    return result;
+  });
 }
 
-export function findRoomByPlayerId(playerId: string): GameRoom | undefined {
-  for (const room of rooms.values()) {
-    if (
-      room.gold?.playerId === playerId ||
-      room.red?.playerId === playerId
-    ) {
-      return room;
+/** Call from inside withRoom() for the same room. */
+export async function removeRoom(shared: SharedState, room: GameRoom): Promise<void> {
+  await shared.hdel(ROOMS_KEY, room.id);
+  for (const conn of [room.gold, room.red, ...room.spectators]) {
+    if (!conn) continue;
+    for (const key of [PLAYER_SOCKETS_KEY, SPECTATOR_SOCKETS_KEY]) {
+      if ((await shared.hget(key, conn.socketId)) === room.id) {
+        await shared.hdel(key, conn.socketId);
+      }
     }
   }
-  return undefined;
+}
+
+/** The id of the room `socketId` has a seat in, if any. */
+export async function findRoomIdBySocketId(
+  shared: SharedState,
+  socketId: string,
+): Promise<string | undefined> {
+  const roomId = await shared.hget(PLAYER_SOCKETS_KEY, socketId);
+  if (!roomId) return undefined;
+  const room = await getRoom(shared, roomId);
+  return room && getPlayerRole(room, socketId) ? roomId : undefined;
+}
+
+export async function findRoomByPlayerId(
+  shared: SharedState,
+  playerId: string,
+): Promise<GameRoom | undefined> {
+  return (await getAllRooms(shared)).find(
+    (room) => room.gold?.playerId === playerId || room.red?.playerId === playerId,
+  );
 }
 
 export function getPlayerRole(
@@ -133,26 +309,84 @@ export function getPlayerRole(
   return null;
 }
 
-export function getAllRooms(): Map<string, GameRoom> {
-  return rooms;
+/**
+ * Start watching a room whose seats are both taken. Returns false if the
+ * spectator is one of its players.
+ */
+export function addSpectator(room: GameRoom, spectator: PlayerConnection): boolean {
+  if (
+    room.gold?.playerId === spectator.playerId ||
+    room.red?.playerId === spectator.playerId
+  ) {
+    return false;
+  }
+  if (!room.spectators.some((s) => s.socketId === spectator.socketId)) {
+    room.spectators.push(spectator);
+  }
+  return true;
 }
 
-export interface WaitingRoom {
-  id: string;
-  hostName: string;
-  createdAt: string;
+/** Stop `socketId` watching `room`. Returns false if it wasn't. */
+export function removeSpectator(room: GameRoom, socketId: string): boolean {
+  const index = room.spectators.findIndex((s) => s.socketId === socketId);
+  if (index === -1) return false;
+  room.spectators.splice(index, 1);
+  return true;
+}
+
+/** The id of the room `socketId` is watching, if any. */
+export async function findRoomIdBySpectatorSocketId(
+  shared: SharedState,
+  socketId: string,
+): Promise<string | undefined> {
+  const roomId = await shared.hget(SPECTATOR_SOCKETS_KEY, socketId);
+  if (!roomId) return undefined;
+  const room = await getRoom(shared, roomId);
+  return room?.spectators.some((s) => s.socketId === socketId) ? roomId : undefined;
+}
+
+/** Drop a closed socket from the room indexes. */
+export async function forgetRoomSocket(shared: SharedState, socketId: string): Promise<void> {
+  await shared.hdel(PLAYER_SOCKETS_KEY, socketId);
+  await shared.hdel(SPECTATOR_SOCKETS_KEY, socketId);
 }
 
-export function getWaitingRooms(): WaitingRoom[] {
+export async function getAllRooms(shared: SharedState): Promise<GameRoom[]> {
+  const values = Object.values(await shared.hgetall(ROOMS_KEY));
+  return values.map((value) => fromSnapshot(JSON.parse(value) as RoomSnapshot));
+}
+
+export async function getWaitingRooms(shared: SharedState): Promise<WaitingRoom[]> {
   const waiting: WaitingRoom[] = [];
-  for (const room of rooms.values()) {
+  for (const room of await getAllRooms(shared)) {
     if (room.gold && room.red === null) {
       waiting.push({
         id: room.id,
         hostName: room.gold.displayName,
+        matchLength: room.state.matchLength,
+        timeControl: room.clock?.control ?? null,
         createdAt: room.createdAt.toISOString(),
       });
     }
   }
   return waiting;
 }
+
+/** Rooms with both seats taken, for spectators to pick from. */
+export async function getLiveGames(shared: SharedState): Promise<LiveGame[]> {
+  const live: LiveGame[] = [];
+  for (const room of await getAllRooms(shared)) {
+    if (room.gold && room.red) {
+      live.push({
+        id: room.id,
+        goldName: room.gold.displayName,
+        redName: room.red.displayName,
+        matchLength: room.state.matchLength,
+        matchScore: room.state.matchScore,
+        timeControl: room.clock?.control ?? null,
+        spectators: room.spectators.length,
+      });
+    }
+  }
+  return live;
+}
@@ -0,0 +1,1919 @@
+import { createServer } from "http";
+import { randomUUID } from "node:crypto";
+import { Server, type Socket } from "socket.io";
+import {
+  Player,
+  rollDice,
+  rollSingleDie,
+  getLegalMoves,
+  getAllLegalTurns,
+  applyMove,
+  endTurn,
+  canMove,
+  canOfferDouble,
+  offerDouble,
+  acceptDouble,
+  declineDouble,
+  canOfferResignation,
+  isResignationPending,
+  offerResignation,
+  acceptResignation,
+  rejectResignation,
+  checkWinner,
+  getWinType,
+  getPointsWon,
+  getMatchWinner,
+  getScoreAfterGame,
+  isMatchOver,
+  startNextGame,
+  forfeitMatch,
+  type ForfeitReason,
+  type Move,
+  type WinType,
+} from "@backyamon/engine";
+import {
+  validateClientEvent,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type ClockSnapshot,
+  type PlayerProfile,
+  type ServerToClientEvents,
+} from "@backyamon/protocol";
+import { createGuest, lookupByToken, signInAs } from "./auth.js";
+import {
+  createRoom,
+  joinRoom,
+  getRoom,
+  withRoom,
+  saveRoom,
+  removeRoom,
+  addRestoredRoom,
+  findRoomIdBySocketId,
+  getPlayerRole,
+  getWaitingRooms,
+  getLiveGames,
+  addSpectator,
+  removeSpectator,
+  findRoomIdBySpectatorSocketId,
+  forgetRoomSocket,
+  isValidMatchLength,
+  MAX_MATCH_LENGTH,
+  type GameRoom,
+  type PlayerConnection,
+} from "./rooms.js";
+import {
+  getQueueStatus,
+  getQueuedPlayers,
+  joinQueue,
+  leaveQueue,
+  leaveQueueBySocketId,
+  loadQueue,
+  tryMatch,
+  withQueue,
+  type QueuePairing,
+} from "./matchmaking.js";
+import { deleteSession, getSession, setSession } from "./sessions.js";
+import { createSharedStateAdapter } from "./cluster-adapter.js";
+import type { SharedState } from "./shared-state.js";
+import { db, initDatabase } from "./db/index.js";
+import { assets, assetReports, guests, matches } from "./db/schema.js";
+import { and, desc, eq, isNotNull, or, sql } from "drizzle-orm";
+import { deleteObject, getPublicUrl, getUploadUrl } from "./r2.js";
+import { loadReplay, recordEvent, resetRecording, saveReplay } from "./replays.js";
+import { createFairDice } from "./fair-dice.js";
+import { deleteRoomSnapshot, loadRoomSnapshots, saveRoomSnapshot } from "./room-store.js";
+import { forgetChatSender, prepareChatText, tryRecordChat } from "./chat.js";
+import { getLeaderboard, getRatingHistory, rateMatch } from "./ratings.js";
+import {
+  getClockSnapshot,
+  getPlayerOnClock,
+  getStandardTimeControl,
+  getTimeUntilFlag,
+  isValidTimeControl,
+  switchClock,
+} from "./clocks.js";
+
+// Pause between games of a match so both players can see the result
+const NEXT_GAME_DELAY_MS = 5_000;
+
+// Stakes a player may resign: a single game, gammon or backgammon
+const WIN_TYPES: WinType[] = ["ya_mon", "big_ya_mon", "massive_ya_mon"];
+
+// How long a disconnected player has to come back before they forfeit the
+// match, and before a room with nobody connected is removed
+const RECONNECT_GRACE_MS =
+  (Number(process.env.RECONNECT_GRACE_SECONDS) || 60) * 1000;
+
+// Re-run matchmaking while players wait, since rating windows widen
+const QUEUE_TICK_MS = 5_000;
+
+type GameIo = Server<ClientToServerEvents, ServerToClientEvents>;
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+export interface GameServerOptions {
+  shared: SharedState;
+}
+
+export interface GameServer {
+  io: GameIo;
+  /** Start accepting connections, then get the database ready. */
+  listen(port: number): Promise<number>;
+  close(): Promise<void>;
+}
+
+/**
+ * One instance of the game server. Everything players share (rooms, the
+ * matchmaking queue, sessions) lives in `options.shared`, so any number
+ * of instances given the same shared state act as one server.
+ */
+export function createGameServer({ shared }: GameServerOptions): GameServer {
+  const httpServer = createServer();
+  const io: GameIo = new Server(httpServer, {
+    cors: {
+      origin: process.env.WEB_URL || "http://localhost:3000",
+      methods: ["GET", "POST"],
+    },
+    pingInterval: 10_000, // 10s — check connection frequently
+    pingTimeout: 20_000,  // 20s — allow some slack before declaring dead
+    adapter: createSharedStateAdapter(shared),
+  });
+
+  // Timers for the rooms this instance last handled. Another instance may
+  // hold timers for the same room, so each handler checks the room is
+  // still in the state it was armed for.
+  const clockTimers = new Map<string, NodeJS.Timeout>(); // Room id -> running player's flag
+  const disconnectTimers = new Map<string, NodeJS.Timeout>(); // Room id and seat -> reconnect grace
+  const nextGameTimers = new Map<string, NodeJS.Timeout>(); // Room id -> next game of the match
+
+  // Whether the database is ready
+  let dbReady = false;
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // Helpers
+  // ──────────────────────────────────────────────────────────────────────────
+
+  function getOpponentSocket(room: GameRoom, mySocketId: string): string | null {
+    if (room.gold?.socketId === mySocketId) return room.red?.socketId ?? null;
+    if (room.red?.socketId === mySocketId) return room.gold?.socketId ?? null;
+    return null;
+  }
+
+  function broadcastToRoom<E extends keyof ServerToClientEvents>(
+    room: GameRoom,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ): void {
+    if (room.gold) io.to(room.gold.socketId).emit(event, ...args);
+    if (room.red) io.to(room.red.socketId).emit(event, ...args);
+    broadcastToSpectators(room, event, ...args);
+  }
+
+  function broadcastToSpectators<E extends keyof ServerToClientEvents>(
+    room: GameRoom,
+    event: E,
+    ...args: Parameters<ServerToClientEvents[E]>
+  ): void {
+    for (const spectator of room.spectators) {
+      io.to(spectator.socketId).emit(event, ...args);
+    }
+  }
+
+  // The lobby lists are read from the shared state: save any change to a
+  // room before broadcasting them
+
+  async function broadcastRoomList(): Promise<void> {
+    io.emit("room-list", { rooms: await getWaitingRooms(shared) });
+    await broadcastLiveGames();
+  }
+
+  async function broadcastLiveGames(): Promise<void> {
+    io.emit("live-games", { games: await getLiveGames(shared) });
+  }
+
+  /** Tell everyone in the room, players included, how many are watching. */
+  async function broadcastSpectatorCount(room: GameRoom): Promise<void> {
+    broadcastToRoom(room, "spectators-changed", { count: room.spectators.length });
+    await broadcastLiveGames();
+  }
+
+  /**
+   * Remove a room, sending anyone still watching it back to the lobby.
+   * Call from inside withRoom() for the room.
+   */
+  async function closeRoom(room: GameRoom): Promise<void> {
+    broadcastToSpectators(room, "watch-ended", { roomId: room.id });
+    clearTimeout(clockTimers.get(room.id));
+    clockTimers.delete(room.id);
+    for (const player of [Player.Gold, Player.Red]) clearDisconnectTimer(room.id, player);
+    clearTimeout(nextGameTimers.get(room.id));
+    nextGameTimers.delete(room.id);
+    await removeRoom(shared, room);
+    deleteRoomSnapshot(room.id);
+  }
+
+  /**
+   * Bookkeeping after every change to room.state, before broadcasting it:
+   * move the clock on and save the room so a restart doesn't end the game.
+   */
+  function commitRoom(room: GameRoom): void {
+    syncClock(room);
+    saveRoomSnapshot(room);
+  }
+
+  /** Put whoever has to act next on the clock and re-arm the timeout. */
+  function syncClock(room: GameRoom): void {
+    if (!room.clock) return;
+    const now = Date.now();
+    switchClock(room.clock, getPlayerOnClock(room.state), now);
+
+    clearTimeout(clockTimers.get(room.id));
+    clockTimers.delete(room.id);
+    const timeLeft = getTimeUntilFlag(room.clock, now);
+    if (timeLeft !== null) {
+      const roomId = room.id;
+      clockTimers.set(roomId, setTimeout(() => {
+        clockTimers.delete(roomId);
+        withRoom(shared, roomId, handleTimeout).catch((err: unknown) => {
+          console.error(`Clock timeout failed in room ${roomId}:`, err);
+        });
+      }, timeLeft));
+    }
+  }
+
+  function clockSnapshot(room: GameRoom): ClockSnapshot | null {
+    return room.clock ? getClockSnapshot(room.clock) : null;
+  }
+
+  /** The running player's time is up: they forfeit the match. */
+  async function handleTimeout(room: GameRoom): Promise<void> {
+    const loser = room.clock?.running;
+    if (!room.clock || !loser) return;
+    if (getTimeUntilFlag(room.clock)! > 0) {
+      // Timer fired early, or the clock has moved on since; wait out the rest
+      syncClock(room);
+      return;
+    }
+
+    room.state = forfeitMatch(room.state, loser, "timeout");
+    recordEvent(room, { type: "forfeit", player: loser, reason: "timeout" });
+    await handleGameOver(room);
+  }
+
+  function movesEqual(a: Move, b: Move): boolean {
+    return a.from === b.from && a.to === b.to;
+  }
+
+  async function saveMatchResult(
+    room: GameRoom,
+    winnerId: string,
+    winType: WinType,
+    pointsWon: number,
+    matchScore: Record<Player, number>,
+    matchWinnerId: string | null,
+  ): Promise<void> {
+    if (!room.gold || !room.red) return;
+    // Snapshot the log now — the next game resets it while we await the insert
+    const initialState = room.gameStartState;
+    const events = room.events;
+    const goldPlayerId = room.gold.playerId;
+    const redPlayerId = room.red.playerId;
+    const matchLength = room.state.matchLength;
+    const id = randomUUID();
+    const now = new Date();
+    await db.insert(matches)
+      .values({
+        id,
+        goldPlayerId,
+        redPlayerId,
+        winnerId,
+        winType,
+        pointsWon,
+        matchLength,
+        gameNumber: room.gameNumber,
+        goldScore: matchScore[Player.Gold],
+        redScore: matchScore[Player.Red],
+        matchWinnerId,
+        forfeitReason: room.state.forfeit ?? null,
+        createdAt: room.createdAt,
+        completedAt: now,
+      })
+      .run();
+    await saveReplay(id, initialState, events);
+
+    if (matchWinnerId && room.rated) {
+      const loserId = matchWinnerId === goldPlayerId ? redPlayerId : goldPlayerId;
+      await rateMatch(id, matchWinnerId, loserId, matchLength);
+    }
+  }
+
+  /** Whether `conn`'s socket is connected to this or any other instance. */
+  async function isConnected(conn: PlayerConnection | null): Promise<boolean> {
+    if (conn === null) return false;
+    if (io.sockets.sockets.get(conn.socketId)?.connected) return true;
+    try {
+      return (await io.in(conn.socketId).fetchSockets()).length > 0;
+    } catch {
+      // An instance didn't answer in time: don't end anyone's game over it
+      return true;
+    }
+  }
+
+  /** Both seats are taken and the match still has a result to decide. */
+  function isMatchInProgress(room: GameRoom): boolean {
+    return room.gold !== null && room.red !== null && !isMatchOver(room.state);
+  }
+
+  /**
+   * Give a player who dropped out `delayMs` to come back. Afterwards they
+   * forfeit the match if their opponent is still there, or the room is
+   * removed if nobody is connected to it any more.
+   */
+  function startDisconnectTimer(
+    room: GameRoom,
+    player: Player,
+    delayMs = RECONNECT_GRACE_MS,
+  ): void {
+    const roomId = room.id;
+    const key = disconnectKey(roomId, player);
+    clearTimeout(disconnectTimers.get(key));
+    disconnectTimers.set(key, setTimeout(() => {
+      disconnectTimers.delete(key);
+      withRoom(shared, roomId, (room) => handleAbandonment(room, player)).catch((err: unknown) => {
+        console.error(`Disconnect handling failed in room ${roomId}:`, err);
+      });
+    }, delayMs));
+  }
+
+  function clearDisconnectTimer(roomId: string, player: Player): void {
+    const key = disconnectKey(roomId, player);
+    clearTimeout(disconnectTimers.get(key));
+    disconnectTimers.delete(key);
+  }
+
+  function disconnectKey(roomId: string, player: Player): string {
+    return `${roomId}:${player}`;
+  }
+
+  async function handleAbandonment(room: GameRoom, player: Player): Promise<void> {
+    const conn = player === Player.Gold ? room.gold : room.red;
+    const other = player === Player.Gold ? room.red : room.gold;
+    if (await isConnected(conn)) return;
+
+    if (!(await isConnected(other))) {
+      await closeRoom(room);
+      await broadcastRoomList();
+      return;
+    }
+    if (!isMatchInProgress(room)) return;
+    if (room.state.phase === "GAME_OVER") {
+      // Between games of a match: forfeit once the next one is dealt
+      startDisconnectTimer(room, player, NEXT_GAME_DELAY_MS);
+      return;
+    }
+
+    room.state = forfeitMatch(room.state, player, "abandoned");
+    recordEvent(room, { type: "forfeit", player, reason: "abandoned" });
+    await handleGameOver(room);
+  }
+
+  async function handleGameOver(room: GameRoom): Promise<void> {
+    const state = room.state;
+    if (state.phase !== "GAME_OVER" || !state.winner || !state.winType) return;
+    commitRoom(room);
+    await saveRoom(shared, room);
+
+    const winnerConn =
+      state.winner === Player.Gold ? room.gold : room.red;
+    const winnerId = winnerConn?.playerId ?? "unknown";
+    const pointsWon = getPointsWon(state.winType, state.doublingCube.value);
+    const matchScore = getScoreAfterGame(state);
+    const matchWinner = getMatchWinner(state);
+
+    broadcastToRoom(room, "game-over", {
+      winner: state.winner,
+      winType: state.winType,
+      pointsWon,
+      matchScore,
+      matchWinner,
+      matchLength: state.matchLength,
+      reason: state.forfeit ?? null, // Why the loser forfeited, if they did
+      clock: clockSnapshot(room),
+      // Reveal the seed so both players can check every roll of this game
+      diceSeed: room.fairDice.seed,
+      diceHash: room.fairDice.hash,
+    });
+
+    await broadcastLiveGames(); // The score has changed
+
+    saveMatchResult(
+      room,
+      winnerId,
+      state.winType,
+      pointsWon,
+      matchScore,
+      matchWinner ? winnerId : null,
+    ).catch((err: unknown) => {
+      // The game is over either way; only its record and ratings are lost
+      console.error("Failed to save match result:", err);
+    });
+
+    if (matchWinner) {
+      // Room persists — players can rematch or leave explicitly
+      return;
+    }
+    scheduleNextGame(room);
+  }
+
+  /**
+   * Deal the next game of the match in the same room after a pause. If
+   * that fails the saved room is still between games, so it is tried
+   * again after another pause.
+   */
+  function scheduleNextGame(room: Pick<GameRoom, "id" | "gameNumber">): void {
+    const roomId = room.id;
+    const gameNumber = room.gameNumber;
+    nextGameTimers.set(roomId, setTimeout(() => withRoom(shared, roomId, (room) => {
+      nextGameTimers.delete(roomId);
+      if (room.gameNumber !== gameNumber || room.state.phase !== "GAME_OVER") return;
+      room.state = startNextGame(room.state);
+      room.gameNumber++;
+      room.fairDice = createFairDice();
+      resetRecording(room);
+      saveRoomSnapshot(room);
+      broadcastToRoom(room, "game-start", {
+        state: room.state,
+        gameNumber: room.gameNumber,
+        diceHash: room.fairDice.hash,
+        clock: clockSnapshot(room),
+      });
+    }).catch((err: unknown) => {
+      console.error(`Failed to start the next game in room ${roomId}:`, err);
+      scheduleNextGame({ id: roomId, gameNumber });
+    }), NEXT_GAME_DELAY_MS));
+  }
+
+  /**
+   * Bring back the rooms saved before the last shutdown. Nobody is
+   * connected to them yet: players get the usual grace period to
+   * reconnect, and a room nobody comes back to is removed.
+   */
+  async function restoreRooms(): Promise<void> {
+    let count = 0;
+    for (const room of await loadRoomSnapshots()) {
+      // Another instance may have brought it back already
+      if (!(await addRestoredRoom(shared, room))) continue;
+      count++;
+      if (room.state.phase === "GAME_OVER" && isMatchInProgress(room)) {
+        scheduleNextGame(room);
+      }
+      // Nobody is connected yet: every seated player gets the grace period
+      if (room.gold) startDisconnectTimer(room, Player.Gold);
+      if (room.red) startDisconnectTimer(room, Player.Red);
+    }
+    if (count > 0) {
+      console.log(`Restored ${count} room(s)`);
+    }
+  }
+
+  async function processMatchmaking(): Promise<void> {
+    const pairings = await withQueue(shared, (queue) => {
+      const found: QueuePairing[] = [];
+      for (let pairing = tryMatch(queue); pairing; pairing = tryMatch(queue)) {
+        found.push(pairing);
+      }
+      return found;
+    });
+
+    for (const pairing of pairings) {
+      const { gold: goldPlayer, red: redPlayer } = pairing;
+      const room = await createRoom(
+        shared,
+        goldPlayer,
+        undefined,
+        pairing.matchLength,
+        getStandardTimeControl(pairing.matchLength),
+        { red: redPlayer, rated: pairing.rated },
+      );
+      saveRoomSnapshot(room);
+
+      // Notify both players about the match
+      io.to(goldPlayer.socketId).emit("match-found", { roomId: room.id });
+      io.to(redPlayer.socketId).emit("match-found", { roomId: room.id });
+
+      // Join socket.io room, wherever the sockets are connected
+      io.in([goldPlayer.socketId, redPlayer.socketId]).socketsJoin(room.id);
+
+      // Notify both players the game has started
+      io.to(goldPlayer.socketId).emit("room-joined", {
+        roomId: room.id,
+        player: Player.Gold,
+        state: room.state,
+        diceHash: room.fairDice.hash,
+        diceRolled: room.fairDice.rolled,
+        clock: clockSnapshot(room),
+        spectators: room.spectators.length,
+        opponent: { displayName: redPlayer.displayName },
+      });
+      io.to(redPlayer.socketId).emit("room-joined", {
+        roomId: room.id,
+        player: Player.Red,
+        state: room.state,
+        diceHash: room.fairDice.hash,
+        diceRolled: room.fairDice.rolled,
+        clock: clockSnapshot(room),
+        spectators: room.spectators.length,
+        opponent: { displayName: goldPlayer.displayName },
+      });
+
+      broadcastToRoom(room, "game-start", {
+        state: room.state,
+        gameNumber: room.gameNumber,
+        diceHash: room.fairDice.hash,
+        clock: clockSnapshot(room),
+      });
+    }
+
+    await broadcastQueueStatus();
+  }
+
+  /** Stop a socket watching whichever room it watches. */
+  async function stopWatching(socketId: string): Promise<void> {
+    const roomId = await findRoomIdBySpectatorSocketId(shared, socketId);
+    if (!roomId) return;
+    const room = await withRoom(shared, roomId, (room) =>
+      removeSpectator(room, socketId) ? room : undefined,
+    );
+    if (room) await broadcastSpectatorCount(room);
+  }
+
+  /**
+   * Handle a game action from the player on `socket`: their room is
+   * locked and loaded for `action`, and saved once it is done.
+   */
+  async function withPlayerRoom(
+    socket: GameSocket,
+    action: (room: GameRoom, role: Player) => Promise<void>,
+  ): Promise<void> {
+    const roomId = await findRoomIdBySocketId(shared, socket.id);
+    const found = roomId && await withRoom(shared, roomId, async (room) => {
+      const role = getPlayerRole(room, socket.id);
+      if (!role) {
+        socket.emit("error", { message: "Not a player in this room." });
+      } else {
+        await action(room, role);
+      }
+      return true;
+    });
+    if (!found) {
+      socket.emit("error", { message: "Not in a game room." });
+    }
+  }
+
+  async function broadcastQueueStatus(): Promise<void> {
+    const queue = await loadQueue(shared);
+    for (const player of getQueuedPlayers(queue)) {
+      const status = getQueueStatus(queue, player.playerId);
+      if (status) io.to(player.socketId).emit("queue-status", status);
+    }
+  }
+
+  // Every instance runs the queue; withQueue() keeps them from overlapping
+  const queueTimer = setInterval(() => {
+    processMatchmaking().catch((err: unknown) => {
+      console.error("Matchmaking error:", err);
+    });
+  }, QUEUE_TICK_MS);
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // Socket.io Connection Handler
+  // ──────────────────────────────────────────────────────────────────────────
+
+  io.on("connection", (socket) => {
+    console.log(`Player connected: ${socket.id}`);
+
+    // Refuse anything that doesn't match the protocol before a handler
+    // sees it, and hand handlers the payload as parsed
+    socket.use((packet, next) => {
+      const [event, ...args] = packet;
+      const callback = typeof args.at(-1) === "function" ? args.pop() : undefined;
+      const check = validateClientEvent(event, args[0]);
+      if (!check.ok) {
+        const { message, code, issues } = check.error;
+        if (callback) callback({ error: message, code, issues });
+        else socket.emit("error", check.error);
+        return;
+      }
+      packet.splice(1, packet.length, check.payload, ...(callback ? [callback] : []));
+      next();
+    });
+
+    // ── Registration ────────────────────────────────────────────────────
+
+    socket.on("register", async (data) => {
+      // Wait for database to be ready before processing
+      if (!dbReady) {
+        // Poll until ready (max ~5s)
+        for (let i = 0; i < 50 && !dbReady; i++) {
+          await new Promise((r) => setTimeout(r, 100));
+        }
+        if (!dbReady) {
+          socket.emit("error", { message: "Server is starting up. Please try again." });
+          return;
+        }
+      }
+
+      const token = data?.token;
+
+      // Try to restore session from token
+      if (token) {
+        const existing = await lookupByToken(token);
+        if (existing) {
+          const displayName = existing.username ?? existing.displayName;
+          await setSession(shared, socket.id, {
+            playerId: existing.id,
+            displayName,
+          });
+          socket.emit("registered", {
+            playerId: existing.id,
+            displayName,
+            username: existing.username,
+            token: existing.token,
+          });
+          return;
+        }
+      }
+
+      // No valid token: create new guest
+      const guest = await createGuest();
+      await setSession(shared, socket.id, {
+        playerId: guest.id,
+        displayName: guest.displayName,
+      });
+      socket.emit("registered", {
+        playerId: guest.id,
+        displayName: guest.displayName,
+        username: null,
+        token: guest.token,
+      });
+    });
+
+    socket.on("claim-username", async ({ username }) => {
+      const playerInfo = await getSession(shared, socket.id);
+      if (!playerInfo) {
+        socket.emit("username-error", { message: "Not registered. Try refreshing." });
+        return;
+      }
+
+      const result = await signInAs(playerInfo.playerId, username);
+      if (!result.ok) {
+        socket.emit("username-error", { message: result.error });
+        return;
+      }
+
+      // Update in-memory tracking (guest ID may have changed if switching to existing username)
+      await setSession(shared, socket.id, {
+        playerId: result.guest.id,
+        displayName: result.guest.displayName,
+      });
+
+      socket.emit("username-claimed", {
+        username: result.guest.username,
+        token: result.guest.token,
+      });
+    });
+
+    // ── Room Listing ───────────────────────────────────────────────────
+
+    socket.on("list-rooms", async () => {
+      socket.emit("room-list", { rooms: await getWaitingRooms(shared) });
+    });
+
+    socket.on("list-live-games", async () => {
+      socket.emit("live-games", { games: await getLiveGames(shared) });
+    });
+
+    // ── Spectating ─────────────────────────────────────────────────────
+
+    socket.on("watch-room", async ({ roomId }) => {
+      const playerInfo = await getSession(shared, socket.id);
+      if (!playerInfo) {
+        socket.emit("error", { message: "Not registered. Call register first." });
+        return;
+      }
+
+      const found = roomId ? await getRoom(shared, roomId) : undefined;
+      if (!found || !found.gold || !found.red) {
+        socket.emit("error", { message: "No game in progress in that room." });
+        return;
+      }
+
+      // Watching one game at a time
+      await stopWatching(socket.id);
+
+      const room = await withRoom(shared, found.id, (room) => {
+        const added = addSpectator(room, {
+          socketId: socket.id,
+          playerId: playerInfo.playerId,
+          displayName: playerInfo.displayName,
+        });
+        return added ? room : null;
+      });
+      if (room === null) {
+        socket.emit("error", { message: "You are playing in this game." });
+        return;
+      }
+      if (!room?.gold || !room.red) {
+        socket.emit("error", { message: "No game in progress in that room." });
+        return;
+      }
+
+      socket.emit("watching", {
+        roomId: room.id,
+        state: room.state,
+        players: {
+          [Player.Gold]: room.gold.displayName,
+          [Player.Red]: room.red.displayName,
+        },
+        gameNumber: room.gameNumber,
+        diceHash: room.fairDice.hash,
+        diceRolled: room.fairDice.rolled,
+        clock: clockSnapshot(room),
+        spectators: room.spectators.length,
+        canChat: room.spectatorChat,
+      });
+      await broadcastSpectatorCount(room);
+    });
+
+    socket.on("stop-watching", () => stopWatching(socket.id));
+
+    // ── Player Listing ────────────────────────────────────────────────
+
+    socket.on("list-players", async () => {
+      const rows = await db
+        .select({
+          username: guests.username,
+          createdAt: guests.createdAt,
+          rating: guests.rating,
+          wins: sql<number>`(SELECT COUNT(*) FROM matches WHERE winner_id = ${guests.id})`,
+          losses: sql<number>`(SELECT COUNT(*) FROM matches WHERE (gold_player_id = ${guests.id} OR red_player_id = ${guests.id}) AND winner_id IS NOT NULL AND winner_id != ${guests.id})`,
+          points: sql<number>`(SELECT COALESCE(SUM(points_won), 0) FROM matches WHERE winner_id = ${guests.id})`,
+        })
+        .from(guests)
+        .where(isNotNull(guests.username))
+        .orderBy(desc(guests.rating))
+        .all();
+
+      socket.emit("player-list", {
+        players: rows.map((row) => ({
+          ...row,
+          username: row.username!, // Only players with a username are listed
+          createdAt: row.createdAt.toISOString(),
+        })),
+      });
+    });
+
+    // ── Leaderboard ───────────────────────────────────────────────────
+
+    socket.on(
+      "get-leaderboard",
+      async (data, callback) => {
+        try {
+          const limit = Math.min(Math.max(data?.limit ?? 50, 1), 100);
+          callback({ players: await getLeaderboard(limit) });
+        } catch (err) {
+          console.error("get-leaderboard error:", err);
+          callback({ error: "Internal server error" });
+        }
+      },
+    );
+
+    // ── Player Profile ───────────────────────────────────────────────
+
+    socket.on(
+      "get-player-profile",
+      async (data, callback) => {
+        try {
+          if (!data?.username) return callback({ error: "Username required" });
+
+          const [guest] = await db
+            .select()
+            .from(guests)
+            .where(eq(guests.username, data.username))
+            .all();
+
+          if (!guest) return callback({ error: "Player not found" });
+
+          const playerId = guest.id;
+
+          // Wins & losses
+          const [{ count: wins }] = await db
+            .select({ count: sql<number>`COUNT(*)` })
+            .from(matches)
+            .where(eq(matches.winnerId, playerId))
+            .all();
+
+          const [{ count: losses }] = await db
+            .select({ count: sql<number>`COUNT(*)` })
+            .from(matches)
+            .where(
+              and(
+                or(
+                  eq(matches.goldPlayerId, playerId),
+                  eq(matches.redPlayerId, playerId),
+                ),
+                isNotNull(matches.winnerId),
+                sql`${matches.winnerId} != ${playerId}`,
+              ),
+            )
+            .all();
+
+          const total = wins + losses;
+          const winPct = total > 0 ? Math.round((wins / total) * 100) : 0;
+
+          // Recent 20 matches
+          const recentMatchRows = await db
+            .select()
+            .from(matches)
+            .where(
+              and(
+                or(
+                  eq(matches.goldPlayerId, playerId),
+                  eq(matches.redPlayerId, playerId),
+                ),
+                isNotNull(matches.winnerId),
+              ),
+            )
+            .orderBy(desc(matches.completedAt))
+            .limit(20)
+            .all();
+
+          // Resolve opponent usernames
+          const opponentIds = new Set<string>();
+          for (const m of recentMatchRows) {
+            opponentIds.add(m.goldPlayerId === playerId ? m.redPlayerId : m.goldPlayerId);
+          }
+
+          const opponentMap = new Map<string, string>();
+          if (opponentIds.size > 0) {
+            const opponentRows = await db
+              .select({ id: guests.id, username: guests.username, displayName: guests.displayName })
+              .from(guests)
+              .where(sql`${guests.id} IN (${sql.join([...opponentIds].map(id => sql`${id}`), sql`, `)})`)
+              .all();
+            for (const row of opponentRows) {
+              opponentMap.set(row.id, row.username ?? row.displayName);
+            }
+          }
+
+          const recentMatches = recentMatchRows.map((m): PlayerProfile["recentMatches"][number] => {
+            const opId = m.goldPlayerId === playerId ? m.redPlayerId : m.goldPlayerId;
+            return {
+              id: m.id,
+              opponent: opponentMap.get(opId) ?? "Unknown",
+              result: m.winnerId === playerId ? "win" : "loss",
+              winType: m.winType,
+              pointsWon: m.pointsWon,
+              matchLength: m.matchLength,
+              gameNumber: m.gameNumber,
+              matchResult: m.matchWinnerId
+                ? m.matchWinnerId === playerId ? "win" : "loss"
+                : null,
+              forfeitReason: m.forfeitReason as ForfeitReason | null,
+              completedAt: m.completedAt?.toISOString() ?? null,
+            };
+          });
+
+          // Head-to-head via SQL GROUP BY (all matches, not just recent 20)
+          const h2hRows = await db
+            .select({
+              opponentId: sql<string>`CASE WHEN gold_player_id = ${playerId} THEN red_player_id ELSE gold_player_id END`,
+              wins: sql<number>`SUM(CASE WHEN winner_id = ${playerId} THEN 1 ELSE 0 END)`,
+              losses: sql<number>`SUM(CASE WHEN winner_id != ${playerId} THEN 1 ELSE 0 END)`,
+            })
+            .from(matches)
+            .where(
+              and(
+                or(
+                  eq(matches.goldPlayerId, playerId),
+                  eq(matches.redPlayerId, playerId),
+                ),
+                isNotNull(matches.winnerId),
+              ),
+            )
+            .groupBy(sql`CASE WHEN gold_player_id = ${playerId} THEN red_player_id ELSE gold_player_id END`)
+            .all();
+
+          // Resolve h2h opponent names (fetch any we don't already have)
+          const h2hIds = h2hRows.map(r => r.opponentId).filter(id => !opponentMap.has(id));
+          if (h2hIds.length > 0) {
+            const extraRows = await db
+              .select({ id: guests.id, username: guests.username, displayName: guests.displayName })
+              .from(guests)
+              .where(sql`${guests.id} IN (${sql.join(h2hIds.map(id => sql`${id}`), sql`, `)})`)
+              .all();
+            for (const row of extraRows) {
+              opponentMap.set(row.id, row.username ?? row.displayName);
+            }
+          }
+
+          const headToHead = h2hRows
+            .map(r => ({
+              opponent: opponentMap.get(r.opponentId) ?? "Unknown",
+              wins: r.wins,
+              losses: r.losses,
+            }))
+            .sort((a, b) => (b.wins + b.losses) - (a.wins + a.losses));
+
+          const ratingHistory = await getRatingHistory(playerId);
+
+          callback({
+            username: guest.username ?? data.username,
+            rating: guest.rating,
+            peakRating: guest.peakRating,
+            experience: guest.experience,
+            ratingHistory,
+            wins,
+            losses,
+            winPct,
+            recentMatches,
+            headToHead,
+          });
+        } catch (err) {
+          console.error("get-player-profile error:", err);
+          callback({ error: "Internal server error" });
+        }
+      },
+    );
+
+    // ── Recent Matches (lobby feed) ──────────────────────────────────
+
+    socket.on(
+      "get-recent-matches",
+      async (data, callback) => {
+        // 1. Clamp limit to max 50, default 10
+        const limit = Math.min(Math.max(data?.limit ?? 10, 1), 50);
+
+        // 2. Query last N completed matches (winnerId IS NOT NULL), ordered by completedAt desc
+        const recentRows = await db
+          .select()
+          .from(matches)
+          .where(isNotNull(matches.winnerId))
+          .orderBy(desc(matches.completedAt))
+          .limit(limit)
+          .all();
+
+        // 3. Collect all player IDs (gold, red, winner) for batch lookup
+        const playerIds = new Set<string>();
+        for (const m of recentRows) {
+          playerIds.add(m.goldPlayerId);
+          playerIds.add(m.redPlayerId);
+          if (m.winnerId) playerIds.add(m.winnerId);
+        }
+
+        // 4. Batch-fetch guest usernames
+        const playerMap = new Map<string, string>();
+        if (playerIds.size > 0) {
+          const playerRows = await db
+            .select({ id: guests.id, username: guests.username, displayName: guests.displayName })
+            .from(guests)
+            .where(sql`${guests.id} IN (${sql.join([...playerIds].map(id => sql`${id}`), sql`, `)})`)
+            .all();
+          for (const row of playerRows) {
+            playerMap.set(row.id, row.username ?? row.displayName);
+          }
+        }
+
+        // 5. Build response
+        const recentMatches = recentRows.map((m) => ({
+          id: m.id,
+          goldPlayer: playerMap.get(m.goldPlayerId) ?? "Unknown",
+          redPlayer: playerMap.get(m.redPlayerId) ?? "Unknown",
+          winner: playerMap.get(m.winnerId!) ?? "Unknown", // Only decided matches are listed
+          winType: m.winType,
+          pointsWon: m.pointsWon,
+          matchLength: m.matchLength,
+          goldScore: m.goldScore,
+          redScore: m.redScore,
+          completedAt: m.completedAt?.toISOString() ?? null,
+        }));
+
+        callback({ matches: recentMatches });
+      },
+    );
+
+    // ── Replays ─────────────────────────────────────────────────────────
+
+    socket.on(
+      "get-replay",
+      async (data, callback) => {
+        if (!data.matchId) {
+          callback({ error: "Match ID required" });
+          return;
+        }
+
+        const replay = await loadReplay(data.matchId);
+        if (!replay) {
+          callback({ error: "Replay not found" });
+          return;
+        }
+
+        callback({ replay });
+      },
+    );
+
+    // ── Room Creation ───────────────────────────────────────────────────
+
+    socket.on(
+      "create-room",
+      async (data) => {
+        const playerInfo = await getSession(shared, socket.id);
+        if (!playerInfo) {
+          socket.emit("error", { message: "Not registered. Call register first." });
+          return;
+        }
+
+        const timeControl = data?.timeControl ?? null;
+        if (timeControl !== null && !isValidTimeControl(timeControl)) {
+          socket.emit("error", { message: "Invalid time control." });
+          return;
+        }
+
+        const conn: PlayerConnection = {
+          socketId: socket.id,
+          playerId: playerInfo.playerId,
+          displayName: playerInfo.displayName,
+        };
+
+        try {
+          const room = await createRoom(
+            shared,
+            conn,
+            data?.roomName,
+            data?.matchLength ?? 1,
+            timeControl,
+            { spectatorChat: data?.spectatorChat === true },
+          );
+          saveRoomSnapshot(room);
+          socket.join(room.id);
+          socket.emit("room-created", { roomId: room.id });
+          await broadcastRoomList();
+        } catch (err) {
+          socket.emit("error", {
+            message: err instanceof Error ? err.message : "Failed to create room.",
+          });
+        }
+      },
+    );
+
+    // ── Join Room ───────────────────────────────────────────────────────
+
+    socket.on("join-room", async ({ roomId }) => {
+      const playerInfo = await getSession(shared, socket.id);
+      if (!playerInfo) {
+        socket.emit("error", { message: "Not registered. Call register first." });
+        return;
+      }
+
+      if (!roomId) {
+        socket.emit("error", { message: "Room ID is required." });
+        return;
+      }
+
+      const conn: PlayerConnection = {
+        socketId: socket.id,
+        playerId: playerInfo.playerId,
+        displayName: playerInfo.displayName,
+      };
+
+      const room = await joinRoom(shared, roomId, conn);
+      if (!room) {
+        socket.emit("error", {
+          message: "Room not found, full, or you cannot join your own room.",
+        });
+        return;
+      }
+
+      socket.join(room.id);
+      saveRoomSnapshot(room);
+
+      // Notify the joiner
+      socket.emit("room-joined", {
+        roomId: room.id,
+        player: Player.Red,
+        state: room.state,
+        diceHash: room.fairDice.hash,
+        diceRolled: room.fairDice.rolled,
+        clock: clockSnapshot(room),
+        spectators: room.spectators.length,
+        opponent: room.gold
+          ? { displayName: room.gold.displayName }
+          : null,
+      });
+
+      // Notify the creator
+      if (room.gold) {
+        io.to(room.gold.socketId).emit("room-joined", {
+          roomId: room.id,
+          player: Player.Gold,
+          state: room.state,
+          diceHash: room.fairDice.hash,
+          diceRolled: room.fairDice.rolled,
+          clock: clockSnapshot(room),
+          spectators: room.spectators.length,
+          opponent: { displayName: conn.displayName },
+        });
+      }
+
+      // Game starts now
+      broadcastToRoom(room, "game-start", {
+        state: room.state,
+        gameNumber: room.gameNumber,
+        diceHash: room.fairDice.hash,
+        clock: clockSnapshot(room),
+      });
+      await broadcastRoomList();
+    });
+
+    // ── Quick Match (Matchmaking) ───────────────────────────────────────
+
+    socket.on("quick-match", async (data) => {
+      const playerInfo = await getSession(shared, socket.id);
+      if (!playerInfo) {
+        socket.emit("error", { message: "Not registered. Call register first." });
+        return;
+      }
+
+      const matchLength = data?.matchLength;
+      if (matchLength !== undefined && !isValidMatchLength(matchLength)) {
+        socket.emit("error", {
+          message: `Match length must be between 1 and ${MAX_MATCH_LENGTH}.`,
+        });
+        return;
+      }
+
+      const conn: PlayerConnection = {
+        socketId: socket.id,
+        playerId: playerInfo.playerId,
+        displayName: playerInfo.displayName,
+      };
+
+      const [guest] = await db
+        .select({ rating: guests.rating })
+        .from(guests)
+        .where(eq(guests.id, playerInfo.playerId))
+        .all();
+      if (!socket.connected) return;
+
+      await withQueue(shared, (queue) => {
+        joinQueue(queue, conn, guest?.rating, { matchLength, unrated: data?.unrated === true });
+      });
+      await processMatchmaking();
+    });
+
+    // ── Leave Queue ─────────────────────────────────────────────────────
+
+    socket.on("leave-queue", async () => {
+      const playerInfo = await getSession(shared, socket.id);
+      if (playerInfo) {
+        await withQueue(shared, (queue) => leaveQueue(queue, playerInfo.playerId));
+        await broadcastQueueStatus();
+      }
+    });
+
+    // ── Roll Dice ───────────────────────────────────────────────────────
+
+    socket.on("roll-dice", () => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      // Handle opening roll — either player can trigger it
+      if (state.phase === "OPENING_ROLL") {
+        const goldDie = rollSingleDie(undefined, room.fairDice.source);
+        const redDie = rollSingleDie(undefined, room.fairDice.source);
+
+        recordEvent(room, { type: "opening-roll", goldDie, redDie });
+
+        if (goldDie === redDie) {
+          broadcastToRoom(room, "opening-roll-tied", { goldDie, redDie });
+          return;
+        }
+
+        const firstPlayer = goldDie > redDie ? Player.Gold : Player.Red;
+        const dice = rollDice([Math.max(goldDie, redDie), Math.min(goldDie, redDie)]);
+        state.currentPlayer = firstPlayer;
+        state.dice = dice;
+        state.phase = "MOVING";
+        room.state = state;
+
+        if (!canMove(state)) {
+          room.state = endTurn(state);
+          recordEvent(room, { type: "end-turn", player: firstPlayer });
+          commitRoom(room);
+          broadcastToRoom(room, "opening-roll-result", {
+            goldDie, redDie, firstPlayer, dice, clock: clockSnapshot(room),
+          });
+          broadcastToRoom(room, "turn-ended", {
+            state: room.state,
+            currentPlayer: room.state.currentPlayer,
+            clock: clockSnapshot(room),
+          });
+          if (room.state.phase === "GAME_OVER") await handleGameOver(room);
+          return;
+        }
+
+        commitRoom(room);
+        broadcastToRoom(room, "opening-roll-result", {
+          goldDie, redDie, firstPlayer, dice, clock: clockSnapshot(room),
+        });
+        return;
+      }
+
+      // Verify it's the sender's turn
+      if (state.currentPlayer !== role) {
+        socket.emit("error", { message: "Not your turn." });
+        return;
+      }
+
+      // Verify we are in ROLLING phase
+      if (state.phase !== "ROLLING") {
+        socket.emit("error", { message: "Cannot roll dice right now." });
+        return;
+      }
+
+      if (isResignationPending(state)) {
+        socket.emit("error", { message: "Waiting for an answer to your resignation." });
+        return;
+      }
+
+      // Roll dice
+      const dice = rollDice(undefined, room.fairDice.source);
+      state.dice = dice;
+      state.phase = "MOVING";
+      recordEvent(room, { type: "roll", player: role, dice: dice.values });
+
+      // Check if the player can move at all; if not, auto-end turn
+      if (!canMove(state)) {
+        room.state = endTurn(state);
+        recordEvent(room, { type: "end-turn", player: role });
+        const rolledClock = clockSnapshot(room);
+        commitRoom(room);
+        broadcastToRoom(room, "dice-rolled", { dice, clock: rolledClock });
+        broadcastToRoom(room, "turn-ended", {
+          state: room.state,
+          currentPlayer: room.state.currentPlayer,
+          clock: clockSnapshot(room),
+        });
+
+        if (room.state.phase === "GAME_OVER") {
+          await handleGameOver(room);
+        }
+        return;
+      }
+
+      commitRoom(room);
+      broadcastToRoom(room, "dice-rolled", { dice, clock: clockSnapshot(room) });
+    }));
+
+    // ── Submit Turn ─────────────────────────────────────────────────────
+    // The whole turn at once: players stage their moves on their own
+    // screen, where they can take them back, and nobody else sees them
+    // until the turn is submitted.
+
+    socket.on("submit-turn", ({ moves }, callback) => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (state.currentPlayer !== role) {
+        callback({ error: "Not your turn." });
+        return;
+      }
+
+      if (state.phase !== "MOVING") {
+        callback({ error: "Cannot make moves right now." });
+        return;
+      }
+      if (isResignationPending(state)) {
+        callback({ error: "Waiting for an answer to your resignation." });
+        return;
+      }
+
+      // Must be one of the complete turns the dice allow, moves in a playable order
+      const isLegal = getAllLegalTurns(state).some(
+        (turn) => turn.length === moves.length && turn.every((lm, i) => movesEqual(lm, moves[i])),
+      );
+      if (!isLegal) {
+        callback({ error: "Illegal turn." });
+        return;
+      }
+
+      // Replay the moves for the opponent and spectators one by one
+      for (const move of moves) {
+        room.state = applyMove(room.state, move);
+        recordEvent(room, { type: "move", player: role, move });
+        broadcastToRoom(room, "move-made", { move, state: room.state });
+      }
+      callback({ ok: true });
+
+      const winner = checkWinner(room.state);
+      if (winner) {
+        const winType = getWinType(room.state, winner);
+        room.state = {
+          ...room.state,
+          phase: "GAME_OVER",
+          winner,
+          winType,
+        };
+        await handleGameOver(room);
+        return;
+      }
+
+      room.state = endTurn(room.state);
+      recordEvent(room, { type: "end-turn", player: role });
+      commitRoom(room);
+      broadcastToRoom(room, "turn-ended", {
+        state: room.state,
+        currentPlayer: room.state.currentPlayer,
+        clock: clockSnapshot(room),
+      });
+
+      if (room.state.phase === "GAME_OVER") {
+        await handleGameOver(room);
+      }
+    }));
+
+    // ── End Turn ────────────────────────────────────────────────────────
+
+    socket.on("end-turn", () => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (state.currentPlayer !== role) {
+        socket.emit("error", { message: "Not your turn." });
+        return;
+      }
+
+      if (state.phase !== "MOVING" || isResignationPending(state)) {
+        socket.emit("error", { message: "Cannot end turn right now." });
+        return;
+      }
+
+      // Only allow ending turn if there are no legal moves remaining
+      if (canMove(state)) {
+        socket.emit("error", {
+          message: "You still have legal moves available.",
+        });
+        return;
+      }
+
+      room.state = endTurn(state);
+      recordEvent(room, { type: "end-turn", player: role });
+      commitRoom(room);
+      broadcastToRoom(room, "turn-ended", {
+        state: room.state,
+        currentPlayer: room.state.currentPlayer,
+        clock: clockSnapshot(room),
+      });
+
+      if (room.state.phase === "GAME_OVER") {
+        await handleGameOver(room);
+      }
+    }));
+
+    // ── Offer Double ────────────────────────────────────────────────────
+
+    socket.on("offer-double", () => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (state.currentPlayer !== role) {
+        socket.emit("error", { message: "Not your turn." });
+        return;
+      }
+
+      if (!canOfferDouble(state)) {
+        socket.emit("error", { message: "Cannot offer double right now." });
+        return;
+      }
+
+      room.state = offerDouble(state);
+      recordEvent(room, { type: "double", player: role });
+      commitRoom(room);
+
+      const doubleOffered = {
+        currentCubeValue: room.state.doublingCube.value,
+        clock: clockSnapshot(room),
+      };
+      const opponentSocketId = getOpponentSocket(room, socket.id);
+      if (opponentSocketId) {
+        io.to(opponentSocketId).emit("double-offered", doubleOffered);
+      }
+      broadcastToSpectators(room, "double-offered", doubleOffered);
+      // The offerer's clock stops while the opponent decides
+      if (room.clock) socket.emit("clock-updated", { clock: clockSnapshot(room) });
+    }));
+
+    // ── Respond to Double ───────────────────────────────────────────────
+
+    socket.on("respond-double", ({ accept }) => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (state.phase !== "DOUBLING") {
+        socket.emit("error", { message: "No double offer pending." });
+        return;
+      }
+
+      // The responder is the opponent of the current player (who offered)
+      if (state.currentPlayer === role) {
+        socket.emit("error", {
+          message: "You cannot respond to your own double offer.",
+        });
+        return;
+      }
+
+      if (accept) {
+        room.state = acceptDouble(state);
+      } else {
+        room.state = declineDouble(state);
+      }
+      recordEvent(room, { type: accept ? "take" : "drop", player: role });
+      commitRoom(room);
+
+      broadcastToRoom(room, "double-response", {
+        accepted: accept,
+        state: room.state,
+        clock: clockSnapshot(room),
+      });
+
+      if (room.state.phase === "GAME_OVER") {
+        await handleGameOver(room);
+      }
+    }));
+
+    // ── Offer Resignation ───────────────────────────────────────────────
+
+    socket.on("offer-resignation", ({ winType }) => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (state.currentPlayer !== role) {
+        socket.emit("error", { message: "You can only resign on your turn." });
+        return;
+      }
+
+      if (!WIN_TYPES.includes(winType)) {
+        socket.emit("error", { message: "Invalid resignation." });
+        return;
+      }
+
+      if (!canOfferResignation(state)) {
+        socket.emit("error", { message: "Cannot resign right now." });
+        return;
+      }
+
+      room.state = offerResignation(state, winType);
+      recordEvent(room, { type: "resign", player: role, winType });
+      commitRoom(room);
+
+      broadcastToRoom(room, "resignation-offered", {
+        player: role,
+        winType,
+        points: getPointsWon(winType, room.state.doublingCube.value),
+        clock: clockSnapshot(room),
+      });
+    }));
+
+    // ── Respond to Resignation ──────────────────────────────────────────
+
+    socket.on("respond-resignation", ({ accept }) => withPlayerRoom(socket, async (room, role) => {
+      const state = room.state;
+
+      if (!isResignationPending(state)) {
+        socket.emit("error", { message: "No resignation offer pending." });
+        return;
+      }
+
+      // The responder is the opponent of the current player (who resigned)
+      if (state.currentPlayer === role) {
+        socket.emit("error", {
+          message: "You cannot respond to your own resignation.",
+        });
+        return;
+      }
+
+      if (accept) {
+        room.state = acceptResignation(state);
+      } else {
+        room.state = rejectResignation(state);
+      }
+      recordEvent(room, {
+        type: accept ? "accept-resignation" : "reject-resignation",
+        player: role,
+      });
+      commitRoom(room);
+
+      broadcastToRoom(room, "resignation-response", {
+        accepted: accept,
+        state: room.state,
+        clock: clockSnapshot(room),
+      });
+
+      if (room.state.phase === "GAME_OVER") {
+        await handleGameOver(room);
+      }
+    }));
+
+    // ── Chat ───────────────────────────────────────────────────────────
+
+    socket.on("send-chat", async ({ text }) => {
+      const roomId =
+        (await findRoomIdBySocketId(shared, socket.id)) ??
+        (await findRoomIdBySpectatorSocketId(shared, socket.id));
+      const room = roomId ? await getRoom(shared, roomId) : undefined;
+      if (!room) {
+        socket.emit("error", { message: "Not in a game room." });
+        return;
+      }
+
+      const role = getPlayerRole(room, socket.id);
+      if (!role && !room.spectatorChat) {
+        socket.emit("error", { message: "Spectators can't chat in this room." });
+        return;
+      }
+
+      const message = prepareChatText(text);
+      if (!message) return;
+      if (!tryRecordChat(socket.id)) {
+        socket.emit("error", { message: "Easy nuh - you're sending messages too fast." });
+        return;
+      }
+
+      const sender = await getSession(shared, socket.id);
+      const chat: ChatMessage = {
+        from: sender?.displayName ?? "Someone",
+        role: role ?? "spectator",
+        text: message,
+        sentAt: Date.now(),
+      };
+      broadcastToRoom(room, "chat-message", chat);
+    });
+
+    // ── Disconnect Handling ─────────────────────────────────────────────
+
+    socket.on("disconnect", async () => {
+      console.log(`Player disconnected: ${socket.id}`);
+
+      // Remove from matchmaking queue
+      await withQueue(shared, (queue) => leaveQueueBySocketId(queue, socket.id));
+      await broadcastQueueStatus();
+      forgetChatSender(socket.id);
+
+      await stopWatching(socket.id);
+
+      const roomId = await findRoomIdBySocketId(shared, socket.id);
+      if (roomId) {
+        await withRoom(shared, roomId, (room) => {
+          const role = getPlayerRole(room, socket.id);
+          if (!role) return;
+
+          // The room waits for them; if they don't come back in time they
+          // forfeit, or the room goes if their opponent has gone too
+          startDisconnectTimer(room, role);
+          const opponentSocketId = getOpponentSocket(room, socket.id);
+          const disconnected = {
+            forfeitInMs: isMatchInProgress(room) ? RECONNECT_GRACE_MS : null,
+          };
+          if (opponentSocketId) {
+            io.to(opponentSocketId).emit("opponent-disconnected", disconnected);
+          }
+          broadcastToSpectators(room, "opponent-disconnected", disconnected);
+        });
+      }
+
+      // A player who comes back reconnects on a new socket
+      await deleteSession(shared, socket.id);
+      await forgetRoomSocket(shared, socket.id);
+    });
+
+    // ── Reconnection ──────────────────────────────────────────────────
+
+    socket.on(
+      "reconnect-to-game",
+      async ({ playerId, roomId }) => {
+        const found = await withRoom(shared, roomId, async (room) => {
+          // Find which role this player had
+          let reconnectedRole: Player | null = null;
+          if (room.gold?.playerId === playerId) {
+            reconnectedRole = Player.Gold;
+            room.gold.socketId = socket.id;
+          } else if (room.red?.playerId === playerId) {
+            reconnectedRole = Player.Red;
+            room.red.socketId = socket.id;
+          }
+
+          if (!reconnectedRole) {
+            socket.emit("error", { message: "You are not a player in this room." });
+            return true;
+          }
+
+          // Update session tracking
+          const displayName =
+            reconnectedRole === Player.Gold
+              ? room.gold!.displayName
+              : room.red!.displayName;
+          await setSession(shared, socket.id, { playerId, displayName });
+
+          // Cancel their disconnect timer. One left on another instance finds
+          // them connected when it fires.
+          clearDisconnectTimer(room.id, reconnectedRole);
+
+          // Join socket.io room
+          socket.join(room.id);
+
+          // A clock stopped by a server restart runs again once a player is back
+          syncClock(room);
+
+          // Notify the reconnected player of current state
+          const reconnectOpponent =
+            reconnectedRole === Player.Gold ? room.red : room.gold;
+          socket.emit("room-joined", {
+            roomId: room.id,
+            player: reconnectedRole,
+            state: room.state,
+            diceHash: room.fairDice.hash,
+            diceRolled: room.fairDice.rolled,
+            clock: clockSnapshot(room),
+            spectators: room.spectators.length,
+            opponent: reconnectOpponent
+              ? { displayName: reconnectOpponent.displayName }
+              : null,
+          });
+
+          // Notify the opponent
+          const opponentSocketId = getOpponentSocket(room, socket.id);
+          if (opponentSocketId) {
+            io.to(opponentSocketId).emit("opponent-reconnected");
+          }
+          broadcastToSpectators(room, "opponent-reconnected");
+
+          // If the opponent is away too, make sure their grace period is running
+          const opponentRole = reconnectedRole === Player.Gold ? Player.Red : Player.Gold;
+          if (reconnectOpponent && !(await isConnected(reconnectOpponent))) {
+            const inProgress = isMatchInProgress(room);
+            if (inProgress && !disconnectTimers.has(disconnectKey(room.id, opponentRole))) {
+              startDisconnectTimer(room, opponentRole);
+            }
+            socket.emit("opponent-disconnected", {
+              forfeitInMs: inProgress ? RECONNECT_GRACE_MS : null,
+            });
+          }
+          return true;
+        });
+        if (!found) {
+          socket.emit("error", { message: "Room no longer exists." });
+        }
+      },
+    );
+
+    // ── Leave / Delete Room ────────────────────────────────────────────
+
+    socket.on("leave-room", async ({ roomId }) => {
+      const left = await withRoom(shared, roomId, async (room) => {
+        const role = getPlayerRole(room, socket.id);
+        socket.leave(room.id);
+
+        // Walking out of a game in progress forfeits the match
+        if (role && isMatchInProgress(room) && room.state.phase !== "GAME_OVER") {
+          room.state = forfeitMatch(room.state, role, "abandoned");
+          recordEvent(room, { type: "forfeit", player: role, reason: "abandoned" });
+          await handleGameOver(room);
+        }
+
+        // Notify opponent before removing
+        const opponentSocketId = getOpponentSocket(room, socket.id);
+        if (opponentSocketId) {
+          io.to(opponentSocketId).emit("opponent-left");
+        }
+
+        // Clear the leaving player's slot
+        if (role === Player.Gold) room.gold = null;
+        if (role === Player.Red) room.red = null;
+
+        // If both slots empty, remove room entirely
+        if (!room.gold && !room.red) {
+          await closeRoom(room);
+        } else {
+          saveRoomSnapshot(room);
+        }
+        return true;
+      });
+      if (left) await broadcastRoomList();
+    });
+
+    // ── Asset Creation Station ──────────────────────────────────────────
+
+    socket.on(
+      "create-asset",
+      async (data, callback) => {
+        const guest = await getSession(shared, socket.id);
+        if (!guest) return callback({ error: "Not registered" });
+
+        // Basic validation
+        if (!data.title || data.title.length > 100) return callback({ error: "Invalid title" });
+        if (data.metadata && data.metadata.length > 500_000) return callback({ error: "Metadata too large" });
+
+        const id = randomUUID();
+        const now = Date.now();
+        let r2Key: string | null = null;
+        let uploadUrl: string | null = null;
+
+        if (data.needsUpload && data.contentType && data.fileSize) {
+          r2Key = `${data.type}/${guest.playerId}/${id}`;
+          uploadUrl = await getUploadUrl(r2Key, data.contentType, data.fileSize);
+        }
+
+        await db.insert(assets)
+          .values({
+            id,
+            creatorId: guest.playerId,
+            type: data.type,
+            title: data.title,
+            status: "private",
+            metadata: data.metadata,
+            r2Key,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+
+        callback({ id, uploadUrl });
+      },
+    );
+
+    socket.on(
+      "list-my-assets",
+      async (data, callback) => {
+        const guest = await getSession(shared, socket.id);
+        if (!guest) return callback({ error: "Not registered" });
+
+        const condition = data?.type
+          ? and(eq(assets.creatorId, guest.playerId), eq(assets.type, data.type))
+          : eq(assets.creatorId, guest.playerId);
+
+        const results = await db
+          .select()
+          .from(assets)
+          .where(condition)
+          .orderBy(desc(assets.createdAt))
+          .all();
+
+        const withUrls = results.map((a) => ({
+          ...a,
+          url: a.r2Key ? getPublicUrl(a.r2Key) : null,
+        }));
+
+        callback({ assets: withUrls });
+      },
+    );
+
+    socket.on("list-gallery", async (data, callback) => {
+      const condition = data?.type
+        ? and(eq(assets.status, "published"), eq(assets.type, data.type))
+        : eq(assets.status, "published");
+
+      const results = await db
+        .select()
+        .from(assets)
+        .where(condition)
+        .orderBy(desc(assets.createdAt))
+        .all();
+
+      const withUrls = results.map((a) => ({
+        ...a,
+        url: a.r2Key ? getPublicUrl(a.r2Key) : null,
+      }));
+
+      callback({ assets: withUrls });
+    });
+
+    socket.on(
+      "publish-asset",
+      async (data, callback) => {
+        const guest = await getSession(shared, socket.id);
+        if (!guest) return callback({ error: "Not registered" });
+
+        await db.update(assets)
+          .set({ status: "published", updatedAt: Date.now() })
+          .where(
+            and(eq(assets.id, data.assetId), eq(assets.creatorId, guest.playerId)),
+          )
+          .run();
+
+        callback({ ok: true });
+      },
+    );
+
+    socket.on(
+      "delete-asset",
+      async (data, callback) => {
+        const guest = await getSession(shared, socket.id);
+        if (!guest) return callback({ error: "Not registered" });
+
+        const [asset] = await db
+          .select()
+          .from(assets)
+          .where(
+            and(eq(assets.id, data.assetId), eq(assets.creatorId, guest.playerId)),
+          )
+          .all();
+
+        if (!asset) return callback({ error: "Not found" });
+
+        if (asset.r2Key) {
+          await deleteObject(asset.r2Key);
+        }
+
+        await db.delete(assets).where(eq(assets.id, data.assetId)).run();
+        callback({ ok: true });
+      },
+    );
+
+    socket.on(
+      "report-asset",
+      async (data, callback) => {
+        const guest = await getSession(shared, socket.id);
+        if (!guest) return callback({ error: "Not registered" });
+
+        // Check for duplicate report
+        const existingReport = await db
+          .select()
+          .from(assetReports)
+          .where(
+            and(
+              eq(assetReports.assetId, data.assetId),
+              eq(assetReports.reporterId, guest.playerId),
+            ),
+          )
+          .all();
+        if (existingReport.length > 0) return callback({ error: "Already reported" });
+
+        await db.insert(assetReports)
+          .values({
+            id: randomUUID(),
+            assetId: data.assetId,
+            reporterId: guest.playerId,
+            reason: data.reason,
+            createdAt: Date.now(),
+          })
+          .run();
+
+        // Auto-hide if 3+ reports
+        const reports = await db
+          .select()
+          .from(assetReports)
+          .where(eq(assetReports.assetId, data.assetId))
+          .all();
+
+        if (reports.length >= 3) {
+          await db.update(assets)
+            .set({ status: "removed", updatedAt: Date.now() })
+            .where(eq(assets.id, data.assetId))
+            .run();
+        }
+
+        callback({ ok: true });
+      },
+    );
+  });
+
+  return {
+    io,
+
+    listen(port) {
+      return new Promise((resolve) => {
+        // Start listening immediately so Render's port scan succeeds,
+        // then initialize the database in the background
+        httpServer.listen(port, () => {
+          const address = httpServer.address();
+          const listening = typeof address === "object" && address ? address.port : port;
+          console.log(`Backyamon server running on port ${listening}`);
+          console.log("Initializing database...");
+          initDatabase()
+            .then(restoreRooms)
+            .then(() => {
+              dbReady = true;
+              console.log("Database initialized successfully");
+            })
+            .catch((err: unknown) => {
+              console.error("Failed to initialize database:", err);
+              process.exit(1);
+            });
+          resolve(listening);
+        });
+      });
+    },
+
+    async close() {
+      clearInterval(queueTimer);
+      for (const timers of [clockTimers, disconnectTimers, nextGameTimers]) {
+        for (const timer of timers.values()) clearTimeout(timer);
+        timers.clear();
+      }
+      await io.close(); // Closes the HTTP server too
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import type { SharedState } from "./shared-state.js";
+
+/**
+ * Who is behind each socket, once it has registered. Kept in the shared
+ * state so any instance can tell who a socket belongs to.
+ */
+export interface Session {
+  playerId: string;
+  displayName: string;
+}
+
+const SESSIONS_KEY = "sessions"; // Socket id -> Session
+
+export async function getSession(
+  shared: SharedState,
+  socketId: string,
+): Promise<Session | undefined> {
+  const value = await shared.hget(SESSIONS_KEY, socketId);
+  return value ? (JSON.parse(value) as Session) : undefined;
+}
+
+export async function setSession(
+  shared: SharedState,
+  socketId: string,
+  session: Session,
+): Promise<void> {
+  await shared.hset(SESSIONS_KEY, socketId, JSON.stringify(session));
+}
+
+export async function deleteSession(shared: SharedState, socketId: string): Promise<void> {
+  await shared.hdel(SESSIONS_KEY, socketId);
+}
@@ -0,0 +1,226 @@
+import { randomUUID } from "node:crypto";
+import { Redis, type RedisOptions } from "ioredis";
+
+/**
+ * State shared by every instance of the game server. Rooms, the
+ * matchmaking queue and sessions are kept here rather than in process
+ * memory, so players connected to different instances can be paired and
+ * play each other, and any instance can pick up a room's next event.
+ *
+ * Values are strings (JSON, in practice) under string keys, plus hashes,
+ * named locks and pub/sub channels for the socket.io adapter. Two
+ * implementations:
+ * - InProcessSharedState keeps everything in this process. It's the
+ *   default for a single instance, and several instances in one process
+ *   (as in the tests) can share one.
+ * - RedisSharedState keeps everything in Redis, or anything that speaks
+ *   its protocol, for instances in separate processes.
+ */
+export interface SharedState {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  del(key: string): Promise<void>;
+  hget(key: string, field: string): Promise<string | null>;
+  hset(key: string, field: string, value: string): Promise<void>;
+  hdel(key: string, field: string): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  /**
+   * Run `fn` holding the named lock. Anyone else asking for the same lock,
+   * on any instance, waits until `fn` has settled. Not re-entrant.
+   */
+  withLock<T>(name: string, fn: () => Promise<T> | T): Promise<T>;
+  publish(channel: string, message: string): Promise<void>;
+  /** Listen on a channel; resolves to a function that stops listening. */
+  subscribe(channel: string, listener: (message: string) => void): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+export class InProcessSharedState implements SharedState {
+  private values = new Map<string, string>();
+  private hashes = new Map<string, Map<string, string>>();
+  private locks = new Map<string, Promise<unknown>>(); // Name -> tail of the wait chain
+  private listeners = new Map<string, Set<(message: string) => void>>();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.values.delete(key);
+    this.hashes.delete(key);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    let hash = this.hashes.get(key);
+    if (!hash) {
+      hash = new Map();
+      this.hashes.set(key, hash);
+    }
+    hash.set(field, value);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    this.hashes.get(key)?.delete(field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) ?? []);
+  }
+
+  withLock<T>(name: string, fn: () => Promise<T> | T): Promise<T> {
+    const previous = this.locks.get(name) ?? Promise.resolve();
+    const result = previous.then(fn, fn);
+    const tail = result.catch(() => undefined);
+    this.locks.set(name, tail);
+    tail.then(() => {
+      if (this.locks.get(name) === tail) this.locks.delete(name);
+    });
+    return result;
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    // Delivered on a later tick, as if it had gone over the network
+    const listeners = [...(this.listeners.get(channel) ?? [])];
+    setImmediate(() => {
+      for (const listener of listeners) listener(message);
+    });
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<() => Promise<void>> {
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+    }
+    listeners.add(listener);
+    return async () => {
+      listeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+  }
+}
+
+// A lock is given up after this long in case its holder died holding it;
+// a holder still running extends it every LOCK_RENEW_MS
+const LOCK_TTL_MS = 15_000;
+const LOCK_RENEW_MS = 5_000;
+const LOCK_RETRY_MS = 10;
+
+// Delete a lock only if it still holds our token
+const RELEASE_LOCK = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+// Extend a lock only if it still holds our token
+const EXTEND_LOCK = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+export class RedisSharedState implements SharedState {
+  private client: Redis;
+  private subscriber: Redis; // A subscribed connection can't run other commands
+  private listeners = new Map<string, Set<(message: string) => void>>();
+
+  constructor(url: string, private prefix = "backyamon:", options: RedisOptions = {}) {
+    this.client = new Redis(url, options);
+    this.subscriber = new Redis(url, options);
+    this.subscriber.on("message", (channel: string, message: string) => {
+      for (const listener of this.listeners.get(channel) ?? []) listener(message);
+    });
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.prefix + key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.client.set(this.prefix + key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.client.hget(this.prefix + key, field);
+  }
+
+  async hset(key: string, field: string, value: string): Promise<void> {
+    await this.client.hset(this.prefix + key, field, value);
+  }
+
+  async hdel(key: string, field: string): Promise<void> {
+    await this.client.hdel(this.prefix + key, field);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.client.hgetall(this.prefix + key);
+  }
+
+  async withLock<T>(name: string, fn: () => Promise<T> | T): Promise<T> {
+    const key = `${this.prefix}lock:${name}`;
+    const token = randomUUID();
+    while ((await this.client.set(key, token, "PX", LOCK_TTL_MS, "NX")) !== "OK") {
+      await new Promise((r) => setTimeout(r, LOCK_RETRY_MS));
+    }
+    const renewal = setInterval(() => {
+      this.client.eval(EXTEND_LOCK, 1, key, token, LOCK_TTL_MS).catch((err: unknown) => {
+        console.error(`Failed to extend lock ${name}:`, err);
+      });
+    }, LOCK_RENEW_MS);
+    try {
+      return await fn();
+    } finally {
+      clearInterval(renewal);
+      await this.client.eval(RELEASE_LOCK, 1, key, token);
+    }
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.client.publish(this.prefix + channel, message);
+  }
+
+  async subscribe(
+    channel: string,
+    listener: (message: string) => void,
+  ): Promise<() => Promise<void>> {
+    const prefixed = this.prefix + channel;
+    let listeners = this.listeners.get(prefixed);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(prefixed, listeners);
+      await this.subscriber.subscribe(prefixed);
+    }
+    listeners.add(listener);
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(prefixed) === listeners) {
+        this.listeners.delete(prefixed);
+        await this.subscriber.unsubscribe(prefixed);
+      }
+    };
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear();
+    await Promise.all([this.client.quit(), this.subscriber.quit()]);
+  }
+}
@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  transpilePackages: ["@backyamon/engine"],
+  transpilePackages: ["@backyamon/engine", "@backyamon/protocol"],
 };
 
 export default nextConfig;
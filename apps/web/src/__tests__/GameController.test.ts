@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Application } from "pixi.js";
+import {
+  Player,
+  createInitialState,
+  fromPlayerPoint,
+  type GameState,
+  type WinType,
+} from "@backyamon/engine";
+import type { AIDifficulty } from "@backyamon/engine/worker";
+import { GameController } from "@/game/GameController";
+
+// Renderers, input and sound have nothing to do off screen
+const { Inert } = vi.hoisted(() => {
+  class Inert {
+    constructor() {
+      return new Proxy(this, {
+        get: (target, key) => (key in target ? Reflect.get(target, key) : () => undefined),
+      });
+    }
+  }
+  return { Inert };
+});
+
+vi.mock("@/game/BoardRenderer", () => ({ BoardRenderer: Inert }));
+vi.mock("@/game/PieceRenderer", () => ({ PieceRenderer: Inert }));
+vi.mock("@/game/DiceRenderer", () => ({ DiceRenderer: Inert }));
+vi.mock("@/game/MoveLineRenderer", () => ({ MoveLineRenderer: Inert }));
+vi.mock("@/game/AmbienceLayer", () => ({ AmbienceLayer: Inert }));
+vi.mock("@/game/InputHandler", () => ({ InputHandler: Inert }));
+vi.mock("@/audio/SoundManager", () => ({
+  SoundManager: { getInstance: () => new Inert() },
+}));
+
+// The AI the worker would build, answering on this thread; a quicker
+// network than the expert's ranks turns
+vi.mock("@/game/AIWorker", async () => {
+  const { createAIPlayer, answerAnalysisRequest } = await import("@backyamon/engine/worker");
+  const { HeuristicEvaluator } = await import("@backyamon/engine");
+  class AIWorker {
+    private ai;
+    private evaluator = new HeuristicEvaluator();
+    readonly name: string;
+
+    constructor(difficulty: AIDifficulty) {
+      this.ai = createAIPlayer(difficulty);
+      this.name = this.ai.name;
+    }
+
+    selectMoves = async (state: GameState) => this.ai.selectMoves(state);
+    shouldDouble = async (state: GameState) => this.ai.shouldDouble(state);
+    shouldAcceptDouble = async (state: GameState) => this.ai.shouldAcceptDouble(state);
+    shouldAcceptResignation = async (state: GameState, winType: WinType) =>
+      this.ai.shouldAcceptResignation(state, winType);
+    rankTurns = async (state: GameState, limit?: number) =>
+      answerAnalysisRequest(this.evaluator, { type: "rank-turns", state, limit });
+    terminate(): void {}
+  }
+  return { AIWorker };
+});
+
+class TestController extends GameController {
+  setPosition(state: GameState): void {
+    this.state = state;
+  }
+}
+
+const app = { screen: { width: 800, height: 500 } } as Application;
+
+/**
+ * Gold to roll, from checker counts keyed by each player's own point
+ * numbers. Checkers neither placed nor on the bar are borne off.
+ */
+function position(
+  gold: Record<number, number>,
+  red: Record<number, number>,
+  goldBar = 0,
+  matchLength = 1,
+): GameState {
+  const state = createInitialState(matchLength);
+  state.points = state.points.map(() => null);
+  for (const [player, counts] of [[Player.Gold, gold], [Player.Red, red]] as const) {
+    let placed = 0;
+    for (const [point, count] of Object.entries(counts)) {
+      state.points[fromPlayerPoint(Number(point), player)] = { player, count };
+      placed += count;
+    }
+    state.borneOff[player] = 15 - placed;
+  }
+  state.bar[Player.Gold] = goldBar;
+  state.borneOff[Player.Gold] -= goldBar;
+  return { ...state, currentPlayer: Player.Gold, phase: "ROLLING" };
+}
+
+// Red's board is closed: Gold can't enter, so its roll passes to the AI
+const RED_CLOSED_BOARD = { 6: 2, 5: 2, 4: 2, 3: 2, 2: 2, 1: 2, 7: 3 };
+// Two Gold checkers shut out: the AI doubles and Gold should drop
+const DOUBLE_POSITION = position({ 6: 4, 5: 4, 4: 3, 3: 2 }, RED_CLOSED_BOARD, 2);
+// Three shut out: the AI plays on for the gammon rather than cash
+const TOO_GOOD_POSITION = position({ 6: 4, 5: 4, 4: 4 }, RED_CLOSED_BOARD, 3);
+
+describe("GameController cube handling", () => {
+  let controller: TestController;
+  let states: GameState[];
+  let gameOver: ReturnType<typeof vi.fn>;
+
+  function start(state: GameState): void {
+    controller.startGame();
+    controller.setPosition(state);
+  }
+
+  // Gold rolls, can't move, and the AI takes its turn as far as it can
+  async function rollAndPass(): Promise<void> {
+    controller.rollForHuman();
+    await vi.runAllTimersAsync();
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    controller = new TestController(app, "medium");
+    states = [];
+    gameOver = vi.fn();
+    controller.onStateChange = (state) => states.push(state);
+    controller.onGameOver = gameOver;
+  });
+
+  afterEach(() => {
+    controller.destroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should play on without doubling when too good", async () => {
+    start(TOO_GOOD_POSITION);
+    await rollAndPass();
+
+    expect(states.some((state) => state.phase === "DOUBLING")).toBe(false);
+    expect(states.some((state) => state.currentPlayer === Player.Red && state.dice)).toBe(true);
+    expect(controller.getState().doublingCube).toEqual({ value: 1, owner: null });
+    expect(controller.getState().currentPlayer).toBe(Player.Gold);
+  });
+
+  it("should not double in a Crawford game", async () => {
+    start({ ...DOUBLE_POSITION, matchLength: 3, isCrawford: true });
+    await rollAndPass();
+
+    expect(states.some((state) => state.phase === "DOUBLING")).toBe(false);
+    expect(controller.getState().currentPlayer).toBe(Player.Gold);
+  });
+
+  it("should double and wait for the human's answer", async () => {
+    start(DOUBLE_POSITION);
+    await rollAndPass();
+
+    const state = controller.getState();
+    expect(state.phase).toBe("DOUBLING");
+    expect(state.currentPlayer).toBe(Player.Red);
+    expect(state.dice).toBeNull();
+  });
+
+  it("should hand over the cube and roll when the human takes", async () => {
+    start(DOUBLE_POSITION);
+    await rollAndPass();
+    controller.respondToDouble(true);
+    await vi.runAllTimersAsync();
+
+    const state = controller.getState();
+    expect(state.doublingCube).toEqual({ value: 2, owner: Player.Gold });
+    expect(state.currentPlayer).toBe(Player.Gold);
+    expect(state.phase).toBe("ROLLING");
+  });
+
+  it("should give the AI the game when the human drops", async () => {
+    start(DOUBLE_POSITION);
+    await rollAndPass();
+    controller.respondToDouble(false);
+
+    expect(gameOver).toHaveBeenCalledOnce();
+    const [winner, winType, match] = gameOver.mock.calls[0];
+    expect(winner).toBe(Player.Red);
+    expect(winType).toBe("ya_mon");
+    expect(match.score[Player.Red]).toBe(1);
+  });
+
+  it("should have the AI drop a double it can't take", async () => {
+    // Gold is nearly off while Red has everything back
+    start(position({ 2: 3, 1: 3 }, { 24: 5, 13: 5, 8: 5 }));
+    controller.offerDouble();
+    await vi.runAllTimersAsync();
+
+    expect(gameOver).toHaveBeenCalledOnce();
+    expect(gameOver.mock.calls[0][0]).toBe(Player.Gold);
+  });
+
+  it("should have the AI take when it fails to answer a double", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const ai = (controller as unknown as { ai: { shouldAcceptDouble: () => Promise<boolean> } }).ai;
+    ai.shouldAcceptDouble = () => Promise.reject(new Error("The AI worker failed"));
+
+    start(position({ 2: 3, 1: 3 }, { 24: 5, 13: 5, 8: 5 }));
+    controller.offerDouble();
+    await vi.runAllTimersAsync();
+
+    expect(gameOver).not.toHaveBeenCalled();
+    expect(controller.getState().doublingCube).toEqual({ value: 2, owner: Player.Red });
+  });
+
+  it("should ignore an answer when no double is on offer", () => {
+    start(DOUBLE_POSITION);
+    controller.respondToDouble(false);
+    expect(controller.getState()).toBe(DOUBLE_POSITION);
+    expect(gameOver).not.toHaveBeenCalled();
+  });
+});
+
+describe("GameController hints", () => {
+  it("should pass on the worker's best turns while the human is moving", async () => {
+    vi.useFakeTimers();
+    const controller = new TestController(app, "medium");
+    const hints = vi.fn();
+    controller.onHints = hints;
+    controller.startGame();
+    // The opening position, Gold to roll
+    controller.setPosition(position(
+      { 24: 2, 13: 5, 8: 3, 6: 5 },
+      { 24: 2, 13: 5, 8: 3, 6: 5 },
+    ));
+    controller.rollForHuman();
+    await vi.runAllTimersAsync();
+
+    await controller.showHints();
+    const shown = hints.mock.calls.at(-1)?.[0];
+    expect(shown.length).toBeGreaterThan(0);
+    expect(shown.length).toBeLessThanOrEqual(3);
+    expect(shown[0].equityLoss).toBe(0);
+
+    controller.destroy();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { SocketClient } from "@/multiplayer/SocketClient";
+import { PlayerLink } from "@/components/PlayerLink";
+
+interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  rating: number;
+  peakRating: number;
+  experience: number;
+}
+
+const LEADERBOARD_SIZE = 100;
+
+function rankColor(rank: number): string {
+  if (rank === 1) return "text-[#FFD700]";
+  if (rank === 2) return "text-[#C0C0C0]";
+  if (rank === 3) return "text-[#CD7F32]";
+  return "text-[#D4A857]/40";
+}
+
+function rankBorder(rank: number): string {
+  if (rank === 1) return "border-[#FFD700]/60";
+  if (rank === 2) return "border-[#C0C0C0]/40";
+  if (rank === 3) return "border-[#CD7F32]/40";
+  return "border-[#8B4513]/30";
+}
+
+export default function LeaderboardPage() {
+  const [players, setPlayers] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const client = new SocketClient();
+
+    client
+      .connect()
+      .then(() => client.register())
+      .then(() => client.getLeaderboard(LEADERBOARD_SIZE))
+      .then((data) => setPlayers(data.players))
+      .catch((err) => {
+        setError(
+          err instanceof Error ? err.message : "Could not connect to server",
+        );
+      });
+
+    return () => {
+      client.destroy();
+    };
+  }, []);
+
+  return (
+    <main className="min-h-screen bg-[#2C1B0E] flex flex-col items-center px-4 py-8">
+      <div className="w-full max-w-2xl">
+        <Link
+          href="/lobby"
+          className="text-[#D4A857]/60 text-sm font-heading hover:text-[#D4A857] transition-colors"
+        >
+          &larr; Back to Lobby
+        </Link>
+
+        <h1 className="mt-6 text-center font-heading text-4xl text-[#FFD700] tracking-wide">
+          Leaderboard
+        </h1>
+        <p className="mt-2 text-center text-[#D4A857]/50 text-xs font-heading">
+          FIBS-style ratings from finished matches. Everyone starts at 1500.
+        </p>
+
+        {!players && !error && (
+          <div className="mt-12 text-center">
+            <span className="text-[#D4A857] text-sm font-heading animate-pulse">
+              Loading leaderboard...
+            </span>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-12 text-center">
+            <span className="text-[#CE1126] text-sm font-heading">{error}</span>
+          </div>
+        )}
+
+        {players && players.length === 0 && (
+          <p className="mt-12 text-center text-[#D4A857]/40 text-sm font-heading">
+            No rated matches yet — finish a match with a claimed username to get ranked!
+          </p>
+        )}
+
+        {players && players.length > 0 && (
+          <div className="mt-8 flex flex-col gap-1.5">
+            <div className="flex items-center gap-3 px-4 text-[#D4A857]/50 text-xs font-heading uppercase tracking-wider">
+              <span className="w-8 text-center">#</span>
+              <span className="flex-1">Player</span>
+              <span className="w-16 text-right">Rating</span>
+              <span className="w-16 text-right">Peak</span>
+              <span className="w-20 text-right">Experience</span>
+            </div>
+            {players.map((p) => (
+              <div
+                key={p.username}
+                className={`rounded-xl bg-[#1A1A0E]/80 border px-4 py-2.5 flex items-center gap-3 ${rankBorder(p.rank)}`}
+              >
+                <span className={`font-heading text-sm font-bold w-8 text-center ${rankColor(p.rank)}`}>
+                  {p.rank}
+                </span>
+                <PlayerLink
+                  username={p.username}
+                  className="text-[#FFD700] font-heading text-sm flex-1"
+                />
+                <span className="text-[#D4A857] font-heading text-sm font-bold w-16 text-right">
+                  {Math.round(p.rating)}
+                </span>
+                <span className="text-[#D4A857]/50 font-heading text-xs w-16 text-right">
+                  {Math.round(p.peakRating)}
+                </span>
+                <span className="text-[#D4A857]/40 font-heading text-xs w-20 text-right">
+                  {p.experience}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -3,21 +3,37 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import type {
+  ListedPlayer,
+  LiveGame,
+  QueueStatus,
+  RecentMatch,
+  TimeControl,
+  WaitingRoom,
+} from "@backyamon/protocol";
 import { SocketClient } from "@/multiplayer/SocketClient";
 import { PlayerLink } from "@/components/PlayerLink";
 
-interface WaitingRoom {
-  id: string;
-  hostName: string;
-  createdAt: string;
+const MATCH_LENGTHS = [1, 3, 5, 7];
+
+// Clock choices for new rooms; the bank scales with the match length
+interface ClockPreset {
+  label: string;
+  perPointSeconds: number;
+  delaySeconds: number;
+  style: TimeControl["style"];
 }
 
-interface PlayerInfo {
-  username: string;
-  createdAt: string;
-  wins: number;
-  losses: number;
-  points: number;
+const CLOCK_PRESETS: ClockPreset[] = [
+  { label: "Blitz", perPointSeconds: 60, delaySeconds: 8, style: "bronstein" },
+  { label: "Standard", perPointSeconds: 120, delaySeconds: 12, style: "bronstein" },
+  { label: "Fischer", perPointSeconds: 90, delaySeconds: 10, style: "fischer" },
+];
+
+function describeTimeControl(control: TimeControl): string {
+  const minutes = Math.round(control.bankSeconds / 60);
+  const delay = control.style === "fischer" ? "increment" : "delay";
+  return `${minutes} min + ${control.delaySeconds}s ${delay}`;
 }
 
 type LobbyView = "lobby" | "quick-match" | "waiting";
@@ -34,20 +50,16 @@ export default function LobbyPage() {
   const [claimingUsername, setClaimingUsername] = useState(false);
   const [editingUsername, setEditingUsername] = useState(false);
   const [rooms, setRooms] = useState<WaitingRoom[]>([]);
-  const [players, setPlayers] = useState<PlayerInfo[]>([]);
-  const [recentMatches, setRecentMatches] = useState<
-    {
-      id: string;
-      goldPlayer: string;
-      redPlayer: string;
-      winner: string;
-      winType: string;
-      pointsWon: number;
-      completedAt: string;
-    }[]
-  >([]);
+  const [liveGames, setLiveGames] = useState<LiveGame[]>([]);
+  const [players, setPlayers] = useState<ListedPlayer[]>([]);
+  const [recentMatches, setRecentMatches] = useState<RecentMatch[]>([]);
   const [roomCode, setRoomCode] = useState("");
   const [customRoomName, setCustomRoomName] = useState("");
+  const [matchLength, setMatchLength] = useState(1);
+  const [unrated, setUnrated] = useState(false);
+  const [spectatorChat, setSpectatorChat] = useState(false);
+  const [clockPreset, setClockPreset] = useState<ClockPreset | null>(null);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
   const [error, setError] = useState("");
   const [connecting, setConnecting] = useState(true);
   const [retryInfo, setRetryInfo] = useState<{ attempt: number; max: number } | null>(null);
@@ -73,6 +85,7 @@ export default function LobbyPage() {
       setConnecting(false);
 
       client.listRooms();
+      client.listLiveGames();
       client.listPlayers();
       client.getRecentMatches(10).then((data) => {
         setRecentMatches(data.matches);
@@ -116,13 +129,15 @@ export default function LobbyPage() {
       }
     });
 
-    client.on("room-list", (data: unknown) => {
-      const { rooms: roomList } = data as { rooms: WaitingRoom[] };
+    client.on("room-list", ({ rooms: roomList }) => {
       setRooms(roomList);
     });
 
-    client.on("player-list", (data: unknown) => {
-      const { players: list } = data as { players: PlayerInfo[] };
+    client.on("live-games", ({ games }) => {
+      setLiveGames(games);
+    });
+
+    client.on("player-list", ({ players: list }) => {
       setPlayers(list);
     });
 
@@ -140,30 +155,36 @@ export default function LobbyPage() {
 
     setView("quick-match");
     setError("");
+    setQueueStatus(null);
 
-    const onMatchFound = (data: unknown) => {
-      const { roomId } = data as { roomId: string };
+    const onQueueStatus = (status: QueueStatus) => {
+      setQueueStatus(status);
+    };
+
+    const onMatchFound = ({ roomId }: { roomId: string }) => {
+      client.off("queue-status", onQueueStatus);
       router.push(`/play?mode=online&roomId=${roomId}`);
     };
 
-    const onError = (data: unknown) => {
-      const { message } = data as { message: string };
+    const onError = ({ message }: { message: string }) => {
       setError(message);
       setView("lobby");
       client.off("match-found", onMatchFound);
+      client.off("queue-status", onQueueStatus);
       client.off("error", onError);
     };
 
     client.on("match-found", onMatchFound);
+    client.on("queue-status", onQueueStatus);
     client.on("error", onError);
 
     try {
-      await client.quickMatch();
+      await client.quickMatch({ matchLength, unrated });
     } catch {
       setError("Failed to join matchmaking queue");
       setView("lobby");
     }
-  }, [router]);
+  }, [router, matchLength, unrated]);
 
   const handleCreateRoom = useCallback(async () => {
     const client = socketRef.current;
@@ -173,7 +194,12 @@ export default function LobbyPage() {
 
     try {
       const name = customRoomName.trim() || undefined;
-      const code = await client.createRoom(name);
+      const timeControl = clockPreset && {
+        bankSeconds: clockPreset.perPointSeconds * matchLength,
+        delaySeconds: clockPreset.delaySeconds,
+        style: clockPreset.style,
+      };
+      const code = await client.createRoom(name, matchLength, timeControl, spectatorChat);
       setRoomCode(code);
       setCustomRoomName("");
       setView("waiting");
@@ -188,7 +214,7 @@ export default function LobbyPage() {
         err instanceof Error ? err.message : "Failed to create room"
       );
     }
-  }, [router, customRoomName]);
+  }, [router, customRoomName, matchLength, clockPreset, spectatorChat]);
 
   const handleJoinRoom = useCallback(async (roomId: string) => {
     const client = socketRef.current;
@@ -209,6 +235,7 @@ export default function LobbyPage() {
   const handleCancelSearch = useCallback(() => {
     const client = socketRef.current;
     if (client) client.leaveQueue();
+    setQueueStatus(null);
     setView("lobby");
   }, []);
 
@@ -374,6 +401,65 @@ export default function LobbyPage() {
                 maxLength={30}
                 className="w-full rounded-xl bg-[#1A1A0E]/60 border border-[#8B4513]/50 px-4 py-2 text-[#FFD700] font-heading text-sm text-center placeholder:text-[#D4A857]/30 focus:outline-none focus:border-[#D4A857] -mt-2"
               />
+
+              <div className="flex items-center justify-center gap-1.5 -mt-1">
+                <span className="text-[#D4A857]/60 text-xs font-heading mr-1">Play to</span>
+                {MATCH_LENGTHS.map((length) => (
+                  <button
+                    key={length}
+                    onClick={() => setMatchLength(length)}
+                    className={`rounded-lg px-2.5 py-1 min-w-[36px] font-heading text-xs border transition-colors cursor-pointer ${
+                      matchLength === length
+                        ? "bg-[#FFD700] text-[#1A1A0E] border-[#FFD700]"
+                        : "bg-[#1A1A0E]/60 text-[#D4A857] border-[#8B4513]/50 hover:border-[#D4A857]"
+                    }`}
+                  >
+                    {length === 1 ? "1 game" : length}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-center gap-1.5 -mt-1">
+                <span className="text-[#D4A857]/60 text-xs font-heading mr-1">Room clock</span>
+                {[null, ...CLOCK_PRESETS].map((preset) => (
+                  <button
+                    key={preset?.label ?? "untimed"}
+                    onClick={() => setClockPreset(preset)}
+                    title={
+                      preset
+                        ? `${preset.perPointSeconds / 60} min per point + ${preset.delaySeconds}s ${preset.style === "fischer" ? "increment" : "delay"}`
+                        : "No clock"
+                    }
+                    className={`rounded-lg px-2.5 py-1 font-heading text-xs border transition-colors cursor-pointer ${
+                      clockPreset === preset
+                        ? "bg-[#FFD700] text-[#1A1A0E] border-[#FFD700]"
+                        : "bg-[#1A1A0E]/60 text-[#D4A857] border-[#8B4513]/50 hover:border-[#D4A857]"
+                    }`}
+                  >
+                    {preset?.label ?? "Untimed"}
+                  </button>
+                ))}
+              </div>
+
+              <label className="flex items-center justify-center gap-2 -mt-1 text-[#D4A857]/60 text-xs font-heading cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={unrated}
+                  onChange={(e) => setUnrated(e.target.checked)}
+                  className="accent-[#FFD700] cursor-pointer"
+                />
+                Unrated quick match (just for vibes)
+              </label>
+
+              <label className="flex items-center justify-center gap-2 -mt-1 text-[#D4A857]/60 text-xs font-heading cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={spectatorChat}
+                  onChange={(e) => setSpectatorChat(e.target.checked)}
+                  className="accent-[#FFD700] cursor-pointer"
+                />
+                Let spectators chat in my room
+              </label>
             </div>
 
             {/* Right column — open rooms */}
@@ -412,6 +498,8 @@ export default function LobbyPage() {
                         </span>
                         <span className="text-[#D4A857]/60 text-xs font-heading">
                           {room.hostName}
+                          {room.matchLength > 1 && ` · match to ${room.matchLength}`}
+                          {room.timeControl && ` · ${describeTimeControl(room.timeControl)}`}
                         </span>
                       </div>
                       <span className="text-[#006B3F] font-heading text-sm group-hover:text-[#FFD700] transition-colors">
@@ -437,6 +525,32 @@ export default function LobbyPage() {
               Mi soon come... searching!
             </p>
 
+            <p className="text-[#D4A857]/60 text-xs font-heading text-center">
+              {matchLength === 1 ? "1 game" : `Match to ${matchLength}`}
+              {unrated ? " · unrated" : " · rated"}
+              {" · "}
+              {matchLength * 2} min + 12s delay
+            </p>
+
+            {queueStatus && (
+              <div className="flex flex-col items-center gap-1 text-[#D4A857]/70 text-sm font-heading">
+                <span>
+                  {queueStatus.queueSize === 1
+                    ? "Yuh alone in the queue right now"
+                    : `${queueStatus.queueSize} players searching`}
+                </span>
+                <span className="text-[#D4A857]/50 text-xs">
+                  {queueStatus.ratingWindow === null
+                    ? "Open to any rating"
+                    : `Looking within ±${queueStatus.ratingWindow} rating`}
+                  {" · "}
+                  {queueStatus.estimatedWaitSeconds > 0
+                    ? `about ${queueStatus.estimatedWaitSeconds}s to go`
+                    : "any moment now"}
+                </span>
+              </div>
+            )}
+
             <button
               onClick={handleCancelSearch}
               className="rounded-2xl bg-[#3a3a2e] px-8 py-3 text-lg font-bold text-[#D4A857] shadow-lg interactive-btn cursor-pointer font-heading"
@@ -492,7 +606,7 @@ export default function LobbyPage() {
           ) : (
             <div className="flex flex-col gap-1.5">
               {[...players]
-                .sort((a, b) => b.points - a.points)
+                .sort((a, b) => b.rating - a.rating)
                 .map((p, i) => (
                   <div
                     key={p.username}
@@ -524,6 +638,9 @@ export default function LobbyPage() {
                       className="text-[#FFD700] font-heading text-sm flex-1"
                     />
                     <span className="text-[#D4A857] font-heading text-sm font-bold">
+                      {Math.round(p.rating)}
+                    </span>
+                    <span className="text-[#D4A857]/40 font-heading text-xs w-14 text-right">
                       {p.points} pts
                     </span>
                     <span className="text-[#D4A857]/40 font-heading text-xs w-12 text-right">
@@ -533,6 +650,57 @@ export default function LobbyPage() {
                 ))}
             </div>
           )}
+          <div className="mt-3 text-center">
+            <Link
+              href="/leaderboard"
+              className="text-[#D4A857]/60 text-xs font-heading hover:text-[#FFD700] transition-colors"
+            >
+              Full leaderboard &rarr;
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {/* Games in progress */}
+      {view === "lobby" && liveGames.length > 0 && (
+        <div className="w-full max-w-3xl mt-8">
+          <p className="text-[#D4A857] text-xs font-heading text-center tracking-wider uppercase mb-3">
+            Live Games
+          </p>
+          <div className="flex flex-col gap-1.5">
+            {liveGames.map((game) => (
+              <div
+                key={game.id}
+                className="rounded-lg bg-[#1A1A0E]/60 border border-[#8B4513]/30 px-3 py-2 flex items-center justify-center gap-2 text-sm font-heading"
+              >
+                <PlayerLink
+                  username={game.goldName}
+                  className="text-[#FFD700] font-heading text-sm"
+                />
+                <span className="text-[#D4A857]/50">vs</span>
+                <PlayerLink
+                  username={game.redName}
+                  className="text-[#CE1126] font-heading text-sm"
+                />
+                {game.matchLength > 1 && (
+                  <span className="text-[#D4A857]/40 text-xs">
+                    ({game.matchScore.gold}-{game.matchScore.red} to {game.matchLength})
+                  </span>
+                )}
+                {game.spectators > 0 && (
+                  <span className="text-[#D4A857]/40 text-xs">
+                    {game.spectators} watching
+                  </span>
+                )}
+                <Link
+                  href={`/play?mode=watch&roomId=${game.id}`}
+                  className="text-[#006B3F] text-xs hover:text-[#FFD700] transition-colors"
+                >
+                  Watch &rarr;
+                </Link>
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
@@ -568,6 +736,20 @@ export default function LobbyPage() {
                 <span className="text-[#D4A857]/40 text-xs">
                   {m.pointsWon} pts
                 </span>
+                {m.matchLength > 1 && m.goldScore !== null && m.redScore !== null && (
+                  <span className="text-[#D4A857]/40 text-xs">
+                    ({m.winner === m.goldPlayer
+                      ? `${m.goldScore}-${m.redScore}`
+                      : `${m.redScore}-${m.goldScore}`}{" "}
+                    to {m.matchLength})
+                  </span>
+                )}
+                <Link
+                  href={`/replay/${m.id}`}
+                  className="text-[#D4A857]/50 text-xs hover:text-[#FFD700] transition-colors"
+                >
+                  Replay
+                </Link>
               </div>
             ))}
           </div>
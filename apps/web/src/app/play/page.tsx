@@ -1,11 +1,20 @@
 "use client";
 
 import { useSearchParams, useRouter } from "next/navigation";
-import { Suspense, useState, useCallback, useEffect, useRef } from "react";
+import { Suspense, useState, useCallback, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import { Player, type GameState, type WinType } from "@backyamon/engine";
 import { GameCanvas } from "@/components/GameCanvas";
+import { AnalysisSummary } from "@/components/AnalysisSummary";
+import type { MatchProgress } from "@/game/BaseGameController";
+import type { GameRecord } from "@/game/GameController";
 import { OnlineGameCanvas } from "@/components/OnlineGameCanvas";
+import type {
+  ClockSnapshot,
+  ErrorPayload,
+  RoomJoined,
+  WatchedGame,
+} from "@backyamon/protocol";
 import { SocketClient } from "@/multiplayer/SocketClient";
 import { PlayerLink } from "@/components/PlayerLink";
 
@@ -13,12 +22,14 @@ const aiNames: Record<string, string> = {
   easy: "Beach Bum",
   medium: "Selecta",
   hard: "King Tubby",
+  expert: "Scientist",
 };
 
 const difficultyColors: Record<string, string> = {
   easy: "#006B3F",
   medium: "#FFD700",
   hard: "#CE1126",
+  expert: "#0077BE",
 };
 
 const winTypeLabels: Record<WinType, string> = {
@@ -27,6 +38,11 @@ const winTypeLabels: Record<WinType, string> = {
   massive_ya_mon: "Massive Ya Mon! (Backgammon)",
 };
 
+function parseMatchLength(raw: string | null): number {
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed >= 1 && parsed <= 25 ? parsed : 1;
+}
+
 // ── Particle generators for win celebrations ─────────────────────────
 
 function YaMonParticles() {
@@ -79,6 +95,8 @@ function GameOverOverlay({
   winType,
   isPlayerWin,
   winnerName,
+  matchScore,
+  onNextGame,
   onPlayAgain,
   onBackAction,
   backLabel,
@@ -87,6 +105,8 @@ function GameOverOverlay({
   winType: WinType;
   isPlayerWin: boolean;
   winnerName: string;
+  matchScore?: { label: string; you: number; them: number };
+  onNextGame?: () => void;
   onPlayAgain?: () => void;
   onBackAction: () => void;
   backLabel: string;
@@ -117,6 +137,15 @@ function GameOverOverlay({
           {winTypeLabels[winType]}
         </p>
 
+        {matchScore && (
+          <p className="text-[#F4E1C1] text-base sm:text-lg -mt-4 mb-6 font-heading">
+            {matchScore.label}:{" "}
+            <span className="text-[#FFD700]">{matchScore.you}</span>
+            {" - "}
+            <span className="text-[#CE1126]">{matchScore.them}</span>
+          </p>
+        )}
+
         {/* Rasta divider */}
         <div className="flex w-36 sm:w-48 mx-auto mb-6 rounded overflow-hidden">
           <div className="h-1 flex-1 bg-[#006B3F]" />
@@ -125,6 +154,14 @@ function GameOverOverlay({
         </div>
 
         <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center w-full sm:w-auto">
+          {onNextGame && (
+            <button
+              onClick={onNextGame}
+              className="rounded-2xl bg-[#006B3F] wood-btn wood-btn-green px-6 py-3 text-lg font-bold text-[#FFD700] shadow-lg interactive-btn cursor-pointer min-h-[44px] font-heading"
+            >
+              Next Game
+            </button>
+          )}
           {onPlayAgain && (
             <button
               onClick={onPlayAgain}
@@ -149,8 +186,10 @@ function GameOverOverlay({
 
 function AIPlayContent({
   difficulty,
+  matchLength,
 }: {
   difficulty: string;
+  matchLength: number;
 }) {
   const router = useRouter();
   const aiName = aiNames[difficulty] ?? "Beach Bum";
@@ -159,19 +198,33 @@ function AIPlayContent({
   const [gameOver, setGameOver] = useState<{
     winner: Player;
     winType: WinType;
+    match: MatchProgress;
+    record: GameRecord;
   } | null>(null);
 
   const [gameKey, setGameKey] = useState(0);
+  const [gameNumber, setGameNumber] = useState(0);
 
-  const handleGameOver = useCallback((winner: Player, winType: WinType) => {
-    setGameOver({ winner, winType });
-  }, []);
+  const handleGameOver = useCallback(
+    (winner: Player, winType: WinType, match: MatchProgress, record: GameRecord) => {
+      setGameOver({ winner, winType, match, record });
+    },
+    []
+  );
+
+  const handleNextGame = () => {
+    setGameOver(null);
+    setGameNumber((n) => n + 1);
+  };
 
   const handlePlayAgain = () => {
     setGameOver(null);
+    setGameNumber(0);
     setGameKey((k) => k + 1);
   };
 
+  const matchOver = gameOver !== null && gameOver.match.matchWinner !== null;
+
   const handleBackToMenu = () => {
     router.push("/");
   };
@@ -195,6 +248,8 @@ function AIPlayContent({
         <GameCanvas
           key={gameKey}
           difficulty={difficulty}
+          matchLength={matchLength}
+          gameNumber={gameNumber}
           onGameOver={handleGameOver}
         />
 
@@ -205,17 +260,43 @@ function AIPlayContent({
             winType={gameOver.winType}
             isPlayerWin={gameOver.winner === Player.Gold}
             winnerName={
-              gameOver.winner === Player.Gold
-                ? "You Win!"
-                : `${aiName} Wins!`
+              matchLength > 1
+                ? gameOver.winner === Player.Gold
+                  ? matchOver ? "You Win the Match!" : "You Win the Game!"
+                  : matchOver ? `${aiName} Wins the Match!` : `${aiName} Wins the Game!`
+                : gameOver.winner === Player.Gold
+                  ? "You Win!"
+                  : `${aiName} Wins!`
+            }
+            matchScore={
+              matchLength > 1
+                ? {
+                    label: `Match to ${matchLength}`,
+                    you: gameOver.match.score[Player.Gold],
+                    them: gameOver.match.score[Player.Red],
+                  }
+                : undefined
             }
-            onPlayAgain={handlePlayAgain}
+            onNextGame={matchOver ? undefined : handleNextGame}
+            onPlayAgain={matchOver ? handlePlayAgain : undefined}
             onBackAction={handleBackToMenu}
             backLabel="Back to Menu"
           />
         )}
       </div>
 
+      {/* How both sides played the game just finished */}
+      {gameOver && (
+        <div className="w-full max-w-[900px] mt-4">
+          <AnalysisSummary
+            initialState={gameOver.record.initialState}
+            events={gameOver.record.events}
+            goldName="You"
+            redName={aiName}
+          />
+        </div>
+      )}
+
       <Link
         href="/"
         className="mt-6 sm:mt-8 text-[#D4A857] hover:text-[#FFD700] transition-colors duration-200 text-base sm:text-lg min-h-[44px] flex items-center interactive-btn font-heading"
@@ -247,20 +328,28 @@ function OnlinePlayContent({ roomId }: { roomId: string }) {
   const [opponentName, setOpponentName] = useState("Opponent");
   const [localPlayer, setLocalPlayer] = useState<Player>(Player.Gold);
   const [initialState, setInitialState] = useState<GameState | null>(null);
+  const [dice, setDice] = useState<{ hash: string; rolled: number } | undefined>();
+  const [clock, setClock] = useState<ClockSnapshot | null>(null);
+  const [spectators, setSpectators] = useState(0);
 
   const [gameOver, setGameOver] = useState<{
     winner: Player;
     winType: WinType;
     pointsWon: number;
+    match: MatchProgress;
   } | null>(null);
 
   const handleGameOver = useCallback(
-    (winner: Player, winType: WinType, pointsWon: number) => {
-      setGameOver({ winner, winType, pointsWon });
+    (winner: Player, winType: WinType, pointsWon: number, match: MatchProgress) => {
+      setGameOver({ winner, winType, pointsWon, match });
     },
     []
   );
 
+  const handleNextGame = useCallback(() => {
+    setGameOver(null);
+  }, []);
+
   const handleBackToMenu = () => {
     router.push("/");
   };
@@ -294,15 +383,12 @@ function OnlinePlayContent({ roomId }: { roomId: string }) {
         setStatus("waiting");
 
         // Listen for room-joined (either from reconnect or fresh join)
-        const onRoomJoined = (data: unknown) => {
+        const onRoomJoined = (payload: RoomJoined) => {
           if (destroyed) return;
-          const payload = data as {
-            roomId: string;
-            player: Player;
-            state: GameState;
-            opponent: { displayName: string } | null;
-          };
           setLocalPlayer(payload.player);
+          setDice({ hash: payload.diceHash, rolled: payload.diceRolled });
+          setClock(payload.clock);
+          setSpectators(payload.spectators);
           setInitialState(payload.state);
           if (payload.opponent) {
             setOpponentName(payload.opponent.displayName);
@@ -314,12 +400,11 @@ function OnlinePlayContent({ roomId }: { roomId: string }) {
           // game-start fires after room-joined; room-joined has the data we need
         };
 
-        const onError = (data: unknown) => {
+        const onError = ({ message }: ErrorPayload) => {
           if (destroyed) return;
-          const msg = (data as { message: string }).message;
           // If reconnect failed, show error
           if (status === "connecting" || status === "waiting") {
-            setError(msg);
+            setError(message);
             setStatus("error");
           }
         };
@@ -452,23 +537,45 @@ function OnlinePlayContent({ roomId }: { roomId: string }) {
             roomId={roomId}
             localPlayer={localPlayer}
             initialState={initialState}
+            dice={dice}
+            initialClock={clock}
+            initialSpectators={spectators}
             opponentName={opponentName}
             onGameOver={handleGameOver}
+            onNextGame={handleNextGame}
           />
 
-          {/* Game Over overlay */}
+          {/* Game Over overlay — between games of a match it clears itself
+              when the server deals the next game */}
           {gameOver && (
             <GameOverOverlay
               winner={gameOver.winner}
               winType={gameOver.winType}
               isPlayerWin={gameOver.winner === localPlayer}
               winnerName={
-                gameOver.winner === localPlayer
-                  ? "Ya Mon! You Win!"
-                  : `${opponentName} Wins!`
+                gameOver.match.matchWinner === null
+                  ? gameOver.winner === localPlayer
+                    ? "You Win the Game!"
+                    : `${opponentName} Wins the Game!`
+                  : gameOver.winner === localPlayer
+                    ? "Ya Mon! You Win!"
+                    : `${opponentName} Wins!`
+              }
+              matchScore={
+                gameOver.match.matchLength > 1
+                  ? {
+                      label: gameOver.match.matchWinner === null
+                        ? `Match to ${gameOver.match.matchLength} — next game soon come`
+                        : `Match to ${gameOver.match.matchLength}`,
+                      you: gameOver.match.score[localPlayer],
+                      them: gameOver.match.score[
+                        localPlayer === Player.Gold ? Player.Red : Player.Gold
+                      ],
+                    }
+                  : undefined
               }
               onBackAction={handleBackToLobby}
-              backLabel="Back to Lobby"
+              backLabel={gameOver.match.matchWinner === null ? "Leave Match" : "Back to Lobby"}
             />
           )}
         </div>
@@ -491,6 +598,234 @@ function OnlinePlayContent({ roomId }: { roomId: string }) {
   );
 }
 
+// ── Spectator view of someone else's online game ──────────────────────
+
+function WatchContent({ roomId }: { roomId: string }) {
+  const router = useRouter();
+  const socketRef = useRef<SocketClient | null>(null);
+
+  const [status, setStatus] = useState<"connecting" | "watching" | "ended" | "error">(
+    "connecting"
+  );
+  const [error, setError] = useState("");
+  const [connected, setConnected] = useState(false);
+  const [game, setGame] = useState<WatchedGame | null>(null);
+
+  const [gameOver, setGameOver] = useState<{
+    winner: Player;
+    winType: WinType;
+    match: MatchProgress;
+  } | null>(null);
+
+  const handleGameOver = useCallback(
+    (winner: Player, winType: WinType, _pointsWon: number, match: MatchProgress) => {
+      setGameOver({ winner, winType, match });
+    },
+    []
+  );
+
+  const handleNextGame = useCallback(() => {
+    setGameOver(null);
+  }, []);
+
+  const handleBackToLobby = () => {
+    router.push("/lobby");
+  };
+
+  useEffect(() => {
+    const client = new SocketClient();
+    socketRef.current = client;
+    let destroyed = false;
+
+    const watch = async () => {
+      await client.register();
+      const watched = await client.watchRoom(roomId);
+      if (destroyed) return;
+      setGameOver(null);
+      setGame(watched);
+      setStatus("watching");
+    };
+
+    const setup = async () => {
+      try {
+        await client.connect();
+        if (destroyed) return;
+        setConnected(true);
+
+        client.on("watch-ended", () => {
+          if (!destroyed) setStatus("ended");
+        });
+
+        client.on("disconnect", () => {
+          if (!destroyed) setConnected(false);
+        });
+
+        client.on("connect", () => {
+          if (!destroyed) setConnected(true);
+        });
+
+        // A new socket is a new spectator: pick the game up again
+        client.onReconnect(() => {
+          if (destroyed) return;
+          watch().catch(() => {
+            if (!destroyed) setStatus("ended");
+          });
+        });
+
+        await watch();
+      } catch (err) {
+        if (destroyed) return;
+        setError(
+          err instanceof Error ? err.message : "Failed to connect to server"
+        );
+        setStatus("error");
+      }
+    };
+
+    setup();
+
+    return () => {
+      destroyed = true;
+      client.stopWatching();
+      client.destroy();
+      socketRef.current = null;
+    };
+  }, [roomId]);
+
+  const dice = useMemo(
+    () => (game ? { hash: game.diceHash, rolled: game.diceRolled } : undefined),
+    [game]
+  );
+
+  return (
+    <div className="animated-bg flex min-h-screen flex-col items-center justify-center px-2 sm:px-4 py-4">
+      {/* Rasta stripe decoration */}
+      <div className="rasta-stripe-bar fixed top-0 left-0 right-0 flex h-2 z-50">
+        <div className="rasta-segment flex-1 bg-[#006B3F] origin-top" />
+        <div className="rasta-segment flex-1 bg-[#FFD700] origin-top" />
+        <div className="rasta-segment flex-1 bg-[#CE1126] origin-top" />
+      </div>
+
+      {/* Header */}
+      {status === "watching" && game && (
+        <div className="mb-3 sm:mb-4 text-center animate-fade-in">
+          <h1 className="font-heading text-3xl sm:text-4xl md:text-5xl mb-1 tracking-wide">
+            <PlayerLink
+              username={game.players[Player.Gold]}
+              className="text-[#FFD700] font-heading"
+            />
+            <span className="text-[#F4E1C1]"> vs </span>
+            <PlayerLink
+              username={game.players[Player.Red]}
+              className="text-[#CE1126] font-heading"
+            />
+          </h1>
+          <div className="flex items-center justify-center gap-2">
+            <div
+              className={`w-2 h-2 rounded-full ${
+                connected ? "bg-[#006B3F]" : "bg-[#CE1126]"
+              }`}
+            />
+            <span className="text-[#D4A857] text-xs font-heading">
+              {connected ? "Watching live" : "Reconnecting..."}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {status === "connecting" && (
+        <div className="animate-fade-in-scale rounded-2xl bg-[#2a2a1e] border-2 border-[#8B4513] px-8 sm:px-12 py-8 sm:py-10 text-center shadow-lg">
+          <div className="flex justify-center mb-4">
+            <div className="rasta-spinner" />
+          </div>
+          <p className="text-[#FFD700] font-heading text-xl sm:text-2xl mb-2">
+            Finding the game...
+          </p>
+          <p className="text-[#D4A857] text-sm font-heading">Room: {roomId}</p>
+        </div>
+      )}
+
+      {(status === "ended" || status === "error") && (
+        <div className="animate-fade-in-scale rounded-2xl bg-[#2a2a1e] border-2 border-[#CE1126] px-8 sm:px-12 py-8 sm:py-10 text-center shadow-lg">
+          <p className="text-[#CE1126] font-heading text-xl sm:text-2xl mb-2">
+            {status === "ended" ? "Game Over" : "Can't Watch This Game"}
+          </p>
+          <p className="text-[#D4A857] text-sm mb-6 font-heading">
+            {status === "ended" ? "The players have left the room." : error}
+          </p>
+          <button
+            onClick={handleBackToLobby}
+            className="rounded-2xl bg-[#006B3F] wood-btn wood-btn-green px-6 py-3 text-lg font-bold text-[#FFD700] shadow-lg interactive-btn cursor-pointer min-h-[44px] font-heading"
+          >
+            Back to Lobby
+          </button>
+        </div>
+      )}
+
+      {/* Read-only board, seen from Gold's side */}
+      {status === "watching" && game && socketRef.current && (
+        <div className="relative w-full max-w-[900px] animate-fade-in-scale">
+          <OnlineGameCanvas
+            socketClient={socketRef.current}
+            roomId={roomId}
+            localPlayer={Player.Gold}
+            initialState={game.state}
+            dice={dice}
+            initialClock={game.clock}
+            initialSpectators={game.spectators}
+            playerName={game.players[Player.Gold]}
+            opponentName={game.players[Player.Red]}
+            spectating
+            canChat={game.canChat}
+            onGameOver={handleGameOver}
+            onNextGame={handleNextGame}
+          />
+
+          {gameOver && (
+            <GameOverOverlay
+              winner={gameOver.winner}
+              winType={gameOver.winType}
+              isPlayerWin
+              winnerName={
+                gameOver.match.matchWinner === null
+                  ? `${game.players[gameOver.winner]} Wins the Game!`
+                  : `${game.players[gameOver.winner]} Wins!`
+              }
+              matchScore={
+                gameOver.match.matchLength > 1
+                  ? {
+                      label: gameOver.match.matchWinner === null
+                        ? `Match to ${gameOver.match.matchLength} — next game soon come`
+                        : `Match to ${gameOver.match.matchLength}`,
+                      you: gameOver.match.score[Player.Gold],
+                      them: gameOver.match.score[Player.Red],
+                    }
+                  : undefined
+              }
+              onBackAction={handleBackToLobby}
+              backLabel="Back to Lobby"
+            />
+          )}
+        </div>
+      )}
+
+      <Link
+        href="/lobby"
+        className="mt-6 sm:mt-8 text-[#D4A857] hover:text-[#FFD700] transition-colors duration-200 text-base sm:text-lg min-h-[44px] flex items-center interactive-btn font-heading"
+      >
+        &larr; {status === "watching" ? "Stop Watching" : "Back to Lobby"}
+      </Link>
+
+      {/* Bottom rasta stripe decoration */}
+      <div className="rasta-stripe-bar fixed bottom-0 left-0 right-0 flex h-2 z-50">
+        <div className="rasta-segment flex-1 bg-[#006B3F] origin-bottom" />
+        <div className="rasta-segment flex-1 bg-[#FFD700] origin-bottom" />
+        <div className="rasta-segment flex-1 bg-[#CE1126] origin-bottom" />
+      </div>
+    </div>
+  );
+}
+
 // ── Main Play page ────────────────────────────────────────────────────
 
 function PlayContent() {
@@ -498,13 +833,18 @@ function PlayContent() {
   const mode = searchParams.get("mode");
   const difficulty = searchParams.get("difficulty") ?? "easy";
   const roomId = searchParams.get("roomId") ?? "";
+  const matchLength = parseMatchLength(searchParams.get("matchLength"));
 
   if (mode === "online" && roomId) {
     return <OnlinePlayContent roomId={roomId} />;
   }
 
+  if (mode === "watch" && roomId) {
+    return <WatchContent roomId={roomId} />;
+  }
+
   // Default: AI mode (including mode === "ai" or fallback)
-  return <AIPlayContent difficulty={difficulty} />;
+  return <AIPlayContent difficulty={difficulty} matchLength={matchLength} />;
 }
 
 export default function PlayPage() {
@@ -3,34 +3,12 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
+import type { PlayerProfile } from "@backyamon/protocol";
 import { SocketClient } from "@/multiplayer/SocketClient";
 import { PlayerLink } from "@/components/PlayerLink";
+import { RatingChart } from "@/components/RatingChart";
 
-interface MatchEntry {
-  id: string;
-  opponent: string;
-  result: "win" | "loss";
-  winType: string;
-  pointsWon: number;
-  completedAt: string;
-}
-
-interface H2HEntry {
-  opponent: string;
-  wins: number;
-  losses: number;
-}
-
-interface ProfileData {
-  username: string;
-  wins: number;
-  losses: number;
-  winPct: number;
-  recentMatches: MatchEntry[];
-  headToHead: H2HEntry[];
-}
-
-function formatWinType(winType: string): string {
+function formatWinType(winType: string | null): string {
   switch (winType) {
     case "ya_mon":
       return "Ya Mon";
@@ -39,10 +17,14 @@ function formatWinType(winType: string): string {
     case "massive_ya_mon":
       return "Massive Ya Mon";
     default:
-      return winType;
+      return winType ?? "";
   }
 }
 
+function formatForfeit(reason: "timeout" | "abandoned"): string {
+  return reason === "timeout" ? "Lost on time" : "Abandoned";
+}
+
 function timeAgo(dateStr: string): string {
   const date = new Date(dateStr);
   const now = new Date();
@@ -60,7 +42,7 @@ function timeAgo(dateStr: string): string {
 export default function PlayerProfilePage() {
   const params = useParams();
   const username = decodeURIComponent(params.username as string);
-  const [profile, setProfile] = useState<ProfileData | null>(null);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const clientRef = useRef<SocketClient | null>(null);
@@ -141,8 +123,27 @@ export default function PlayerProfilePage() {
                   </span>
                 )}
               </p>
+              <p className="mt-1 font-heading text-sm text-[#D4A857]/70">
+                Rating{" "}
+                <span className="text-[#FFD700] font-bold">
+                  {Math.round(profile.rating)}
+                </span>
+                <span className="text-[#D4A857]/50 ml-3">
+                  Peak {Math.round(profile.peakRating)}
+                </span>
+              </p>
             </div>
 
+            {/* Rating History */}
+            {profile.ratingHistory.length > 0 && (
+              <div className="mt-8">
+                <h2 className="text-[#D4A857] text-xs font-heading tracking-wider uppercase mb-3">
+                  Rating
+                </h2>
+                <RatingChart history={profile.ratingHistory} />
+              </div>
+            )}
+
             {/* Recent Matches */}
             <div className="mt-8">
               <h2 className="text-[#D4A857] text-xs font-heading tracking-wider uppercase mb-3">
@@ -178,15 +179,27 @@ export default function PlayerProfilePage() {
                         </span>
                       </div>
                       <div className="flex items-center gap-3">
+                        {m.matchLength > 1 && (
+                          <span className="text-[#D4A857]/50 text-xs font-heading">
+                            Game {m.gameNumber}, match to {m.matchLength}
+                            {m.matchResult && ` (match ${m.matchResult === "win" ? "won" : "lost"})`}
+                          </span>
+                        )}
                         <span className="text-[#D4A857]/50 text-xs font-heading">
-                          {formatWinType(m.winType)}
+                          {m.forfeitReason ? formatForfeit(m.forfeitReason) : formatWinType(m.winType)}
                         </span>
                         <span className="text-[#D4A857]/50 text-xs font-heading">
                           {m.pointsWon} pts
                         </span>
                         <span className="text-[#D4A857]/30 text-xs font-heading">
-                          {timeAgo(m.completedAt)}
+                          {m.completedAt && timeAgo(m.completedAt)}
                         </span>
+                        <Link
+                          href={`/replay/${m.id}`}
+                          className="text-[#D4A857]/60 text-xs font-heading hover:text-[#FFD700] transition-colors"
+                        >
+                          Replay
+                        </Link>
                       </div>
                     </div>
                   ))}
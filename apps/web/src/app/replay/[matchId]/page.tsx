@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import type { Replay } from "@backyamon/protocol";
+import { SocketClient } from "@/multiplayer/SocketClient";
+import { PlayerLink } from "@/components/PlayerLink";
+import { ReplayCanvas } from "@/components/ReplayCanvas";
+import { AnalysisSummary } from "@/components/AnalysisSummary";
+
+export default function ReplayPage() {
+  const params = useParams();
+  const matchId = params.matchId as string;
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const client = new SocketClient();
+
+    client
+      .connect()
+      .then(() => client.register())
+      .then(() => client.getReplay(matchId))
+      .then((data) => {
+        if (data.replay) {
+          setReplay(data.replay);
+        } else {
+          setError(data.error ?? "Replay not found");
+        }
+      })
+      .catch(() => setError("Could not connect to server"))
+      .finally(() => {
+        setLoading(false);
+        // The replay plays back locally, so the connection is no longer needed
+        client.destroy();
+      });
+
+    return () => {
+      client.destroy();
+    };
+  }, [matchId]);
+
+  return (
+    <main className="min-h-screen bg-[#2C1B0E] flex flex-col items-center px-4 py-8">
+      <div className="w-full max-w-[900px]">
+        <Link
+          href="/lobby"
+          className="text-[#D4A857]/60 text-sm font-heading hover:text-[#D4A857] transition-colors"
+        >
+          &larr; Back to Lobby
+        </Link>
+
+        {loading && (
+          <div className="mt-12 text-center">
+            <span className="text-[#D4A857] text-sm font-heading animate-pulse">
+              Loading replay...
+            </span>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-12 text-center">
+            <span className="text-[#CE1126] text-sm font-heading">
+              {error}
+            </span>
+          </div>
+        )}
+
+        {replay && (
+          <>
+            <div className="mt-6 mb-4 text-center">
+              <h1 className="font-heading text-2xl text-[#FFD700] tracking-wide">
+                <PlayerLink
+                  username={replay.goldPlayer}
+                  className="text-[#FFD700] font-heading text-2xl"
+                />
+                <span className="text-[#D4A857]/50 mx-3 text-lg">vs</span>
+                <PlayerLink
+                  username={replay.redPlayer}
+                  className="text-[#CE1126] font-heading text-2xl"
+                />
+              </h1>
+              {replay.initialState.matchLength > 1 && (
+                <p className="mt-1 text-[#D4A857]/50 text-xs font-heading">
+                  Game {replay.gameNumber}, match to {replay.initialState.matchLength}
+                </p>
+              )}
+            </div>
+            <ReplayCanvas
+              initialState={replay.initialState}
+              events={replay.events}
+              goldName={replay.goldPlayer}
+              redName={replay.redPlayer}
+            />
+            <div className="mt-6">
+              <AnalysisSummary
+                initialState={replay.initialState}
+                events={replay.events}
+                goldName={replay.goldPlayer}
+                redName={replay.redPlayer}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
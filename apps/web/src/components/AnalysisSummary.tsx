@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Player,
+  formatMoves,
+  type GameAnalysis,
+  type GameEvent,
+  type GameState,
+  type TurnAnalysis,
+} from "@backyamon/engine";
+import { AIWorker } from "@/game/AIWorker";
+
+interface AnalysisSummaryProps {
+  initialState: GameState;
+  events: GameEvent[];
+  goldName: string;
+  redName: string;
+}
+
+// Worst turns listed under the table
+const MISTAKES_SHOWN = 3;
+
+function describeRating(pr: number): string {
+  if (pr < 2.5) return "World class";
+  if (pr < 5) return "Expert";
+  if (pr < 7.5) return "Advanced";
+  if (pr < 12.5) return "Intermediate";
+  if (pr < 17.5) return "Casual";
+  return "Beginner";
+}
+
+function formatTurn(turn: TurnAnalysis, moves = turn.moves): string {
+  return moves.length > 0 ? formatMoves(turn.position, moves) : "no move";
+}
+
+/**
+ * How well each side played a finished game: every turn of checker play
+ * is compared with the best the expert network finds, in a worker so the
+ * page stays responsive meanwhile.
+ */
+export function AnalysisSummary({ initialState, events, goldName, redName }: AnalysisSummaryProps) {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setAnalysis(null);
+    setFailed(false);
+    const worker = new AIWorker();
+    worker
+      .analyzeGame(initialState, events)
+      .then(setAnalysis)
+      .catch((err: unknown) => {
+        console.error("Game analysis failed:", err);
+        setFailed(true);
+      });
+    // Stops the analysis if the game shown changes or the page is left
+    return () => worker.terminate();
+  }, [initialState, events]);
+
+  if (failed) {
+    return (
+      <p className="text-center text-[#D4A857] text-sm font-heading">
+        The game could not be analysed.
+      </p>
+    );
+  }
+
+  if (!analysis) {
+    return (
+      <p className="text-center text-[#D4A857] text-sm font-heading animate-pulse">
+        Analysing the game...
+      </p>
+    );
+  }
+
+  const names: Record<Player, string> = { [Player.Gold]: goldName, [Player.Red]: redName };
+  const sides = [Player.Gold, Player.Red] as const;
+  const mistakes = analysis.turns
+    .filter((turn) => turn.rating === "error" || turn.rating === "blunder")
+    .sort((a, b) => b.equityLoss - a.equityLoss)
+    .slice(0, MISTAKES_SHOWN);
+
+  return (
+    <div className="rounded-2xl bg-[#1A1A0E]/80 border border-[#8B4513]/60 px-4 py-3 font-heading text-sm text-[#D4A857]">
+      <h2 className="text-center text-[#FFD700] text-lg mb-2">Game Analysis</h2>
+
+      <table className="w-full text-center">
+        <thead>
+          <tr className="text-[#D4A857]/60 text-xs">
+            <th />
+            {sides.map((side) => (
+              <th key={side} style={{ color: side === Player.Gold ? "#FFD700" : "#CE1126" }}>
+                {names[side]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td className="text-left text-[#D4A857]/60" title="Average equity lost per decision, times 500">
+              Performance rating
+            </td>
+            {sides.map((side) => {
+              const { decisions, performanceRating } = analysis.players[side];
+              return (
+                <td key={side}>
+                  {decisions > 0 ? (
+                    <>
+                      {performanceRating.toFixed(1)}
+                      <span className="block text-xs text-[#D4A857]/50">{describeRating(performanceRating)}</span>
+                    </>
+                  ) : "-"}
+                </td>
+              );
+            })}
+          </tr>
+          <tr>
+            <td className="text-left text-[#D4A857]/60">Decisions</td>
+            {sides.map((side) => <td key={side}>{analysis.players[side].decisions}</td>)}
+          </tr>
+          <tr>
+            <td className="text-left text-[#D4A857]/60">Errors</td>
+            {sides.map((side) => <td key={side}>{analysis.players[side].errors}</td>)}
+          </tr>
+          <tr>
+            <td className="text-left text-[#D4A857]/60">Blunders</td>
+            {sides.map((side) => <td key={side}>{analysis.players[side].blunders}</td>)}
+          </tr>
+        </tbody>
+      </table>
+
+      {mistakes.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs">
+          {mistakes.map((turn) => (
+            <li key={analysis.turns.indexOf(turn)}>
+              <span className={turn.rating === "blunder" ? "text-[#CE1126]" : "text-[#FFD700]"}>
+                {turn.rating === "blunder" ? "Blunder" : "Error"}
+              </span>{" "}
+              {names[turn.player]} {turn.position.dice?.values.join("-")}: played{" "}
+              <span className="font-mono">{formatTurn(turn)}</span>, best{" "}
+              <span className="font-mono">{formatTurn(turn, turn.bestMoves)}</span>{" "}
+              <span className="text-[#D4A857]/50">(-{turn.equityLoss.toFixed(3)})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
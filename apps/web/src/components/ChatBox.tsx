@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Player } from "@backyamon/engine";
+import type { ChatMessage } from "@backyamon/protocol";
+import { QUICK_PHRASES } from "@/game/patois";
+
+interface ChatBoxProps {
+  messages: ChatMessage[]; // Oldest first
+  canPost: boolean;
+  onSend: (text: string) => void;
+}
+
+const MAX_LENGTH = 200; // The server cuts longer messages
+
+function roleColor(role: ChatMessage["role"]): string {
+  if (role === Player.Gold) return "#FFD700";
+  if (role === Player.Red) return "#CE1126";
+  return "#D4A857";
+}
+
+/**
+ * Room chat under the online board: the conversation so far, one-tap
+ * patois quick phrases and a free-text box. Spectators in rooms that
+ * don't allow them to post see the conversation only.
+ */
+export function ChatBox({ messages, canPost, onSend }: ChatBoxProps) {
+  const [draft, setDraft] = useState("");
+  const logRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [messages]);
+
+  const send = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(trimmed);
+    setDraft("");
+  };
+
+  return (
+    <div className="mt-2 rounded-xl bg-[#1A1A0E]/80 border border-[#8B4513]/60 px-3 py-2 flex flex-col gap-2">
+      <div ref={logRef} className="max-h-24 overflow-y-auto flex flex-col gap-0.5">
+        {messages.length === 0 ? (
+          <p className="text-[#D4A857]/40 text-xs font-heading text-center">
+            No chat yet — say wah gwaan!
+          </p>
+        ) : (
+          messages.map((m, i) => (
+            <p key={`${m.sentAt}-${i}`} className="text-xs font-heading break-words">
+              <span style={{ color: roleColor(m.role) }}>
+                {m.from}
+                {m.role === "spectator" && " (watching)"}:
+              </span>{" "}
+              <span className="text-[#F4E1C1]">{m.text}</span>
+            </p>
+          ))
+        )}
+      </div>
+
+      {canPost ? (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_PHRASES.map((phrase) => (
+              <button
+                key={phrase}
+                onClick={(e) => { (e.target as HTMLElement).blur(); send(phrase); }}
+                tabIndex={-1}
+                className="rounded-full bg-[#8B4513]/30 border border-[#8B4513] px-2.5 py-0.5 text-[#D4A857] text-xs font-heading hover:border-[#FFD700] hover:text-[#FFD700] transition-colors cursor-pointer"
+              >
+                {phrase}
+              </button>
+            ))}
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              send(draft);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={draft}
+              maxLength={MAX_LENGTH}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Say something..."
+              className="flex-1 rounded-lg bg-[#2a2a1e] border border-[#8B4513] px-3 py-1.5 text-[#F4E1C1] text-xs font-heading placeholder:text-[#D4A857]/30 focus:outline-none focus:border-[#D4A857]"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="rounded-lg bg-[#006B3F] px-4 py-1.5 text-[#FFD700] text-xs font-heading cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          </form>
+        </>
+      ) : (
+        <p className="text-[#D4A857]/40 text-xs font-heading text-center">
+          Spectators can read the chat in this room but not post.
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** A player's latest message, floating beside their side of the board. */
+export function ChatBubble({ message, side }: { message: ChatMessage; side: "top" | "bottom" }) {
+  return (
+    <div
+      className={`absolute right-3 ${side === "top" ? "top-3" : "bottom-14"} max-w-[60%] z-20 pointer-events-none animate-fade-in`}
+    >
+      <div
+        className="rounded-2xl bg-[#1A1A0E]/90 border px-3 py-1.5 shadow-lg"
+        style={{ borderColor: roleColor(message.role) }}
+      >
+        <span className="text-[#F4E1C1] text-xs sm:text-sm font-heading break-words">{message.text}</span>
+      </div>
+    </div>
+  );
+}
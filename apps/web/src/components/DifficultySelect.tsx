@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 
 interface DifficultySelectProps {
@@ -31,10 +32,21 @@ const opponents = [
     accent: "#CE1126",
     accentGlow: "rgba(206,17,38,0.3)",
   },
+  {
+    name: "Scientist",
+    difficulty: "expert" as const,
+    badge: "Expert",
+    flavor: "Him calculate every riddim",
+    accent: "#0077BE",
+    accentGlow: "rgba(0,119,190,0.3)",
+  },
 ];
 
+const MATCH_LENGTHS = [1, 3, 5, 7];
+
 export default function DifficultySelect({ onBack }: DifficultySelectProps) {
   const router = useRouter();
+  const [matchLength, setMatchLength] = useState(1);
 
   return (
     <div className="animated-bg flex min-h-screen flex-col items-center justify-center px-4">
@@ -48,16 +60,36 @@ export default function DifficultySelect({ onBack }: DifficultySelectProps) {
       <h2 className="animate-fade-in-up font-display text-3xl sm:text-4xl md:text-5xl text-[#FFD700] mb-2 tracking-wide title-glow">
         Choose Your Opponent
       </h2>
-      <p className="animate-fade-in animate-delay-100 text-[#D4A857] text-lg mb-10 font-heading">
+      <p className="animate-fade-in animate-delay-100 text-[#D4A857] text-lg mb-6 font-heading">
         Who you wan fi challenge?
       </p>
 
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6 w-full max-w-xs sm:max-w-3xl">
+      {/* Match length */}
+      <div className="animate-fade-in animate-delay-100 flex items-center gap-2 mb-8">
+        <span className="text-[#D4A857] text-sm font-heading mr-1">Play to</span>
+        {MATCH_LENGTHS.map((length) => (
+          <button
+            key={length}
+            onClick={() => setMatchLength(length)}
+            className={`rounded-lg px-3 py-1.5 min-w-[44px] min-h-[36px] font-heading text-sm border transition-colors cursor-pointer ${
+              matchLength === length
+                ? "bg-[#FFD700] text-[#1A1A0E] border-[#FFD700]"
+                : "bg-[#1A1A0E]/60 text-[#D4A857] border-[#8B4513] hover:border-[#D4A857]"
+            }`}
+          >
+            {length === 1 ? "1 game" : length}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 w-full max-w-xs sm:max-w-3xl lg:max-w-5xl">
         {opponents.map((opp, index) => (
           <button
             key={opp.difficulty}
             onClick={() =>
-              router.push(`/play?mode=ai&difficulty=${opp.difficulty}`)
+              router.push(
+                `/play?mode=ai&difficulty=${opp.difficulty}&matchLength=${matchLength}`
+              )
             }
             className={`animate-fade-in-up animate-delay-${(index + 1) * 100} group rounded-2xl bg-[#2a2a1e] p-6 text-left shadow-lg game-card cursor-pointer`}
             style={{
@@ -3,7 +3,8 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { Application } from "pixi.js";
 import { Player, type GameState, type WinType, canOfferDouble } from "@backyamon/engine";
-import { GameController } from "@/game/GameController";
+import { GameController, type GameRecord, type Hint } from "@/game/GameController";
+import type { MatchProgress } from "@/game/BaseGameController";
 import { getAssetPreferences } from "@/lib/assetPreferences";
 import { SoundManager, type SFXName } from "@/audio/SoundManager";
 import { useGameKeyboard } from "@/hooks/useGameKeyboard";
@@ -11,16 +12,25 @@ import { GameHUD } from "./GameHUD";
 
 interface GameCanvasProps {
   difficulty: string;
-  onGameOver?: (winner: Player, winType: WinType) => void;
+  matchLength?: number;
+  // Index of the game within the match; bump it to deal the next game
+  gameNumber?: number;
+  onGameOver?: (winner: Player, winType: WinType, match: MatchProgress, record: GameRecord) => void;
 }
 
 const aiNames: Record<string, string> = {
   easy: "Beach Bum",
   medium: "Selecta",
   hard: "King Tubby",
+  expert: "Scientist",
 };
 
-export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
+export function GameCanvas({
+  difficulty,
+  matchLength = 1,
+  gameNumber = 0,
+  onGameOver,
+}: GameCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const controllerRef = useRef<GameController | null>(null);
   const appRef = useRef<Application | null>(null);
@@ -35,6 +45,14 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
     }
     return true;
   });
+  const [canHint, setCanHint] = useState(false);
+  const [hints, setHints] = useState<Hint[] | null>(null);
+  const [autoHints, setAutoHints] = useState(() => {
+    if (typeof window !== "undefined") {
+      return localStorage.getItem("backyamon_auto_hints") === "true"; // default off
+    }
+    return false;
+  });
 
   const soundManager = useMemo(() => SoundManager.getInstance(), []);
 
@@ -55,6 +73,24 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
     controllerRef.current?.undoMove();
   }, []);
 
+  const handleHint = useCallback(() => {
+    controllerRef.current?.showHints();
+  }, []);
+
+  const handleToggleAutoHints = useCallback((on: boolean) => {
+    setAutoHints(on);
+    localStorage.setItem("backyamon_auto_hints", String(on));
+    controllerRef.current?.setAutoHints(on);
+  }, []);
+
+  const handleResign = useCallback((winType: WinType) => {
+    controllerRef.current?.resign(winType);
+  }, []);
+
+  const handleAnswerDouble = useCallback((accept: boolean) => {
+    controllerRef.current?.respondToDouble(accept);
+  }, []);
+
   const handleToggleMoveArcs = useCallback((show: boolean) => {
     setShowMoveArcs(show);
     localStorage.setItem("backyamon_show_arcs_sp", String(show));
@@ -69,8 +105,11 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
     waitingForRoll;
 
   // Shared keyboard shortcuts
-  const undoOptions = useMemo(() => ({ onUndo: handleUndo }), [handleUndo]);
-  useGameKeyboard(controllerRef, waitingForRoll, soundManager, undoOptions);
+  const keyboardOptions = useMemo(
+    () => ({ onUndo: handleUndo, onHint: handleHint }),
+    [handleUndo, handleHint]
+  );
+  useGameKeyboard(controllerRef, waitingForRoll, soundManager, keyboardOptions);
 
   useEffect(() => {
     const container = containerRef.current;
@@ -114,11 +153,14 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
 
       // Validate difficulty
       const diff =
-        difficulty === "easy" || difficulty === "medium" || difficulty === "hard"
+        difficulty === "easy" ||
+        difficulty === "medium" ||
+        difficulty === "hard" ||
+        difficulty === "expert"
           ? difficulty
           : "easy";
 
-      controller = new GameController(app, diff);
+      controller = new GameController(app, diff, matchLength);
       controllerRef.current = controller;
 
       controller.onMessage = (msg) => {
@@ -137,9 +179,17 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
         if (!destroyed) setCanUndo(canUndoNow);
       };
 
-      controller.onGameOver = (winner, winType) => {
+      controller.onCanHint = (canHintNow) => {
+        if (!destroyed) setCanHint(canHintNow);
+      };
+
+      controller.onHints = (shown) => {
+        if (!destroyed) setHints(shown);
+      };
+
+      controller.onGameOver = (winner, winType, match, record) => {
         if (!destroyed) {
-          onGameOver?.(winner, winType);
+          onGameOver?.(winner, winType, match, record);
         }
       };
 
@@ -180,6 +230,9 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
       // Apply move arcs preference (default on in singleplayer)
       const storedArcs = localStorage.getItem("backyamon_show_arcs_sp");
       controller.setShowMoveArcs(storedArcs !== null ? storedArcs === "true" : true);
+
+      // Apply auto hints preference (default off)
+      controller.setAutoHints(localStorage.getItem("backyamon_auto_hints") === "true");
     };
 
     init();
@@ -200,7 +253,14 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
         appRef.current = null;
       }
     };
-  }, [difficulty, onGameOver]);
+  }, [difficulty, matchLength, onGameOver]);
+
+  // Deal the next game of the match when the parent advances gameNumber
+  useEffect(() => {
+    if (gameNumber > 0) {
+      controllerRef.current?.startNextGame();
+    }
+  }, [gameNumber]);
 
   return (
     <div className="relative w-full max-w-[900px]">
@@ -211,12 +271,20 @@ export function GameCanvas({ difficulty, onGameOver }: GameCanvasProps) {
         onOfferDouble={handleOfferDouble}
         onRollDice={handleRollClick}
         onUndo={handleUndo}
+        onHint={handleHint}
+        onResign={handleResign}
+        onAnswerDouble={handleAnswerDouble}
         canRoll={waitingForRoll}
         canDouble={canDouble}
         canUndo={canUndo}
+        canHint={canHint}
+        canResign
         soundManager={soundManager}
         showMoveArcs={showMoveArcs}
         onToggleMoveArcs={handleToggleMoveArcs}
+        hints={hints}
+        autoHints={autoHints}
+        onToggleAutoHints={handleToggleAutoHints}
       >
         {/* Canvas container — passed as children so HUD wraps around it */}
         <div
@@ -1,43 +1,83 @@
 "use client";
 
-import { type GameState, Player, canOfferDouble } from "@backyamon/engine";
+import {
+  type GameState,
+  type WinType,
+  Player,
+  canOfferDouble,
+  canOfferResignation,
+  isResignationPending,
+  getPointsWon,
+} from "@backyamon/engine";
 import { useState, useCallback, useEffect } from "react";
 import { SoundManager } from "@/audio/SoundManager";
+import type { ClockSnapshot } from "@backyamon/protocol";
+import type { Hint } from "@/game/GameController";
+import { HINT_COLORS } from "@/game/MoveLineRenderer";
 
 interface GameHUDProps {
   state: GameState | null;
   playerColor: Player;
+  playerName?: string; // Shown on the bottom badge
   opponentName: string;
+  spectating?: boolean; // Watching someone else's game: nothing can be played
+  spectators?: number; // How many are watching an online game
   onOfferDouble: () => void;
   onRollDice: () => void;
   onUndo?: () => void;
+  onHint?: () => void;
+  onResign?: (winType: WinType) => void;
+  onAnswerResignation?: (accept: boolean) => void; // Answer the opponent's resignation
+  onAnswerDouble?: (accept: boolean) => void; // Take or drop the opponent's double
   canRoll: boolean;
   canDouble: boolean;
   canUndo?: boolean;
+  canHint?: boolean;
+  canResign?: boolean;
   soundManager: SoundManager;
   showMoveArcs?: boolean;
   onToggleMoveArcs?: (show: boolean) => void;
+  hints?: Hint[] | null; // Suggested turns on show, best first
+  autoHints?: boolean;
+  onToggleAutoHints?: (on: boolean) => void;
+  clock?: ClockSnapshot | null; // Match clock for timed online games
+  opponentAway?: { forfeitAt: number | null } | null; // Opponent disconnected; forfeitAt is performance.now() time
   children?: React.ReactNode;
 }
 
 export function GameHUD({
   state,
   playerColor,
+  playerName = "You",
   opponentName,
+  spectating = false,
+  spectators = 0,
   onOfferDouble,
   onRollDice,
   onUndo,
+  onHint,
+  onResign,
+  onAnswerResignation,
+  onAnswerDouble,
   canRoll,
   canDouble,
   canUndo = false,
+  canHint = false,
+  canResign = false,
   soundManager,
   showMoveArcs,
   onToggleMoveArcs,
+  hints,
+  autoHints,
+  onToggleAutoHints,
+  clock,
+  opponentAway,
   children,
 }: GameHUDProps) {
   const [muted, setMuted] = useState(soundManager.isMuted());
   const [musicPlaying, setMusicPlaying] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [resignOpen, setResignOpen] = useState(false);
 
   const handleToggleMute = useCallback(() => {
     soundManager.resumeContext();
@@ -65,17 +105,46 @@ export function GameHUD({
   const isPlayerTurn = hasState && state.currentPlayer === playerColor;
   const cubeValue = hasState ? state.doublingCube.value : 1;
   const showDoubleButton = hasState && canDouble && canOfferDouble(state) && isPlayerTurn;
+  const showResignButton =
+    hasState && canResign && !!onResign && isPlayerTurn && canOfferResignation(state);
+  const resignationPending = hasState && isResignationPending(state);
+  // An offer to answer: the resigner is always the player on roll
+  const resignationToAnswer =
+    resignationPending && !isPlayerTurn && onAnswerResignation ? state.resignation! : null;
+  // A double to answer: the doubler is always the player on roll
+  const doubleToAnswer = hasState && state.phase === "DOUBLING" && !isPlayerTurn && !!onAnswerDouble;
+
+  // Close the resign menu once resigning is no longer possible
+  useEffect(() => {
+    if (!showResignButton) setResignOpen(false);
+  }, [showResignButton]);
 
   // Turn indicator text
   let turnText = "";
-  if (hasState) {
+  const nameOf = (player: Player) => (player === playerColor ? playerName : opponentName);
+  if (hasState && spectating) {
+    const other = nameOf(state.currentPlayer === Player.Gold ? Player.Red : Player.Gold);
+    if (state.phase === "GAME_OVER") {
+      turnText = state.winner ? `${nameOf(state.winner)} wins!` : "";
+    } else if (state.phase === "DOUBLING") {
+      turnText = `${other} is considering the double...`;
+    } else if (resignationPending) {
+      turnText = `${other} is considering a resignation...`;
+    } else {
+      turnText = `${nameOf(state.currentPlayer)}'s turn`;
+    }
+  } else if (hasState) {
     if (state.phase === "GAME_OVER") {
       turnText =
         state.winner === playerColor
           ? "Ya Mon! You win!"
           : `${opponentName} wins!`;
     } else if (state.phase === "DOUBLING") {
-      turnText = `${opponentName} is considering...`;
+      turnText = isPlayerTurn ? `${opponentName} is considering...` : `${opponentName} doubles`;
+    } else if (resignationPending) {
+      turnText = isPlayerTurn
+        ? `${opponentName} is considering your resignation...`
+        : `${opponentName} offers to resign`;
     } else if (isPlayerTurn) {
       turnText = state.phase === "ROLLING" ? "Your turn - Roll!" : "Your turn";
     } else {
@@ -89,6 +158,8 @@ export function GameHUD({
     <div className={`flex items-center justify-between px-1 pb-1${hasState ? "" : " invisible"}`}>
       <div className="flex items-center gap-2">
         <PlayerBadge name={opponentName} color={opponentColor} />
+        {clock && <ClockFace clock={clock} player={opponentColor} />}
+        {opponentAway && <DisconnectCountdown forfeitAt={opponentAway.forfeitAt} />}
         {/* Score display (match play) */}
         {state && state.matchLength > 1 && (
           <div className="bg-[#1A1A0E]/80 rounded-lg px-3 py-1 text-xs font-heading border border-[#8B4513]">
@@ -100,10 +171,23 @@ export function GameHUD({
             <span className="text-[#CE1126]">
               {state.matchScore[opponentColor]}
             </span>
+            {state.isCrawford && (
+              <span className="text-[#D4A857]/60 ml-2" title="No doubling this game">
+                Crawford
+              </span>
+            )}
           </div>
         )}
       </div>
       <div className="flex items-center gap-2">
+        {spectators > 0 && (
+          <span
+            className="bg-[#1A1A0E]/80 rounded-lg px-3 py-1 text-xs font-heading text-[#D4A857] border border-[#8B4513]"
+            title="Spectators"
+          >
+            {spectators} watching
+          </span>
+        )}
         {/* Volume toggle */}
         <button
           onClick={(e) => { (e.target as HTMLElement).blur(); handleToggleMute(); }}
@@ -153,6 +237,17 @@ export function GameHUD({
                   />
                   <span className="font-heading text-xs text-[#D4A857]">Show move arcs</span>
                 </label>
+                {onToggleAutoHints && (
+                  <label className="flex items-center gap-2 cursor-pointer mt-2">
+                    <input
+                      type="checkbox"
+                      checked={autoHints ?? false}
+                      onChange={(e) => onToggleAutoHints(e.target.checked)}
+                      className="accent-[#D4A857] w-4 h-4 cursor-pointer"
+                    />
+                    <span className="font-heading text-xs text-[#D4A857]">Always show hints</span>
+                  </label>
+                )}
               </div>
             )}
           </div>
@@ -173,6 +268,20 @@ export function GameHUD({
         </div>
       )}
 
+      {/* Suggested turns, coloured like their arcs */}
+      {hints && hints.length > 0 && (
+        <div className="absolute top-2 left-3 rounded-lg bg-[#1A1A0E]/85 border border-[#8B4513] px-3 py-2 font-heading text-xs">
+          {hints.map((hint, rank) => (
+            <div key={rank} style={{ color: `#${HINT_COLORS[rank % HINT_COLORS.length].toString(16).padStart(6, "0")}` }}>
+              {rank + 1}. <span className="font-mono">{hint.notation}</span>{" "}
+              <span className="text-[#D4A857]/60">
+                {rank === 0 ? `${hint.equity >= 0 ? "+" : ""}${hint.equity.toFixed(3)}` : `-${hint.equityLoss.toFixed(3)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Bottom bar: undo + turn indicator / roll button */}
       <div className="absolute bottom-0 left-0 right-0 flex items-end justify-between px-3 pb-2">
         <div className="flex items-center gap-2 pointer-events-auto">
@@ -194,6 +303,53 @@ export function GameHUD({
               Undo
             </button>
           )}
+          {canHint && onHint && (
+            <button
+              onClick={(e) => { (e.target as HTMLElement).blur(); onHint(); }}
+              tabIndex={-1}
+              className="
+                bg-[#1A1A0E]/80 hover:bg-[#1A1A0E]
+                text-[#D4A857] font-heading text-xs
+                px-4 py-2 rounded-lg min-h-[44px]
+                border border-[#8B4513]
+                hover:border-[#D4A857]
+                transition-all duration-150
+                cursor-pointer
+              "
+              title="Show the best moves (Shift+H)"
+            >
+              Hint
+            </button>
+          )}
+          {showResignButton && (
+            <div className="relative">
+              <button
+                onClick={(e) => { (e.target as HTMLElement).blur(); setResignOpen(!resignOpen); }}
+                tabIndex={-1}
+                className="
+                  bg-[#1A1A0E]/80 hover:bg-[#1A1A0E]
+                  text-[#D4A857] font-heading text-xs
+                  px-4 py-2 rounded-lg min-h-[44px]
+                  border border-[#8B4513]
+                  hover:border-[#CE1126]
+                  transition-all duration-150
+                  cursor-pointer
+                "
+                title="Offer to resign"
+              >
+                Resign
+              </button>
+              {resignOpen && (
+                <ResignMenu
+                  cubeValue={cubeValue}
+                  onResign={(winType) => {
+                    setResignOpen(false);
+                    onResign!(winType);
+                  }}
+                />
+              )}
+            </div>
+          )}
         </div>
         {canRoll ? (
           <button
@@ -227,11 +383,33 @@ export function GameHUD({
         )}
       </div>
     </div>
+    {resignationToAnswer && (
+      <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+        <ResignationPrompt
+          opponentName={opponentName}
+          winType={resignationToAnswer}
+          cubeValue={cubeValue}
+          onAnswer={onAnswerResignation!}
+        />
+      </div>
+    )}
+    {doubleToAnswer && (
+      <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+        <DoublePrompt
+          opponentName={opponentName}
+          cubeValue={cubeValue}
+          onAnswer={onAnswerDouble!}
+        />
+      </div>
+    )}
     </div>
 
     {/* Bottom bar: player name — BELOW the board */}
     <div className={`flex items-center justify-between px-1 pt-1${hasState ? "" : " invisible"}`}>
-      <PlayerBadge name="You" color={playerColor} />
+      <div className="flex items-center gap-2">
+        <PlayerBadge name={playerName} color={playerColor} />
+        {clock && <ClockFace clock={clock} player={playerColor} />}
+      </div>
     </div>
     </>
   );
@@ -254,6 +432,191 @@ function PlayerBadge({ name, color }: { name: string; color: Player }) {
   );
 }
 
+// Below this much time left a clock is shown in red
+const LOW_TIME_MS = 30_000;
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+/**
+ * One player's time bank. The server sends a snapshot whenever the clock
+ * changes hands; the running clock counts down locally in between, using
+ * up the Bronstein delay before the bank.
+ */
+function ClockFace({ clock, player }: { clock: ClockSnapshot; player: Player }) {
+  const [receivedAt, setReceivedAt] = useState(() => performance.now());
+  const [now, setNow] = useState(receivedAt);
+  const running = clock.running === player;
+
+  useEffect(() => {
+    const t = performance.now();
+    setReceivedAt(t);
+    setNow(t);
+  }, [clock]);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(performance.now()), 200);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const elapsed = running ? Math.max(0, now - receivedAt) : 0;
+  const delayLeft = Math.max(0, clock.delayLeft - elapsed);
+  const bank = Math.max(0, clock.banks[player] - Math.max(0, elapsed - clock.delayLeft));
+  const low = bank < LOW_TIME_MS;
+
+  return (
+    <div
+      className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 border font-heading text-sm tabular-nums ${
+        running ? "bg-[#1A1A0E] border-[#FFD700]" : "bg-[#1A1A0E]/80 border-[#8B4513]"
+      }`}
+      title={`${clock.control.delaySeconds}s ${clock.control.style === "fischer" ? "increment" : "delay"} per move`}
+    >
+      <span className={low ? "text-[#CE1126]" : running ? "text-[#FFD700]" : "text-[#D4A857]/70"}>
+        {formatClock(bank)}
+      </span>
+      {running && delayLeft > 0 && (
+        <span className="text-[#D4A857]/50 text-xs">+{Math.ceil(delayLeft / 1000)}</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shown while the opponent is disconnected, counting down to the moment
+ * they forfeit unless they reconnect.
+ */
+function DisconnectCountdown({ forfeitAt }: { forfeitAt: number | null }) {
+  const [now, setNow] = useState(() => performance.now());
+
+  useEffect(() => {
+    if (forfeitAt === null) return;
+    const interval = setInterval(() => setNow(performance.now()), 500);
+    return () => clearInterval(interval);
+  }, [forfeitAt]);
+
+  return (
+    <div className="bg-[#CE1126]/90 rounded-lg px-3 py-1.5 border border-[#CE1126] animate-pulse">
+      <span className="font-heading text-xs text-white tabular-nums">
+        {forfeitAt === null
+          ? "Disconnected"
+          : `Disconnected · forfeits in ${formatClock(Math.max(0, forfeitAt - now))}`}
+      </span>
+    </div>
+  );
+}
+
+const RESIGN_LABELS: Record<WinType, string> = {
+  ya_mon: "Single game",
+  big_ya_mon: "Gammon",
+  massive_ya_mon: "Backgammon",
+};
+
+const RESIGN_CHOICES: WinType[] = ["ya_mon", "big_ya_mon", "massive_ya_mon"];
+
+function formatPoints(points: number): string {
+  return `${points} ${points === 1 ? "pt" : "pts"}`;
+}
+
+/** The three resignation stakes, each worth 1x, 2x or 3x the cube. */
+function ResignMenu({
+  cubeValue,
+  onResign,
+}: {
+  cubeValue: number;
+  onResign: (winType: WinType) => void;
+}) {
+  return (
+    <div className="absolute left-0 bottom-full mb-1 bg-[#1A1A0E]/95 rounded-lg border border-[#8B4513] p-1.5 min-w-[180px] z-50 shadow-lg flex flex-col gap-1">
+      {RESIGN_CHOICES.map((winType) => (
+        <button
+          key={winType}
+          onClick={(e) => { (e.target as HTMLElement).blur(); onResign(winType); }}
+          tabIndex={-1}
+          className="flex justify-between gap-3 rounded-md px-3 py-1.5 font-heading text-xs text-[#D4A857] hover:bg-[#8B4513]/40 cursor-pointer"
+        >
+          <span>{RESIGN_LABELS[winType]}</span>
+          <span className="text-[#D4A857]/60">{formatPoints(getPointsWon(winType, cubeValue))}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/** The opponent has offered to resign: take the points or play on. */
+function ResignationPrompt({
+  opponentName,
+  winType,
+  cubeValue,
+  onAnswer,
+}: {
+  opponentName: string;
+  winType: WinType;
+  cubeValue: number;
+  onAnswer: (accept: boolean) => void;
+}) {
+  return (
+    <div className="pointer-events-auto bg-[#1A1A0E]/95 rounded-xl border border-[#FFD700] px-5 py-4 shadow-lg flex flex-col items-center gap-3">
+      <span className="font-heading text-sm text-[#F4E1C1] text-center">
+        {opponentName} resigns: {RESIGN_LABELS[winType].toLowerCase()} for{" "}
+        {formatPoints(getPointsWon(winType, cubeValue))}
+      </span>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onAnswer(true)}
+          className="bg-gradient-to-b from-[#D4A857] to-[#8B4513] text-[#1A1A0E] font-heading text-xs px-4 py-2 rounded-lg border border-[#FFD700] hover:brightness-110 active:scale-95 transition-all duration-150 cursor-pointer"
+        >
+          Accept
+        </button>
+        <button
+          onClick={() => onAnswer(false)}
+          className="bg-[#1A1A0E]/80 text-[#D4A857] font-heading text-xs px-4 py-2 rounded-lg border border-[#8B4513] hover:border-[#D4A857] transition-all duration-150 cursor-pointer"
+        >
+          Play on
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** The opponent has doubled: play on for twice the stake or give up the game. */
+function DoublePrompt({
+  opponentName,
+  cubeValue,
+  onAnswer,
+}: {
+  opponentName: string;
+  cubeValue: number;
+  onAnswer: (accept: boolean) => void;
+}) {
+  return (
+    <div className="pointer-events-auto bg-[#1A1A0E]/95 rounded-xl border border-[#FFD700] px-5 py-4 shadow-lg flex flex-col items-center gap-3">
+      <span className="font-heading text-sm text-[#F4E1C1] text-center">
+        {opponentName} turns it up to {cubeValue * 2}: dropping loses{" "}
+        {formatPoints(cubeValue)}
+      </span>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onAnswer(true)}
+          className="bg-gradient-to-b from-[#D4A857] to-[#8B4513] text-[#1A1A0E] font-heading text-xs px-4 py-2 rounded-lg border border-[#FFD700] hover:brightness-110 active:scale-95 transition-all duration-150 cursor-pointer"
+        >
+          Take
+        </button>
+        <button
+          onClick={() => onAnswer(false)}
+          className="bg-[#1A1A0E]/80 text-[#D4A857] font-heading text-xs px-4 py-2 rounded-lg border border-[#8B4513] hover:border-[#D4A857] transition-all duration-150 cursor-pointer"
+        >
+          Drop
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function DoublingCube({
   value,
   canDouble,
@@ -4,19 +4,39 @@ import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import { Application } from "pixi.js";
 import { Player, type GameState, type WinType, canOfferDouble } from "@backyamon/engine";
 import { OnlineGameController } from "@/game/OnlineGameController";
+import type { MatchProgress } from "@/game/BaseGameController";
+import type { ChatMessage, ClockSnapshot } from "@backyamon/protocol";
 import { SocketClient } from "@/multiplayer/SocketClient";
 import { getAssetPreferences } from "@/lib/assetPreferences";
+import type { DiceCheck } from "@/lib/fairDice";
 import { SoundManager, type SFXName } from "@/audio/SoundManager";
 import { useGameKeyboard } from "@/hooks/useGameKeyboard";
 import { GameHUD } from "./GameHUD";
+import { ChatBox, ChatBubble } from "./ChatBox";
+
+// Chat lines kept on screen, and how long a bubble stays by the board
+const CHAT_HISTORY = 50;
+const CHAT_BUBBLE_MS = 4000;
 
 interface OnlineGameCanvasProps {
   socketClient: SocketClient;
   roomId: string;
   localPlayer: Player;
   initialState: GameState;
+  dice?: { hash: string; rolled: number }; // Server's dice commitment for this game
+  initialClock?: ClockSnapshot | null; // Match clock when we joined, null if untimed
+  initialSpectators?: number;
+  playerName?: string; // localPlayer's name when spectating
   opponentName: string;
-  onGameOver?: (winner: Player, winType: WinType, pointsWon: number) => void;
+  spectating?: boolean; // Read-only: watch both players from localPlayer's side
+  canChat?: boolean; // Whether this client may post in the room chat
+  onGameOver?: (
+    winner: Player,
+    winType: WinType,
+    pointsWon: number,
+    match: MatchProgress
+  ) => void;
+  onNextGame?: (gameNumber: number) => void;
 }
 
 export function OnlineGameCanvas({
@@ -24,16 +44,31 @@ export function OnlineGameCanvas({
   roomId,
   localPlayer,
   initialState,
+  dice,
+  initialClock = null,
+  initialSpectators = 0,
+  playerName = "You",
   opponentName,
+  spectating = false,
+  canChat = true,
   onGameOver,
+  onNextGame,
 }: OnlineGameCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const controllerRef = useRef<OnlineGameController | null>(null);
   const appRef = useRef<Application | null>(null);
   const [message, setMessage] = useState("");
   const [waitingForRoll, setWaitingForRoll] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
   const [gameState, setGameState] = useState<GameState | null>(null);
-  const [opponentDisconnected, setOpponentDisconnected] = useState(false);
+  // Set while the opponent is away: when they forfeit (performance.now()
+  // time), or null if there is nothing left to forfeit
+  const [opponentAway, setOpponentAway] = useState<{ forfeitAt: number | null } | null>(null);
+  const [diceCheck, setDiceCheck] = useState<DiceCheck | null>(null);
+  const [clock, setClock] = useState<ClockSnapshot | null>(initialClock);
+  const [spectators, setSpectators] = useState(initialSpectators);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [bubbles, setBubbles] = useState<Partial<Record<Player, ChatMessage>>>({});
   const [showMoveArcs, setShowMoveArcs] = useState(() => {
     if (typeof window !== "undefined") {
       const stored = localStorage.getItem("backyamon_show_arcs");
@@ -55,6 +90,26 @@ export function OnlineGameCanvas({
     controllerRef.current?.offerDouble();
   }, []);
 
+  const handleUndo = useCallback(() => {
+    controllerRef.current?.undoMove();
+  }, []);
+
+  const handleResign = useCallback((winType: WinType) => {
+    controllerRef.current?.offerResignation(winType);
+  }, []);
+
+  const handleAnswerResignation = useCallback((accept: boolean) => {
+    controllerRef.current?.respondToResignation(accept);
+  }, []);
+
+  const handleAnswerDouble = useCallback((accept: boolean) => {
+    controllerRef.current?.respondToDouble(accept);
+  }, []);
+
+  const handleSendChat = useCallback((text: string) => {
+    socketClient.sendChat(text);
+  }, [socketClient]);
+
   const handleToggleMoveArcs = useCallback((show: boolean) => {
     setShowMoveArcs(show);
     localStorage.setItem("backyamon_show_arcs", String(show));
@@ -68,8 +123,10 @@ export function OnlineGameCanvas({
     gameState.currentPlayer === localPlayer &&
     waitingForRoll;
 
-  // Shared keyboard shortcuts (no undo in multiplayer — server owns state)
-  useGameKeyboard(controllerRef, waitingForRoll, soundManager);
+  // Shared keyboard shortcuts; undo only takes back moves not yet submitted.
+  // No hints here: against a person the engine would be playing for you
+  const undoOptions = useMemo(() => ({ onUndo: handleUndo }), [handleUndo]);
+  useGameKeyboard(controllerRef, waitingForRoll, soundManager, undoOptions);
 
   useEffect(() => {
     const container = containerRef.current;
@@ -78,6 +135,7 @@ export function OnlineGameCanvas({
     let destroyed = false;
     let app: Application | null = null;
     let controller: OnlineGameController | null = null;
+    const bubbleTimers = new Map<Player, ReturnType<typeof setTimeout>>();
 
     const init = async () => {
       // Calculate canvas size based on container
@@ -111,7 +169,13 @@ export function OnlineGameCanvas({
       canvas.style.cursor = "default";
       container.appendChild(canvas);
 
-      controller = new OnlineGameController(app, socketClient, roomId);
+      const spectatorNames = spectating
+        ? ({
+            [localPlayer]: playerName,
+            [localPlayer === Player.Gold ? Player.Red : Player.Gold]: opponentName,
+          } as Record<Player, string>)
+        : null;
+      controller = new OnlineGameController(app, socketClient, roomId, spectatorNames);
       controllerRef.current = controller;
 
       controller.onMessage = (msg) => {
@@ -122,25 +186,72 @@ export function OnlineGameCanvas({
         if (!destroyed) setWaitingForRoll(waiting);
       };
 
+      controller.onCanUndo = (canUndoNow) => {
+        if (!destroyed) setCanUndo(canUndoNow);
+      };
+
       controller.onStateChange = (state) => {
         if (!destroyed) setGameState(state);
       };
 
-      controller.onGameOver = (winner, winType, pointsWon) => {
+      controller.onGameOver = (winner, winType, pointsWon, match) => {
+        if (!destroyed) {
+          onGameOver?.(winner, winType, pointsWon, match);
+        }
+      };
+
+      controller.onNextGame = (gameNumber) => {
+        if (!destroyed) {
+          setDiceCheck(null);
+          onNextGame?.(gameNumber);
+        }
+      };
+
+      controller.onDiceChecked = (check) => {
+        if (!destroyed) setDiceCheck(check);
+      };
+
+      controller.onClockChange = (snapshot) => {
+        if (!destroyed) setClock(snapshot);
+      };
+
+      controller.onOpponentDisconnected = (forfeitInMs) => {
         if (!destroyed) {
-          onGameOver?.(winner, winType, pointsWon);
+          setOpponentAway({
+            forfeitAt: forfeitInMs === null ? null : performance.now() + forfeitInMs,
+          });
         }
       };
 
-      controller.onOpponentDisconnected = () => {
-        if (!destroyed) setOpponentDisconnected(true);
+      // Server refusals (e.g. chatting too fast) go in the message bar
+      controller.onError = (msg) => {
+        if (!destroyed) setMessage(msg);
+      };
+
+      controller.onChat = (chatMessage) => {
+        if (destroyed) return;
+        setChat((lines) => [...lines, chatMessage].slice(-CHAT_HISTORY));
+        const { role } = chatMessage;
+        if (role === "spectator") return; // Log only; bubbles are for the players
+        setBubbles((current) => ({ ...current, [role]: chatMessage }));
+        clearTimeout(bubbleTimers.get(role));
+        bubbleTimers.set(role, setTimeout(() => {
+          if (destroyed) return;
+          setBubbles((current) => (current[role] === chatMessage ? { ...current, [role]: undefined } : current));
+        }, CHAT_BUBBLE_MS));
+      };
+
+      controller.onSpectatorsChange = (count) => {
+        if (!destroyed) setSpectators(count);
       };
 
       controller.onOpponentReconnected = () => {
-        if (!destroyed) setOpponentDisconnected(false);
+        if (!destroyed) setOpponentAway(null);
       };
 
-      controller.startGame(initialState, localPlayer);
+      setClock(initialClock);
+      setSpectators(initialSpectators);
+      controller.startGame(initialState, localPlayer, dice);
 
       // Load custom pieces if equipped
       const prefs = getAssetPreferences();
@@ -183,6 +294,7 @@ export function OnlineGameCanvas({
 
     return () => {
       destroyed = true;
+      for (const timer of bubbleTimers.values()) clearTimeout(timer);
       if (controller) {
         controller.destroy();
         controllerRef.current = null;
@@ -196,31 +308,33 @@ export function OnlineGameCanvas({
         appRef.current = null;
       }
     };
-  }, [socketClient, roomId, localPlayer, initialState, opponentName, onGameOver]);
+  }, [socketClient, roomId, localPlayer, initialState, dice, initialClock, initialSpectators, playerName, opponentName, spectating, onGameOver, onNextGame]);
 
   return (
     <div className="relative w-full max-w-[900px]">
-      {/* Opponent disconnect warning */}
-      {opponentDisconnected && (
-        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-50">
-          <div className="bg-[#CE1126]/90 text-white font-heading text-sm px-4 py-2 rounded-xl border border-[#CE1126] animate-pulse">
-            Opponent disconnected - waiting for reconnect...
-          </div>
-        </div>
-      )}
-
       {/* HUD renders: top bar (outside board), overlay, bottom bar (outside board) */}
       <GameHUD
         state={gameState}
         playerColor={localPlayer}
+        playerName={playerName}
         opponentName={opponentName}
+        spectating={spectating}
+        spectators={spectators}
         onOfferDouble={handleOfferDouble}
         onRollDice={handleRollClick}
+        onUndo={handleUndo}
+        onResign={handleResign}
+        onAnswerResignation={spectating ? undefined : handleAnswerResignation}
+        onAnswerDouble={spectating ? undefined : handleAnswerDouble}
         canRoll={waitingForRoll}
+        canUndo={canUndo}
         canDouble={canDouble}
+        canResign={!spectating}
         soundManager={soundManager}
         showMoveArcs={showMoveArcs}
         onToggleMoveArcs={handleToggleMoveArcs}
+        clock={clock}
+        opponentAway={opponentAway}
       >
         {/* Canvas container — passed as children so HUD wraps around it */}
         <div
@@ -229,6 +343,16 @@ export function OnlineGameCanvas({
           onClick={handleRollClick}
           style={{ cursor: waitingForRoll ? "pointer" : "default", touchAction: "manipulation" }}
         />
+        {/* Chat bubbles: the opponent's above, ours below, like the badges */}
+        {Object.values(bubbles).map((bubble) =>
+          bubble ? (
+            <ChatBubble
+              key={bubble.role}
+              message={bubble}
+              side={bubble.role === localPlayer ? "bottom" : "top"}
+            />
+          ) : null
+        )}
       </GameHUD>
 
       {/* Message bar */}
@@ -239,6 +363,21 @@ export function OnlineGameCanvas({
           </p>
         )}
       </div>
+
+      <ChatBox messages={chat} canPost={canChat} onSend={handleSendChat} />
+
+      {/* Result of checking the revealed dice seed at game over */}
+      {diceCheck && (
+        <p
+          className={`text-center font-heading text-xs ${
+            diceCheck === "verified" ? "text-[#006B3F]" : "text-[#CE1126]"
+          }`}
+        >
+          {diceCheck === "verified"
+            ? "Dice verified: every roll matches the server's sealed seed"
+            : "Dice check failed: the rolls do not match the server's sealed seed"}
+        </p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,72 @@
+interface RatingPoint {
+  rating: number;
+  createdAt: number;
+}
+
+interface RatingChartProps {
+  history: RatingPoint[]; // Rating after each rated match, oldest first
+  startRating?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 8;
+
+/**
+ * Rating over time as a simple SVG line, one step per rated match,
+ * starting from the rating every player begins with.
+ */
+export function RatingChart({ history, startRating = 1500 }: RatingChartProps) {
+  const ratings = [startRating, ...history.map((p) => p.rating)];
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const span = Math.max(max - min, 10); // Keep a flat line from filling the chart
+
+  const x = (i: number) => PADDING + (i / (ratings.length - 1)) * (WIDTH - 2 * PADDING);
+  const y = (rating: number) =>
+    HEIGHT - PADDING - ((rating - min) / span) * (HEIGHT - 2 * PADDING);
+  const line = ratings.map((r, i) => `${x(i).toFixed(1)},${y(r).toFixed(1)}`).join(" ");
+  const last = ratings.length - 1;
+
+  return (
+    <div className="rounded-xl bg-[#1A1A0E]/80 border border-[#8B4513]/40 px-4 py-3">
+      <div className="flex justify-between text-[#D4A857]/50 text-xs font-heading mb-1">
+        <span>High {Math.round(max)}</span>
+        <span>
+          {history.length} rated {history.length === 1 ? "match" : "matches"}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Rating over time"
+      >
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={y(startRating)}
+          y2={y(startRating)}
+          stroke="#D4A857"
+          strokeOpacity={0.2}
+          strokeDasharray="4 4"
+        />
+        <polyline
+          points={line}
+          fill="none"
+          stroke="#FFD700"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <circle cx={x(last)} cy={y(ratings[last])} r={4} fill="#FFD700" />
+      </svg>
+      <div className="flex justify-between text-[#D4A857]/50 text-xs font-heading mt-1">
+        <span>Low {Math.round(min)}</span>
+        {history.length > 0 && (
+          <span>{new Date(history[history.length - 1].createdAt).toLocaleDateString()}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useRef, useState, useCallback } from "react";
+import { Application } from "pixi.js";
+import {
+  Player,
+  calculatePipCount,
+  encodeGnuId,
+  formatMove,
+  type GameEvent,
+  type GameState,
+  type WinType,
+} from "@backyamon/engine";
+import { ReplayController } from "@/game/ReplayController";
+import { getAssetPreferences } from "@/lib/assetPreferences";
+
+interface ReplayCanvasProps {
+  initialState: GameState;
+  events: GameEvent[];
+  goldName: string;
+  redName: string;
+}
+
+// Autoplay speeds, as milliseconds between steps
+const SPEEDS = [
+  { label: "0.5x", ms: 2000 },
+  { label: "1x", ms: 1000 },
+  { label: "2x", ms: 500 },
+  { label: "4x", ms: 250 },
+];
+
+const RESIGN_STAKES: Record<WinType, string> = {
+  ya_mon: "a single game",
+  big_ya_mon: "a gammon",
+  massive_ya_mon: "a backgammon",
+};
+
+function describeEvent(event: GameEvent | null, names: Record<Player, string>): string {
+  if (!event) return "Starting position";
+  switch (event.type) {
+    case "opening-roll":
+      return event.goldDie === event.redDie
+        ? `Opening roll tied ${event.goldDie}-${event.redDie}, roll again`
+        : `${names[event.goldDie > event.redDie ? Player.Gold : Player.Red]} wins the opening roll ${Math.max(event.goldDie, event.redDie)}-${Math.min(event.goldDie, event.redDie)}`;
+    case "roll":
+      return `${names[event.player]} rolls ${event.dice[0]}-${event.dice[1]}`;
+    case "move":
+      return `${names[event.player]} moves ${formatMove(event.move, event.player)}`;
+    case "end-turn":
+      return `${names[event.player]} ends the turn`;
+    case "double":
+      return `${names[event.player]} doubles`;
+    case "take":
+      return `${names[event.player]} takes`;
+    case "drop":
+      return `${names[event.player]} passes`;
+    case "forfeit":
+      return event.reason === "timeout"
+        ? `${names[event.player]} runs out of time and forfeits the match`
+        : `${names[event.player]} leaves and forfeits the match`;
+    case "resign":
+      return `${names[event.player]} offers to resign ${RESIGN_STAKES[event.winType]}`;
+    case "accept-resignation":
+      return `${names[event.player]} accepts the resignation`;
+    case "reject-resignation":
+      return `${names[event.player]} rejects the resignation`;
+  }
+}
+
+export function ReplayCanvas({ initialState, events, goldName, redName }: ReplayCanvasProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const controllerRef = useRef<ReplayController | null>(null);
+  const [step, setStep] = useState(0);
+  const [state, setState] = useState<GameState>(initialState);
+  const [stepCount, setStepCount] = useState(events.length + 1);
+  const [turnStarts, setTurnStarts] = useState<number[]>([]);
+  const [playing, setPlaying] = useState(false);
+  const [speedIndex, setSpeedIndex] = useState(1);
+
+  const names: Record<Player, string> = { [Player.Gold]: goldName, [Player.Red]: redName };
+
+  const goTo = useCallback((target: number) => {
+    controllerRef.current?.showStep(target);
+  }, []);
+
+  const stepBy = useCallback((delta: 1 | -1) => {
+    setPlaying(false);
+    if (delta === 1) controllerRef.current?.next();
+    else controllerRef.current?.prev();
+  }, []);
+
+  const jumpTurn = useCallback(
+    (direction: 1 | -1) => {
+      setPlaying(false);
+      const target =
+        direction === 1
+          ? turnStarts.find((s) => s > step)
+          : [...turnStarts].reverse().find((s) => s < step);
+      goTo(target ?? (direction === 1 ? stepCount - 1 : 0));
+    },
+    [turnStarts, step, stepCount, goTo],
+  );
+
+  const togglePlaying = useCallback(() => {
+    // Restart from the beginning when pressing play on the final position
+    if (!playing && controllerRef.current?.isAtEnd()) goTo(0);
+    setPlaying((p) => !p);
+  }, [playing, goTo]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let destroyed = false;
+    let app: Application | null = null;
+    let controller: ReplayController | null = null;
+
+    const init = async () => {
+      const rect = container.getBoundingClientRect();
+      const width = Math.floor(rect.width);
+      const aspectRatio = 8 / 5;
+      const height = Math.floor(width / aspectRatio);
+
+      app = new Application();
+      await app.init({
+        width,
+        height,
+        backgroundColor: 0x2a2a1e,
+        antialias: true,
+        resolution: Math.min(window.devicePixelRatio, 2),
+        autoDensity: true,
+      });
+
+      if (destroyed) {
+        app.destroy(true);
+        return;
+      }
+
+      const canvas = app.canvas as HTMLCanvasElement;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      canvas.style.borderRadius = "16px";
+      container.appendChild(canvas);
+
+      controller = new ReplayController(app);
+      controllerRef.current = controller;
+
+      controller.onStepChange = (newStep, newState) => {
+        if (!destroyed) {
+          setStep(newStep);
+          setState(newState);
+        }
+      };
+
+      controller.load(initialState, events);
+      setStepCount(controller.getStepCount());
+      setTurnStarts(controller.getTurnStarts());
+
+      // Load custom pieces if equipped
+      const prefs = getAssetPreferences();
+      if (prefs.pieceSet) {
+        const pieceData = localStorage.getItem(`backyamon_piece_${prefs.pieceSet}`);
+        if (pieceData) {
+          try {
+            const { svg_gold, svg_red } = JSON.parse(pieceData);
+            if (svg_gold && svg_red) {
+              await controller.loadCustomPieces(svg_gold, svg_red);
+            }
+          } catch { /* ignore invalid data */ }
+        }
+      }
+    };
+
+    init();
+
+    return () => {
+      destroyed = true;
+      if (controller) {
+        controller.destroy();
+        controllerRef.current = null;
+      }
+      if (app) {
+        const canvas = app.canvas as HTMLCanvasElement;
+        if (canvas.parentNode) {
+          canvas.parentNode.removeChild(canvas);
+        }
+        app.destroy(true, { children: true });
+      }
+    };
+  }, [initialState, events]);
+
+  // Autoplay: advance one step per tick, stopping at the end of the game
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      const controller = controllerRef.current;
+      if (!controller || controller.isAtEnd()) {
+        setPlaying(false);
+        return;
+      }
+      controller.next();
+    }, SPEEDS[speedIndex].ms);
+    return () => clearInterval(interval);
+  }, [playing, speedIndex]);
+
+  // Arrow keys step, Space plays/pauses
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      if (e.key === "ArrowRight") {
+        e.preventDefault();
+        if (e.shiftKey) jumpTurn(1);
+        else stepBy(1);
+      } else if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        if (e.shiftKey) jumpTurn(-1);
+        else stepBy(-1);
+      } else if (e.key === " ") {
+        e.preventDefault();
+        togglePlaying();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [stepBy, jumpTurn, togglePlaying]);
+
+  const turnNumber = turnStarts.filter((s) => s <= step).length;
+  const gnuId = encodeGnuId(state);
+  const event = step > 0 ? events[step - 1] : null;
+  const buttonClass =
+    "rounded-lg bg-[#1A1A0E]/80 border border-[#8B4513]/60 px-3 py-1.5 font-heading text-sm text-[#D4A857] hover:text-[#FFD700] hover:border-[#FFD700]/60 transition-colors disabled:opacity-30 disabled:hover:text-[#D4A857]";
+
+  return (
+    <div className="w-full max-w-[900px] flex flex-col gap-3">
+      {/* Players and pip counts */}
+      <div className="flex items-center justify-between font-heading text-sm">
+        <span className="text-[#FFD700]">
+          {goldName}
+          <span className="ml-2 text-[#D4A857]/60 text-xs">
+            {calculatePipCount(state, Player.Gold)} pips
+          </span>
+        </span>
+        {state.doublingCube.value > 1 && (
+          <span className="text-[#D4A857]/60 text-xs">Cube {state.doublingCube.value}</span>
+        )}
+        <span className="text-[#CE1126]">
+          <span className="mr-2 text-[#D4A857]/60 text-xs">
+            {calculatePipCount(state, Player.Red)} pips
+          </span>
+          {redName}
+        </span>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="w-full aspect-[8/5] rounded-2xl border-2 border-[#8B4513] overflow-hidden shadow-[0_4px_24px_rgba(0,0,0,0.4)]"
+      />
+
+      {/* What happened at this step */}
+      <div className="h-6 flex items-center justify-center">
+        <p className="text-[#D4A857] font-heading text-xs sm:text-sm whitespace-nowrap">
+          {turnNumber > 0 && <span className="text-[#D4A857]/50 mr-2">Turn {turnNumber}</span>}
+          {describeEvent(event, names)}
+        </p>
+      </div>
+
+      {/* Scrubber */}
+      <input
+        type="range"
+        min={0}
+        max={stepCount - 1}
+        value={step}
+        onChange={(e) => {
+          setPlaying(false);
+          goTo(Number(e.target.value));
+        }}
+        className="w-full accent-[#FFD700]"
+        aria-label="Replay position"
+      />
+
+      {/* Transport controls */}
+      <div className="flex items-center justify-center gap-2">
+        <button className={buttonClass} onClick={() => jumpTurn(-1)} disabled={step === 0} title="Previous turn (Shift+Left)">
+          &laquo;
+        </button>
+        <button className={buttonClass} onClick={() => stepBy(-1)} disabled={step === 0} title="Step back (Left)">
+          &lsaquo;
+        </button>
+        <button className={`${buttonClass} min-w-[5rem]`} onClick={togglePlaying} title="Play / pause (Space)">
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button className={buttonClass} onClick={() => stepBy(1)} disabled={step >= stepCount - 1} title="Step forward (Right)">
+          &rsaquo;
+        </button>
+        <button className={buttonClass} onClick={() => jumpTurn(1)} disabled={step >= stepCount - 1} title="Next turn (Shift+Right)">
+          &raquo;
+        </button>
+        <select
+          value={speedIndex}
+          onChange={(e) => setSpeedIndex(Number(e.target.value))}
+          className="ml-2 rounded-lg bg-[#1A1A0E]/80 border border-[#8B4513]/60 px-2 py-1.5 font-heading text-sm text-[#D4A857]"
+          aria-label="Autoplay speed"
+        >
+          {SPEEDS.map((s, i) => (
+            <option key={s.label} value={i}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-center text-[#D4A857]/40 font-heading text-xs">
+        Step {step} of {stepCount - 1}
+      </p>
+
+      {/* GNU Backgammon ID of the shown position, for pasting into other tools */}
+      <button
+        onClick={() => navigator.clipboard?.writeText(gnuId)}
+        className="self-center font-mono text-xs text-[#D4A857]/50 hover:text-[#FFD700] transition-colors"
+        title="Copy position ID"
+      >
+        {gnuId}
+      </button>
+    </div>
+  );
+}
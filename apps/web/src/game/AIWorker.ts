@@ -0,0 +1,152 @@
+import type {
+  GameAnalysis,
+  GameEvent,
+  GameState,
+  Move,
+  RankedTurn,
+  WinType,
+} from "@backyamon/engine";
+import { NeuralEvaluator } from "@backyamon/engine";
+import {
+  AI_NAMES,
+  createAIPlayer,
+  serveAI,
+  type AIDifficulty,
+  type AIRequest,
+  type AIResult,
+  type AIResults,
+  type AIWorkerMessage,
+  type AIWorkerReply,
+  type AIWorkerScope,
+} from "@backyamon/engine/worker";
+
+interface PendingRequest {
+  request: AIRequest;
+  resolve: (result: AIResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Only fetched if the worker fails, so the page never bundles it otherwise
+async function loadExpertWeights() {
+  return (await import("@backyamon/engine/weights/expert.json")).default;
+}
+
+/**
+ * The single-player AI, thinking in a Web Worker so a long search never
+ * stalls rendering or music. Mirrors AIPlayer with every answer a promise,
+ * and ranks turns for hints and analyses finished games there too.
+ *
+ * Without a difficulty no AI is built (and `name` is empty): the worker
+ * only ranks turns and analyses games.
+ *
+ * Should the worker fail to load or crash, the same AI is built on the
+ * main thread (without bearoff databases) and answers everything from
+ * then on, including whatever was pending; rendering may stutter, but the
+ * game goes on.
+ *
+ * `terminate()` stops the worker mid-thought when the game is left; any
+ * answers still pending then never arrive, so callers check they still
+ * want them (as they do after every other await).
+ */
+export class AIWorker {
+  readonly name: string;
+  private worker: Worker;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private terminated = false;
+  private post: (message: AIWorkerMessage) => void;
+
+  constructor(private readonly difficulty?: AIDifficulty) {
+    this.name = difficulty ? AI_NAMES[difficulty] : "";
+    this.worker = new Worker(new URL("./ai.worker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<AIWorkerReply>) => this.settle(event.data);
+    this.worker.onerror = (event) => {
+      console.error("The AI worker failed, thinking on the main thread instead:", event.message);
+      this.fallBackToMainThread();
+    };
+    this.post = (message) => this.worker.postMessage(message);
+    if (difficulty) this.post({ type: "create", difficulty });
+  }
+
+  selectMoves(state: GameState): Promise<Move[]> {
+    return this.ask({ type: "select-moves", state });
+  }
+
+  shouldDouble(state: GameState): Promise<boolean> {
+    return this.ask({ type: "should-double", state });
+  }
+
+  shouldAcceptDouble(state: GameState): Promise<boolean> {
+    return this.ask({ type: "should-accept-double", state });
+  }
+
+  shouldAcceptResignation(state: GameState, winType: WinType): Promise<boolean> {
+    return this.ask({ type: "should-accept-resignation", state, winType });
+  }
+
+  /** The best turns for the dice left in `state`, best first. */
+  rankTurns(state: GameState, limit?: number): Promise<RankedTurn[]> {
+    return this.ask({ type: "rank-turns", state, limit });
+  }
+
+  analyzeGame(initialState: GameState, events: GameEvent[]): Promise<GameAnalysis> {
+    return this.ask({ type: "analyze-game", initialState, events });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+    this.worker.terminate();
+    this.pending.clear();
+  }
+
+  private ask<T extends AIRequest>(request: T): Promise<AIResults[T["type"]]> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        request,
+        resolve: resolve as (result: AIResult) => void,
+        reject,
+      });
+      this.post({ type: "request", id, request });
+    });
+  }
+
+  /**
+   * Serve requests on this thread as the worker would have, and ask
+   * again everything the worker left unanswered.
+   */
+  private fallBackToMainThread(): void {
+    this.worker.terminate();
+    if (this.terminated) return;
+
+    const scope: AIWorkerScope = {
+      onmessage: null,
+      postMessage: (reply) => {
+        if (!this.terminated) this.settle(reply);
+      },
+    };
+    serveAI(
+      scope,
+      async (difficulty) =>
+        createAIPlayer(difficulty, {
+          expertWeights: difficulty === "expert" ? await loadExpertWeights() : undefined,
+        }),
+      async () => new NeuralEvaluator(await loadExpertWeights()),
+    );
+    this.post = (message) => scope.onmessage?.({ data: message });
+
+    if (this.difficulty) this.post({ type: "create", difficulty: this.difficulty });
+    for (const [id, { request }] of this.pending) this.post({ type: "request", id, request });
+  }
+
+  private settle(reply: AIWorkerReply): void {
+    const request = this.pending.get(reply.id);
+    if (!request) return;
+    this.pending.delete(reply.id);
+    if ("error" in reply) {
+      request.reject(new Error(reply.error));
+    } else {
+      request.resolve(reply.result);
+    }
+  }
+}
@@ -8,6 +8,13 @@ import { MoveLineRenderer } from "./MoveLineRenderer";
 import { AmbienceLayer } from "./AmbienceLayer";
 import { SoundManager } from "@/audio/SoundManager";
 
+/** Match standing reported with each game-over. */
+export interface MatchProgress {
+  matchLength: number;
+  score: Record<Player, number>; // Includes the game that just ended
+  matchWinner: Player | null;
+}
+
 /**
  * Shared base for both single-player and online game controllers.
  * Owns renderer setup, sound, input delegation, and common helpers.
@@ -60,8 +60,9 @@ export class DiceRenderer {
 
   /**
    * Show dice with values and animate the roll.
+   * Pass animate = false to place them at rest (e.g. when scrubbing a replay).
    */
-  async showRoll(dice: Dice): Promise<void> {
+  async showRoll(dice: Dice, animate = true): Promise<void> {
     this.hide();
 
     const center = this.boardRenderer.getDiceCenterPosition();
@@ -80,14 +81,18 @@ export class DiceRenderer {
     }
 
     // Animate: quick spin + bounce
-    await this.animateRoll();
+    if (animate) await this.animateRoll();
   }
 
   /**
    * Show opening roll with each die on its own side of the board.
    * Left die = opponent's roll, right die = local player's roll.
    */
-  async showOpeningRoll(leftValue: number, rightValue: number): Promise<void> {
+  async showOpeningRoll(
+    leftValue: number,
+    rightValue: number,
+    animate = true,
+  ): Promise<void> {
     this.hide();
 
     const leftPos = this.boardRenderer.getLeftDicePosition();
@@ -105,7 +110,7 @@ export class DiceRenderer {
     this.container.addChild(rightDie);
     this.dieContainers.push(rightDie);
 
-    await this.animateRoll();
+    if (animate) await this.animateRoll();
   }
 
   /**
@@ -4,7 +4,10 @@ import {
   type GameState,
   type Move,
   type WinType,
+  type GameEvent,
+  type UntimedEvent,
   createInitialState,
+  cloneState,
   rollDice,
   rollSingleDie,
   getLegalMoves,
@@ -16,14 +19,21 @@ import {
   offerDouble,
   acceptDouble,
   declineDouble,
-  BeachBum,
-  Selector,
-  KingTubby,
-  type AIPlayer,
+  canOfferResignation,
+  isResignationPending,
+  offerResignation,
+  acceptResignation,
+  rejectResignation,
+  startNextGame,
+  getMatchWinner,
+  getScoreAfterGame,
+  formatMoves,
+  getAllLegalTurns,
 } from "@backyamon/engine";
+import { AIWorker } from "./AIWorker";
 import type { PieceSet } from "./PieceRenderer";
 import type { MusicStyle } from "@/audio/MusicEngine";
-import { BaseGameController } from "./BaseGameController";
+import { BaseGameController, type MatchProgress } from "./BaseGameController";
 import {
   greetingMessage,
   turnStartMessage,
@@ -35,48 +45,71 @@ import {
   doubleConsiderMessage,
   doubleAcceptedMessage,
   doubleDeclinedMessage,
+  aiDoublesMessage,
+  resignConsiderMessage,
+  resignAcceptedMessage,
+  resignRejectedMessage,
 } from "./patois";
 
-type Difficulty = "easy" | "medium" | "hard";
+type Difficulty = "easy" | "medium" | "hard" | "expert";
+
+/** A finished game as the server stores it for replays. */
+export interface GameRecord {
+  initialState: GameState;
+  events: GameEvent[];
+}
+
+/** A turn the engine suggests to the human, best first. */
+export interface Hint {
+  notation: string;
+  equity: number;
+  equityLoss: number; // Behind the best hint
+}
+
+// Turns suggested at once
+const HINT_COUNT = 3;
 
 const DIFFICULTY_MUSIC: Record<Difficulty, MusicStyle> = {
   easy: "roots",
   medium: "dub",
   hard: "dancehall",
+  expert: "dub",
 };
 
 const PIECE_SETS: Record<Difficulty, PieceSet> = {
   easy: "coconut",
   medium: "vinyl",
   hard: "lion",
+  expert: "vinyl",
 };
 
-function createAI(difficulty: Difficulty): AIPlayer {
-  switch (difficulty) {
-    case "easy":
-      return new BeachBum();
-    case "medium":
-      return new Selector();
-    case "hard":
-      return new KingTubby();
-  }
-}
-
 export class GameController extends BaseGameController {
   private difficulty: Difficulty;
-  private ai: AIPlayer;
+  private matchLength: number;
+  private ai: AIWorker;
 
   // Undo state: stack of previous states within the current turn
   private turnStateHistory: GameState[] = [];
 
+  // The current game so far, for analysis once it is over
+  private record: GameRecord | null = null;
+
+  private canHint = false;
+  private autoHints = false;
+
   // Callbacks specific to single-player
-  onGameOver: ((winner: Player, winType: WinType) => void) | null = null;
+  onGameOver:
+    | ((winner: Player, winType: WinType, match: MatchProgress, record: GameRecord) => void)
+    | null = null;
   onCanUndo: ((canUndo: boolean) => void) | null = null;
+  onCanHint: ((canHint: boolean) => void) | null = null;
+  onHints: ((hints: Hint[] | null) => void) | null = null;
 
-  constructor(app: Application, difficulty: Difficulty) {
+  constructor(app: Application, difficulty: Difficulty, matchLength = 1) {
     super(app);
     this.difficulty = difficulty;
-    this.ai = createAI(difficulty);
+    this.matchLength = matchLength;
+    this.ai = new AIWorker(difficulty);
   }
 
   get aiName(): string {
@@ -89,7 +122,8 @@ export class GameController extends BaseGameController {
   startGame(): void {
     this.initRenderers(PIECE_SETS[this.difficulty]);
 
-    this.state = createInitialState();
+    this.state = createInitialState(this.matchLength);
+    this.startRecording();
     this.sound.setMusicStyle(DIFFICULTY_MUSIC[this.difficulty]);
     this.sound.startMusic();
     this.sound.updateMood(this.state);
@@ -107,6 +141,31 @@ export class GameController extends BaseGameController {
     this.onWaitingForRoll?.(true);
   }
 
+  /**
+   * Deal the next game of the match (called from the game-over overlay).
+   */
+  startNextGame(): void {
+    if (this.destroyed) return;
+    if (this.state.phase !== "GAME_OVER" || getMatchWinner(this.state)) return;
+
+    this.state = startNextGame(this.state);
+    this.startRecording();
+    this.turnStateHistory = [];
+    this.onCanUndo?.(false);
+
+    this.moveLineRenderer.clearOpponentMoves();
+    this.diceRenderer.hide();
+    this.pieceRenderer.render(this.state);
+    this.emitStateChange();
+
+    this.onMessage?.(
+      this.state.isCrawford
+        ? "Crawford game - no doubling! Click to roll!"
+        : "Opening roll - click to roll!"
+    );
+    this.onWaitingForRoll?.(true);
+  }
+
   /**
    * Roll dice for the human player (called from UI).
    */
@@ -121,6 +180,7 @@ export class GameController extends BaseGameController {
 
     if (this.state.phase !== "ROLLING") return;
     if (this.state.currentPlayer !== Player.Gold) return;
+    if (isResignationPending(this.state)) return;
 
     this.sound.resumeContext();
     this.doHumanRoll();
@@ -139,21 +199,23 @@ export class GameController extends BaseGameController {
 
     this.onWaitingForRoll?.(false);
     this.state = offerDouble(this.state);
+    this.recordEvent({ type: "double", player: Player.Gold });
     this.emitStateChange();
 
-    // AI always accepts for now (simple AI behavior)
     const considerMsg = doubleConsiderMessage(this.ai.name);
     this.onMessage?.(considerMsg);
     this.sound.speak(considerMsg);
-    this.delay(1200).then(() => {
+    // The AI thinks while it is seen to consider
+    Promise.all([
+      // Unanswered, it takes and play goes on
+      this.askAI(this.ai.shouldAcceptDouble(this.state), () => true),
+      this.delay(1200),
+    ]).then(([accepts]) => {
       if (this.destroyed) return;
 
-      // Simple AI: accept if cube value <= 4, otherwise 50/50
-      const shouldAccept =
-        this.state.doublingCube.value <= 2 || Math.random() > 0.4;
-
-      if (shouldAccept) {
+      if (accepts) {
         this.state = acceptDouble(this.state);
+        this.recordEvent({ type: "take", player: Player.Red });
         this.emitStateChange();
         const acceptMsg = doubleAcceptedMessage(this.ai.name);
         this.onMessage?.(acceptMsg);
@@ -165,12 +227,105 @@ export class GameController extends BaseGameController {
         });
       } else {
         this.state = declineDouble(this.state);
+        this.recordEvent({ type: "drop", player: Player.Red });
         this.emitStateChange();
         const declineMsg = doubleDeclinedMessage(this.ai.name);
         this.onMessage?.(declineMsg);
         this.sound.speak(declineMsg);
         this.sound.playSFX("victory");
-        this.onGameOver?.(Player.Gold, "ya_mon");
+        this.reportGameOver();
+      }
+    });
+  }
+
+  /**
+   * Take or drop the AI's double (called from HUD). Taking hands the
+   * cube over and the AI rolls; dropping loses the game at the old stake.
+   */
+  respondToDouble(accept: boolean): void {
+    if (this.destroyed) return;
+    if (this.state.phase !== "DOUBLING") return;
+    if (this.state.currentPlayer !== Player.Red) return;
+
+    this.sound.resumeContext();
+
+    if (accept) {
+      this.state = acceptDouble(this.state);
+      this.recordEvent({ type: "take", player: Player.Gold });
+      this.emitStateChange();
+      this.onMessage?.(`You take! Cube at ${this.state.doublingCube.value}.`);
+      this.rollForAI();
+    } else {
+      this.state = declineDouble(this.state);
+      this.recordEvent({ type: "drop", player: Player.Gold });
+      this.emitStateChange();
+      const endMsg = defeatMessage();
+      this.onMessage?.(endMsg);
+      this.sound.speak(endMsg);
+      this.sound.playSFX("defeat");
+      this.reportGameOver();
+    }
+  }
+
+  /**
+   * Offer to resign a single game, gammon or backgammon (called from HUD).
+   * The AI accepts if that beats what it expects from playing on;
+   * otherwise the human's turn carries on where it stopped.
+   */
+  resign(winType: WinType): void {
+    if (this.destroyed) return;
+    if (!canOfferResignation(this.state)) return;
+    if (this.state.currentPlayer !== Player.Gold) return;
+
+    this.sound.resumeContext();
+    this.inputHandler.disable();
+    this.onWaitingForRoll?.(false);
+    this.onCanUndo?.(false);
+    this.setCanHint(false);
+    this.state = offerResignation(this.state, winType);
+    this.recordEvent({ type: "resign", player: Player.Gold, winType });
+    this.emitStateChange();
+
+    const considerMsg = resignConsiderMessage(this.ai.name);
+    this.onMessage?.(considerMsg);
+    this.sound.speak(considerMsg);
+    // The AI thinks while it is seen to consider
+    Promise.all([
+      // Unanswered, it plays on
+      this.askAI(this.ai.shouldAcceptResignation(this.state, winType), () => false),
+      this.delay(1200),
+    ]).then(([accepts]) => {
+      if (this.destroyed) return;
+
+      if (accepts) {
+        this.state = acceptResignation(this.state);
+        this.recordEvent({ type: "accept-resignation", player: Player.Red });
+        this.turnStateHistory = [];
+        this.onCanUndo?.(false);
+        this.diceRenderer.hide();
+        this.emitStateChange();
+        const acceptMsg = resignAcceptedMessage(this.ai.name);
+        this.onMessage?.(acceptMsg);
+        this.sound.speak(acceptMsg);
+        this.sound.playSFX("defeat");
+        this.reportGameOver();
+      } else {
+        this.state = rejectResignation(this.state);
+        this.recordEvent({ type: "reject-resignation", player: Player.Red });
+        this.emitStateChange();
+        this.onCanUndo?.(this.turnStateHistory.length > 0);
+        const rejectMsg = resignRejectedMessage(this.ai.name);
+        this.onMessage?.(rejectMsg);
+        this.sound.speak(rejectMsg);
+        this.delay(800).then(() => {
+          if (this.destroyed) return;
+          if (this.state.phase === "ROLLING") {
+            this.startHumanTurn();
+          } else {
+            this.onMessage?.("Select a piece to move");
+            this.enableHumanInput();
+          }
+        });
       }
     });
   }
@@ -181,12 +336,15 @@ export class GameController extends BaseGameController {
   undoMove(): void {
     if (this.destroyed) return;
     if (this.turnStateHistory.length === 0) return;
+    if (isResignationPending(this.state)) return;
 
     // Disable current input
     this.inputHandler.disable();
+    this.setCanHint(false);
 
     // Pop the previous state
     this.state = this.turnStateHistory.pop()!;
+    this.unrecordLastMove();
     this.emitStateChange();
 
     // Re-render pieces
@@ -210,6 +368,52 @@ export class GameController extends BaseGameController {
     this.enableHumanInput();
   }
 
+  /**
+   * Show the engine's best turns for the dice the human has left, as
+   * ranked arcs on the board and through onHints. Only while the human
+   * is choosing a move; cleared as soon as they make one. The expert
+   * network ranks them in the AI's worker, whatever the opponent.
+   */
+  async showHints(): Promise<void> {
+    if (this.destroyed || !this.canHint) return;
+
+    const state = this.state;
+    const turns = await this.askAI(this.ai.rankTurns(state, HINT_COUNT), () => []);
+    // Too late if the human has moved (or left) while they were ranked
+    if (this.destroyed || !this.canHint || this.state !== state) return;
+
+    this.moveLineRenderer.showHints(turns.map((turn) => turn.moves), Player.Gold);
+    this.onHints?.(turns.map((turn) => ({
+      notation: formatMoves(state, turn.moves),
+      equity: turn.equity,
+      equityLoss: turn.equityLoss,
+    })));
+  }
+
+  /**
+   * Show hints by themselves whenever the human has a move to choose,
+   * for players still learning.
+   */
+  setAutoHints(on: boolean): void {
+    this.autoHints = on;
+    if (on) {
+      this.showHints();
+    } else {
+      this.clearHints();
+    }
+  }
+
+  private setCanHint(canHint: boolean): void {
+    this.canHint = canHint;
+    this.onCanHint?.(canHint);
+    if (!canHint) this.clearHints();
+  }
+
+  private clearHints(): void {
+    this.moveLineRenderer?.clearHints();
+    this.onHints?.(null);
+  }
+
   private async performOpeningRoll(): Promise<void> {
     if (this.destroyed) return;
     this.onWaitingForRoll?.(false);
@@ -220,6 +424,7 @@ export class GameController extends BaseGameController {
     do {
       goldDie = rollSingleDie();
       redDie = rollSingleDie();
+      this.recordEvent({ type: "opening-roll", goldDie, redDie });
 
       // Show dice on separate sides: opponent (Red) on left, player (Gold) on right
       this.sound.playSFX("dice-roll");
@@ -285,7 +490,8 @@ export class GameController extends BaseGameController {
     if (this.destroyed) return;
 
     // AI selects moves with the opening dice
-    const moves = this.ai.selectMoves(this.state);
+    const moves = await this.selectAIMoves();
+    if (this.destroyed) return;
 
     if (moves.length === 0) {
       this.onMessage?.(aiNoMovesMessage(this.ai.name));
@@ -301,6 +507,7 @@ export class GameController extends BaseGameController {
       if (this.destroyed) return;
       const move = moves[i];
       this.playMoveSFX(move);
+      this.recordEvent({ type: "move", player: this.state.currentPlayer, move });
       this.state = applyMove(this.state, move);
       this.emitStateChange();
 
@@ -351,12 +558,14 @@ export class GameController extends BaseGameController {
     this.sound.playSFX("dice-roll");
     const dice = rollDice();
     this.state = { ...this.state, dice, phase: "MOVING" };
+    this.recordEvent({ type: "roll", player: this.state.currentPlayer, dice: dice.values });
     this.storeDiceValues(dice);
     this.emitStateChange();
 
     // Show dice animation
     await this.diceRenderer.showRoll(dice);
     if (this.destroyed) return;
+    if (this.state.resignation) return; // Resigned while the dice rolled
 
     // Check legal moves (constrained by must-use-higher-die / must-maximize rules)
     const legalMoves = getConstrainedMoves(this.state);
@@ -404,6 +613,7 @@ export class GameController extends BaseGameController {
     this.inputHandler.onMoveSelected = async (move: Move) => {
       if (this.destroyed) return;
       this.inputHandler.disable();
+      this.setCanHint(false);
 
       // Push current state onto undo stack before applying move
       this.turnStateHistory.push(this.state);
@@ -413,6 +623,7 @@ export class GameController extends BaseGameController {
       this.playMoveSFX(move);
 
       // Apply the move
+      this.recordEvent({ type: "move", player: this.state.currentPlayer, move });
       this.state = applyMove(this.state, move);
       this.emitStateChange();
 
@@ -424,6 +635,9 @@ export class GameController extends BaseGameController {
       // Re-render pieces to show correct state
       this.pieceRenderer.render(this.state);
 
+      // Resigned while the piece was moving: resign() takes it from here
+      if (this.state.resignation) return;
+
       // Check if there are more moves to make
       if (
         this.state.dice &&
@@ -439,6 +653,8 @@ export class GameController extends BaseGameController {
     };
 
     this.inputHandler.enable(this.state, legalMoves);
+    this.setCanHint(true);
+    if (this.autoHints) this.showHints();
   }
 
   private async startAITurn(): Promise<void> {
@@ -448,14 +664,38 @@ export class GameController extends BaseGameController {
     this.onMessage?.(thinkMsg);
     this.sound.speak(thinkMsg, 1.0);
 
-    // Brief pause before AI acts
-    await this.delay(500);
+    // Brief pause before AI acts, in which it considers the cube
+    const [doubles] = await Promise.all([
+      canOfferDouble(this.state)
+        ? this.askAI(this.ai.shouldDouble(this.state), () => false)
+        : false,
+      this.delay(500),
+    ]);
+    if (this.destroyed) return;
+
+    if (doubles) {
+      // The human answers from the HUD: respondToDouble()
+      this.sound.playSFX("double-offered");
+      this.state = offerDouble(this.state);
+      this.recordEvent({ type: "double", player: Player.Red });
+      this.emitStateChange();
+      const doubleMsg = aiDoublesMessage(this.ai.name, this.state.doublingCube.value * 2);
+      this.onMessage?.(doubleMsg);
+      this.sound.speak(doubleMsg);
+      return;
+    }
+
+    this.rollForAI();
+  }
+
+  private async rollForAI(): Promise<void> {
     if (this.destroyed) return;
 
     // Roll dice
     this.sound.playSFX("dice-roll");
     const dice = rollDice();
     this.state = { ...this.state, dice, phase: "MOVING" };
+    this.recordEvent({ type: "roll", player: this.state.currentPlayer, dice: dice.values });
     this.storeDiceValues(dice);
     this.emitStateChange();
 
@@ -464,7 +704,8 @@ export class GameController extends BaseGameController {
     if (this.destroyed) return;
 
     // AI selects moves
-    const moves = this.ai.selectMoves(this.state);
+    const moves = await this.selectAIMoves();
+    if (this.destroyed) return;
 
     if (moves.length === 0) {
       this.onMessage?.(aiNoMovesMessage(this.ai.name));
@@ -484,6 +725,7 @@ export class GameController extends BaseGameController {
       // Detect move type for audio before applying
       this.playMoveSFX(move);
 
+      this.recordEvent({ type: "move", player: this.state.currentPlayer, move });
       this.state = applyMove(this.state, move);
       this.emitStateChange();
 
@@ -526,12 +768,12 @@ export class GameController extends BaseGameController {
     this.onCanUndo?.(false);
 
     // End turn (checks winner and switches player)
+    this.recordEvent({ type: "end-turn", player: this.state.currentPlayer });
     this.state = endTurn(this.state);
     this.emitStateChange();
 
     // Check for game over
     if (this.state.phase === "GAME_OVER" && this.state.winner) {
-      const winType = this.state.winType ?? "ya_mon";
       if (this.state.winner === Player.Gold) {
         this.sound.playSFX("victory");
       } else {
@@ -542,7 +784,7 @@ export class GameController extends BaseGameController {
         : defeatMessage();
       this.onMessage?.(endMsg);
       this.sound.speak(endMsg);
-      this.onGameOver?.(this.state.winner, winType);
+      this.reportGameOver();
       return;
     }
 
@@ -554,7 +796,63 @@ export class GameController extends BaseGameController {
     }
   }
 
+  private reportGameOver(): void {
+    const { winner, winType } = this.state;
+    if (!winner || !this.record) return;
+    this.onGameOver?.(winner, winType ?? "ya_mon", {
+      matchLength: this.state.matchLength,
+      score: getScoreAfterGame(this.state),
+      matchWinner: getMatchWinner(this.state),
+    }, this.record);
+  }
+
+  // ── Game Record ──────────────────────────────────────────────────────
+
+  private startRecording(): void {
+    this.record = { initialState: cloneState(this.state), events: [] };
+  }
+
+  private recordEvent(event: UntimedEvent): void {
+    this.record?.events.push({ ...event, at: Date.now() } as GameEvent);
+  }
+
+  /** Drop the move taken back by an undo from the record. */
+  private unrecordLastMove(): void {
+    if (!this.record) return;
+    const events = this.record.events;
+    const index = events.findLastIndex((event) => event.type === "move");
+    if (index >= 0) events.splice(index, 1);
+  }
+
+  /**
+   * The AI's answer, or `fallback` if the worker couldn't give one (it
+   * already thinks on the main thread if the worker itself failed), so a
+   * failure costs at most a weak decision rather than a stuck game.
+   */
+  private async askAI<T>(answer: Promise<T>, fallback: () => T): Promise<T> {
+    try {
+      return await answer;
+    } catch (err) {
+      console.error("The AI failed to answer:", err);
+      return fallback();
+    }
+  }
+
+  // Unanswered, the AI plays the first legal turn
+  private selectAIMoves(): Promise<Move[]> {
+    const state = this.state;
+    return this.askAI(this.ai.selectMoves(state), () => getAllLegalTurns(state)[0] ?? []);
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
+
+  // ── Lifecycle ────────────────────────────────────────────────────────
+
+  destroy(): void {
+    // Stops a search in progress; its answer is no longer wanted
+    this.ai.terminate();
+    super.destroy();
+  }
 }
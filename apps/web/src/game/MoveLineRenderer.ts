@@ -9,6 +9,11 @@ const LINE_WIDTH_ACTIVE = 4;
 const OPPONENT_ARC_COLOR = 0xf0a070;
 const OPPONENT_ARC_ALPHA = 0.45;
 const OPPONENT_ARC_WIDTH = 2;
+const HINT_ARC_ALPHA = 0.85;
+const HINT_ARC_WIDTH = 3;
+
+/** Arc colour for each hint, best first. */
+export const HINT_COLORS = [0x00ff88, 0xffd700, 0x7ec8e3];
 
 /**
  * Compute which die value a move consumes, mirroring engine logic.
@@ -33,6 +38,7 @@ function computeDieValue(move: Move, player: Player, remaining: number[]): numbe
  * - All legal moves shown as faded arcs when input is enabled.
  * - Hovering or selecting a piece brightens its arcs and shows number labels.
  * - Clicking an arc (or pressing its number key) executes the move.
+ * - Hints draw the engine's top turns in ranked colours, numbered by rank.
  */
 export class MoveLineRenderer {
   private app: Application;
@@ -44,6 +50,8 @@ export class MoveLineRenderer {
   private activeContainer: Container;
   // Container for opponent's recent move arcs
   private opponentContainer: Container;
+  // Container for hinted turns
+  private hintContainer: Container;
 
   // All line data for the current state
   private moveLines: MoveLineData[] = [];
@@ -75,9 +83,12 @@ export class MoveLineRenderer {
     this.activeContainer.zIndex = 450;
     this.opponentContainer = new Container();
     this.opponentContainer.zIndex = 410;
+    this.hintContainer = new Container();
+    this.hintContainer.zIndex = 420;
     app.stage.addChild(this.fadeContainer);
     app.stage.addChild(this.activeContainer);
     app.stage.addChild(this.opponentContainer);
+    app.stage.addChild(this.hintContainer);
   }
 
   /**
@@ -172,9 +183,95 @@ export class MoveLineRenderer {
    * Arcs accumulate across the turn; call clearOpponentMoves() to reset.
    */
   showOpponentMove(move: Move, player: Player): void {
+    this.drawArc(this.opponentContainer, move, player, {
+      color: OPPONENT_ARC_COLOR,
+      width: OPPONENT_ARC_WIDTH,
+      alpha: OPPONENT_ARC_ALPHA,
+    });
+  }
+
+  /**
+   * Show suggested turns, best first, each in its own colour with its rank
+   * at the end of every arc. Replaces any hints already shown.
+   */
+  showHints(turns: Move[][], player: Player): void {
+    this.clearHints();
+    const radius = this.boardRenderer.getPieceRadius();
+    const labelSize = Math.max(9, radius * 0.55);
+
+    // Worst first, so the best hint is drawn on top where arcs overlap
+    for (let rank = turns.length - 1; rank >= 0; rank--) {
+      const color = HINT_COLORS[rank % HINT_COLORS.length];
+      for (const move of turns[rank]) {
+        const end = this.drawArc(this.hintContainer, move, player, {
+          color,
+          width: HINT_ARC_WIDTH,
+          alpha: HINT_ARC_ALPHA,
+        });
+        if (!end) continue;
+
+        const labelBg = new Graphics();
+        labelBg.circle(end.x, end.y, labelSize * 0.75).fill({ color: 0x1a1a0e, alpha: 0.85 });
+        labelBg.circle(end.x, end.y, labelSize * 0.75).stroke({ color, width: 1.5, alpha: 0.8 });
+        this.hintContainer.addChild(labelBg);
+
+        const text = new Text({
+          text: `${rank + 1}`,
+          style: {
+            fontSize: labelSize,
+            fill: color,
+            fontFamily: "Inter, sans-serif",
+            fontWeight: "bold",
+          },
+        });
+        text.anchor.set(0.5, 0.5);
+        text.x = end.x;
+        text.y = end.y;
+        this.hintContainer.addChild(text);
+      }
+    }
+  }
+
+  clearHints(): void {
+    this.hintContainer.removeChildren();
+  }
+
+  clearOpponentMoves(): void {
+    this.opponentContainer.removeChildren();
+  }
+
+  clear(): void {
+    this.fadeContainer.removeChildren();
+    this.activeContainer.removeChildren();
+    this.fadeContainer.alpha = 1;
+    this.moveLines = [];
+    this.highlightedFrom = null;
+  }
+
+  destroy(): void {
+    this.clear();
+    this.clearOpponentMoves();
+    this.clearHints();
+    this.fadeContainer.destroy({ children: true });
+    this.activeContainer.destroy({ children: true });
+    this.opponentContainer.destroy({ children: true });
+    this.hintContainer.destroy({ children: true });
+  }
+
+  /**
+   * Draw a thin arc with a small arrowhead between fixed point positions,
+   * for moves that aren't clickable (opponent moves and hints). Returns
+   * where the arc meets its target piece, or null if it couldn't be placed.
+   */
+  private drawArc(
+    container: Container,
+    move: Move,
+    player: Player,
+    style: { color: number; width: number; alpha: number }
+  ): { x: number; y: number } | null {
     const startPos = this.getPointPos(move.from, player);
     const endPos = this.getPointPos(move.to, player);
-    if (!startPos || !endPos) return;
+    if (!startPos || !endPos) return null;
 
     const radius = this.boardRenderer.getPieceRadius();
 
@@ -219,8 +316,8 @@ export class MoveLineRenderer {
     const g = new Graphics();
     g.moveTo(edgeStartX, edgeStartY);
     g.quadraticCurveTo(cpX, cpY, edgeEndX, edgeEndY);
-    g.stroke({ color: OPPONENT_ARC_COLOR, width: OPPONENT_ARC_WIDTH, alpha: OPPONENT_ARC_ALPHA });
-    this.opponentContainer.addChild(g);
+    g.stroke({ color: style.color, width: style.width, alpha: style.alpha });
+    container.addChild(g);
 
     // Arrowhead (small, subtle)
     const arrowSize = radius * 0.25;
@@ -236,33 +333,15 @@ export class MoveLineRenderer {
         edgeEndY - tdy * arrowSize + tdx * arrowSize * 0.5
       )
       .closePath()
-      .fill({ color: OPPONENT_ARC_COLOR, alpha: OPPONENT_ARC_ALPHA });
-    this.opponentContainer.addChild(arrowG);
-  }
-
-  clearOpponentMoves(): void {
-    this.opponentContainer.removeChildren();
-  }
+      .fill({ color: style.color, alpha: style.alpha });
+    container.addChild(arrowG);
 
-  clear(): void {
-    this.fadeContainer.removeChildren();
-    this.activeContainer.removeChildren();
-    this.fadeContainer.alpha = 1;
-    this.moveLines = [];
-    this.highlightedFrom = null;
-  }
-
-  destroy(): void {
-    this.clear();
-    this.clearOpponentMoves();
-    this.fadeContainer.destroy({ children: true });
-    this.activeContainer.destroy({ children: true });
-    this.opponentContainer.destroy({ children: true });
+    return { x: edgeEndX, y: edgeEndY };
   }
 
   /**
    * Get a fixed position for a point/bar/off (no stack info needed).
-   * Used for opponent move arcs where we don't need precise piece positions.
+   * Used for opponent move and hint arcs where we don't need precise piece positions.
    */
   private getPointPos(
     point: number | "bar" | "off",
@@ -5,46 +5,94 @@ import {
   type Move,
   type WinType,
   type Dice,
+  type ForfeitReason,
   rollDice,
   getConstrainedMoves,
+  applyMove,
   canMove,
+  isResignationPending,
 } from "@backyamon/engine";
-import { SocketClient } from "@/multiplayer/SocketClient";
-import { BaseGameController } from "./BaseGameController";
+import type { ChatMessage, ClockSnapshot } from "@backyamon/protocol";
+import { SocketClient, type SocketEvents } from "@/multiplayer/SocketClient";
+import { verifyDice, type DiceCheck } from "@/lib/fairDice";
+import { BaseGameController, type MatchProgress } from "./BaseGameController";
 
 export class OnlineGameController extends BaseGameController {
   private socketClient: SocketClient;
   private localPlayer: Player = Player.Gold;
   private roomId: string;
+  // Set when watching someone else's game: both players' names. The board
+  // is then shown from Gold's side and nothing can be played.
+  private spectatorNames: Record<Player, string> | null;
 
   // Track the last dice values so we can show them in messages
   private lastRollValues: [number, number] = [0, 0];
 
+  // The server's dice commitment for this game, how many dice had been
+  // rolled when we joined, and every die we have seen rolled since
+  private diceHash: string | null = null;
+  private firstDieIndex = 0;
+  private rolledDice: number[] = [];
+
+  // Moves of the local player's turn so far, and the state before each.
+  // They stay on this screen, where they can be taken back, until the
+  // turn is complete and goes to the server in one submission.
+  private stagedMoves: Move[] = [];
+  private turnStateHistory: GameState[] = [];
+
+  // Board updates from the server, applied one after another: a submitted
+  // turn arrives as a burst of move-made events
+  private boardUpdates: Promise<void> = Promise.resolve();
+
   // Callbacks specific to online play
   onGameOver:
-    | ((winner: Player, winType: WinType, pointsWon: number) => void)
+    | ((
+        winner: Player,
+        winType: WinType,
+        pointsWon: number,
+        match: MatchProgress
+      ) => void)
     | null = null;
-  onOpponentDisconnected: (() => void) | null = null;
+  onNextGame: ((gameNumber: number) => void) | null = null;
+  onOpponentDisconnected: ((forfeitInMs: number | null) => void) | null = null;
   onOpponentReconnected: (() => void) | null = null;
   onError: ((message: string) => void) | null = null;
-
-  constructor(app: Application, socketClient: SocketClient, roomId: string) {
+  onDiceChecked: ((check: DiceCheck) => void) | null = null;
+  onClockChange: ((clock: ClockSnapshot | null) => void) | null = null;
+  onSpectatorsChange: ((count: number) => void) | null = null;
+  onChat: ((message: ChatMessage) => void) | null = null;
+  onCanUndo: ((canUndo: boolean) => void) | null = null;
+
+  constructor(
+    app: Application,
+    socketClient: SocketClient,
+    roomId: string,
+    spectatorNames: Record<Player, string> | null = null,
+  ) {
     super(app);
     this.socketClient = socketClient;
     this.roomId = roomId;
+    this.spectatorNames = spectatorNames;
   }
 
   /**
    * Initialize renderers and bind server event listeners.
    * Call this after receiving `room-joined` with the initial state and player role.
    */
-  startGame(initialState: GameState, localPlayer: Player): void {
+  startGame(
+    initialState: GameState,
+    localPlayer: Player,
+    dice?: { hash: string; rolled: number },
+  ): void {
     if (this.destroyed) return;
 
     this.initRenderers();
 
     this.state = initialState;
     this.localPlayer = localPlayer;
+    this.diceHash = dice?.hash ?? null;
+    this.firstDieIndex = dice?.rolled ?? 0;
+    this.rolledDice = [];
 
     this.sound.startMusic();
     this.sound.updateMood(this.state);
@@ -57,13 +105,17 @@ export class OnlineGameController extends BaseGameController {
     this.bindServerEvents();
 
     // Handle initial phase
-    if (this.state.phase === "OPENING_ROLL") {
+    if (this.spectatorNames) {
+      this.onMessage?.(
+        this.state.phase === "OPENING_ROLL" ? "Waiting for the opening roll..." : `${this.nameOf(this.state.currentPlayer)}'s turn...`
+      );
+    } else if (this.state.phase === "OPENING_ROLL") {
       this.onWaitingForRoll?.(true);
       this.onMessage?.("Opening roll — click to roll!");
-    } else if (this.state.currentPlayer === this.localPlayer && this.state.phase === "ROLLING") {
+    } else if (this.isLocal(this.state.currentPlayer) && this.state.phase === "ROLLING") {
       this.startLocalTurn();
     } else if (this.state.phase === "ROLLING") {
-      this.onMessage?.("Waiting for opponent to roll...");
+      this.onMessage?.(`Waiting for ${this.nameOf(this.state.currentPlayer)} to roll...`);
     }
   }
 
@@ -71,7 +123,7 @@ export class OnlineGameController extends BaseGameController {
    * Roll dice for the local player (called from UI click).
    */
   rollForHuman(): void {
-    if (this.destroyed) return;
+    if (this.destroyed || this.spectatorNames) return;
 
     // Opening roll — either player can trigger it
     if (this.state.phase === "OPENING_ROLL") {
@@ -82,7 +134,7 @@ export class OnlineGameController extends BaseGameController {
     }
 
     if (this.state.phase !== "ROLLING") return;
-    if (this.state.currentPlayer !== this.localPlayer) return;
+    if (!this.isLocal(this.state.currentPlayer)) return;
 
     this.onWaitingForRoll?.(false);
     this.onMessage?.("Rolling...");
@@ -90,8 +142,39 @@ export class OnlineGameController extends BaseGameController {
     this.socketClient.rollDice();
   }
 
+  /**
+   * Take back the last move staged this turn.
+   */
+  undoMove(): void {
+    if (this.destroyed) return;
+    if (this.turnStateHistory.length === 0) return;
+    if (isResignationPending(this.state)) return;
+
+    this.inputHandler.disable();
+
+    this.state = this.turnStateHistory.pop()!;
+    this.stagedMoves.pop();
+    this.emitStateChange();
+    this.pieceRenderer.render(this.state);
+    this.onCanUndo?.(this.turnStateHistory.length > 0);
+
+    // Clear auto-select to avoid re-selecting after undo
+    this.inputHandler.setAutoSelectFrom(null);
+    this.enableLocalInput();
+  }
+
   // ── Private Helpers ─────────────────────────────────────────────────
 
+  /** Whether `player` is the one playing on this screen. */
+  private isLocal(player: Player): boolean {
+    return !this.spectatorNames && player === this.localPlayer;
+  }
+
+  /** How to refer to the player who is not playing on this screen. */
+  private nameOf(player: Player): string {
+    return this.spectatorNames?.[player] ?? "Opponent";
+  }
+
   private startLocalTurn(): void {
     if (this.destroyed) return;
     this.sound.playSFX("turn-start");
@@ -120,104 +203,190 @@ export class OnlineGameController extends BaseGameController {
 
     this.onMessage?.("Select a piece to move");
 
-    this.inputHandler.onMoveSelected = (move: Move) => {
+    this.inputHandler.onMoveSelected = async (move: Move) => {
       if (this.destroyed) return;
       this.inputHandler.disable();
-      this.onMessage?.("...");
 
-      // Send move to server; wait for move-made event to animate
-      this.socketClient.makeMove(move);
+      // Stage the move locally; the server only sees the finished turn
+      this.turnStateHistory.push(this.state);
+      this.stagedMoves.push(move);
+      this.onCanUndo?.(true);
+
+      this.playMoveSFX(move);
+      this.state = applyMove(this.state, move);
+      this.emitStateChange();
+
+      await this.pieceRenderer.animateMove(move, this.localPlayer);
+      if (this.destroyed) return;
+      this.spawnLandingDust(move, this.localPlayer);
+      this.pieceRenderer.render(this.state);
+
+      // Resigned while the piece was moving: the resignation takes it from here
+      if (isResignationPending(this.state)) return;
+
+      if (
+        this.state.dice &&
+        this.state.dice.remaining.length > 0 &&
+        canMove(this.state)
+      ) {
+        this.enableLocalInput();
+      } else {
+        this.submitTurn();
+      }
     };
 
     this.inputHandler.enable(this.state, legalMoves);
   }
 
+  /**
+   * Send the staged turn to the server. The opponent sees it as move-made
+   * events followed by turn-ended; if it is refused, the turn starts over.
+   */
+  private async submitTurn(): Promise<void> {
+    const turnStart = this.turnStateHistory[0];
+    const moves = this.stagedMoves;
+    this.clearStagedTurn();
+    this.onMessage?.("...");
+
+    const { error } = await this.socketClient.submitTurn(moves);
+    if (this.destroyed || !error) return;
+
+    this.onError?.(error);
+    if (!turnStart || this.state.phase !== "MOVING") return;
+    this.state = turnStart;
+    this.emitStateChange();
+    this.pieceRenderer.render(this.state);
+    this.enableLocalInput();
+  }
+
+  private clearStagedTurn(): void {
+    this.stagedMoves = [];
+    this.turnStateHistory = [];
+    this.onCanUndo?.(false);
+  }
+
+  private queueBoardUpdate(update: () => void | Promise<void>): void {
+    // A failed update is logged so the ones queued after it still run
+    this.boardUpdates = this.boardUpdates.then(update).catch((err: unknown) => {
+      console.error("Board update failed:", err);
+    });
+  }
+
   // ── Server Event Bindings ────────────────────────────────────────────
 
-  private boundHandlers: Map<string, (...args: unknown[]) => void> = new Map();
+  private unbindHandlers: (() => void)[] = [];
 
   private bindServerEvents(): void {
-    const bind = (event: string, handler: (...args: unknown[]) => void) => {
-      this.boundHandlers.set(event, handler);
+    const bind = <E extends keyof SocketEvents>(event: E, handler: SocketEvents[E]) => {
       this.socketClient.on(event, handler);
+      this.unbindHandlers.push(() => this.socketClient.off(event, handler));
     };
 
-    bind("opening-roll-tied", (data: unknown) => {
-      this.handleOpeningRollTied(data as { goldDie: number; redDie: number });
+    bind("opening-roll-tied", (data) => {
+      this.handleOpeningRollTied(data);
     });
 
-    bind("opening-roll-result", (data: unknown) => {
-      this.handleOpeningRollResult(
-        data as { goldDie: number; redDie: number; firstPlayer: Player; dice: Dice }
-      );
+    bind("opening-roll-result", (result) => {
+      this.onClockChange?.(result.clock);
+      this.handleOpeningRollResult(result);
     });
 
-    bind("dice-rolled", (data: unknown) => {
-      this.handleDiceRolled(data as { dice: Dice });
+    bind("dice-rolled", (rolled) => {
+      this.onClockChange?.(rolled.clock);
+      this.handleDiceRolled(rolled);
     });
 
-    bind("move-made", (data: unknown) => {
-      this.handleMoveMade(data as { move: Move; state: GameState });
+    bind("move-made", (data) => {
+      this.queueBoardUpdate(() => this.handleMoveMade(data));
     });
 
-    bind("turn-ended", (data: unknown) => {
-      this.handleTurnEnded(data as { state: GameState; currentPlayer: Player });
+    bind("turn-ended", (ended) => {
+      this.onClockChange?.(ended.clock);
+      this.queueBoardUpdate(() => this.handleTurnEnded(ended));
     });
 
-    bind("game-over", (data: unknown) => {
-      this.handleGameOver(
-        data as { winner: Player; winType: WinType; pointsWon: number }
-      );
+    bind("game-over", (result) => {
+      this.onClockChange?.(result.clock);
+      this.queueBoardUpdate(() => this.handleGameOver(result));
+    });
+
+    bind("game-start", (start) => {
+      this.onClockChange?.(start.clock);
+      this.handleGameStart(start);
+    });
+
+    bind("double-offered", (offer) => {
+      this.onClockChange?.(offer.clock);
+      this.handleDoubleOffered(offer);
+    });
+
+    bind("double-response", (response) => {
+      this.onClockChange?.(response.clock);
+      this.handleDoubleResponse(response);
+    });
+
+    bind("resignation-offered", (offer) => {
+      this.onClockChange?.(offer.clock);
+      this.handleResignationOffered(offer);
+    });
+
+    bind("resignation-response", (response) => {
+      this.onClockChange?.(response.clock);
+      this.handleResignationResponse(response);
     });
 
-    bind("double-offered", (data: unknown) => {
-      this.handleDoubleOffered(data as { currentCubeValue: number });
+    bind("chat-message", (message) => {
+      this.onChat?.(message);
     });
 
-    bind("double-response", (data: unknown) => {
-      this.handleDoubleResponse(data as { accepted: boolean; state: GameState });
+    bind("spectators-changed", ({ count }) => {
+      this.onSpectatorsChange?.(count);
     });
 
-    bind("opponent-disconnected", () => {
-      this.onMessage?.("Opponent disconnected. Waiting for reconnect...");
-      this.onOpponentDisconnected?.();
+    bind("clock-updated", ({ clock }) => {
+      this.onClockChange?.(clock);
+    });
+
+    bind("opponent-disconnected", ({ forfeitInMs }) => {
+      this.onMessage?.(
+        this.spectatorNames ? "A player disconnected. Waiting for reconnect..." : "Opponent disconnected. Waiting for reconnect..."
+      );
+      this.onOpponentDisconnected?.(forfeitInMs);
     });
 
     bind("opponent-reconnected", () => {
-      this.onMessage?.("Opponent reconnected!");
+      this.onMessage?.(this.spectatorNames ? "Player reconnected!" : "Opponent reconnected!");
       this.onOpponentReconnected?.();
       // Clear the message after a short delay
       setTimeout(() => {
         if (this.destroyed) return;
-        if (this.state.currentPlayer === this.localPlayer) {
+        if (this.isLocal(this.state.currentPlayer)) {
           if (this.state.phase === "ROLLING") {
             this.startLocalTurn();
           } else if (this.state.phase === "MOVING") {
             this.enableLocalInput();
           }
         } else {
-          this.onMessage?.("Opponent's turn...");
+          this.onMessage?.(`${this.nameOf(this.state.currentPlayer)}'s turn...`);
         }
       }, 1500);
     });
 
-    bind("error", (data: unknown) => {
-      const msg = (data as { message: string }).message;
-      this.onError?.(msg);
+    bind("error", ({ message }) => {
+      this.onError?.(message);
     });
   }
 
   private unbindServerEvents(): void {
-    for (const [event, handler] of this.boundHandlers) {
-      this.socketClient.off(event, handler);
-    }
-    this.boundHandlers.clear();
+    for (const unbind of this.unbindHandlers) unbind();
+    this.unbindHandlers = [];
   }
 
   // ── Server Event Handlers ────────────────────────────────────────────
 
   private async handleOpeningRollTied(data: { goldDie: number; redDie: number }): Promise<void> {
     if (this.destroyed) return;
+    this.rolledDice.push(data.goldDie, data.redDie);
     this.sound.playSFX("dice-roll");
 
     // Show dice on separate sides: Red on left, Gold on right
@@ -229,7 +398,7 @@ export class OnlineGameController extends BaseGameController {
 
     this.onMessage?.(`Tied ${data.goldDie}-${data.redDie}! Roll again...`);
     setTimeout(() => {
-      if (this.destroyed) return;
+      if (this.destroyed || this.spectatorNames) return;
       this.onWaitingForRoll?.(true);
       this.onMessage?.("Opening roll — click to roll!");
     }, 1500);
@@ -242,6 +411,7 @@ export class OnlineGameController extends BaseGameController {
     dice: Dice;
   }): Promise<void> {
     if (this.destroyed) return;
+    this.rolledDice.push(data.goldDie, data.redDie);
     this.sound.playSFX("dice-roll");
 
     // Show dice on separate sides: opponent on left, local on right
@@ -252,7 +422,7 @@ export class OnlineGameController extends BaseGameController {
     if (this.destroyed) return;
 
     // Highlight the winning die (left=opponent/0, right=local/1)
-    const isLocal = data.firstPlayer === this.localPlayer;
+    const isLocal = this.isLocal(data.firstPlayer);
     const winnerIndex: 0 | 1 = isLocal ? 1 : 0;
     await this.diceRenderer.highlightOpeningWinner(winnerIndex);
     if (this.destroyed) return;
@@ -269,6 +439,8 @@ export class OnlineGameController extends BaseGameController {
 
     const myDie = isGold ? data.goldDie : data.redDie;
     const theirDie = isGold ? data.redDie : data.goldDie;
+    const [firstDie, secondDie] =
+      data.firstPlayer === Player.Gold ? [data.goldDie, data.redDie] : [data.redDie, data.goldDie];
 
     if (isLocal) {
       this.onMessage?.(`You rolled ${myDie} vs ${theirDie} — you go first!`);
@@ -280,12 +452,18 @@ export class OnlineGameController extends BaseGameController {
         this.enableLocalInput();
       }, 1000);
     } else {
-      this.onMessage?.(`Opponent rolled ${theirDie} vs ${myDie} — they go first`);
+      const first = this.nameOf(data.firstPlayer);
+      this.onMessage?.(
+        this.spectatorNames
+          ? `${first} rolled ${firstDie} vs ${secondDie} — ${first} goes first`
+          : `Opponent rolled ${theirDie} vs ${myDie} — they go first`
+      );
     }
   }
 
   private async handleDiceRolled(data: { dice: Dice }): Promise<void> {
     if (this.destroyed) return;
+    this.rolledDice.push(...data.dice.values);
     this.sound.playSFX("dice-roll");
     this.moveLineRenderer.clearOpponentMoves();
 
@@ -301,7 +479,7 @@ export class OnlineGameController extends BaseGameController {
     if (this.destroyed) return;
 
     // If it's local player's turn, enable input
-    if (this.state.currentPlayer === this.localPlayer) {
+    if (this.isLocal(this.state.currentPlayer)) {
       const legalMoves = getConstrainedMoves(this.state);
       if (legalMoves.length === 0) {
         this.onMessage?.("No legal moves! Turn passes...");
@@ -311,7 +489,7 @@ export class OnlineGameController extends BaseGameController {
       }
     } else {
       const [a, b] = this.lastRollValues;
-      this.onMessage?.(`Opponent rolled ${a} & ${b}`);
+      this.onMessage?.(`${this.nameOf(this.state.currentPlayer)} rolled ${a} & ${b}`);
     }
   }
 
@@ -324,6 +502,9 @@ export class OnlineGameController extends BaseGameController {
     const { move, state } = data;
     const movingPlayer = this.state.currentPlayer;
 
+    // Our own turn was already played out here while it was staged
+    if (this.isLocal(movingPlayer)) return;
+
     // Play move SFX based on pre-move state
     this.playMoveSFX(move);
 
@@ -337,9 +518,7 @@ export class OnlineGameController extends BaseGameController {
     this.spawnLandingDust(move, movingPlayer);
 
     // Show opponent move arc so the local player can see what happened
-    if (movingPlayer !== this.localPlayer) {
-      this.moveLineRenderer.showOpponentMove(move, movingPlayer);
-    }
+    this.moveLineRenderer.showOpponentMove(move, movingPlayer);
 
     // Re-render to show correct state
     this.pieceRenderer.render(this.state);
@@ -352,26 +531,9 @@ export class OnlineGameController extends BaseGameController {
       );
     }
 
-    // If still local player's turn with moves remaining, re-enable input
-    if (
-      this.state.currentPlayer === this.localPlayer &&
-      this.state.phase === "MOVING" &&
-      this.state.dice &&
-      this.state.dice.remaining.length > 0 &&
-      canMove(this.state)
-    ) {
-      this.enableLocalInput();
-    } else if (
-      this.state.currentPlayer === this.localPlayer &&
-      this.state.phase === "MOVING"
-    ) {
-      // No more moves; server will send turn-ended
-      this.onMessage?.("No more moves...");
-    } else if (this.state.currentPlayer !== this.localPlayer) {
-      // Keep showing opponent's roll while they move
-      const [a, b] = this.lastRollValues;
-      this.onMessage?.(`Opponent rolled ${a} & ${b}`);
-    }
+    // Keep showing opponent's roll while they move
+    const [a, b] = this.lastRollValues;
+    this.onMessage?.(`${this.nameOf(this.state.currentPlayer)} rolled ${a} & ${b}`);
   }
 
   private async handleTurnEnded(data: {
@@ -382,6 +544,7 @@ export class OnlineGameController extends BaseGameController {
 
     this.state = data.state;
     this.inputHandler.disable();
+    this.clearStagedTurn();
     this.emitStateChange();
     this.pieceRenderer.render(this.state);
 
@@ -400,10 +563,10 @@ export class OnlineGameController extends BaseGameController {
       return;
     }
 
-    if (data.currentPlayer === this.localPlayer) {
+    if (this.isLocal(data.currentPlayer)) {
       this.startLocalTurn();
     } else {
-      this.onMessage?.("Opponent's turn...");
+      this.onMessage?.(`${this.nameOf(data.currentPlayer)}'s turn...`);
     }
   }
 
@@ -411,28 +574,137 @@ export class OnlineGameController extends BaseGameController {
     winner: Player;
     winType: WinType;
     pointsWon: number;
+    matchScore: Record<Player, number>;
+    matchWinner: Player | null;
+    matchLength: number;
+    reason: ForfeitReason | null;
+    diceSeed: string;
   }): void {
     if (this.destroyed) return;
 
     this.diceRenderer.hide();
     this.inputHandler.disable();
+    this.clearStagedTurn();
+
+    // A winning bear-off arrives as move-made before the server marks the
+    // game over, so make sure local state reflects the result
+    this.state = {
+      ...this.state,
+      phase: "GAME_OVER",
+      winner: data.winner,
+      winType: data.winType,
+    };
+    this.emitStateChange();
 
-    if (data.winner === this.localPlayer) {
+    if (this.spectatorNames || data.winner === this.localPlayer) {
       this.sound.playSFX("victory");
     } else {
       this.sound.playSFX("defeat");
     }
 
     const isWinner = data.winner === this.localPlayer;
-    this.onMessage?.(isWinner ? "Ya Mon! You win!" : "You lose!");
-    this.onGameOver?.(data.winner, data.winType, data.pointsWon);
+    if (this.spectatorNames) {
+      this.onMessage?.(this.describeResultForSpectator(data.winner, data.reason, data.matchWinner));
+    } else if (this.state.resignation && data.matchWinner === null) {
+      this.onMessage?.(
+        isWinner ? "Opponent resigned! Next game soon come..." : "You resigned. Next game soon come..."
+      );
+    } else if (this.state.resignation) {
+      this.onMessage?.(isWinner ? "Opponent resigned - you win the match!" : "You resigned the match.");
+    } else if (data.reason === "timeout") {
+      this.onMessage?.(
+        isWinner ? "Opponent ran out of time - you win the match!" : "Out of time! Match forfeited."
+      );
+    } else if (data.reason === "abandoned") {
+      this.onMessage?.(
+        isWinner ? "Opponent never came back - you win the match!" : "You left the match. Match forfeited."
+      );
+    } else if (data.matchWinner === null) {
+      this.onMessage?.(
+        isWinner ? "You take the game! Next game soon come..." : "Game lost. Next game soon come..."
+      );
+    } else {
+      this.onMessage?.(isWinner ? "Ya Mon! You win!" : "You lose!");
+    }
+    this.onGameOver?.(data.winner, data.winType, data.pointsWon, {
+      matchLength: data.matchLength,
+      score: data.matchScore,
+      matchWinner: data.matchWinner,
+    });
+    this.checkDice(data.diceSeed);
+  }
+
+  private describeResultForSpectator(
+    winner: Player,
+    reason: ForfeitReason | null,
+    matchWinner: Player | null,
+  ): string {
+    const loser = this.nameOf(winner === Player.Gold ? Player.Red : Player.Gold);
+    const outcome = matchWinner === null ? "takes the game" : "wins the match";
+    if (this.state.resignation) return `${loser} resigned - ${this.nameOf(winner)} ${outcome}!`;
+    if (reason === "timeout") return `${loser} ran out of time - ${this.nameOf(winner)} wins the match!`;
+    if (reason === "abandoned") return `${loser} never came back - ${this.nameOf(winner)} wins the match!`;
+    return `${this.nameOf(winner)} ${outcome}!`;
+  }
+
+  /**
+   * Check the revealed seed against the hash published when the game
+   * started and recompute every roll we saw.
+   */
+  private async checkDice(seed: string): Promise<void> {
+    if (!this.diceHash) return; // No commitment to check against
+    const check = await verifyDice(seed, this.diceHash, this.rolledDice, this.firstDieIndex);
+    if (this.destroyed) return;
+    this.onDiceChecked?.(check);
+  }
+
+  /**
+   * The server deals the next game of a match in the same room.
+   * The game-start sent when the room first fills is ignored here —
+   * room-joined already carried that state.
+   */
+  private handleGameStart(data: {
+    state: GameState;
+    gameNumber: number;
+    diceHash: string;
+  }): void {
+    if (this.destroyed) return;
+    if (this.state.phase !== "GAME_OVER") return;
+
+    this.state = data.state;
+    this.diceHash = data.diceHash;
+    this.firstDieIndex = 0;
+    this.rolledDice = [];
+    this.moveLineRenderer.clearOpponentMoves();
+    this.diceRenderer.hide();
+    this.pieceRenderer.render(this.state);
+    this.emitStateChange();
+    this.onNextGame?.(data.gameNumber);
+
+    if (this.spectatorNames) {
+      this.onMessage?.("Next game - waiting for the opening roll...");
+      return;
+    }
+    this.onWaitingForRoll?.(true);
+    this.onMessage?.(
+      this.state.isCrawford
+        ? "Crawford game - no doubling! Click to roll!"
+        : "Opening roll — click to roll!"
+    );
   }
 
   private handleDoubleOffered(data: { currentCubeValue: number }): void {
     if (this.destroyed) return;
     this.sound.playSFX("double-offered");
 
-    // Only the non-offering player (opponent of current player) sees this
+    // Only the non-offering player (opponent of current player) and
+    // spectators see this
+    if (this.spectatorNames) {
+      this.onMessage?.(
+        `${this.nameOf(this.state.currentPlayer)} doubles! Cube to ${data.currentCubeValue}.`
+      );
+      return;
+    }
     this.onMessage?.(
       `Opponent doubles! Cube to ${data.currentCubeValue}. Accept or decline?`
     );
@@ -454,10 +726,10 @@ export class OnlineGameController extends BaseGameController {
       // Game continues - if it's our turn now, start rolling phase
       setTimeout(() => {
         if (this.destroyed) return;
-        if (this.state.currentPlayer === this.localPlayer && this.state.phase === "ROLLING") {
+        if (this.isLocal(this.state.currentPlayer) && this.state.phase === "ROLLING") {
           this.startLocalTurn();
         } else if (this.state.phase !== "GAME_OVER") {
-          this.onMessage?.("Opponent's turn...");
+          this.onMessage?.(`${this.nameOf(this.state.currentPlayer)}'s turn...`);
         }
       }, 1000);
     } else {
@@ -466,6 +738,76 @@ export class OnlineGameController extends BaseGameController {
     }
   }
 
+  private handleResignationOffered(data: {
+    player: Player;
+    winType: WinType;
+    points: number;
+  }): void {
+    if (this.destroyed) return;
+
+    this.state = { ...this.state, resignation: data.winType };
+    this.inputHandler.disable();
+    this.onWaitingForRoll?.(false);
+    this.onCanUndo?.(false);
+    this.emitStateChange();
+
+    const pts = `${data.points} ${data.points === 1 ? "point" : "points"}`;
+    if (this.spectatorNames) {
+      this.onMessage?.(`${this.nameOf(data.player)} offers to resign for ${pts}...`);
+    } else if (data.player === this.localPlayer) {
+      this.onMessage?.(`You offer to resign for ${pts}...`);
+    } else {
+      // The HUD shows the accept/reject prompt
+      this.sound.playSFX("double-offered");
+      this.onMessage?.(`Opponent offers to resign for ${pts}. Accept or play on?`);
+    }
+  }
+
+  private handleResignationResponse(data: {
+    accepted: boolean;
+    state: GameState;
+  }): void {
+    if (this.destroyed) return;
+
+    // On acceptance the game-over event follows and reports the result
+    const resigned = data.state.currentPlayer === this.localPlayer;
+    if (data.accepted || this.turnStateHistory.length === 0) {
+      this.state = data.state;
+    } else {
+      // The server never saw the staged moves: play on from where they left off
+      this.state = { ...this.state, resignation: data.state.resignation };
+      this.onCanUndo?.(true);
+    }
+    this.emitStateChange();
+    if (data.accepted) return;
+
+    this.onMessage?.(
+      resigned || this.spectatorNames ? "Resignation rejected - play on!" : "You play on!"
+    );
+    setTimeout(() => {
+      if (this.destroyed) return;
+      if (!this.isLocal(this.state.currentPlayer)) {
+        this.onMessage?.(`${this.nameOf(this.state.currentPlayer)}'s turn...`);
+      } else if (this.state.phase === "ROLLING") {
+        this.startLocalTurn();
+      } else if (this.state.phase === "MOVING") {
+        this.enableLocalInput();
+      }
+    }, 1000);
+  }
+
+  // ── Resignation Actions ──────────────────────────────────────────────
+
+  offerResignation(winType: WinType): void {
+    if (this.destroyed) return;
+    this.socketClient.offerResignation(winType);
+  }
+
+  respondToResignation(accept: boolean): void {
+    if (this.destroyed) return;
+    this.socketClient.respondToResignation(accept);
+  }
+
   // ── Doubling Actions ─────────────────────────────────────────────────
 
   offerDouble(): void {
@@ -0,0 +1,166 @@
+import { Application } from "pixi.js";
+import { replayGame, type GameEvent, type GameState } from "@backyamon/engine";
+import { BoardRenderer } from "./BoardRenderer";
+import { PieceRenderer, type PieceSet } from "./PieceRenderer";
+import { DiceRenderer } from "./DiceRenderer";
+import { MoveLineRenderer } from "./MoveLineRenderer";
+
+/**
+ * Steps through a recorded game. Every position is rebuilt up front with
+ * the engine, so stepping backward is as cheap as stepping forward and no
+ * server connection or live opponent is needed.
+ */
+export class ReplayController {
+  private app: Application;
+  private boardRenderer!: BoardRenderer;
+  private pieceRenderer!: PieceRenderer;
+  private diceRenderer!: DiceRenderer;
+  private moveLineRenderer!: MoveLineRenderer;
+
+  private events: GameEvent[] = [];
+  private positions: GameState[] = [];
+  private step = 0;
+  private destroyed = false;
+
+  // Fired whenever the shown position changes
+  onStepChange: ((step: number, state: GameState) => void) | null = null;
+
+  constructor(app: Application) {
+    this.app = app;
+  }
+
+  load(initialState: GameState, events: GameEvent[], pieceSet?: PieceSet): void {
+    if (this.destroyed) return;
+
+    const w = this.app.screen.width;
+    const h = this.app.screen.height;
+    this.boardRenderer = new BoardRenderer(this.app, w, h);
+    this.pieceRenderer = new PieceRenderer(this.app, this.boardRenderer, pieceSet);
+    this.diceRenderer = new DiceRenderer(this.app, this.boardRenderer);
+    this.moveLineRenderer = new MoveLineRenderer(this.app, this.boardRenderer);
+
+    this.events = events;
+    this.positions = replayGame(initialState, events);
+    this.showStep(0);
+  }
+
+  async loadCustomPieces(goldSvg: string, redSvg: string): Promise<void> {
+    await this.pieceRenderer.setCustomSvgs(goldSvg, redSvg);
+    this.pieceRenderer.render(this.positions[this.step]);
+  }
+
+  /** Number of positions, including the starting one. */
+  getStepCount(): number {
+    return this.positions.length;
+  }
+
+  getStep(): number {
+    return this.step;
+  }
+
+  getState(): GameState {
+    return this.positions[this.step];
+  }
+
+  /** The event that produced the position at `step`, if any. */
+  getEvent(step: number): GameEvent | null {
+    return step > 0 ? this.events[step - 1] : null;
+  }
+
+  /**
+   * Steps at which a turn begins: the position right after each roll
+   * (including the opening roll that decided who starts).
+   */
+  getTurnStarts(): number[] {
+    const starts: number[] = [];
+    this.events.forEach((event, i) => {
+      if (
+        event.type === "roll" ||
+        (event.type === "opening-roll" && event.goldDie !== event.redDie)
+      ) {
+        starts.push(i + 1);
+      }
+    });
+    return starts;
+  }
+
+  /**
+   * Show the position at `step`. Dice only animate when stepping forward
+   * onto the roll itself; jumping around the game shows them at rest.
+   */
+  showStep(step: number): void {
+    if (this.destroyed || this.positions.length === 0) return;
+
+    const target = Math.max(0, Math.min(step, this.positions.length - 1));
+    const steppedOntoEvent = target === this.step + 1;
+    this.step = target;
+
+    const state = this.positions[target];
+    this.pieceRenderer.render(state);
+    this.renderDice(state, steppedOntoEvent);
+    this.renderTurnArcs();
+
+    this.onStepChange?.(target, state);
+  }
+
+  next(): void {
+    this.showStep(this.step + 1);
+  }
+
+  prev(): void {
+    this.showStep(this.step - 1);
+  }
+
+  isAtEnd(): boolean {
+    return this.step >= this.positions.length - 1;
+  }
+
+  private renderDice(state: GameState, animate: boolean): void {
+    const event = this.getEvent(this.step);
+
+    if (event?.type === "opening-roll") {
+      // Red's die on the left, Gold's on the right, as Gold sees the board
+      this.diceRenderer.showOpeningRoll(event.redDie, event.goldDie, animate);
+      return;
+    }
+
+    if (!state.dice || state.phase !== "MOVING") {
+      this.diceRenderer.hide();
+      return;
+    }
+
+    const values = state.dice.values;
+    const original =
+      values[0] === values[1] ? [values[0], values[0], values[0], values[0]] : [...values];
+    const remaining = state.dice.remaining;
+    const step = this.step;
+
+    if (animate && event?.type === "roll") {
+      this.diceRenderer.showRoll(state.dice).then(() => {
+        // The viewer may have moved on while the dice were still rolling
+        if (this.step === step) this.diceRenderer.updateUsedDice(original, remaining);
+      });
+    } else {
+      this.diceRenderer.showRoll(state.dice, false);
+      this.diceRenderer.updateUsedDice(original, remaining);
+    }
+  }
+
+  /** Draw arcs for every move made so far in the turn being shown. */
+  private renderTurnArcs(): void {
+    this.moveLineRenderer.clearOpponentMoves();
+    for (let i = this.step - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.type !== "move") break;
+      this.moveLineRenderer.showOpponentMove(event.move, event.player);
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    this.moveLineRenderer?.destroy();
+    this.diceRenderer?.destroy();
+    this.pieceRenderer?.destroy();
+    this.boardRenderer?.destroy();
+  }
+}
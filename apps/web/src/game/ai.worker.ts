@@ -0,0 +1,39 @@
+// Runs the single-player AI, hints and game analysis off the main thread;
+// see AIWorker.
+import {
+  NeuralEvaluator,
+  OneSidedBearoff,
+  TwoSidedBearoff,
+  type BearoffData,
+  type BearoffDatabases,
+} from "@backyamon/engine";
+import { createAIPlayer, serveAI, type AIWorkerScope } from "@backyamon/engine/worker";
+import expertWeights from "@backyamon/engine/weights/expert.json";
+
+// Over a megabyte, so fetched once the worker starts rather than bundled
+async function loadBearoffDatabases(): Promise<BearoffDatabases | undefined> {
+  try {
+    const [oneSided, twoSided] = await Promise.all([
+      import("@backyamon/engine/databases/bearoff-one-sided.json"),
+      import("@backyamon/engine/databases/bearoff-two-sided.json"),
+    ]);
+    return {
+      oneSided: new OneSidedBearoff(oneSided.default as BearoffData),
+      twoSided: new TwoSidedBearoff(twoSided.default as BearoffData),
+    };
+  } catch {
+    // Races are played by the AI's usual means instead
+    return undefined;
+  }
+}
+
+serveAI(
+  self as unknown as AIWorkerScope,
+  async (difficulty) => {
+    // Beach Bum plays races as randomly as everything else
+    const databases = difficulty === "easy" ? undefined : await loadBearoffDatabases();
+    return createAIPlayer(difficulty, { expertWeights, databases });
+  },
+  // Hints and analysis use the Scientist's network, whoever is playing
+  () => new NeuralEvaluator(expertWeights),
+);
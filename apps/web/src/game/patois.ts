@@ -21,6 +21,19 @@ export function greetingMessage(): string {
   return pick(GREETINGS);
 }
 
+// ── Chat quick phrases (online games) ─────────────────────────────────
+
+export const QUICK_PHRASES = [
+  "Irie!",
+  "Bless up",
+  "Wah gwaan!",
+  "Big up yuhself!",
+  "Lickkle more...",
+  "Respect, bredda",
+  "Yuh dun know!",
+  "One love - good game!",
+];
+
 // ── Greetings / turn start ──────────────────────────────────────────────
 
 const TURN_START = [
@@ -166,6 +179,48 @@ export function doubleDeclinedMessage(name: string): string {
   return pick(DOUBLE_DECLINED).replace("{name}", name);
 }
 
+const AI_DOUBLES = [
+  "{name}: \"Turn it up!\" Cube to {cube}. Take or drop?",
+  "{name}: \"Yu can handle dis?\" Cube to {cube}. Take or drop?",
+  "{name} doubles to {cube}! Take or drop?",
+];
+
+export function aiDoublesMessage(name: string, cube: number): string {
+  return pick(AI_DOUBLES).replace("{name}", name).replace("{cube}", String(cube));
+}
+
+// ── Resignation offered ─────────────────────────────────────────────────
+
+const RESIGN_OFFERED = [
+  "{name} sizes up yuh offer...",
+  "{name}: \"Yuh ah give up, bredda?\"",
+  "{name} counts di pips...",
+];
+
+export function resignConsiderMessage(name: string): string {
+  return pick(RESIGN_OFFERED).replace("{name}", name);
+}
+
+const RESIGN_ACCEPTED = [
+  "{name}: \"Respect. Mi tek it.\"",
+  "{name}: \"Bless up!\" Resignation accepted.",
+  "{name}: \"Easy nuh, next one.\"",
+];
+
+export function resignAcceptedMessage(name: string): string {
+  return pick(RESIGN_ACCEPTED).replace("{name}", name);
+}
+
+const RESIGN_REJECTED = [
+  "{name}: \"Not so fast! Play on!\"",
+  "{name}: \"Mi waan more dan dat!\"",
+  "{name} rejects! Play on...",
+];
+
+export function resignRejectedMessage(name: string): string {
+  return pick(RESIGN_REJECTED).replace("{name}", name);
+}
+
 // ── No moves (human) ───────────────────────────────────────────────────
 
 const NO_MOVES_HUMAN = [
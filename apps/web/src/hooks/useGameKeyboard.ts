@@ -12,6 +12,7 @@ import { SoundManager } from "@/audio/SoundManager";
  * Arrow keys   - Navigate pieces / cycle targets
  * hjkl         - Vim-style navigation
  * U / Ctrl+Z   - Undo (when onUndo provided)
+ * Shift+H      - Show hints (when onHint provided)
  * M            - Toggle mute
  * 1-6          - Select move by number label
  */
@@ -21,12 +22,15 @@ export function useGameKeyboard(
   soundManager: SoundManager,
   options?: {
     onUndo?: () => void;
+    onHint?: () => void;
   }
 ) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       const ctrl = controllerRef.current;
       if (!ctrl) return;
+      // Leave typing (e.g. in the chat box) alone
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
       switch (e.key) {
         case " ":
@@ -104,6 +108,10 @@ export function useGameKeyboard(
           }
           options?.onUndo?.();
           break;
+        case "H":
+          e.preventDefault();
+          options?.onHint?.();
+          break;
         case "m":
           e.preventDefault();
           soundManager.toggleMute();
@@ -0,0 +1,41 @@
+import { dieFromBytes } from "@backyamon/engine";
+
+/**
+ * Checks the server's committed dice once it reveals the game's seed.
+ * Die n is dieFromBytes(HMAC-SHA256(key = seed, message = String(n))),
+ * the same derivation the server rolls with.
+ *
+ * - verified: the seed matches the hash and every roll we saw matches
+ * - failed: the seed or a roll does not match
+ */
+export type DiceCheck = "verified" | "failed";
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function verifyDice(
+  seed: string,
+  hash: string,
+  rolledDice: number[],
+  firstIndex = 0, // Dice already rolled when we started watching
+): Promise<DiceCheck> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(seed));
+  if (toHex(digest) !== hash) return "failed";
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(seed),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  for (let i = 0; i < rolledDice.length; i++) {
+    const index = String(firstIndex + i);
+    const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(index));
+    if (dieFromBytes(new Uint8Array(mac)) !== rolledDice[i]) return "failed";
+  }
+  return "verified";
+}
@@ -1,20 +1,38 @@
 import { io, Socket } from "socket.io-client";
-import type { Move } from "@backyamon/engine";
+import type { Move, WinType } from "@backyamon/engine";
+import type {
+  AckError,
+  AckEventName,
+  AckResponse,
+  Asset,
+  ClientToServerEvents,
+  LeaderboardEntry,
+  NewAsset,
+  PlayerProfile,
+  QueuePreferences,
+  RecentMatch,
+  Registration,
+  Replay,
+  ServerToClientEvents,
+  TimeControl,
+  WatchedGame,
+} from "@backyamon/protocol";
 
 const DEFAULT_SERVER_URL =
   process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:3001";
 
 const LOCAL_STORAGE_KEY = "backyamon_guest";
 
-interface GuestIdentity {
-  playerId: string;
-  displayName: string;
-  username: string | null;
-  token: string;
-}
+type GuestIdentity = Registration;
 
 const USERNAME_KEY = "backyamon_username";
 
+/** Everything the server sends, plus the socket's own connection events. */
+export interface SocketEvents extends ServerToClientEvents {
+  connect: () => void;
+  disconnect: (reason: string) => void;
+}
+
 function loadGuestIdentity(): GuestIdentity | null {
   if (typeof window === "undefined") return null;
   try {
@@ -49,7 +67,7 @@ function getSavedUsername(): string | null {
 }
 
 export class SocketClient {
-  private socket: Socket;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents>;
   private serverUrl: string;
   private identity: GuestIdentity | null = null;
 
@@ -135,12 +153,7 @@ export class SocketClient {
 
       this.socket.once(
         "registered",
-        (data: {
-          playerId: string;
-          displayName: string;
-          username: string | null;
-          token: string;
-        }) => {
+        (data) => {
           clearTimeout(timeout);
           this.identity = {
             playerId: data.playerId,
@@ -166,7 +179,7 @@ export class SocketClient {
         }
       );
 
-      this.socket.once("error", (data: { message: string }) => {
+      this.socket.once("error", (data) => {
         clearTimeout(timeout);
         reject(new Error(data.message));
       });
@@ -177,29 +190,30 @@ export class SocketClient {
     });
   }
 
-  claimUsername(username: string): Promise<string> {
+  claimUsername(name: string): Promise<string> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(new Error("Claim username timed out"));
       }, 10_000);
 
-      this.socket.once("username-claimed", (data: { username: string; token?: string }) => {
+      this.socket.once("username-claimed", (data) => {
         clearTimeout(timeout);
+        const username = data.username ?? name;
         if (this.identity) {
-          this.identity.username = data.username;
-          this.identity.displayName = data.username;
-          if (data.token) this.identity.token = data.token;
+          this.identity.username = username;
+          this.identity.displayName = username;
+          this.identity.token = data.token;
           saveGuestIdentity(this.identity);
         }
-        resolve(data.username);
+        resolve(username);
       });
 
-      this.socket.once("username-error", (data: { message: string }) => {
+      this.socket.once("username-error", (data) => {
         clearTimeout(timeout);
         reject(new Error(data.message));
       });
 
-      this.socket.emit("claim-username", { username });
+      this.socket.emit("claim-username", { username: name });
     });
   }
 
@@ -209,23 +223,33 @@ export class SocketClient {
 
   // ── Room Management ─────────────────────────────────────────────────
 
-  createRoom(roomName?: string): Promise<string> {
+  createRoom(
+    roomName?: string,
+    matchLength = 1,
+    timeControl: TimeControl | null = null,
+    spectatorChat = false,
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         reject(new Error("Create room timed out"));
       }, 10_000);
 
-      this.socket.once("room-created", (data: { roomId: string }) => {
+      this.socket.once("room-created", (data) => {
         clearTimeout(timeout);
         resolve(data.roomId);
       });
 
-      this.socket.once("error", (data: { message: string }) => {
+      this.socket.once("error", (data) => {
         clearTimeout(timeout);
         reject(new Error(data.message));
       });
 
-      this.socket.emit("create-room", roomName ? { roomName } : {});
+      this.socket.emit(
+        "create-room",
+        roomName
+          ? { roomName, matchLength, timeControl, spectatorChat }
+          : { matchLength, timeControl, spectatorChat },
+      );
     });
   }
 
@@ -254,10 +278,10 @@ export class SocketClient {
     });
   }
 
-  quickMatch(): Promise<void> {
+  quickMatch(preferences?: QueuePreferences): Promise<void> {
     return new Promise<void>((resolve) => {
-      // Just emit - we listen for match-found / room-joined elsewhere
-      this.socket.emit("quick-match");
+      // Just emit - we listen for match-found / room-joined / queue-status elsewhere
+      this.socket.emit("quick-match", preferences);
       resolve();
     });
   }
@@ -274,50 +298,76 @@ export class SocketClient {
     this.socket.emit("list-rooms");
   }
 
-  getPlayerProfile(username: string): Promise<{
-    username: string;
-    wins: number;
-    losses: number;
-    winPct: number;
-    recentMatches: {
-      id: string;
-      opponent: string;
-      result: "win" | "loss";
-      winType: string;
-      pointsWon: number;
-      completedAt: string;
-    }[];
-    headToHead: {
-      opponent: string;
-      wins: number;
-      losses: number;
-    }[];
-  }> {
+  listLiveGames(): void {
+    this.socket.emit("list-live-games");
+  }
+
+  watchRoom(roomId: string): Promise<WatchedGame> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error("Watch room timed out"));
+      }, 10_000);
+
+      const onWatching = (data: WatchedGame) => {
+        clearTimeout(timeout);
+        this.socket.off("error", onError);
+        resolve(data);
+      };
+
+      const onError = (data: { message: string }) => {
+        clearTimeout(timeout);
+        this.socket.off("watching", onWatching);
+        reject(new Error(data.message));
+      };
+
+      this.socket.once("watching", onWatching);
+      this.socket.once("error", onError);
+
+      this.socket.emit("watch-room", { roomId: roomId.toUpperCase() });
+    });
+  }
+
+  stopWatching(): void {
+    this.socket.emit("stop-watching");
+  }
+
+  sendChat(text: string): void {
+    this.socket.emit("send-chat", { text });
+  }
+
+  getPlayerProfile(username: string): Promise<PlayerProfile> {
     return this.emitWithAck("get-player-profile", { username });
   }
 
-  getRecentMatches(limit?: number): Promise<{
-    matches: {
-      id: string;
-      goldPlayer: string;
-      redPlayer: string;
-      winner: string;
-      winType: string;
-      pointsWon: number;
-      completedAt: string;
-    }[];
-  }> {
+  getLeaderboard(limit?: number): Promise<{ players: LeaderboardEntry[] }> {
+    return this.emitWithAck("get-leaderboard", { limit });
+  }
+
+  getRecentMatches(limit?: number): Promise<{ matches: RecentMatch[] }> {
     return this.emitWithAck("get-recent-matches", { limit });
   }
 
+  getReplay(matchId: string): Promise<{ replay?: Replay; error?: string }> {
+    return new Promise((resolve) => {
+      this.socket.emit("get-replay", { matchId }, (res) => {
+        resolve("error" in res ? { error: res.error } : res);
+      });
+    });
+  }
+
   // ── Game Actions ─────────────────────────────────────────────────────
 
   rollDice(): void {
     this.socket.emit("roll-dice");
   }
 
-  makeMove(move: Move): void {
-    this.socket.emit("make-move", { move });
+  /** Play a whole turn; resolves with the reason if the server refuses it. */
+  submitTurn(moves: Move[]): Promise<{ error?: string }> {
+    return new Promise((resolve) => {
+      this.socket.emit("submit-turn", { moves }, (res) => {
+        resolve("error" in res ? { error: res.error } : {});
+      });
+    });
   }
 
   endTurn(): void {
@@ -332,6 +382,14 @@ export class SocketClient {
     this.socket.emit("respond-double", { accept });
   }
 
+  offerResignation(winType: WinType): void {
+    this.socket.emit("offer-resignation", { winType });
+  }
+
+  respondToResignation(accept: boolean): void {
+    this.socket.emit("respond-resignation", { accept });
+  }
+
   reconnectToGame(playerId: string, roomId: string): void {
     this.socket.emit("reconnect-to-game", { playerId, roomId });
   }
@@ -351,54 +409,55 @@ export class SocketClient {
 
   // ── Assets ──────────────────────────────────────────────────────────
 
-  private emitWithAck<T>(event: string, data: unknown): Promise<T> {
+  private emitWithAck<E extends AckEventName>(
+    event: E,
+    data: Parameters<ClientToServerEvents[E]>[0],
+  ): Promise<AckResponse<E>> {
     return new Promise((resolve, reject) => {
-      this.socket.emit(event, data, (res: { error?: string } & T) => {
-        if (res.error) reject(new Error(res.error));
-        else resolve(res);
+      // Untyped for the same reason as on() below
+      (this.socket as Socket).emit(event, data, (res: AckResponse<E> | AckError) => {
+        const { error } = res as Partial<AckError>;
+        if (error) reject(new Error(error));
+        else resolve(res as AckResponse<E>);
       });
     });
   }
 
-  createAsset(data: {
-    type: "piece" | "sfx" | "music";
-    title: string;
-    metadata: string;
-    needsUpload: boolean;
-    contentType?: string;
-    fileSize?: number;
-  }): Promise<{ id: string; uploadUrl?: string }> {
+  createAsset(data: NewAsset): Promise<{ id: string; uploadUrl: string | null }> {
     return this.emitWithAck("create-asset", data);
   }
 
-  listMyAssets(type?: string): Promise<{ assets: unknown[] }> {
+  listMyAssets(type?: string): Promise<{ assets: Asset[] }> {
     return this.emitWithAck("list-my-assets", { type });
   }
 
-  listGallery(type?: string): Promise<{ assets: unknown[] }> {
+  listGallery(type?: string): Promise<{ assets: Asset[] }> {
     return this.emitWithAck("list-gallery", { type });
   }
 
-  publishAsset(assetId: string): Promise<void> {
-    return this.emitWithAck("publish-asset", { assetId });
+  async publishAsset(assetId: string): Promise<void> {
+    await this.emitWithAck("publish-asset", { assetId });
   }
 
-  deleteAsset(assetId: string): Promise<void> {
-    return this.emitWithAck("delete-asset", { assetId });
+  async deleteAsset(assetId: string): Promise<void> {
+    await this.emitWithAck("delete-asset", { assetId });
   }
 
-  reportAsset(assetId: string, reason: string): Promise<void> {
-    return this.emitWithAck("report-asset", { assetId, reason });
+  async reportAsset(assetId: string, reason: string): Promise<void> {
+    await this.emitWithAck("report-asset", { assetId, reason });
   }
 
   // ── Event Listeners ──────────────────────────────────────────────────
 
-  on(event: string, callback: (...args: unknown[]) => void): void {
-    this.socket.on(event, callback);
+  // The typed socket can't follow an event name that is still generic,
+  // so listeners go through an untyped view of it
+
+  on<E extends keyof SocketEvents>(event: E, callback: SocketEvents[E]): void {
+    (this.socket as Socket).on(event as string, callback as (...args: unknown[]) => void);
   }
 
-  off(event: string, callback: (...args: unknown[]) => void): void {
-    this.socket.off(event, callback);
+  off<E extends keyof SocketEvents>(event: E, callback: SocketEvents[E]): void {
+    (this.socket as Socket).off(event as string, callback as (...args: unknown[]) => void);
   }
 
   // ── Lifecycle ────────────────────────────────────────────────────────
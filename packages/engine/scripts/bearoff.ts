@@ -0,0 +1,42 @@
+// Generate the bearoff databases the AIs use once contact is broken.
+//
+//   npm run bearoff
+//   npm run bearoff -- --one-sided 15 --two-sided 4 --out databases
+//
+// Writes `bearoff-one-sided.json` (roll distributions for up to 15
+// checkers on one home board) and `bearoff-two-sided.json` (exact winning
+// chances when both sides have a few checkers left).
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { OneSidedBearoff, TwoSidedBearoff, type BearoffData } from "../src/index.js";
+
+const DEFAULT_OUT = fileURLToPath(new URL("../databases", import.meta.url));
+
+const { values } = parseArgs({
+  options: {
+    "one-sided": { type: "string", default: "15" },
+    "two-sided": { type: "string", default: "4" },
+    out: { type: "string", default: DEFAULT_OUT },
+  },
+});
+
+function write(name: string, database: { toJSON(): BearoffData }, start: number): void {
+  const file = join(values.out, name);
+  const json = JSON.stringify(database.toJSON());
+  writeFileSync(file, json);
+  const seconds = ((Date.now() - start) / 1000).toFixed(1);
+  console.log(`${file}: ${(json.length / 1024).toFixed(0)} KB in ${seconds}s`);
+}
+
+mkdirSync(values.out, { recursive: true });
+
+let start = Date.now();
+const oneSided = OneSidedBearoff.generate(Number(values["one-sided"]));
+write("bearoff-one-sided.json", oneSided, start);
+
+start = Date.now();
+const twoSided = TwoSidedBearoff.generate(Number(values["two-sided"]));
+write("bearoff-two-sided.json", twoSided, start);
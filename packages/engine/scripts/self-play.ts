@@ -0,0 +1,181 @@
+// Headless self-play for the engine AIs.
+//
+//   npm run self-play -- match scientist king-tubby --games 200 --seed 7
+//   npm run self-play -- match scientist:new.json scientist --no-cube
+//   npm run self-play -- match king-tubby selector --no-bearoff
+//   npm run self-play -- train --games 20000 --from weights/expert.json --out weights/expert.json
+//
+// `match` plays two AIs against each other and prints win rate, gammon
+// rate and points per game with 95% confidence intervals. `train` runs
+// TD(lambda) self-play on a neural net and writes its weights to disk.
+// The AIs play races from the bearoff databases (`npm run bearoff`)
+// unless --no-bearoff is given.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  BeachBum,
+  KingTubby,
+  NeuralEvaluator,
+  NeuralNetwork,
+  OneSidedBearoff,
+  Scientist,
+  Selector,
+  TwoSidedBearoff,
+  createSeededRandom,
+  runMatchup,
+  trainTD,
+  type AIPlayer,
+  type BearoffData,
+  type BearoffDatabases,
+  type Estimate,
+  type NetworkWeights,
+} from "../src/index.js";
+
+const DEFAULT_WEIGHTS = new URL("../weights/expert.json", import.meta.url);
+const DATABASES = new URL("../databases/", import.meta.url);
+
+const { positionals, values } = parseArgs({
+  allowPositionals: true,
+  options: {
+    games: { type: "string" },
+    seed: { type: "string", default: "1" },
+    "no-cube": { type: "boolean", default: false },
+    "no-bearoff": { type: "boolean", default: false },
+    hidden: { type: "string", default: "40" },
+    alpha: { type: "string", default: "0.1" },
+    lambda: { type: "string", default: "0.7" },
+    from: { type: "string" },
+    out: { type: "string" },
+    "save-every": { type: "string", default: "1000" },
+  },
+});
+
+function loadWeights(path: string | URL): NetworkWeights {
+  return JSON.parse(readFileSync(path, "utf8")) as NetworkWeights;
+}
+
+function loadDatabases(): BearoffDatabases | undefined {
+  if (values["no-bearoff"]) return undefined;
+  const load = (name: string) =>
+    JSON.parse(readFileSync(new URL(name, DATABASES), "utf8")) as BearoffData;
+  return {
+    oneSided: new OneSidedBearoff(load("bearoff-one-sided.json")),
+    twoSided: new TwoSidedBearoff(load("bearoff-two-sided.json")),
+  };
+}
+
+// "scientist:<file>" loads other weights, to compare two nets
+function createAI(spec: string, databases?: BearoffDatabases): AIPlayer {
+  const [name, weightsFile] = spec.split(":");
+  switch (name) {
+    case "beach-bum":
+      return new BeachBum();
+    case "selector":
+      return new Selector(databases);
+    case "king-tubby":
+      return new KingTubby(databases);
+    case "scientist":
+      return new Scientist(
+        new NeuralEvaluator(loadWeights(weightsFile ?? DEFAULT_WEIGHTS)),
+        databases,
+      );
+    default:
+      throw new Error(
+        `Unknown AI "${name}". Use beach-bum, selector, king-tubby or scientist.`,
+      );
+  }
+}
+
+function formatRate(e: Estimate): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  return `${pct(e.value)} (${pct(e.low)} - ${pct(e.high)})`;
+}
+
+function formatMean(e: Estimate): string {
+  const sign = (v: number) => `${v >= 0 ? "+" : ""}${v.toFixed(3)}`;
+  return `${sign(e.value)} (${sign(e.low)} - ${sign(e.high)})`;
+}
+
+// Keep the shipped JSON small; four decimals is far below training noise
+function roundWeights(weights: NetworkWeights): NetworkWeights {
+  const round = (v: number) => Math.round(v * 1e4) / 1e4;
+  return {
+    ...weights,
+    hiddenWeights: weights.hiddenWeights.map((row) => row.map(round)),
+    hiddenBias: weights.hiddenBias.map(round),
+    outputWeights: weights.outputWeights.map((row) => row.map(round)),
+    outputBias: weights.outputBias.map(round),
+  };
+}
+
+function match(): void {
+  const [nameA, nameB] = positionals.slice(1);
+  if (!nameA || !nameB) {
+    throw new Error(
+      "Usage: self-play match <ai> <ai> [--games N] [--seed N] [--no-cube] [--no-bearoff]",
+    );
+  }
+  const databases = loadDatabases();
+  const a = createAI(nameA, databases);
+  const b = createAI(nameB, databases);
+  const games = Number(values.games ?? 1000);
+  const start = Date.now();
+
+  const stats = runMatchup(a, b, {
+    games,
+    seed: Number(values.seed),
+    cube: !values["no-cube"],
+    onGame: (_result, n) => {
+      if (n % 100 === 0) console.error(`${n}/${games} games`);
+    },
+  });
+
+  console.log(`${a.name} vs ${b.name}, ${stats.games} games, seed ${values.seed}`);
+  console.log(`  wins            ${stats.wins}`);
+  console.log(`  win rate        ${formatRate(stats.winRate)}`);
+  console.log(`  gammon rate     ${formatRate(stats.gammonRate)}`);
+  console.log(`  backgammons     ${stats.backgammons}`);
+  console.log(`  gammons lost    ${stats.gammonsLost}`);
+  console.log(`  points per game ${formatMean(stats.pointsPerGame)}`);
+  console.log(`  ${((Date.now() - start) / 1000).toFixed(1)}s`);
+}
+
+function train(): void {
+  const out = values.out ?? values.from;
+  if (!out) {
+    throw new Error("Usage: self-play train --out <file> [--from <file>] [--games N]");
+  }
+  const network = values.from
+    ? new NeuralNetwork(loadWeights(values.from))
+    : NeuralNetwork.random(Number(values.hidden), createSeededRandom(Number(values.seed)));
+  const games = Number(values.games ?? 10000);
+  const saveEvery = Number(values["save-every"]);
+  const save = () => writeFileSync(out, JSON.stringify(roundWeights(network.toJSON())));
+  const start = Date.now();
+
+  trainTD(network, {
+    games,
+    seed: Number(values.seed),
+    alpha: Number(values.alpha),
+    lambda: Number(values.lambda),
+    onGame: (n) => {
+      if (n % saveEvery === 0) {
+        save();
+        const seconds = (Date.now() - start) / 1000;
+        console.error(`${n}/${games} games, ${seconds.toFixed(0)}s, saved ${out}`);
+      }
+    },
+  });
+
+  save();
+  console.log(`Trained ${games} games, weights written to ${out}`);
+}
+
+const command = positionals[0];
+if (command === "match") match();
+else if (command === "train") train();
+else {
+  console.error("Usage: self-play <match|train> ...");
+  process.exit(1);
+}
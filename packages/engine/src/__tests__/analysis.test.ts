@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeGame,
+  rankTurns,
+  rateEquityLoss,
+  BLUNDER_THRESHOLD,
+  ERROR_THRESHOLD,
+} from "../analysis";
+import { HeuristicEvaluator, evaluateAfterMove, getEquity } from "../ai/evaluator";
+import { Scientist } from "../ai/scientist";
+import { getDistinctTurns, type TurnResult } from "../ai/turn-generator";
+import { applyGameEvent } from "../replay";
+import { createInitialState } from "../state";
+import { Player, type GameEvent, type GameState, type Move } from "../types";
+
+const evaluator = new HeuristicEvaluator();
+const scientist = new Scientist(evaluator);
+
+/** The turn the evaluator likes least: the worst play available. */
+function worstMoves(state: GameState): Move[] {
+  const player = state.currentPlayer;
+  const equity = (turn: TurnResult) => getEquity(evaluateAfterMove(evaluator, turn.state, player));
+  return getDistinctTurns(state).reduce((worst, turn) => (equity(turn) < equity(worst) ? turn : worst)).moves;
+}
+
+/** Record `moves` as a turn of the player on roll, then end it. */
+function playTurn(events: GameEvent[], state: GameState, moves: Move[]): GameState {
+  const player = state.currentPlayer;
+  for (const event of [
+    ...moves.map((move): GameEvent => ({ type: "move", player, move, at: 0 })),
+    { type: "end-turn", player, at: 0 } as GameEvent,
+  ]) {
+    events.push(event);
+    state = applyGameEvent(state, event);
+  }
+  return state;
+}
+
+/** Opening 3-1 for Gold, then a 6-4 for Red. */
+function openingGame(chooseGold: (state: GameState) => Move[]) {
+  const initialState = createInitialState();
+  const events: GameEvent[] = [{ type: "opening-roll", goldDie: 3, redDie: 1, at: 0 }];
+  let state = applyGameEvent(initialState, events[0]);
+  const goldPosition = state;
+  state = playTurn(events, state, chooseGold(state));
+
+  const roll: GameEvent = { type: "roll", player: Player.Red, dice: [6, 4], at: 0 };
+  events.push(roll);
+  state = applyGameEvent(state, roll);
+  state = playTurn(events, state, scientist.selectMoves(state));
+  return { initialState, events, goldPosition };
+}
+
+describe("analyzeGame", () => {
+  it("should find nothing wrong with the evaluator's own choices", () => {
+    const { initialState, events } = openingGame((state) => scientist.selectMoves(state));
+    const analysis = analyzeGame(evaluator, initialState, events);
+
+    expect(analysis.turns.map((t) => t.player)).toEqual([Player.Gold, Player.Red]);
+    for (const turn of analysis.turns) {
+      expect(turn.equityLoss).toBe(0);
+      expect(turn.moves).toEqual(turn.bestMoves);
+      expect(turn.rating).toBe("good");
+    }
+    expect(analysis.players[Player.Gold]).toEqual({
+      decisions: 1,
+      equityLoss: 0,
+      errors: 0,
+      blunders: 0,
+      performanceRating: 0,
+    });
+  });
+
+  it("should measure what a poor turn gave up", () => {
+    const { initialState, events, goldPosition } = openingGame(worstMoves);
+    const [goldTurn] = analyzeGame(evaluator, initialState, events).turns;
+
+    expect(goldTurn.position).toEqual(goldPosition);
+    expect(goldTurn.bestMoves).toEqual(scientist.selectMoves(goldPosition));
+    expect(goldTurn.equityLoss).toBeGreaterThan(0);
+    expect(goldTurn.equityLoss).toBeCloseTo(goldTurn.bestEquity - goldTurn.equity);
+    expect(goldTurn.rating).toBe(rateEquityLoss(goldTurn.equityLoss));
+
+    const gold = analyzeGame(evaluator, initialState, events).players[Player.Gold];
+    expect(gold.performanceRating).toBeCloseTo(500 * goldTurn.equityLoss);
+  });
+
+  it("should skip a turn cut short by an accepted resignation", () => {
+    const initialState = createInitialState();
+    const opening: GameEvent = { type: "opening-roll", goldDie: 3, redDie: 1, at: 0 };
+    const [move] = scientist.selectMoves(applyGameEvent(initialState, opening));
+    const events: GameEvent[] = [
+      opening,
+      { type: "move", player: Player.Gold, move, at: 0 },
+      { type: "resign", player: Player.Gold, winType: "ya_mon", at: 0 },
+      { type: "accept-resignation", player: Player.Red, at: 0 },
+    ];
+
+    const analysis = analyzeGame(evaluator, initialState, events);
+    expect(analysis.turns).toEqual([]);
+    expect(analysis.players[Player.Gold].decisions).toBe(0);
+  });
+});
+
+describe("rateEquityLoss", () => {
+  it("should rate by the error and blunder thresholds", () => {
+    expect(rateEquityLoss(0)).toBe("good");
+    expect(rateEquityLoss(ERROR_THRESHOLD - 0.001)).toBe("good");
+    expect(rateEquityLoss(ERROR_THRESHOLD)).toBe("error");
+    expect(rateEquityLoss(BLUNDER_THRESHOLD)).toBe("blunder");
+  });
+});
+
+describe("rankTurns", () => {
+  it("should list turns best first, measured against the best", () => {
+    const state = applyGameEvent(createInitialState(), {
+      type: "opening-roll", goldDie: 6, redDie: 5, at: 0,
+    });
+    const all = rankTurns(evaluator, state);
+    expect(all).toHaveLength(getDistinctTurns(state).length);
+    expect(all[0].moves).toEqual(scientist.selectMoves(state));
+    expect(all[0].equityLoss).toBe(0);
+    for (let i = 1; i < all.length; i++) {
+      expect(all[i].equity).toBeLessThanOrEqual(all[i - 1].equity);
+      expect(all[i].equityLoss).toBeCloseTo(all[0].equity - all[i].equity);
+    }
+
+    expect(rankTurns(evaluator, state, 3)).toEqual(all.slice(0, 3));
+  });
+
+  it("should rank what is left of a turn already begun", () => {
+    let state = applyGameEvent(createInitialState(), {
+      type: "opening-roll", goldDie: 6, redDie: 5, at: 0,
+    });
+    const [first] = scientist.selectMoves(state);
+    state = applyGameEvent(state, { type: "move", player: Player.Gold, move: first, at: 0 });
+    for (const turn of rankTurns(evaluator, state)) expect(turn.moves).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  OneSidedBearoff,
+  TwoSidedBearoff,
+  countBearoffPositions,
+  enumerateBearoffPositions,
+  getBearoffIndex,
+  getBearoffPosition,
+} from "../ai/bearoff";
+import { createInitialState } from "../state";
+import { Player } from "../types";
+import { loadDatabase } from "./helpers";
+
+const shipped = new OneSidedBearoff(loadDatabase("bearoff-one-sided.json"));
+const small = OneSidedBearoff.generate(3);
+
+// One checker on the 6-point is off in one roll with a 6, any other roll
+// totalling 6 or more, or 2-2 to 5-5: 27 rolls out of 36
+const SIX_POINT_IN_ONE = 27 / 36;
+
+describe("getBearoffIndex", () => {
+  it("should number every position once, in enumeration order", () => {
+    const positions = enumerateBearoffPositions(4);
+    expect(positions).toHaveLength(countBearoffPositions(4));
+    positions.forEach((position, i) => expect(getBearoffIndex(position, 4)).toBe(i));
+  });
+
+  it("should cover 54264 positions with 15 checkers", () => {
+    expect(countBearoffPositions(15)).toBe(54264);
+  });
+});
+
+describe("getBearoffPosition", () => {
+  it("should read a home board from the player's side", () => {
+    const state = createInitialState();
+    state.points = state.points.map(() => null);
+    state.points[23] = { player: Player.Gold, count: 2 }; // Gold's 1-point
+    state.points[5] = { player: Player.Red, count: 3 }; // Red's 6-point
+    expect(getBearoffPosition(state, Player.Gold)).toEqual([2, 0, 0, 0, 0, 0]);
+    expect(getBearoffPosition(state, Player.Red)).toEqual([0, 0, 0, 0, 0, 3]);
+  });
+
+  it("should be null with checkers outside the home board", () => {
+    expect(getBearoffPosition(createInitialState(), Player.Gold)).toBeNull();
+  });
+});
+
+describe("OneSidedBearoff", () => {
+  it("should know when a lone checker comes off", () => {
+    expect(small.getRollDistribution([1, 0, 0, 0, 0, 0])).toEqual([0, 1]);
+    const [none, one, two] = small.getRollDistribution([0, 0, 0, 0, 0, 1]);
+    expect(none).toBe(0);
+    expect(one).toBeCloseTo(SIX_POINT_IN_ONE, 4);
+    expect(two).toBeCloseTo(1 - SIX_POINT_IN_ONE, 4);
+  });
+
+  it("should match a fresh generation in the shipped database", () => {
+    for (const position of enumerateBearoffPositions(3)) {
+      const fresh = small.getRollDistribution(position);
+      const stored = shipped.getRollDistribution(position);
+      expect(stored).toHaveLength(fresh.length);
+      stored.forEach((chance, rolls) => expect(chance).toBeCloseTo(fresh[rolls], 4));
+    }
+  });
+
+  it("should take longer to bear off from further back", () => {
+    const ace = shipped.getRollStatistics([15, 0, 0, 0, 0, 0]);
+    const six = shipped.getRollStatistics([0, 0, 0, 0, 0, 15]);
+    expect(ace.mean).toBeGreaterThan(6.5); // Two checkers a roll, four on doubles
+    expect(six.mean).toBeGreaterThan(ace.mean);
+  });
+
+  it("should round-trip through JSON", () => {
+    const copy = new OneSidedBearoff(JSON.parse(JSON.stringify(small)));
+    expect(copy.getRollDistribution([1, 1, 1, 0, 0, 0])).toEqual(
+      small.getRollDistribution([1, 1, 1, 0, 0, 0]),
+    );
+  });
+
+  it("should refuse a two-sided database", () => {
+    expect(() => new OneSidedBearoff(loadDatabase("bearoff-two-sided.json"))).toThrow(
+      "Expected a one-sided bearoff database",
+    );
+  });
+});
+
+describe("TwoSidedBearoff", () => {
+  const twoSided = new TwoSidedBearoff(loadDatabase("bearoff-two-sided.json"));
+
+  it("should give the side on roll a sure win with one checker on the ace", () => {
+    expect(twoSided.getWinChance([1, 0, 0, 0, 0, 0], [1, 0, 0, 0, 0, 0])).toBe(1);
+  });
+
+  it("should give a lone 6-point checker its chance of coming off at once", () => {
+    expect(twoSided.getWinChance([0, 0, 0, 0, 0, 1], [1, 0, 0, 0, 0, 0])).toBeCloseTo(
+      SIX_POINT_IN_ONE,
+      4,
+    );
+  });
+
+  it("should match a fresh generation", () => {
+    const fresh = TwoSidedBearoff.generate(2);
+    for (const onRoll of enumerateBearoffPositions(2)) {
+      for (const other of enumerateBearoffPositions(2)) {
+        expect(twoSided.getWinChance(onRoll, other)).toBeCloseTo(
+          fresh.getWinChance(onRoll, other),
+          4,
+        );
+      }
+    }
+  });
+
+  it("should only cover positions small enough", () => {
+    expect(twoSided.covers([4, 0, 0, 0, 0, 0], [0, 0, 0, 0, 0, 4])).toBe(true);
+    expect(twoSided.covers([5, 0, 0, 0, 0, 0], [1, 0, 0, 0, 0, 0])).toBe(false);
+  });
+});
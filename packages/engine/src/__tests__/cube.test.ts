@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { getCubeDecision, isMoneyGame } from "../ai/cube";
+import { Selector } from "../ai/selector";
+import { KingTubby } from "../ai/king-tubby";
+import { createInitialState } from "../state";
+import { Player } from "../types";
+import { chances } from "./helpers";
+
+describe("getCubeDecision (money)", () => {
+  const state = createInitialState();
+
+  it("should treat a single game as a money game", () => {
+    expect(isMoneyGame(state)).toBe(true);
+    expect(isMoneyGame(createInitialState(5))).toBe(false);
+  });
+
+  it("should not double an even position", () => {
+    const d = getCubeDecision(state, chances(0.5));
+    expect(d.shouldDouble).toBe(false);
+    expect(d.shouldTake).toBe(true);
+    expect(d.doublePass).toBe(1);
+  });
+
+  it("should double and take in the window", () => {
+    const d = getCubeDecision(state, chances(0.74));
+    expect(d.shouldDouble).toBe(true);
+    expect(d.shouldTake).toBe(true);
+    expect(d.doubleTake).toBeLessThan(d.doublePass);
+  });
+
+  it("should double and pass a strong position", () => {
+    const d = getCubeDecision(state, chances(0.85));
+    expect(d.shouldDouble).toBe(true);
+    expect(d.shouldTake).toBe(false);
+  });
+
+  it("should play on when too good", () => {
+    const d = getCubeDecision(state, chances(0.85, 0.5));
+    expect(d.tooGood).toBe(true);
+    expect(d.shouldDouble).toBe(false);
+    expect(d.shouldTake).toBe(false);
+  });
+
+  it("should be keener to double with gammon chances", () => {
+    expect(getCubeDecision(state, chances(0.66)).shouldDouble).toBe(false);
+    expect(getCubeDecision(state, chances(0.66, 0.2)).shouldDouble).toBe(true);
+  });
+
+  it("should hold on to an owned cube for longer", () => {
+    const owned = createInitialState();
+    owned.doublingCube = { value: 2, owner: Player.Gold };
+    expect(getCubeDecision(state, chances(0.7)).shouldDouble).toBe(true);
+    expect(getCubeDecision(owned, chances(0.7)).shouldDouble).toBe(false);
+    expect(getCubeDecision(owned, chances(0.76)).shouldDouble).toBe(true);
+  });
+
+  it("should never double without access to the cube", () => {
+    const theirs = createInitialState();
+    theirs.doublingCube = { value: 2, owner: Player.Red };
+    expect(getCubeDecision(theirs, chances(0.76)).shouldDouble).toBe(false);
+  });
+});
+
+describe("getCubeDecision (match)", () => {
+  function atScore(matchLength: number, gold: number, red: number) {
+    const state = createInitialState(matchLength);
+    state.matchScore = { [Player.Gold]: gold, [Player.Red]: red };
+    return state;
+  }
+
+  it("should not double in the Crawford game", () => {
+    const state = atScore(5, 2, 4);
+    state.isCrawford = true;
+    expect(getCubeDecision(state, chances(0.8)).shouldDouble).toBe(false);
+  });
+
+  it("should double at once as the post-Crawford trailer", () => {
+    const d = getCubeDecision(atScore(5, 1, 4), chances(0.5));
+    expect(d.shouldDouble).toBe(true);
+    expect(d.shouldTake).toBe(true);
+  });
+
+  it("should never double as the post-Crawford leader", () => {
+    expect(getCubeDecision(atScore(5, 4, 1), chances(0.9)).shouldDouble).toBe(false);
+  });
+
+  it("should pass at 2-away 2-away only without enough chances", () => {
+    // A take leaves a single game for the match; a pass leaves the
+    // Crawford game needing a gammon or two games
+    const state = atScore(7, 5, 5);
+    expect(getCubeDecision(state, chances(0.65)).shouldTake).toBe(true);
+    expect(getCubeDecision(state, chances(0.72)).shouldTake).toBe(false);
+  });
+
+  it("should not double when a single win takes the match", () => {
+    const state = atScore(7, 5, 3);
+    state.doublingCube = { value: 2, owner: Player.Gold };
+    expect(getCubeDecision(state, chances(0.75)).shouldDouble).toBe(false);
+  });
+});
+
+describe("heuristic AIs on the cube", () => {
+  it("should pass a hopeless double and take an even one", () => {
+    const hopeless = createInitialState();
+    hopeless.points = hopeless.points.map((p) => (p?.player === Player.Gold ? null : p));
+    hopeless.points[23] = { player: Player.Gold, count: 2 };
+    hopeless.borneOff[Player.Gold] = 13;
+    hopeless.phase = "DOUBLING";
+
+    const even = createInitialState();
+    even.phase = "DOUBLING";
+
+    for (const ai of [new Selector(), new KingTubby()]) {
+      expect(ai.shouldAcceptDouble(hopeless)).toBe(false);
+      expect(ai.shouldAcceptDouble(even)).toBe(true);
+      expect(ai.shouldDouble(createInitialState())).toBe(false);
+    }
+  });
+});
@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { rollDice, getDiceMoveCounts, rollSingleDie } from "../dice";
+import {
+  rollDice,
+  getDiceMoveCounts,
+  rollSingleDie,
+  createSeededRandom,
+  createSeededDice,
+  createCryptoDice,
+  createScriptedDice,
+  dieFromBytes,
+} from "../dice";
 
 describe("rollDice", () => {
   it("should return two values between 1 and 6", () => {
@@ -61,3 +70,67 @@ describe("rollSingleDie", () => {
     expect(rollSingleDie(4)).toBe(4);
   });
 });
+
+describe("dice sources", () => {
+  it("should roll from the given source", () => {
+    const source = createScriptedDice([6, 2, 3]);
+    expect(rollDice(undefined, source).values).toEqual([6, 2]);
+    expect(rollSingleDie(undefined, source)).toBe(3);
+  });
+
+  it("should prefer forced values over the source", () => {
+    const source = createScriptedDice([1]);
+    expect(rollDice([4, 4], source).remaining).toEqual([4, 4, 4, 4]);
+    expect(rollSingleDie(5, source)).toBe(5);
+    expect(source.rollDie()).toBe(1);
+  });
+
+  it("should throw when scripted dice run out", () => {
+    const source = createScriptedDice([2]);
+    source.rollDie();
+    expect(() => source.rollDie()).toThrow("ran out");
+  });
+
+  it("should reject invalid scripted values", () => {
+    expect(() => createScriptedDice([0])).toThrow();
+    expect(() => createScriptedDice([7])).toThrow();
+  });
+
+  it("should repeat seeded rolls for the same seed", () => {
+    const roll = (seed: number) => {
+      const source = createSeededDice(seed);
+      return Array.from({ length: 20 }, () => source.rollDie());
+    };
+    expect(roll(42)).toEqual(roll(42));
+    expect(roll(42)).not.toEqual(roll(43));
+  });
+
+  it("should keep the seeded PRNG within [0, 1)", () => {
+    const random = createSeededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const r = random();
+      expect(r).toBeGreaterThanOrEqual(0);
+      expect(r).toBeLessThan(1);
+    }
+  });
+
+  it("should roll every face from crypto dice", () => {
+    const source = createCryptoDice();
+    const seen = new Set<number>();
+    for (let i = 0; i < 300; i++) seen.add(source.rollDie());
+    expect([...seen].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe("dieFromBytes", () => {
+  it("should map bytes below 252 evenly onto faces", () => {
+    expect(dieFromBytes([0])).toBe(1);
+    expect(dieFromBytes([5])).toBe(6);
+    expect(dieFromBytes([251])).toBe(6);
+  });
+
+  it("should skip biased bytes", () => {
+    expect(dieFromBytes([252, 255, 8])).toBe(3);
+    expect(() => dieFromBytes([253, 254])).toThrow();
+  });
+});
@@ -0,0 +1,16 @@
+// Fixtures shared by several test files
+import { readFileSync } from "node:fs";
+import type { BearoffData } from "../ai/bearoff";
+import type { Evaluation } from "../ai/evaluator";
+
+/** A shipped bearoff database, by file name under databases/. */
+export function loadDatabase(name: string): BearoffData {
+  return JSON.parse(
+    readFileSync(new URL(`../../databases/${name}`, import.meta.url), "utf8"),
+  ) as BearoffData;
+}
+
+/** An evaluation with the given chances and no backgammons. */
+export function chances(win: number, winGammon = 0, loseGammon = 0): Evaluation {
+  return { win, winGammon, winBackgammon: 0, loseGammon, loseBackgammon: 0 };
+}
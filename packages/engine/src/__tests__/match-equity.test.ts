@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  getMatchEquity,
+  getMatchEquityAfterGame,
+  MET_GAMMON_RATE,
+  MET_MAX_AWAY,
+} from "../match-equity";
+import { createInitialState } from "../state";
+import { Player } from "../types";
+
+describe("getMatchEquity", () => {
+  it("should give even chances at equal scores", () => {
+    for (const away of [1, 2, 5, 11]) {
+      expect(getMatchEquity(away, away)).toBeCloseTo(0.5);
+    }
+  });
+
+  it("should be complementary between the two sides", () => {
+    for (let a = 1; a <= 9; a++) {
+      for (let b = 1; b <= 9; b++) {
+        expect(getMatchEquity(a, b) + getMatchEquity(b, a)).toBeCloseTo(1);
+        expect(getMatchEquity(a, b, true) + getMatchEquity(b, a, true)).toBeCloseTo(1);
+      }
+    }
+  });
+
+  it("should favour the side with fewer points to go", () => {
+    for (let a = 2; a < 9; a++) {
+      expect(getMatchEquity(a, a + 1)).toBeGreaterThan(0.5);
+      expect(getMatchEquity(a, 9)).toBeGreaterThan(getMatchEquity(a + 1, 9));
+    }
+  });
+
+  it("should score a finished match", () => {
+    expect(getMatchEquity(0, 3)).toBe(1);
+    expect(getMatchEquity(-1, 3)).toBe(1);
+    expect(getMatchEquity(3, 0)).toBe(0);
+  });
+
+  it("should price the Crawford game with gammons", () => {
+    // The trailer needs a gammon, or two single games
+    const g = MET_GAMMON_RATE;
+    expect(getMatchEquity(2, 1, true)).toBeCloseTo(0.5 * (g + (1 - g) * 0.5));
+  });
+
+  it("should let the post-Crawford trailer double at once", () => {
+    // Every game is worth 2, so 2-away is no worse off than 1-away
+    expect(getMatchEquity(1, 2)).toBeCloseTo(0.5);
+    // The trailer is better off once the cube is live again
+    expect(getMatchEquity(3, 1)).toBeGreaterThan(getMatchEquity(3, 1, true));
+  });
+
+  it("should treat longer matches as the longest in the table", () => {
+    expect(getMatchEquity(40, 30)).toBe(getMatchEquity(MET_MAX_AWAY, MET_MAX_AWAY));
+  });
+});
+
+describe("getMatchEquityAfterGame", () => {
+  it("should credit the winner's points", () => {
+    const state = createInitialState(7);
+    state.matchScore = { [Player.Gold]: 2, [Player.Red]: 3 };
+    expect(getMatchEquityAfterGame(state, Player.Gold, Player.Gold, 2)).toBe(
+      getMatchEquity(3, 4),
+    );
+    expect(getMatchEquityAfterGame(state, Player.Red, Player.Gold, 2)).toBe(
+      getMatchEquity(4, 3),
+    );
+  });
+
+  it("should know when the next game is the Crawford game", () => {
+    const state = createInitialState(5);
+    state.matchScore = { [Player.Gold]: 3, [Player.Red]: 2 };
+    expect(getMatchEquityAfterGame(state, Player.Red, Player.Gold, 1)).toBe(
+      getMatchEquity(3, 1, true),
+    );
+
+    // Already at match point: later games are post-Crawford
+    state.matchScore = { [Player.Gold]: 4, [Player.Red]: 1 };
+    expect(getMatchEquityAfterGame(state, Player.Red, Player.Red, 1)).toBe(
+      getMatchEquity(3, 1),
+    );
+  });
+
+  it("should give a match win as certain", () => {
+    const state = createInitialState(5);
+    state.matchScore = { [Player.Gold]: 4, [Player.Red]: 1 };
+    expect(getMatchEquityAfterGame(state, Player.Gold, Player.Gold, 1)).toBe(1);
+    expect(getMatchEquityAfterGame(state, Player.Red, Player.Gold, 2)).toBe(0);
+  });
+});
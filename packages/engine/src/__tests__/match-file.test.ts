@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import {
+  exportMatchText,
+  parseMatchText,
+  getGamePositions,
+  turnsFromEvents,
+  type MatchRecord,
+  type MatchTurn,
+} from "../match-file";
+import { createInitialState } from "../state";
+import { createSeededRandom, rollDice } from "../dice";
+import { getAllLegalTurns } from "../ai/turn-generator";
+import { applyMove } from "../moves";
+import { endTurn } from "../turn";
+import { replayGame } from "../replay";
+import { Player, type GameEvent, type GameState } from "../types";
+
+const players = { [Player.Gold]: "Alice", [Player.Red]: "Bob" } as Record<Player, string>;
+const zero = { [Player.Gold]: 0, [Player.Red]: 0 } as Record<Player, number>;
+
+/** Play a full game with random legal turns, recording it as match turns. */
+function playRandomGame(seed: number): MatchTurn[] {
+  // Seeded so the self-played game is the same every run
+  const random = createSeededRandom(seed);
+  const die = () => Math.floor(random() * 6) + 1;
+  const turns: MatchTurn[] = [];
+
+  let goldDie = die();
+  let redDie = die();
+  while (goldDie === redDie) {
+    goldDie = die();
+    redDie = die();
+  }
+
+  let state: GameState = createInitialState();
+  state.currentPlayer = goldDie > redDie ? Player.Gold : Player.Red;
+  let dice: [number, number] = [Math.max(goldDie, redDie), Math.min(goldDie, redDie)];
+
+  for (let n = 0; n < 500 && state.phase !== "GAME_OVER"; n++) {
+    state.dice = rollDice(dice);
+    state.phase = "MOVING";
+    const options = getAllLegalTurns(state);
+    const moves = options[Math.floor(random() * options.length)];
+    turns.push({ type: "move", player: state.currentPlayer, dice, moves });
+    for (const move of moves) state = applyMove(state, move);
+    state = endTurn(state);
+    dice = [die(), die()];
+  }
+
+  return turns;
+}
+
+describe("exportMatchText / parseMatchText", () => {
+  const sample: MatchRecord = {
+    matchLength: 1,
+    players,
+    games: [
+      {
+        score: zero,
+        turns: [
+          { type: "move", player: Player.Gold, dice: [6, 4], moves: [{ from: 0, to: 6 }, { from: 11, to: 15 }] },
+          { type: "move", player: Player.Red, dice: [6, 1], moves: [{ from: 12, to: 6 }, { from: 7, to: 6 }] },
+          { type: "move", player: Player.Gold, dice: [5, 2], moves: [{ from: "bar", to: 1 }, { from: 11, to: 16 }] },
+        ],
+      },
+    ],
+  };
+
+  it("should write moves in columns with hit and bar markers", () => {
+    expect(exportMatchText(sample)).toBe(
+      [
+        " 1 point match",
+        "",
+        " Game 1",
+        " Alice : 0".padEnd(33) + "Bob : 0",
+        "  1) 64: 24/18 13/9".padEnd(33) + "61: 13/7* 8/7",
+        "  2) 52: bar/23 13/8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should read back what it writes", () => {
+    const text = exportMatchText(sample);
+    const parsed = parseMatchText(text);
+    expect(parsed).toEqual(sample);
+    expect(exportMatchText(parsed)).toBe(text);
+  });
+
+  it("should put a game Red opens in the right-hand column", () => {
+    const record: MatchRecord = {
+      matchLength: 3,
+      players,
+      games: [
+        {
+          score: zero,
+          turns: [
+            { type: "move", player: Player.Red, dice: [3, 1], moves: [{ from: 7, to: 4 }, { from: 5, to: 4 }] },
+            { type: "move", player: Player.Gold, dice: [2, 1], moves: [{ from: 16, to: 18 }, { from: 16, to: 17 }] },
+          ],
+        },
+      ],
+    };
+    const text = exportMatchText(record);
+    expect(text.split("\n")[4]).toBe("  1) ".padEnd(33) + "31: 8/5 6/5");
+    expect(parseMatchText(text)).toEqual(record);
+  });
+
+  it("should record cube actions and the game result", () => {
+    const record: MatchRecord = {
+      matchLength: 1,
+      players,
+      games: [
+        {
+          score: zero,
+          turns: [
+            { type: "move", player: Player.Gold, dice: [3, 1], moves: [{ from: 16, to: 19 }, { from: 18, to: 19 }] },
+            { type: "move", player: Player.Red, dice: [2, 1], moves: [{ from: 12, to: 10 }, { from: 5, to: 4 }] },
+            { type: "double", player: Player.Gold },
+            { type: "drop", player: Player.Red },
+          ],
+        },
+      ],
+    };
+    const text = exportMatchText(record);
+    const lines = text.split("\n");
+    expect(lines[5]).toBe("  2) Doubles => 2".padEnd(33) + "Drops");
+    expect(lines[6]).toBe("     Wins 1 point and the match");
+    expect(parseMatchText(text)).toEqual(record);
+  });
+
+  it("should round-trip a whole self-played game", () => {
+    const record: MatchRecord = {
+      matchLength: 1,
+      players,
+      games: [{ score: zero, turns: playRandomGame(7) }],
+    };
+    const parsed = parseMatchText(exportMatchText(record));
+    expect(parsed).toEqual(record);
+
+    const positions = getGamePositions(parsed, 0);
+    expect(positions).toHaveLength(record.games[0].turns.length + 1);
+    expect(positions[positions.length - 1].phase).toBe("GAME_OVER");
+  });
+});
+
+describe("getGamePositions", () => {
+  it("should reject an illegal move", () => {
+    const record: MatchRecord = {
+      matchLength: 1,
+      players,
+      games: [
+        {
+          score: zero,
+          turns: [{ type: "move", player: Player.Gold, dice: [3, 1], moves: [{ from: 0, to: 5 }] }],
+        },
+      ],
+    };
+    expect(() => getGamePositions(record, 0)).toThrow(/Turn 1/);
+  });
+
+  it("should reject a turn that leaves dice unplayed", () => {
+    const record: MatchRecord = {
+      matchLength: 1,
+      players,
+      games: [
+        {
+          score: zero,
+          turns: [{ type: "move", player: Player.Gold, dice: [3, 1], moves: [{ from: 16, to: 19 }] }],
+        },
+      ],
+    };
+    expect(() => getGamePositions(record, 0)).toThrow(/not every playable die/);
+  });
+
+  it("should flag the Crawford game", () => {
+    const record: MatchRecord = {
+      matchLength: 3,
+      players,
+      games: [
+        { score: zero, turns: [] },
+        { score: { [Player.Gold]: 2, [Player.Red]: 0 } as Record<Player, number>, turns: [] },
+      ],
+    };
+    expect(getGamePositions(record, 0)[0].isCrawford).toBe(false);
+    expect(getGamePositions(record, 1)[0].isCrawford).toBe(true);
+  });
+});
+
+describe("turnsFromEvents", () => {
+  it("should match the positions the replay log produces", () => {
+    const events: GameEvent[] = [
+      { type: "opening-roll", goldDie: 2, redDie: 2, at: 0 },
+      { type: "opening-roll", goldDie: 1, redDie: 3, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 7, to: 4 }, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 5, to: 4 }, at: 0 },
+      { type: "end-turn", player: Player.Red, at: 0 },
+      { type: "double", player: Player.Gold, at: 0 },
+      { type: "take", player: Player.Red, at: 0 },
+      { type: "roll", player: Player.Gold, dice: [6, 5], at: 0 },
+      { type: "move", player: Player.Gold, move: { from: 0, to: 6 }, at: 0 },
+      { type: "move", player: Player.Gold, move: { from: 6, to: 11 }, at: 0 },
+      { type: "end-turn", player: Player.Gold, at: 0 },
+    ];
+    const turns = turnsFromEvents(events);
+    expect(turns.map((t) => t.type)).toEqual(["move", "double", "take", "move"]);
+
+    const record: MatchRecord = { matchLength: 1, players, games: [{ score: zero, turns }] };
+    const positions = getGamePositions(record, 0);
+    const replayed = replayGame(createInitialState(), events);
+    expect(positions[positions.length - 1].points).toEqual(
+      replayed[replayed.length - 1].points,
+    );
+    expect(positions[positions.length - 1].doublingCube).toEqual({
+      value: 2,
+      owner: Player.Red,
+    });
+  });
+
+  it("should end the game on an accepted resignation, even mid-turn", () => {
+    const events: GameEvent[] = [
+      { type: "opening-roll", goldDie: 1, redDie: 3, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 7, to: 4 }, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 5, to: 4 }, at: 0 },
+      { type: "end-turn", player: Player.Red, at: 0 },
+      { type: "resign", player: Player.Gold, winType: "ya_mon", at: 0 },
+      { type: "reject-resignation", player: Player.Red, at: 0 },
+      { type: "roll", player: Player.Gold, dice: [6, 5], at: 0 },
+      { type: "move", player: Player.Gold, move: { from: 0, to: 6 }, at: 0 },
+      { type: "resign", player: Player.Gold, winType: "big_ya_mon", at: 0 },
+      { type: "accept-resignation", player: Player.Red, at: 0 },
+    ];
+    const turns = turnsFromEvents(events);
+    expect(turns.slice(1)).toEqual([
+      { type: "move", player: Player.Gold, dice: [6, 5], moves: [{ from: 0, to: 6 }] },
+      { type: "resign", player: Player.Gold, winType: "big_ya_mon" },
+    ]);
+
+    const record: MatchRecord = { matchLength: 3, players, games: [{ score: zero, turns }] };
+    const text = exportMatchText(record);
+    const lines = text.split("\n");
+    expect(lines[5]).toBe("  2) 65: 24/18");
+    expect(lines[6]).toBe("  3) Resigns gammon");
+    expect(lines[7]).toBe("".padEnd(33) + "Wins 2 points");
+    expect(parseMatchText(text)).toEqual(record);
+  });
+
+  it("should end the game on a forfeit", () => {
+    const events: GameEvent[] = [
+      { type: "opening-roll", goldDie: 1, redDie: 3, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 7, to: 4 }, at: 0 },
+      { type: "move", player: Player.Red, move: { from: 5, to: 4 }, at: 0 },
+      { type: "end-turn", player: Player.Red, at: 0 },
+      { type: "forfeit", player: Player.Gold, reason: "timeout", at: 0 },
+    ];
+    const turns = turnsFromEvents(events);
+    expect(turns[turns.length - 1]).toEqual({
+      type: "forfeit",
+      player: Player.Gold,
+      reason: "timeout",
+    });
+
+    const record: MatchRecord = { matchLength: 1, players, games: [{ score: zero, turns }] };
+    const text = exportMatchText(record);
+    expect(text).toContain("Forfeits (timeout)");
+    expect(text).toContain("Wins 3 points and the match"); // Gold still has a checker in Red's home
+    expect(parseMatchText(text)).toEqual(record);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect } from "vitest";
+import {
+  forfeitMatch,
+  getScoreAfterGame,
+  getMatchWinner,
+  isMatchOver,
+  isPostCrawford,
+  startNextGame,
+} from "../match";
+import { createInitialState } from "../state";
+import { Player, type GameState, type WinType } from "../types";
+import { INITIAL_POSITIONS } from "../constants";
+
+function finishedGame(
+  matchLength: number,
+  score: [number, number],
+  winner: Player,
+  winType: WinType = "ya_mon",
+  cubeValue = 1,
+): GameState {
+  const state = createInitialState(matchLength);
+  state.matchScore[Player.Gold] = score[0];
+  state.matchScore[Player.Red] = score[1];
+  state.phase = "GAME_OVER";
+  state.winner = winner;
+  state.winType = winType;
+  state.doublingCube = { value: cubeValue, owner: null };
+  return state;
+}
+
+describe("getScoreAfterGame", () => {
+  it("should credit the winner with the game's points", () => {
+    const state = finishedGame(5, [1, 2], Player.Gold, "big_ya_mon", 2);
+    expect(getScoreAfterGame(state)).toEqual({
+      [Player.Gold]: 5,
+      [Player.Red]: 2,
+    });
+  });
+
+  it("should return the current score while the game is in progress", () => {
+    const state = createInitialState(5);
+    state.matchScore[Player.Red] = 3;
+    expect(getScoreAfterGame(state)).toEqual({
+      [Player.Gold]: 0,
+      [Player.Red]: 3,
+    });
+  });
+
+  it("should not mutate the original state", () => {
+    const state = finishedGame(5, [1, 2], Player.Gold);
+    getScoreAfterGame(state);
+    expect(state.matchScore[Player.Gold]).toBe(1);
+  });
+});
+
+describe("getMatchWinner", () => {
+  it("should treat a single game as a match to 1", () => {
+    const state = finishedGame(1, [0, 0], Player.Red);
+    expect(getMatchWinner(state)).toBe(Player.Red);
+    expect(isMatchOver(state)).toBe(true);
+  });
+
+  it("should return null when nobody has reached the match length", () => {
+    const state = finishedGame(5, [2, 1], Player.Gold);
+    expect(getMatchWinner(state)).toBeNull();
+    expect(isMatchOver(state)).toBe(false);
+  });
+
+  it("should detect a winner who overshoots the match length", () => {
+    const state = finishedGame(5, [3, 4], Player.Gold, "massive_ya_mon", 2);
+    expect(getMatchWinner(state)).toBe(Player.Gold);
+  });
+
+  it("should return null mid-game", () => {
+    const state = createInitialState(3);
+    expect(getMatchWinner(state)).toBeNull();
+  });
+});
+
+describe("startNextGame", () => {
+  it("should reset the board, cube and phase", () => {
+    const state = finishedGame(5, [0, 0], Player.Gold, "ya_mon", 2);
+    state.points = state.points.map(() => null);
+    state.borneOff[Player.Gold] = 15;
+    state.doublingCube.owner = Player.Red;
+
+    const next = startNextGame(state);
+    expect(next.points).toEqual(INITIAL_POSITIONS);
+    expect(next.borneOff).toEqual({ [Player.Gold]: 0, [Player.Red]: 0 });
+    expect(next.doublingCube).toEqual({ value: 1, owner: null });
+    expect(next.phase).toBe("OPENING_ROLL");
+    expect(next.winner).toBeNull();
+    expect(next.winType).toBeNull();
+    expect(next.matchLength).toBe(5);
+  });
+
+  it("should carry the updated match score into the next game", () => {
+    const state = finishedGame(7, [2, 1], Player.Red, "big_ya_mon", 2);
+    const next = startNextGame(state);
+    expect(next.matchScore).toEqual({ [Player.Gold]: 2, [Player.Red]: 5 });
+  });
+
+  it("should flag the Crawford game when a player first reaches match point", () => {
+    const state = finishedGame(5, [2, 1], Player.Gold, "big_ya_mon");
+    const next = startNextGame(state);
+    expect(next.matchScore[Player.Gold]).toBe(4);
+    expect(next.isCrawford).toBe(true);
+  });
+
+  it("should not flag the game after Crawford", () => {
+    const crawford = finishedGame(5, [4, 1], Player.Red);
+    crawford.isCrawford = true;
+    const next = startNextGame(crawford);
+    expect(next.isCrawford).toBe(false);
+    expect(isPostCrawford(next)).toBe(true);
+  });
+
+  it("should not flag Crawford when the trailer also reaches match point", () => {
+    const state = finishedGame(5, [4, 2], Player.Red, "big_ya_mon");
+    const next = startNextGame(state);
+    expect(next.matchScore).toEqual({ [Player.Gold]: 4, [Player.Red]: 4 });
+    expect(next.isCrawford).toBe(false);
+  });
+
+  it("should never flag Crawford away from match point", () => {
+    const state = finishedGame(7, [0, 0], Player.Gold);
+    expect(startNextGame(state).isCrawford).toBe(false);
+  });
+
+  it("should throw if the game is not over", () => {
+    const state = createInitialState(5);
+    expect(() => startNextGame(state)).toThrow();
+  });
+
+  it("should throw if the match is already over", () => {
+    const state = finishedGame(3, [2, 0], Player.Gold);
+    expect(() => startNextGame(state)).toThrow();
+  });
+
+  it("should not mutate the original state", () => {
+    const state = finishedGame(5, [1, 1], Player.Gold);
+    startNextGame(state);
+    expect(state.phase).toBe("GAME_OVER");
+    expect(state.matchScore[Player.Gold]).toBe(1);
+  });
+});
+
+describe("forfeitMatch", () => {
+  it("should end the game and give the opponent the match", () => {
+    const state = createInitialState(7);
+    state.phase = "MOVING";
+    state.currentPlayer = Player.Red;
+    state.matchScore[Player.Red] = 5;
+
+    const over = forfeitMatch(state, Player.Red, "timeout");
+    expect(over.phase).toBe("GAME_OVER");
+    expect(over.winner).toBe(Player.Gold);
+    expect(over.forfeit).toBe("timeout");
+    expect(getScoreAfterGame(over)).toEqual({ [Player.Gold]: 7, [Player.Red]: 5 });
+    expect(getMatchWinner(over)).toBe(Player.Gold);
+  });
+
+  it("should score the game as the position stands", () => {
+    const state = createInitialState(3);
+    state.phase = "ROLLING";
+    state.borneOff[Player.Red] = 2;
+    expect(forfeitMatch(state, Player.Red, "abandoned").winType).toBe("ya_mon");
+
+    // Red still has checkers back in Gold's home board
+    state.borneOff[Player.Red] = 0;
+    expect(forfeitMatch(state, Player.Red, "abandoned").winType).toBe("massive_ya_mon");
+  });
+
+  it("should keep a winner's score past the match length", () => {
+    const state = createInitialState(3);
+    state.phase = "ROLLING";
+    state.matchScore[Player.Gold] = 2;
+    state.borneOff[Player.Red] = 1;
+    state.doublingCube = { value: 4, owner: Player.Red };
+    const over = forfeitMatch(state, Player.Red, "timeout");
+    expect(getScoreAfterGame(over)[Player.Gold]).toBe(6);
+  });
+
+  it("should throw if the game is already over", () => {
+    const state = finishedGame(5, [0, 0], Player.Gold);
+    expect(() => forfeitMatch(state, Player.Red, "timeout")).toThrow();
+  });
+
+  it("should not mutate the original state", () => {
+    const state = createInitialState(5);
+    state.phase = "MOVING";
+    forfeitMatch(state, Player.Gold, "timeout");
+    expect(state.phase).toBe("MOVING");
+    expect(state.forfeit).toBeUndefined();
+  });
+});
+
+describe("isPostCrawford", () => {
+  it("should be false in the Crawford game itself", () => {
+    const state = createInitialState(5);
+    state.matchScore[Player.Gold] = 4;
+    state.isCrawford = true;
+    expect(isPostCrawford(state)).toBe(false);
+  });
+
+  it("should be false in single-game play", () => {
+    expect(isPostCrawford(createInitialState())).toBe(false);
+  });
+
+  it("should be false when neither player is at match point", () => {
+    const state = createInitialState(5);
+    state.matchScore[Player.Gold] = 3;
+    expect(isPostCrawford(state)).toBe(false);
+  });
+});
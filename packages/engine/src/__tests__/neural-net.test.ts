@@ -0,0 +1,153 @@
+import { readFileSync } from "node:fs";
+import { describe, it, expect } from "vitest";
+import {
+  NeuralNetwork,
+  NeuralEvaluator,
+  encodeInputs,
+  INPUT_SIZE,
+  type NetworkWeights,
+} from "../ai/neural-net";
+import {
+  HeuristicEvaluator,
+  evaluateOnRoll,
+  getEquity,
+  getFinalEvaluation,
+  invertEvaluation,
+} from "../ai/evaluator";
+import { Scientist } from "../ai/scientist";
+import { getAllLegalTurns, getDistinctTurns } from "../ai/turn-generator";
+import { createInitialState } from "../state";
+import { createSeededRandom, rollDice } from "../dice";
+import { applyMove, getLegalMoves } from "../moves";
+import { Player } from "../types";
+
+const expertWeights = JSON.parse(
+  readFileSync(new URL("../../weights/expert.json", import.meta.url), "utf8"),
+) as NetworkWeights;
+
+describe("encodeInputs", () => {
+  it("should produce the standard 196 inputs", () => {
+    expect(encodeInputs(createInitialState(), Player.Gold)).toHaveLength(INPUT_SIZE);
+  });
+
+  it("should encode the starting position the same for both players", () => {
+    const state = createInitialState();
+    expect(encodeInputs(state, Player.Gold)).toEqual(encodeInputs(state, Player.Red));
+  });
+
+  it("should use truncated unary units per point", () => {
+    const inputs = encodeInputs(createInitialState(), Player.Red);
+    // Red's 6-point holds five checkers: 1, 1, 1, (5 - 3) / 2
+    expect(inputs.slice(20, 24)).toEqual([1, 1, 1, 1]);
+    // Red's 24-point holds two
+    expect(inputs.slice(92, 96)).toEqual([1, 1, 0, 0]);
+  });
+});
+
+describe("NeuralNetwork", () => {
+  it("should round-trip through JSON", () => {
+    const net = NeuralNetwork.random(8, createSeededRandom(1));
+    const copy = new NeuralNetwork(JSON.parse(JSON.stringify(net.toJSON())));
+    const inputs = encodeInputs(createInitialState(), Player.Gold);
+    expect(copy.forward(inputs)).toEqual(net.forward(inputs));
+  });
+
+  it("should reject weights that do not match the layer sizes", () => {
+    const weights = NeuralNetwork.random(8, createSeededRandom(1)).toJSON();
+    weights.hidden = 9;
+    expect(() => new NeuralNetwork(weights)).toThrow();
+  });
+
+  it("should output probabilities", () => {
+    const evaluator = new NeuralEvaluator(expertWeights);
+    const e = evaluator.evaluate(createInitialState(), Player.Gold);
+    for (const p of Object.values(e)) {
+      expect(p).toBeGreaterThanOrEqual(0);
+      expect(p).toBeLessThanOrEqual(1);
+    }
+    expect(e.winGammon).toBeLessThanOrEqual(e.win);
+  });
+});
+
+describe("evaluator helpers", () => {
+  it("should invert and measure equity", () => {
+    const e = { win: 0.7, winGammon: 0.2, winBackgammon: 0.01, loseGammon: 0.05, loseBackgammon: 0 };
+    expect(getEquity(invertEvaluation(e))).toBeCloseTo(-getEquity(e));
+    expect(invertEvaluation(invertEvaluation(e))).toEqual(e);
+  });
+
+  it("should score a finished game exactly", () => {
+    const state = createInitialState();
+    state.points = state.points.map((p) => (p?.player === Player.Gold ? null : p));
+    state.borneOff[Player.Gold] = 15;
+    expect(getFinalEvaluation(state, Player.Gold)).toMatchObject({ win: 1, winGammon: 1 });
+    expect(getFinalEvaluation(state, Player.Red)).toMatchObject({ win: 0, loseGammon: 1 });
+    expect(getFinalEvaluation(createInitialState(), Player.Red)).toBeNull();
+  });
+
+  it("should let the heuristic stand in as an evaluator", () => {
+    const state = createInitialState();
+    state.bar[Player.Red] = 2;
+    const e = evaluateOnRoll(new HeuristicEvaluator(), state);
+    expect(e.win).toBeGreaterThan(0.5);
+  });
+});
+
+describe("getDistinctTurns", () => {
+  it("should reach the same positions as getAllLegalTurns", () => {
+    const state = createInitialState();
+    state.dice = rollDice([2, 2]);
+    state.phase = "MOVING";
+
+    const key = (s: typeof state) => JSON.stringify([s.points, s.bar, s.borneOff]);
+    const expected = new Set(
+      getAllLegalTurns(state).map((turn) => key(turn.reduce(applyMove, state))),
+    );
+    const distinct = getDistinctTurns(state);
+
+    expect(distinct).toHaveLength(expected.size);
+    for (const { moves, state: result } of distinct) {
+      expect(key(moves.reduce(applyMove, state))).toBe(key(result));
+      expect(expected.has(key(result))).toBe(true);
+    }
+  });
+});
+
+describe("Scientist (expert)", () => {
+  const ai = new Scientist(new NeuralEvaluator(expertWeights));
+
+  it("should have correct name and difficulty", () => {
+    expect(ai.name).toBe("Scientist");
+    expect(ai.difficulty).toBe("expert");
+  });
+
+  it("should return moves that are all individually legal", () => {
+    let state = createInitialState();
+    state.dice = rollDice([6, 6]);
+    state.phase = "MOVING";
+    const moves = ai.selectMoves(state);
+    expect(moves).toHaveLength(4);
+    for (const move of moves) {
+      expect(getLegalMoves(state)).toContainEqual(move);
+      state = applyMove(state, move);
+    }
+  });
+
+  it("should prefer making its 5-point with an opening 31", () => {
+    const state = createInitialState();
+    state.dice = rollDice([3, 1]);
+    state.phase = "MOVING";
+    const result = ai.selectMoves(state).reduce(applyMove, state);
+    // Gold's 5-point is index 19
+    expect(result.points[19]).toEqual({ player: Player.Gold, count: 2 });
+  });
+
+  it("should pass a hopeless double", () => {
+    const state = createInitialState();
+    state.points = state.points.map((p) => (p?.player === Player.Gold ? null : p));
+    state.points[23] = { player: Player.Gold, count: 2 };
+    state.borneOff[Player.Gold] = 13;
+    state.phase = "DOUBLING";
+    expect(ai.shouldAcceptDouble(state)).toBe(false);
+  });
+});
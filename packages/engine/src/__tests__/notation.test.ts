@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  toPlayerPoint,
+  fromPlayerPoint,
+  formatMove,
+  formatMoves,
+  parseMoves,
+} from "../notation";
+import { createInitialState } from "../state";
+import { rollDice } from "../dice";
+import { Player } from "../types";
+
+describe("toPlayerPoint / fromPlayerPoint", () => {
+  it("should count points from each player's own side", () => {
+    expect(toPlayerPoint(0, Player.Gold)).toBe(24);
+    expect(toPlayerPoint(23, Player.Gold)).toBe(1);
+    expect(toPlayerPoint(0, Player.Red)).toBe(1);
+    expect(toPlayerPoint(23, Player.Red)).toBe(24);
+  });
+
+  it("should invert toPlayerPoint", () => {
+    for (let i = 0; i < 24; i++) {
+      expect(fromPlayerPoint(toPlayerPoint(i, Player.Gold), Player.Gold)).toBe(i);
+      expect(fromPlayerPoint(toPlayerPoint(i, Player.Red), Player.Red)).toBe(i);
+    }
+  });
+});
+
+describe("formatMove", () => {
+  it("should write bar and off moves", () => {
+    expect(formatMove({ from: "bar", to: 2 }, Player.Gold)).toBe("bar/22");
+    expect(formatMove({ from: 5, to: "off" }, Player.Red)).toBe("6/off");
+  });
+});
+
+describe("formatMoves", () => {
+  it("should mark a hit on the move that lands on a blot", () => {
+    const state = createInitialState();
+    state.currentPlayer = Player.Red;
+    state.points[6] = { player: Player.Gold, count: 1 };
+    state.dice = rollDice([6, 1]);
+    state.phase = "MOVING";
+
+    expect(
+      formatMoves(state, [
+        { from: 12, to: 6 },
+        { from: 7, to: 6 },
+      ]),
+    ).toBe("13/7* 8/7");
+  });
+});
+
+describe("parseMoves", () => {
+  it("should parse the player's own point numbers", () => {
+    expect(parseMoves("13/7 8/7", Player.Red)).toEqual([
+      { from: 12, to: 6 },
+      { from: 7, to: 6 },
+    ]);
+    expect(parseMoves("13/7 8/7", Player.Gold)).toEqual([
+      { from: 11, to: 17 },
+      { from: 16, to: 17 },
+    ]);
+  });
+
+  it("should accept bar and off as words or numbers", () => {
+    expect(parseMoves("bar/22 25/20", Player.Gold)).toEqual([
+      { from: "bar", to: 2 },
+      { from: "bar", to: 4 },
+    ]);
+    expect(parseMoves("6/off 5/0", Player.Red)).toEqual([
+      { from: 5, to: "off" },
+      { from: 4, to: "off" },
+    ]);
+  });
+
+  it("should expand chained moves, repeats and ignore hit markers", () => {
+    expect(parseMoves("24/18*/13", Player.Red)).toEqual([
+      { from: 23, to: 17 },
+      { from: 17, to: 12 },
+    ]);
+    expect(parseMoves("8/5(2)", Player.Red)).toEqual([
+      { from: 7, to: 4 },
+      { from: 7, to: 4 },
+    ]);
+  });
+
+  it("should reject moves that leave the board", () => {
+    expect(() => parseMoves("26/20", Player.Gold)).toThrow();
+    expect(() => parseMoves("6/bar", Player.Gold)).toThrow();
+    expect(() => parseMoves("13", Player.Gold)).toThrow();
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  encodePositionId,
+  decodePositionId,
+  encodeMatchId,
+  decodeMatchId,
+  encodeGnuId,
+  decodeGnuId,
+} from "../position-id";
+import { createInitialState } from "../state";
+import { rollDice } from "../dice";
+import { applyMove } from "../moves";
+import { offerResignation, acceptResignation } from "../resignation";
+import { Player, type GameState } from "../types";
+
+/** Swap colours and turn the board around, so each side sees the same thing. */
+function mirror(state: GameState): GameState {
+  const swap = (p: Player) => (p === Player.Gold ? Player.Red : Player.Gold);
+  return {
+    ...state,
+    points: [...state.points]
+      .reverse()
+      .map((p) => (p ? { player: swap(p.player), count: p.count } : null)),
+    bar: { [Player.Gold]: state.bar[Player.Red], [Player.Red]: state.bar[Player.Gold] },
+    borneOff: {
+      [Player.Gold]: state.borneOff[Player.Red],
+      [Player.Red]: state.borneOff[Player.Gold],
+    },
+    currentPlayer: swap(state.currentPlayer),
+  };
+}
+
+function afterOpening(): GameState {
+  let state = createInitialState();
+  state.dice = rollDice([3, 1]);
+  state.phase = "MOVING";
+  state = applyMove(state, { from: 16, to: 19 });
+  state = applyMove(state, { from: 18, to: 19 });
+  return state;
+}
+
+describe("encodePositionId", () => {
+  it("should encode the starting position", () => {
+    expect(encodePositionId(createInitialState())).toBe("4HPwATDgc/ABMA");
+  });
+
+  it("should describe the board from the side of the player on roll", () => {
+    const state = afterOpening();
+    state.points[3] = null;
+    state.points[4] = { player: Player.Red, count: 1 };
+    state.bar[Player.Gold] = 1;
+    state.points[0] = { player: Player.Gold, count: 1 };
+    expect(encodePositionId(mirror(state))).toBe(encodePositionId(state));
+  });
+
+  it("should change when the other player is on roll", () => {
+    const state = afterOpening();
+    const redToRoll = { ...state, currentPlayer: Player.Red };
+    expect(encodePositionId(redToRoll)).not.toBe(encodePositionId(state));
+  });
+});
+
+describe("decodePositionId", () => {
+  it("should round-trip a position for either player on roll", () => {
+    const state = afterOpening();
+    state.bar[Player.Red] = 2;
+    state.points[5] = { player: Player.Red, count: 3 };
+    state.borneOff[Player.Red] = 0;
+
+    for (const player of [Player.Gold, Player.Red]) {
+      const id = encodePositionId({ ...state, currentPlayer: player });
+      const decoded = decodePositionId(id, player);
+      expect(decoded.points).toEqual(state.points);
+      expect(decoded.bar).toEqual(state.bar);
+    }
+  });
+
+  it("should count missing checkers as borne off", () => {
+    const state = createInitialState();
+    state.points[23] = null;
+    state.points[22] = { player: Player.Red, count: 1 };
+    const decoded = decodePositionId(encodePositionId(state), Player.Gold);
+    expect(decoded.borneOff).toEqual({ [Player.Gold]: 0, [Player.Red]: 1 });
+  });
+
+  it("should reject malformed IDs", () => {
+    expect(() => decodePositionId("4HPwATDgc/AB", Player.Gold)).toThrow();
+    expect(() => decodePositionId("4HPwATDgc/AB!A", Player.Gold)).toThrow();
+    expect(() => decodePositionId("//////////////", Player.Gold)).toThrow();
+  });
+});
+
+describe("encodeMatchId / decodeMatchId", () => {
+  const midMatch = (): GameState => {
+    const state = createInitialState(9);
+    state.currentPlayer = Player.Red;
+    state.phase = "MOVING";
+    state.dice = rollDice([5, 2]);
+    state.doublingCube = { value: 2, owner: Player.Gold };
+    state.matchScore = { [Player.Gold]: 2, [Player.Red]: 4 };
+    return state;
+  };
+
+  it("should match the GNU Backgammon reference ID", () => {
+    // 9 point match, 2-4, player 1 on roll with 52, cube at 2 on player 0's side
+    expect(encodeMatchId(midMatch())).toBe("QYkqASAAIAAA");
+  });
+
+  it("should round-trip the match fields", () => {
+    const state = midMatch();
+    expect(decodeMatchId(encodeMatchId(state))).toEqual({
+      currentPlayer: state.currentPlayer,
+      phase: state.phase,
+      dice: state.dice,
+      doublingCube: state.doublingCube,
+      matchScore: state.matchScore,
+      matchLength: state.matchLength,
+      isCrawford: false,
+    });
+  });
+
+  it("should keep a pending double and the Crawford flag", () => {
+    const state = createInitialState(5);
+    state.phase = "DOUBLING";
+    state.isCrawford = true;
+    const decoded = decodeMatchId(encodeMatchId(state));
+    expect(decoded.phase).toBe("DOUBLING");
+    expect(decoded.currentPlayer).toBe(Player.Gold);
+    expect(decoded.isCrawford).toBe(true);
+    expect(decoded.dice).toBeNull();
+  });
+
+  it("should keep a pending resignation for the opponent to answer", () => {
+    const state = offerResignation(midMatch(), "big_ya_mon");
+    const bytes = encodeMatchId(state);
+    expect(bytes).not.toBe(encodeMatchId(midMatch()));
+
+    const decoded = decodeMatchId(bytes);
+    expect(decoded.resignation).toBe("big_ya_mon");
+    expect(decoded.phase).toBe("MOVING");
+    expect(decoded.currentPlayer).toBe(Player.Red);
+  });
+
+  it("should treat the opening roll as a game not yet started", () => {
+    expect(decodeMatchId(encodeMatchId(createInitialState(3))).phase).toBe("OPENING_ROLL");
+  });
+});
+
+describe("encodeGnuId / decodeGnuId", () => {
+  it("should rebuild the full state", () => {
+    const state = afterOpening();
+    state.currentPlayer = Player.Red;
+    state.phase = "ROLLING";
+    state.dice = null;
+    state.matchLength = 7;
+    state.matchScore = { [Player.Gold]: 3, [Player.Red]: 1 };
+
+    const id = encodeGnuId(state);
+    expect(id).toMatch(/^[A-Za-z0-9+/]{14}:[A-Za-z0-9+/]{12}$/);
+    expect(decodeGnuId(id)).toEqual(state);
+  });
+
+  it("should give a resigned game to the opponent at the level resigned", () => {
+    const state = acceptResignation(offerResignation(afterOpening(), "massive_ya_mon"));
+    const decoded = decodeGnuId(encodeGnuId(state));
+    expect(decoded.phase).toBe("GAME_OVER");
+    expect(decoded.winner).toBe(state.winner);
+    expect(decoded.winType).toBe("massive_ya_mon");
+  });
+});
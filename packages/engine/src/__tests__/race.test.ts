@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { OneSidedBearoff, TwoSidedBearoff } from "../ai/bearoff";
+import { evaluateRace, isRace, RaceEvaluator, type BearoffDatabases } from "../ai/race";
+import {
+  HeuristicEvaluator,
+  evaluateOnRoll,
+  selectBestTurn,
+} from "../ai/evaluator";
+import { getCubeDecision } from "../ai/cube";
+import { KingTubby } from "../ai/king-tubby";
+import { Selector } from "../ai/selector";
+import { rollDice } from "../dice";
+import { fromPlayerPoint } from "../notation";
+import { createInitialState } from "../state";
+import { Player, type GameState } from "../types";
+import { loadDatabase } from "./helpers";
+
+const oneSided = new OneSidedBearoff(loadDatabase("bearoff-one-sided.json"));
+const twoSided = new TwoSidedBearoff(loadDatabase("bearoff-two-sided.json"));
+const databases: BearoffDatabases = { oneSided, twoSided };
+
+/**
+ * A position from checker counts keyed by each player's own point
+ * numbers. Checkers not placed are borne off.
+ */
+function position(
+  gold: Record<number, number>,
+  red: Record<number, number>,
+  currentPlayer = Player.Gold,
+): GameState {
+  const state = createInitialState();
+  state.points = state.points.map(() => null);
+  for (const [player, counts] of [[Player.Gold, gold], [Player.Red, red]] as const) {
+    let placed = 0;
+    for (const [point, count] of Object.entries(counts)) {
+      state.points[fromPlayerPoint(Number(point), player)] = { player, count };
+      placed += count;
+    }
+    state.borneOff[player] = 15 - placed;
+  }
+  return { ...state, currentPlayer, phase: "ROLLING" };
+}
+
+// Chance a lone 6-point checker is off in one roll
+const SIX_POINT_IN_ONE = 27 / 36;
+
+describe("isRace", () => {
+  it("should see contact in the starting position", () => {
+    expect(isRace(createInitialState())).toBe(false);
+  });
+
+  it("should see a race once every checker has passed", () => {
+    expect(isRace(position({ 8: 5, 3: 10 }, { 9: 5, 2: 10 }))).toBe(true);
+  });
+
+  it("should see contact while checkers still face each other", () => {
+    // Gold's 13-point is Red's 12-point: they have to pass
+    expect(isRace(position({ 13: 1, 3: 14 }, { 13: 1, 2: 14 }))).toBe(false);
+  });
+
+  it("should see contact with a checker on the bar", () => {
+    const state = position({ 3: 14 }, { 2: 15 });
+    state.bar[Player.Gold] = 1;
+    expect(isRace(state)).toBe(false);
+  });
+});
+
+describe("evaluateRace", () => {
+  it("should leave positions with contact alone", () => {
+    expect(evaluateRace(databases, createInitialState(), Player.Gold)).toBeNull();
+  });
+
+  it("should read the two-sided database when both sides are small", () => {
+    // Gold has moved; Red rolls first and is off three times in four
+    const state = position({ 6: 1 }, { 6: 1 }, Player.Red);
+    const e = evaluateRace(databases, state, Player.Gold)!;
+    expect(e.win).toBeCloseTo((1 - SIX_POINT_IN_ONE) * SIX_POINT_IN_ONE, 4);
+    expect(e.winGammon).toBe(0);
+  });
+
+  it("should combine one-sided distributions to the same answer", () => {
+    const state = position({ 6: 1 }, { 6: 1 }, Player.Red);
+    const e = evaluateRace({ oneSided }, state, Player.Gold)!;
+    expect(e.win).toBeCloseTo((1 - SIX_POINT_IN_ONE) * SIX_POINT_IN_ONE, 4);
+  });
+
+  it("should stay close to the exact answer with one-sided distributions", () => {
+    const state = position({ 6: 2, 4: 1, 1: 1 }, { 5: 2, 3: 2 }, Player.Red);
+    const exact = evaluateRace(databases, state, Player.Gold)!.win;
+    const oneSidedOnly = evaluateRace({ oneSided }, state, Player.Gold)!.win;
+    expect(Math.abs(exact - oneSidedOnly)).toBeLessThan(0.02);
+  });
+
+  it("should favour the shorter race and see the gammon chances", () => {
+    // Red still has five checkers in Gold's outfield
+    const state = position({ 2: 4, 1: 4 }, { 18: 5, 6: 10 }, Player.Red);
+    const e = evaluateRace(databases, state, Player.Gold)!;
+    expect(e.win).toBeGreaterThan(0.99);
+    expect(e.winGammon).toBeGreaterThan(0.5);
+    expect(e.loseGammon).toBe(0);
+  });
+
+  it("should call a long even race close, with the edge to the side on roll", () => {
+    const state = position({ 11: 3, 8: 4, 6: 4, 4: 4 }, { 11: 3, 8: 4, 6: 4, 4: 4 }, Player.Red);
+    const e = evaluateRace(databases, state, Player.Gold)!;
+    expect(e.win).toBeGreaterThan(0.3);
+    expect(e.win).toBeLessThan(0.5);
+  });
+});
+
+describe("RaceEvaluator", () => {
+  const fallback = new HeuristicEvaluator();
+  const evaluator = new RaceEvaluator(databases, fallback);
+
+  it("should hand positions with contact to the fallback", () => {
+    const state = createInitialState();
+    expect(evaluator.evaluate(state, Player.Gold)).toEqual(fallback.evaluate(state, Player.Gold));
+  });
+
+  it("should bear off rather than move down when both come to the same count", () => {
+    // 6-1 from 6/6/1: 6/off 1/off leaves a lone checker on the 6-point
+    const state = {
+      ...position({ 6: 2, 1: 1 }, { 6: 3 }),
+      dice: rollDice([6, 1]),
+      phase: "MOVING" as const,
+    };
+    const moves = selectBestTurn(evaluator, state);
+    expect(moves.every((move) => move.to === "off")).toBe(true);
+  });
+});
+
+describe("AIs with bearoff databases", () => {
+  const raceEvaluator = new RaceEvaluator(databases, new HeuristicEvaluator());
+  const state = {
+    ...position({ 6: 3, 5: 3, 4: 2, 2: 2 }, { 6: 4, 3: 3, 1: 3 }),
+    dice: rollDice([5, 2]),
+    phase: "MOVING" as const,
+  };
+
+  it("should play races from the databases", () => {
+    const best = selectBestTurn(raceEvaluator, state);
+    expect(new Selector(databases).selectMoves(state)).toEqual(best);
+    expect(new KingTubby(databases).selectMoves(state)).toEqual(best);
+  });
+
+  it("should take race cube decisions from the databases", () => {
+    const onRoll = position({ 6: 2, 5: 2, 3: 2 }, { 6: 3, 5: 3, 4: 2 });
+    const decision = getCubeDecision(onRoll, evaluateOnRoll(raceEvaluator, onRoll));
+    expect(new KingTubby(databases).shouldDouble(onRoll)).toBe(decision.shouldDouble);
+    expect(new Selector(databases).shouldAcceptDouble(onRoll)).toBe(decision.shouldTake);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { applyGameEvent, replayGame } from "../replay";
+import { createInitialState } from "../state";
+import { Player, type GameEvent } from "../types";
+
+describe("applyGameEvent", () => {
+  it("should give the opening roll to the higher die", () => {
+    const state = createInitialState();
+    const next = applyGameEvent(state, {
+      type: "opening-roll",
+      goldDie: 2,
+      redDie: 5,
+      at: 0,
+    });
+    expect(next.currentPlayer).toBe(Player.Red);
+    expect(next.dice?.values).toEqual([5, 2]);
+    expect(next.phase).toBe("MOVING");
+  });
+
+  it("should leave the state alone on a tied opening roll", () => {
+    const state = createInitialState();
+    const next = applyGameEvent(state, {
+      type: "opening-roll",
+      goldDie: 4,
+      redDie: 4,
+      at: 0,
+    });
+    expect(next).toEqual(state);
+    expect(next).not.toBe(state);
+  });
+
+  it("should apply a roll and a move", () => {
+    let state = createInitialState();
+    state.phase = "ROLLING";
+    state = applyGameEvent(state, {
+      type: "roll",
+      player: Player.Gold,
+      dice: [3, 1],
+      at: 0,
+    });
+    expect(state.dice?.remaining).toEqual([3, 1]);
+
+    state = applyGameEvent(state, {
+      type: "move",
+      player: Player.Gold,
+      move: { from: 16, to: 19 },
+      at: 0,
+    });
+    expect(state.points[19]).toEqual({ player: Player.Gold, count: 1 });
+    expect(state.dice?.remaining).toEqual([1]);
+  });
+
+  it("should end the game when the last piece is borne off", () => {
+    const state = createInitialState();
+    state.points = state.points.map(() => null);
+    state.points[23] = { player: Player.Gold, count: 1 };
+    state.borneOff[Player.Gold] = 14;
+    state.phase = "MOVING";
+    state.dice = { values: [1, 2], remaining: [1, 2] };
+
+    const next = applyGameEvent(state, {
+      type: "move",
+      player: Player.Gold,
+      move: { from: 23, to: "off" },
+      at: 0,
+    });
+    expect(next.phase).toBe("GAME_OVER");
+    expect(next.winner).toBe(Player.Gold);
+    expect(next.winType).toBe("big_ya_mon");
+  });
+
+  it("should follow cube actions", () => {
+    let state = createInitialState();
+    state.phase = "ROLLING";
+    state = applyGameEvent(state, { type: "double", player: Player.Gold, at: 0 });
+    expect(state.phase).toBe("DOUBLING");
+    state = applyGameEvent(state, { type: "take", player: Player.Red, at: 0 });
+    expect(state.doublingCube).toEqual({ value: 2, owner: Player.Red });
+
+    state = applyGameEvent(state, { type: "double", player: Player.Gold, at: 0 });
+    const dropped = applyGameEvent(state, { type: "drop", player: Player.Red, at: 0 });
+    expect(dropped.phase).toBe("GAME_OVER");
+    expect(dropped.winner).toBe(Player.Gold);
+  });
+
+  it("should end the match on a forfeit", () => {
+    const state = createInitialState(5);
+    state.phase = "MOVING";
+    const next = applyGameEvent(state, {
+      type: "forfeit",
+      player: Player.Gold,
+      reason: "timeout",
+      at: 0,
+    });
+    expect(next.phase).toBe("GAME_OVER");
+    expect(next.winner).toBe(Player.Red);
+    expect(next.forfeit).toBe("timeout");
+  });
+
+  it("should apply a resignation and its answer", () => {
+    const state = createInitialState();
+    state.phase = "ROLLING";
+    const offered = applyGameEvent(state, {
+      type: "resign",
+      player: Player.Gold,
+      winType: "big_ya_mon",
+      at: 0,
+    });
+    expect(offered.resignation).toBe("big_ya_mon");
+
+    const rejected = applyGameEvent(offered, {
+      type: "reject-resignation",
+      player: Player.Red,
+      at: 1,
+    });
+    expect(rejected.phase).toBe("ROLLING");
+    expect(rejected.resignation).toBeNull();
+
+    const accepted = applyGameEvent(offered, {
+      type: "accept-resignation",
+      player: Player.Red,
+      at: 1,
+    });
+    expect(accepted.phase).toBe("GAME_OVER");
+    expect(accepted.winner).toBe(Player.Red);
+    expect(accepted.winType).toBe("big_ya_mon");
+  });
+});
+
+describe("replayGame", () => {
+  const events: GameEvent[] = [
+    { type: "opening-roll", goldDie: 3, redDie: 3, at: 1 },
+    { type: "opening-roll", goldDie: 3, redDie: 1, at: 2 },
+    { type: "move", player: Player.Gold, move: { from: 16, to: 19 }, at: 3 },
+    { type: "move", player: Player.Gold, move: { from: 18, to: 19 }, at: 4 },
+    { type: "end-turn", player: Player.Gold, at: 5 },
+    { type: "roll", player: Player.Red, dice: [6, 4], at: 6 },
+  ];
+
+  it("should return the initial position plus one per event", () => {
+    const positions = replayGame(createInitialState(), events);
+    expect(positions).toHaveLength(events.length + 1);
+    expect(positions[0]).toEqual(createInitialState());
+  });
+
+  it("should reproduce the game turn by turn", () => {
+    const positions = replayGame(createInitialState(), events);
+    const afterTurn = positions[5];
+    expect(afterTurn.points[19]).toEqual({ player: Player.Gold, count: 2 });
+    expect(afterTurn.currentPlayer).toBe(Player.Red);
+    expect(afterTurn.phase).toBe("ROLLING");
+    expect(positions[6].dice?.values).toEqual([6, 4]);
+  });
+
+  it("should not mutate the initial state", () => {
+    const initial = createInitialState();
+    replayGame(initial, events);
+    expect(initial).toEqual(createInitialState());
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  canOfferResignation,
+  isResignationPending,
+  offerResignation,
+  acceptResignation,
+  rejectResignation,
+} from "../resignation";
+import { canOfferDouble } from "../doubling";
+import { getScoreAfterGame } from "../match";
+import { shouldAcceptResignation } from "../ai/resign";
+import { Selector } from "../ai/selector";
+import { KingTubby } from "../ai/king-tubby";
+import { createInitialState } from "../state";
+import { Player } from "../types";
+import { rollDice } from "../dice";
+import { chances } from "./helpers";
+
+describe("canOfferResignation", () => {
+  it("should allow resigning before or after rolling", () => {
+    const state = createInitialState();
+    state.phase = "ROLLING";
+    expect(canOfferResignation(state)).toBe(true);
+    state.phase = "MOVING";
+    state.dice = rollDice([6, 5]);
+    expect(canOfferResignation(state)).toBe(true);
+  });
+
+  it("should not allow resigning before the opening roll or after the game", () => {
+    const state = createInitialState();
+    expect(canOfferResignation(state)).toBe(false);
+    state.phase = "DOUBLING";
+    expect(canOfferResignation(state)).toBe(false);
+    state.phase = "GAME_OVER";
+    expect(canOfferResignation(state)).toBe(false);
+  });
+
+  it("should not allow a second offer while one is pending", () => {
+    const state = createInitialState();
+    state.phase = "ROLLING";
+    const offered = offerResignation(state, "ya_mon");
+    expect(isResignationPending(offered)).toBe(true);
+    expect(canOfferResignation(offered)).toBe(false);
+    expect(() => offerResignation(offered, "big_ya_mon")).toThrow();
+  });
+});
+
+describe("offerResignation", () => {
+  it("should keep the phase and block doubling until answered", () => {
+    const state = createInitialState();
+    state.phase = "ROLLING";
+    const offered = offerResignation(state, "big_ya_mon");
+    expect(offered.phase).toBe("ROLLING");
+    expect(offered.resignation).toBe("big_ya_mon");
+    expect(canOfferDouble(offered)).toBe(false);
+  });
+});
+
+describe("acceptResignation", () => {
+  it("should end the game for the opponent at the offered stake", () => {
+    const state = createInitialState(7);
+    state.phase = "MOVING";
+    state.currentPlayer = Player.Red;
+    state.dice = rollDice([2, 1]);
+    state.doublingCube = { value: 2, owner: Player.Gold };
+    const accepted = acceptResignation(offerResignation(state, "big_ya_mon"));
+    expect(accepted.phase).toBe("GAME_OVER");
+    expect(accepted.winner).toBe(Player.Gold);
+    expect(accepted.winType).toBe("big_ya_mon");
+    expect(accepted.dice).toBeNull();
+    expect(getScoreAfterGame(accepted)[Player.Gold]).toBe(4);
+  });
+
+  it("should reject accepting when nothing was offered", () => {
+    const state = createInitialState();
+    state.phase = "ROLLING";
+    expect(() => acceptResignation(state)).toThrow();
+  });
+});
+
+describe("rejectResignation", () => {
+  it("should let play continue", () => {
+    const state = createInitialState();
+    state.phase = "MOVING";
+    state.dice = rollDice([4, 3]);
+    const rejected = rejectResignation(offerResignation(state, "ya_mon"));
+    expect(rejected.phase).toBe("MOVING");
+    expect(rejected.dice).toEqual(state.dice);
+    expect(isResignationPending(rejected)).toBe(false);
+    expect(canOfferResignation(rejected)).toBe(true);
+  });
+});
+
+describe("shouldAcceptResignation", () => {
+  const state = createInitialState();
+
+  it("should accept a single game from a player with little chance", () => {
+    expect(shouldAcceptResignation(state, chances(0.1), "ya_mon")).toBe(true);
+  });
+
+  it("should hold out for a gammon when one is likely", () => {
+    const e = chances(0.1, 0, 0.5);
+    expect(shouldAcceptResignation(state, e, "ya_mon")).toBe(false);
+    expect(shouldAcceptResignation(state, e, "big_ya_mon")).toBe(true);
+  });
+
+  it("should accept a point nobody has earned yet", () => {
+    expect(shouldAcceptResignation(state, chances(0.5, 0.2, 0.2), "ya_mon")).toBe(true);
+  });
+
+  it("should accept a single game that wins the match", () => {
+    const match = createInitialState(5);
+    match.matchScore = { [Player.Gold]: 4, [Player.Red]: 4 };
+    expect(shouldAcceptResignation(match, chances(0.1, 0, 0.9), "ya_mon")).toBe(true);
+  });
+
+  it("should let heuristic AIs hold out for the gammon they are sure of", () => {
+    // Gold bears off next turn while Red has nothing home
+    const lost = createInitialState();
+    lost.points = lost.points.map((p) => (p?.player === Player.Gold ? null : p));
+    lost.points[23] = { player: Player.Gold, count: 2 };
+    lost.borneOff[Player.Gold] = 13;
+    lost.phase = "ROLLING";
+    lost.currentPlayer = Player.Red;
+
+    for (const ai of [new Selector(), new KingTubby()]) {
+      expect(ai.shouldAcceptResignation(lost, "ya_mon")).toBe(false);
+      expect(ai.shouldAcceptResignation(lost, "big_ya_mon")).toBe(true);
+    }
+  });
+});
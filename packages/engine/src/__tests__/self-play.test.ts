@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  meanEstimate,
+  playSelfPlayGame,
+  rateEstimate,
+  runMatchup,
+} from "../self-play";
+import { createSeededDice, createSeededRandom } from "../dice";
+import { trainTD } from "../ai/td-training";
+import { NeuralNetwork } from "../ai/neural-net";
+import { Selector } from "../ai/selector";
+import { getAllLegalTurns } from "../ai/turn-generator";
+import type { AIPlayer } from "../ai/types";
+import { Player } from "../types";
+
+// Plays the first legal turn; doubles and answers as configured
+function firstTurnAI(double: boolean, take: boolean): AIPlayer {
+  return {
+    name: "First",
+    difficulty: "easy",
+    selectMoves: (state) => getAllLegalTurns(state)[0] ?? [],
+    shouldDouble: () => double,
+    shouldAcceptDouble: () => take,
+  };
+}
+
+describe("playSelfPlayGame", () => {
+  it("should play a full game to a result", () => {
+    const result = playSelfPlayGame(new Selector(), new Selector(), {
+      dice: createSeededDice(1),
+      cube: false,
+    });
+    expect([Player.Gold, Player.Red]).toContain(result.winner);
+    expect(result.cubeValue).toBe(1);
+    expect(result.points).toBeGreaterThanOrEqual(1);
+    expect(result.dropped).toBe(false);
+  });
+
+  it("should be repeatable with the same seed", () => {
+    const play = () =>
+      playSelfPlayGame(new Selector(), new Selector(), { dice: createSeededDice(9) });
+    expect(play()).toEqual(play());
+  });
+
+  it("should end the game when a double is dropped", () => {
+    const result = playSelfPlayGame(firstTurnAI(true, false), firstTurnAI(true, false), {
+      dice: createSeededDice(3),
+    });
+    expect(result.dropped).toBe(true);
+    expect(result.points).toBe(1);
+    expect(result.turns).toBe(2);
+  });
+
+  it("should stop doubling at the cube limit", () => {
+    const result = playSelfPlayGame(firstTurnAI(true, true), firstTurnAI(true, true), {
+      dice: createSeededDice(3),
+      maxCube: 8,
+    });
+    expect(result.cubeValue).toBe(8);
+  });
+
+  it("should reject an illegal move", () => {
+    const cheat: AIPlayer = {
+      ...firstTurnAI(false, true),
+      selectMoves: () => [{ from: 0, to: "off" }],
+    };
+    expect(() =>
+      playSelfPlayGame(cheat, cheat, { dice: createSeededDice(1) }),
+    ).toThrow("illegal move");
+  });
+});
+
+describe("estimates", () => {
+  it("should give a Wilson interval around the rate", () => {
+    const e = rateEstimate(60, 100);
+    expect(e.value).toBeCloseTo(0.6);
+    expect(e.low).toBeCloseTo(0.502, 2);
+    expect(e.high).toBeCloseTo(0.691, 2);
+  });
+
+  it("should give a normal interval around the mean", () => {
+    const e = meanEstimate([1, -1, 1, -1]);
+    expect(e.value).toBe(0);
+    expect(e.high).toBeCloseTo(1.959964 * Math.sqrt(4 / 3 / 4));
+    expect(e.low).toBeCloseTo(-e.high);
+  });
+});
+
+describe("runMatchup", () => {
+  it("should report consistent totals from the first player's side", () => {
+    const stats = runMatchup(new Selector(), firstTurnAI(false, true), {
+      games: 10,
+      seed: 5,
+      cube: false,
+    });
+    expect(stats.games).toBe(10);
+    expect(stats.winRate.value).toBe(stats.wins / 10);
+    expect(stats.gammons).toBeLessThanOrEqual(stats.wins);
+    expect(stats.backgammons).toBeLessThanOrEqual(stats.gammons);
+    expect(stats.winRate.low).toBeLessThanOrEqual(stats.winRate.value);
+    expect(stats.winRate.high).toBeGreaterThanOrEqual(stats.winRate.value);
+  });
+});
+
+describe("trainTD", () => {
+  it("should update the weights and be repeatable", () => {
+    const train = () => {
+      const net = NeuralNetwork.random(4, createSeededRandom(1));
+      trainTD(net, { games: 2, seed: 11 });
+      return net;
+    };
+    const before = NeuralNetwork.random(4, createSeededRandom(1));
+    const a = train();
+    const b = train();
+    expect(a.toJSON()).toEqual(b.toJSON());
+    expect(a.outputBias).not.toEqual(before.outputBias);
+    expect(a.hiddenWeights).not.toEqual(before.hiddenWeights);
+  });
+
+  it("should report each game", () => {
+    const seen: number[] = [];
+    trainTD(NeuralNetwork.random(4, createSeededRandom(1)), {
+      games: 3,
+      seed: 1,
+      onGame: (n, turns) => {
+        expect(turns).toBeGreaterThan(0);
+        seen.push(n);
+      },
+    });
+    expect(seen).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  AI_NAMES,
+  answerAIRequest,
+  answerAnalysisRequest,
+  createAIPlayer,
+  serveAI,
+  type AIDifficulty,
+  type AIWorkerMessage,
+  type AIWorkerReply,
+  type AIWorkerScope,
+} from "../worker";
+import { Selector } from "../ai/selector";
+import { HeuristicEvaluator } from "../ai/evaluator";
+import { rankTurns } from "../analysis";
+import { createInitialState } from "../state";
+import { rollDice } from "../dice";
+
+const moving = {
+  ...createInitialState(),
+  dice: rollDice([3, 1]),
+  phase: "MOVING" as const,
+};
+
+// Stands in for a worker's global scope
+function createScope() {
+  const replies: AIWorkerReply[] = [];
+  const scope: AIWorkerScope = {
+    onmessage: null,
+    postMessage: (reply) => replies.push(reply),
+  };
+  const send = (message: AIWorkerMessage) => scope.onmessage?.({ data: message });
+  // Lets queued answers through
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+  return { scope, replies, send, settle };
+}
+
+describe("createAIPlayer", () => {
+  it("should build the AI named for each difficulty", () => {
+    const difficulties: AIDifficulty[] = ["easy", "medium", "hard"];
+    for (const difficulty of difficulties) {
+      const ai = createAIPlayer(difficulty);
+      expect(ai.difficulty).toBe(difficulty);
+      expect(ai.name).toBe(AI_NAMES[difficulty]);
+    }
+  });
+
+  it("should refuse the expert without weights", () => {
+    expect(() => createAIPlayer("expert")).toThrow("network weights");
+  });
+});
+
+describe("answerAIRequest", () => {
+  it("should call the matching AIPlayer method", () => {
+    const ai = new Selector();
+    expect(answerAIRequest(ai, { type: "select-moves", state: moving })).toEqual(
+      ai.selectMoves(moving),
+    );
+  });
+});
+
+describe("answerAnalysisRequest", () => {
+  it("should rank turns with the evaluator", () => {
+    const evaluator = new HeuristicEvaluator();
+    expect(
+      answerAnalysisRequest(evaluator, { type: "rank-turns", state: moving, limit: 3 }),
+    ).toEqual(rankTurns(evaluator, moving, 3));
+  });
+});
+
+describe("serveAI", () => {
+  it("should answer requests in order once the AI is built", async () => {
+    const { scope, replies, send, settle } = createScope();
+    serveAI(scope, async (difficulty) => createAIPlayer(difficulty));
+
+    send({ type: "create", difficulty: "medium" });
+    send({ type: "request", id: 1, request: { type: "select-moves", state: moving } });
+    send({
+      type: "request",
+      id: 2,
+      request: { type: "should-accept-resignation", state: moving, winType: "ya_mon" },
+    });
+    await settle();
+
+    expect(replies).toEqual([
+      { id: 1, result: new Selector().selectMoves(moving) },
+      { id: 2, result: true },
+    ]);
+  });
+
+  it("should answer with an error before any AI is created", async () => {
+    const { scope, replies, send, settle } = createScope();
+    serveAI(scope, createAIPlayer);
+
+    send({ type: "request", id: 7, request: { type: "should-double", state: moving } });
+    await settle();
+
+    expect(replies).toEqual([{ id: 7, error: "No AI has been created" }]);
+  });
+
+  it("should pass on a failure to build the AI", async () => {
+    const { scope, replies, send, settle } = createScope();
+    serveAI(scope, (difficulty) => createAIPlayer(difficulty));
+
+    send({ type: "create", difficulty: "expert" });
+    send({ type: "request", id: 1, request: { type: "should-double", state: moving } });
+    await settle();
+
+    expect(replies).toEqual([{ id: 1, error: "The expert AI needs network weights" }]);
+  });
+
+  it("should rank turns without an AI being created", async () => {
+    const { scope, replies, send, settle } = createScope();
+    const evaluator = new HeuristicEvaluator();
+    serveAI(scope, createAIPlayer, () => evaluator);
+
+    send({ type: "request", id: 1, request: { type: "rank-turns", state: moving, limit: 2 } });
+    await settle();
+
+    expect(replies).toEqual([{ id: 1, result: rankTurns(evaluator, moving, 2) }]);
+  });
+
+  it("should answer analysis with an error when it has no evaluator", async () => {
+    const { scope, replies, send, settle } = createScope();
+    serveAI(scope, createAIPlayer);
+
+    send({
+      type: "request",
+      id: 3,
+      request: { type: "analyze-game", initialState: createInitialState(), events: [] },
+    });
+    await settle();
+
+    expect(replies).toEqual([{ id: 3, error: "This worker cannot analyse games" }]);
+  });
+});
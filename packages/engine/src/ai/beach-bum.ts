@@ -1,4 +1,4 @@
-import type { GameState, Move } from "../types.js";
+import type { GameState, Move, WinType } from "../types.js";
 import type { AIPlayer } from "./types.js";
 import { getAllLegalTurns } from "./turn-generator.js";
 
@@ -31,4 +31,9 @@ export class BeachBum implements AIPlayer {
     // Beach Bum always accepts doubles (doesn't understand the risk)
     return true;
   }
+
+  shouldAcceptResignation(_state: GameState, _winType: WinType): boolean {
+    // Beach Bum takes whatever is offered
+    return true;
+  }
 }
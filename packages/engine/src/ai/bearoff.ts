@@ -0,0 +1,382 @@
+import type { GameState, Player } from "../types.js";
+import { canBearOff } from "../bearing-off.js";
+import { fromPlayerPoint } from "../notation.js";
+
+/** Points a bearoff position covers: a side's home board. */
+export const BEAROFF_POINTS = 6;
+
+/**
+ * One side's checkers on its home board, ace point first: `position[0]`
+ * is the 1-point and `position[5]` the 6-point. Borne off checkers are
+ * not counted.
+ */
+export type BearoffPosition = number[];
+
+/** A database as stored on disk, written by `scripts/bearoff.ts`. */
+export interface BearoffData {
+  type: "one-sided" | "two-sided";
+  checkers: number; // Most checkers a side may have left
+  data: string; // Base64, layout described by each class
+}
+
+// Probabilities are stored as 16-bit fractions
+const PROBABILITY_SCALE = 0xffff;
+
+/** The 21 distinct rolls, with doubles once and the rest both ways round. */
+export const DISTINCT_ROLLS: { dice: number[]; probability: number }[] = [];
+for (let a = 1; a <= 6; a++) {
+  for (let b = a; b <= 6; b++) {
+    DISTINCT_ROLLS.push(
+      a === b
+        ? { dice: [a, a, a, a], probability: 1 / 36 }
+        : { dice: [a, b], probability: 2 / 36 },
+    );
+  }
+}
+
+function choose(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+  return Math.round(result);
+}
+
+/** How many positions hold at most `checkers` checkers on the home board. */
+export function countBearoffPositions(checkers: number): number {
+  return choose(BEAROFF_POINTS + checkers, BEAROFF_POINTS);
+}
+
+/**
+ * Rank of a position among all those with at most `checkers` checkers,
+ * ordered by the count on the ace point, then the 2-point and so on. The
+ * empty position is 0.
+ */
+export function getBearoffIndex(position: BearoffPosition, checkers: number): number {
+  let index = 0;
+  let remaining = checkers;
+  for (let point = 0; point < BEAROFF_POINTS; point++) {
+    // Every position with fewer checkers here and the same before it
+    const later = BEAROFF_POINTS - point - 1;
+    for (let count = 0; count < position[point]; count++) {
+      index += choose(later + remaining - count, later);
+    }
+    remaining -= position[point];
+  }
+  return index;
+}
+
+/** Every position with at most `checkers` checkers, in index order. */
+export function enumerateBearoffPositions(checkers: number): BearoffPosition[] {
+  const positions: BearoffPosition[] = [];
+  const position = new Array<number>(BEAROFF_POINTS).fill(0);
+  const fill = (point: number, remaining: number) => {
+    if (point === BEAROFF_POINTS) {
+      positions.push([...position]);
+      return;
+    }
+    for (let count = 0; count <= remaining; count++) {
+      position[point] = count;
+      fill(point + 1, remaining - count);
+    }
+    position[point] = 0;
+  };
+  fill(0, checkers);
+  return positions;
+}
+
+/**
+ * A player's bearoff position, or null while they have a checker on the
+ * bar or outside their home board.
+ */
+export function getBearoffPosition(state: GameState, player: Player): BearoffPosition | null {
+  if (!canBearOff(state, player)) return null;
+  const position: BearoffPosition = [];
+  for (let point = 1; point <= BEAROFF_POINTS; point++) {
+    const p = state.points[fromPlayerPoint(point, player)];
+    position.push(p && p.player === player ? p.count : 0);
+  }
+  return position;
+}
+
+function countCheckers(position: BearoffPosition): number {
+  return position.reduce((sum, count) => sum + count, 0);
+}
+
+function countPips(position: BearoffPosition): number {
+  return position.reduce((sum, count, point) => sum + count * (point + 1), 0);
+}
+
+/**
+ * Every position and where each roll can take it, for generating the
+ * databases. Nothing can block a checker once contact is gone, so every
+ * die can be played until the last checker is off.
+ */
+class BearoffMoves {
+  readonly positions: BearoffPosition[];
+  // Indices in the order to solve them: fewer pips first
+  readonly byPips: number[];
+  private afterDie: number[][][]; // [index][die - 1] -> indices
+  private readonly checkers: number;
+
+  constructor(checkers: number) {
+    this.checkers = checkers;
+    this.positions = enumerateBearoffPositions(checkers);
+    const pips = this.positions.map(countPips);
+    this.byPips = this.positions.map((_, i) => i).sort((a, b) => pips[a] - pips[b]);
+    this.afterDie = this.positions.map((position) =>
+      [1, 2, 3, 4, 5, 6].map((die) => this.playDie(position, die)),
+    );
+  }
+
+  /** Distinct positions `index` can reach with `dice`, played in any order. */
+  afterRoll(index: number, dice: number[]): number[] {
+    const orders = dice[0] === dice[1] ? [dice] : [dice, [...dice].reverse()];
+    const results = new Set<number>();
+    for (const order of orders) {
+      let reached = [index];
+      for (const die of order) {
+        const next = new Set<number>();
+        for (const from of reached) {
+          for (const to of this.afterDie[from][die - 1]) next.add(to);
+        }
+        reached = [...next];
+      }
+      for (const to of reached) results.add(to);
+    }
+    return [...results];
+  }
+
+  private playDie(position: BearoffPosition, die: number): number[] {
+    if (countCheckers(position) === 0) return [0];
+    let highest = BEAROFF_POINTS;
+    while (position[highest - 1] === 0) highest--;
+    const results: number[] = [];
+    for (let point = 1; point <= BEAROFF_POINTS; point++) {
+      if (position[point - 1] === 0) continue;
+      // Move down, bear off exactly, or bear off the highest with a bigger die
+      if (point < die && point !== highest) continue;
+      const next = [...position];
+      next[point - 1]--;
+      if (point > die) next[point - 1 - die]++;
+      results.push(getBearoffIndex(next, this.checkers));
+    }
+    return results;
+  }
+}
+
+// Base64 by hand: the engine stays free of browser and Node.js APIs
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function encodeBase64(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    text += BASE64[chunk >> 18] + BASE64[(chunk >> 12) & 63];
+    text += i + 1 < bytes.length ? BASE64[(chunk >> 6) & 63] : "=";
+    text += i + 2 < bytes.length ? BASE64[chunk & 63] : "=";
+  }
+  return text;
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const padding = text.endsWith("==") ? 2 : text.endsWith("=") ? 1 : 0;
+  const bytes = new Uint8Array((text.length / 4) * 3 - padding);
+  const value = (i: number) => (text[i] === "=" ? 0 : BASE64.indexOf(text[i]));
+  for (let i = 0, j = 0; i < text.length; i += 4) {
+    const chunk = (value(i) << 18) | (value(i + 1) << 12) | (value(i + 2) << 6) | value(i + 3);
+    bytes[j++] = chunk >> 16;
+    if (j < bytes.length) bytes[j++] = (chunk >> 8) & 0xff;
+    if (j < bytes.length) bytes[j++] = chunk & 0xff;
+  }
+  return bytes;
+}
+
+function checkData(data: BearoffData, type: BearoffData["type"]): void {
+  if (data.type !== type) {
+    throw new Error(`Expected a ${type} bearoff database, got ${data.type}.`);
+  }
+}
+
+/**
+ * One-sided bearoff database: for every position of up to `checkers`
+ * checkers on one home board, the chance of needing exactly n rolls to
+ * bear them all off, playing to need as few rolls as possible on average.
+ * Two such distributions, taken as independent, give a race's winning
+ * chances to within a fraction of a percent.
+ *
+ * Stored layout, per position in index order: the first roll count with
+ * any chance (1 byte), how many follow (1 byte), then each chance as a
+ * little-endian 16-bit fraction.
+ */
+export class OneSidedBearoff {
+  readonly checkers: number;
+  private bytes: Uint8Array;
+  private offsets: Uint32Array;
+
+  constructor(data: BearoffData) {
+    checkData(data, "one-sided");
+    this.checkers = data.checkers;
+    this.bytes = decodeBase64(data.data);
+    this.offsets = new Uint32Array(countBearoffPositions(this.checkers));
+    let offset = 0;
+    for (let i = 0; i < this.offsets.length; i++) {
+      this.offsets[i] = offset;
+      offset += 2 + 2 * this.bytes[offset + 1];
+    }
+  }
+
+  /** Solve every position from scratch. Takes a few seconds for 15 checkers. */
+  static generate(checkers: number): OneSidedBearoff {
+    const moves = new BearoffMoves(checkers);
+    const distributions: number[][] = new Array(moves.positions.length);
+    const means = new Float64Array(moves.positions.length);
+    distributions[0] = [1]; // Nothing left: done in 0 rolls
+
+    for (const index of moves.byPips) {
+      if (index === 0) continue;
+      const distribution: number[] = [0];
+      for (const { dice, probability } of DISTINCT_ROLLS) {
+        let best = -1;
+        for (const next of moves.afterRoll(index, dice)) {
+          if (best < 0 || means[next] < means[best]) best = next;
+        }
+        distributions[best].forEach((chance, rolls) => {
+          distribution[rolls + 1] = (distribution[rolls + 1] ?? 0) + probability * chance;
+        });
+      }
+      distributions[index] = distribution;
+      means[index] = distribution.reduce((sum, chance, rolls) => sum + chance * rolls, 0);
+    }
+
+    const chunks: number[] = [];
+    for (const distribution of distributions) {
+      const stored = distribution.map((chance) => Math.round(chance * PROBABILITY_SCALE));
+      const first = stored.findIndex((value) => value > 0);
+      let last = stored.length - 1;
+      while (stored[last] === 0) last--;
+      chunks.push(first, last - first + 1);
+      for (const value of stored.slice(first, last + 1)) chunks.push(value & 0xff, value >> 8);
+    }
+    return new OneSidedBearoff({
+      type: "one-sided",
+      checkers,
+      data: encodeBase64(Uint8Array.from(chunks)),
+    });
+  }
+
+  toJSON(): BearoffData {
+    return { type: "one-sided", checkers: this.checkers, data: encodeBase64(this.bytes) };
+  }
+
+  /** Whether `position` is small enough to be in the database. */
+  covers(position: BearoffPosition): boolean {
+    return countCheckers(position) <= this.checkers;
+  }
+
+  /** Chance of bearing off in exactly n rolls, indexed by n. */
+  getRollDistribution(position: BearoffPosition): number[] {
+    const offset = this.offsets[getBearoffIndex(position, this.checkers)];
+    const first = this.bytes[offset];
+    const length = this.bytes[offset + 1];
+    const distribution = new Array<number>(first + length).fill(0);
+    let total = 0;
+    for (let i = 0; i < length; i++) {
+      const value = this.bytes[offset + 2 + 2 * i] | (this.bytes[offset + 3 + 2 * i] << 8);
+      distribution[first + i] = value;
+      total += value;
+    }
+    // Rounding leaves the stored chances a hair off summing to 1
+    return distribution.map((value) => value / total);
+  }
+
+  /** Average and variance of the rolls needed to bear off. */
+  getRollStatistics(position: BearoffPosition): { mean: number; variance: number } {
+    const distribution = this.getRollDistribution(position);
+    const mean = distribution.reduce((sum, chance, rolls) => sum + chance * rolls, 0);
+    const variance = distribution.reduce(
+      (sum, chance, rolls) => sum + chance * (rolls - mean) ** 2,
+      0,
+    );
+    return { mean, variance };
+  }
+}
+
+/**
+ * Two-sided bearoff database: exact cubeless winning chances for the
+ * side on roll when both sides have at most `checkers` checkers left,
+ * each side playing to win rather than to save rolls.
+ *
+ * Stored layout: a little-endian 16-bit fraction per pair of positions,
+ * at `onRoll * count + other` for `count` positions per side.
+ */
+export class TwoSidedBearoff {
+  readonly checkers: number;
+  private bytes: Uint8Array;
+  private count: number;
+
+  constructor(data: BearoffData) {
+    checkData(data, "two-sided");
+    this.checkers = data.checkers;
+    this.bytes = decodeBase64(data.data);
+    this.count = countBearoffPositions(this.checkers);
+  }
+
+  /** Solve every pair of positions from scratch. */
+  static generate(checkers: number): TwoSidedBearoff {
+    const moves = new BearoffMoves(checkers);
+    const count = moves.positions.length;
+    const successors = moves.positions.map((_, index) =>
+      DISTINCT_ROLLS.map(({ dice }) => moves.afterRoll(index, dice)),
+    );
+
+    // Solve pairs with fewer pips between them first: every roll takes
+    // the side on roll to one of those
+    const pips = moves.positions.map(countPips);
+    const pairs = new Uint32Array(count * count).map((_, i) => i);
+    pairs.sort((a, b) =>
+      pips[Math.floor(a / count)] + pips[a % count] - pips[Math.floor(b / count)] - pips[b % count],
+    );
+
+    const wins = new Float64Array(count * count);
+    for (const pair of pairs) {
+      const onRoll = Math.floor(pair / count);
+      const other = pair % count;
+      if (onRoll === 0 || other === 0) {
+        wins[pair] = onRoll === 0 ? 1 : 0; // Whoever has nothing left has won
+        continue;
+      }
+      let win = 0;
+      DISTINCT_ROLLS.forEach(({ probability }, roll) => {
+        let best = 0;
+        for (const next of successors[onRoll][roll]) {
+          best = Math.max(best, next === 0 ? 1 : 1 - wins[other * count + next]);
+        }
+        win += probability * best;
+      });
+      wins[pair] = win;
+    }
+
+    const bytes = new Uint8Array(2 * wins.length);
+    wins.forEach((win, i) => {
+      const value = Math.round(win * PROBABILITY_SCALE);
+      bytes[2 * i] = value & 0xff;
+      bytes[2 * i + 1] = value >> 8;
+    });
+    return new TwoSidedBearoff({ type: "two-sided", checkers, data: encodeBase64(bytes) });
+  }
+
+  toJSON(): BearoffData {
+    return { type: "two-sided", checkers: this.checkers, data: encodeBase64(this.bytes) };
+  }
+
+  /** Whether both positions are small enough to be in the database. */
+  covers(onRoll: BearoffPosition, other: BearoffPosition): boolean {
+    return countCheckers(onRoll) <= this.checkers && countCheckers(other) <= this.checkers;
+  }
+
+  /** Chance that the side on roll bears off first. */
+  getWinChance(onRoll: BearoffPosition, other: BearoffPosition): number {
+    const i =
+      getBearoffIndex(onRoll, this.checkers) * this.count + getBearoffIndex(other, this.checkers);
+    return (this.bytes[2 * i] | (this.bytes[2 * i + 1] << 8)) / PROBABILITY_SCALE;
+  }
+}
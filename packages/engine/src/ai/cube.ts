@@ -0,0 +1,180 @@
+import type { GameState, Player } from "../types.js";
+import { opponent } from "../moves.js";
+import { getMatchEquityAfterGame } from "../match-equity.js";
+import type { Evaluation } from "./evaluator.js";
+
+// How much of a live cube's value is realised in practice (Janowski's x):
+// 0 plays as if nobody could double again, 1 as if every market was
+// doubled at exactly the right moment
+export const CUBE_EFFICIENCY = 0.68;
+
+export type CubeOwnership = "centered" | "owned" | "opponent";
+
+/**
+ * Cube action for the player on roll. The three equities are theirs,
+ * scaled so that winning a single game at the current cube is +1 and
+ * losing one is -1 (points per cube in a money game, a linear rescale of
+ * match winning chances in a match), which makes doublePass always 1.
+ */
+export interface CubeDecision {
+  noDouble: number;
+  doubleTake: number;
+  doublePass: number;
+  shouldDouble: boolean;
+  shouldTake: boolean; // What the opponent should do if doubled
+  tooGood: boolean; // Playing on for a gammon beats cashing
+}
+
+// Value of each result for the player on roll: points in a money game,
+// match winning chances in a match
+interface Stakes {
+  win: [number, number, number]; // Single, gammon, backgammon
+  lose: [number, number, number];
+}
+
+/**
+ * A single game (match length 1) is played for points with an unlimited
+ * cube, like a money game.
+ */
+export function isMoneyGame(state: GameState): boolean {
+  return state.matchLength <= 1;
+}
+
+function getStakes(state: GameState, player: Player, cube: number): Stakes {
+  if (isMoneyGame(state)) {
+    return { win: [cube, 2 * cube, 3 * cube], lose: [-cube, -2 * cube, -3 * cube] };
+  }
+  const after = (winner: Player, points: number) =>
+    getMatchEquityAfterGame(state, player, winner, points);
+  const opp = opponent(player);
+  return {
+    win: [after(player, cube), after(player, 2 * cube), after(player, 3 * cube)],
+    lose: [after(opp, cube), after(opp, 2 * cube), after(opp, 3 * cube)],
+  };
+}
+
+/**
+ * Janowski's live cube equity: piecewise linear in the win chance p,
+ * between the take point (where the player could just take a double) and
+ * the cash point (where the opponent can no longer take one). W and L are
+ * the average size of a win and a loss, in single games.
+ */
+function liveCubeEquity(
+  p: number,
+  w: number,
+  l: number,
+  ownership: CubeOwnership,
+): number {
+  const takePoint = (l - 0.5) / (w + l + 0.5);
+  const cashPoint = (l + 1) / (w + l + 0.5);
+
+  switch (ownership) {
+    case "owned":
+      return p >= cashPoint ? 1 : -l + (p / cashPoint) * (1 + l);
+    case "opponent":
+      return p <= takePoint ? -1 : -1 + ((p - takePoint) / (1 - takePoint)) * (w + 1);
+    case "centered":
+      if (p <= takePoint) return -1;
+      if (p >= cashPoint) return 1;
+      return -1 + (2 * (p - takePoint)) / (cashPoint - takePoint);
+  }
+}
+
+/**
+ * Cubeful equity at cube value `cube`, in stakes where a single game at
+ * that cube is +1/-1: a blend of the live cube model and the dead cube
+ * (cubeless) equity. A cube that can never be turned again usefully in a
+ * match is treated as dead.
+ */
+function getCubefulEquity(
+  state: GameState,
+  player: Player,
+  e: Evaluation,
+  cube: number,
+  ownership: CubeOwnership,
+): { equity: number; stakes: Stakes } {
+  const stakes = getStakes(state, player, cube);
+  const [winSingle] = stakes.win;
+  const [loseSingle] = stakes.lose;
+  const scale = (value: number) =>
+    (2 * (value - loseSingle)) / (winSingle - loseSingle) - 1;
+
+  const winValue =
+    (e.win - e.winGammon) * scale(stakes.win[0]) +
+    (e.winGammon - e.winBackgammon) * scale(stakes.win[1]) +
+    e.winBackgammon * scale(stakes.win[2]);
+  const loseValue =
+    (1 - e.win - e.loseGammon) * scale(stakes.lose[0]) +
+    (e.loseGammon - e.loseBackgammon) * scale(stakes.lose[1]) +
+    e.loseBackgammon * scale(stakes.lose[2]);
+  const dead = winValue + loseValue;
+
+  const w = e.win > 0 ? winValue / e.win : 1;
+  const l = e.win < 1 ? -loseValue / (1 - e.win) : 1;
+  const live = liveCubeEquity(e.win, w, l, ownership);
+
+  let efficiency = CUBE_EFFICIENCY;
+  if (!isMoneyGame(state)) {
+    // Redoubling is pointless for a player who already wins the match
+    // with a single game at this cube
+    const away = (p: Player) => state.matchLength - state.matchScore[p];
+    const canUse =
+      ownership === "owned"
+        ? [player]
+        : ownership === "opponent"
+          ? [opponent(player)]
+          : [player, opponent(player)];
+    if (canUse.every((p) => away(p) <= cube)) efficiency = 0;
+  }
+
+  return { equity: efficiency * live + (1 - efficiency) * dead, stakes };
+}
+
+/**
+ * Decide the cube for the player on roll from `e`, their win and gammon
+ * chances before rolling. Accounts for the match score, Crawford and
+ * post-Crawford games, cube ownership and gammons:
+ * - double when both double/take and double/pass beat playing on
+ * - too good when playing on beats the opponent passing
+ * - the opponent should take when double/take is no worse for them than
+ *   passing
+ */
+export function getCubeDecision(state: GameState, e: Evaluation): CubeDecision {
+  const player = state.currentPlayer;
+  const cube = state.doublingCube.value;
+  const { owner } = state.doublingCube;
+
+  const now = getCubefulEquity(
+    state,
+    player,
+    e,
+    cube,
+    owner === null ? "centered" : owner === player ? "owned" : "opponent",
+  );
+  const [winSingle] = now.stakes.win;
+  const [loseSingle] = now.stakes.lose;
+  // Re-express equities at another cube in this cube's stakes
+  const rescale = (equity: number, stakes: Stakes) => {
+    const value =
+      stakes.lose[0] + ((equity + 1) / 2) * (stakes.win[0] - stakes.lose[0]);
+    return (2 * (value - loseSingle)) / (winSingle - loseSingle) - 1;
+  };
+
+  const doubled = getCubefulEquity(state, player, e, 2 * cube, "opponent");
+  const noDouble = now.equity;
+  const doubleTake = rescale(doubled.equity, doubled.stakes);
+  const doublePass = 1;
+
+  const tooGood = noDouble >= doublePass;
+  const doubleEligible =
+    !state.isCrawford && (owner === null || owner === player);
+  return {
+    noDouble,
+    doubleTake,
+    doublePass,
+    shouldDouble:
+      doubleEligible && !tooGood && Math.min(doubleTake, doublePass) > noDouble,
+    shouldTake: doubleTake <= doublePass,
+    tooGood,
+  };
+}
@@ -0,0 +1,41 @@
+import type { GameState, Move, WinType } from "../types.js";
+import type { AIPlayer } from "./types.js";
+import { getCubeDecision } from "./cube.js";
+import { shouldAcceptResignation } from "./resign.js";
+import { evaluateOnRoll, type Evaluator } from "./evaluator.js";
+import { RaceEvaluator, type BearoffDatabases } from "./race.js";
+
+/**
+ * What the AIs that judge positions with an Evaluator have in common:
+ * cube and resignation decisions come from the evaluator's win and gammon
+ * chances for the player on roll, and given bearoff databases races are
+ * judged from those instead. Each AI chooses its moves its own way.
+ */
+export abstract class EvaluatingAI implements AIPlayer {
+  abstract name: string;
+  abstract difficulty: AIPlayer["difficulty"];
+  readonly evaluator: Evaluator;
+  protected readonly hasDatabases: boolean;
+
+  constructor(evaluator: Evaluator, databases?: BearoffDatabases) {
+    this.evaluator = databases ? new RaceEvaluator(databases, evaluator) : evaluator;
+    this.hasDatabases = databases !== undefined;
+  }
+
+  abstract selectMoves(state: GameState): Move[];
+
+  shouldDouble(state: GameState): boolean {
+    return getCubeDecision(state, evaluateOnRoll(this.evaluator, state)).shouldDouble;
+  }
+
+  // Whoever offers a double or a resignation is on roll, so the offer is
+  // judged from their side
+
+  shouldAcceptDouble(state: GameState): boolean {
+    return getCubeDecision(state, evaluateOnRoll(this.evaluator, state)).shouldTake;
+  }
+
+  shouldAcceptResignation(state: GameState, winType: WinType): boolean {
+    return shouldAcceptResignation(state, evaluateOnRoll(this.evaluator, state), winType);
+  }
+}
@@ -0,0 +1,156 @@
+import { Player, type GameState, type Move } from "../types.js";
+import { opponent } from "../moves.js";
+import { checkWinner, getWinType } from "../winner.js";
+import { HOME_BOARD_START, HOME_BOARD_END } from "../constants.js";
+import { evaluateBoard } from "./selector.js";
+import { getDistinctTurns } from "./turn-generator.js";
+
+/**
+ * Chances of each game result for one player. Gammon and backgammon
+ * chances are included in the wider result, so winGammon <= win and
+ * winBackgammon <= winGammon.
+ */
+export interface Evaluation {
+  win: number;
+  winGammon: number;
+  winBackgammon: number;
+  loseGammon: number;
+  loseBackgammon: number;
+}
+
+/**
+ * Scores a position for `player`, who has just finished moving: the
+ * position is judged with the opponent about to roll.
+ */
+export interface Evaluator {
+  evaluate(state: GameState, player: Player): Evaluation;
+}
+
+/**
+ * Cubeless equity: the expected points won per unit of stake, from -3 to 3.
+ */
+export function getEquity(e: Evaluation): number {
+  return (
+    2 * e.win - 1 +
+    e.winGammon - e.loseGammon +
+    e.winBackgammon - e.loseBackgammon
+  );
+}
+
+/** The same evaluation seen from the other player's side. */
+export function invertEvaluation(e: Evaluation): Evaluation {
+  return {
+    win: 1 - e.win,
+    winGammon: e.loseGammon,
+    winBackgammon: e.loseBackgammon,
+    loseGammon: e.winGammon,
+    loseBackgammon: e.winBackgammon,
+  };
+}
+
+/**
+ * Exact result of a finished game for `player`, or null while it is
+ * still being played.
+ */
+export function getFinalEvaluation(
+  state: GameState,
+  player: Player,
+): Evaluation | null {
+  const winner = checkWinner(state);
+  if (!winner) return null;
+
+  const winType = getWinType(state, winner);
+  const gammon = winType !== "ya_mon" ? 1 : 0;
+  const backgammon = winType === "massive_ya_mon" ? 1 : 0;
+  const result: Evaluation = {
+    win: 1,
+    winGammon: gammon,
+    winBackgammon: backgammon,
+    loseGammon: 0,
+    loseBackgammon: 0,
+  };
+  return winner === player ? result : invertEvaluation(result);
+}
+
+/**
+ * Judge a position with the opponent to roll, using `evaluator` when the
+ * game is not over. Convenience for callers holding a post-move state.
+ */
+export function evaluateAfterMove(
+  evaluator: Evaluator,
+  state: GameState,
+  player: Player,
+): Evaluation {
+  return getFinalEvaluation(state, player) ?? evaluator.evaluate(state, player);
+}
+
+/**
+ * Judge a position for the player about to roll (before their move), by
+ * evaluating it from the side of the opponent who just moved.
+ */
+export function evaluateOnRoll(
+  evaluator: Evaluator,
+  state: GameState,
+): Evaluation {
+  const player = state.currentPlayer;
+  return invertEvaluation(evaluateAfterMove(evaluator, state, opponent(player)));
+}
+
+/**
+ * The turn whose resulting position `evaluator` likes best for the player
+ * on roll (by cubeless equity). Empty when nothing can be moved.
+ */
+export function selectBestTurn(evaluator: Evaluator, state: GameState): Move[] {
+  const player = state.currentPlayer;
+  let bestMoves: Move[] = [];
+  let bestEquity = -Infinity;
+
+  for (const { moves, state: resultState } of getDistinctTurns(state)) {
+    const equity = getEquity(evaluateAfterMove(evaluator, resultState, player));
+    if (equity > bestEquity) {
+      bestEquity = equity;
+      bestMoves = moves;
+    }
+  }
+
+  return bestMoves;
+}
+
+// Fitted against the shipped network on self-play positions: the score
+// that makes the game even with the opponent to roll, and its spread
+const HEURISTIC_EVEN_SCORE = 55;
+const HEURISTIC_SCALE = 96;
+// Share of wins that are gammons per loser checker outside its home board
+const GAMMON_SHARE_PER_CHECKER = 0.03;
+
+/** Gammon share of a win for `player`, from how far back the loser is. */
+function estimateGammonShare(state: GameState, player: Player): number {
+  const loser = opponent(player);
+  if (state.borneOff[loser] > 0) return 0;
+  const home = (i: number) =>
+    i >= HOME_BOARD_START[loser] && i <= HOME_BOARD_END[loser];
+  let outside = state.bar[loser];
+  state.points.forEach((point, i) => {
+    if (point?.player === loser && !home(i)) outside += point.count;
+  });
+  return Math.min(1, outside * GAMMON_SHARE_PER_CHECKER);
+}
+
+/**
+ * Wraps Selector's hand-tuned evaluateBoard score as win chances, so the
+ * heuristic can be used wherever an Evaluator is expected. Gammons are a
+ * rough estimate and backgammons are left out.
+ */
+export class HeuristicEvaluator implements Evaluator {
+  evaluate(state: GameState, player: Player): Evaluation {
+    const score = evaluateBoard(state, player);
+    const win = 1 / (1 + Math.exp(-(score - HEURISTIC_EVEN_SCORE) / HEURISTIC_SCALE));
+    return {
+      win,
+      winGammon: win * estimateGammonShare(state, player),
+      winBackgammon: 0,
+      loseGammon: (1 - win) * estimateGammonShare(state, opponent(player)),
+      loseBackgammon: 0,
+    };
+  }
+}
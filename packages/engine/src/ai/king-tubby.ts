@@ -1,8 +1,10 @@
 import { Player, type GameState, type Move } from "../types.js";
-import type { AIPlayer } from "./types.js";
 import { getAllLegalTurns } from "./turn-generator.js";
-import { applyMove, opponent } from "../moves.js";
+import { applyMove } from "../moves.js";
 import { evaluateBoard } from "./selector.js";
+import { selectBestTurn, HeuristicEvaluator } from "./evaluator.js";
+import { isRace, type BearoffDatabases } from "./race.js";
+import { EvaluatingAI } from "./evaluating-ai.js";
 import { rollDice } from "../dice.js";
 import { endTurn } from "../turn.js";
 
@@ -11,15 +13,26 @@ import { endTurn } from "../turn.js";
  *
  * Uses minimax with alpha-beta pruning to look ahead 2 plies.
  * Uses Selector's evaluation function at leaf nodes.
+ * Cube decisions come from the same heuristic's win and gammon chances.
+ * Given bearoff databases, races skip the search: the databases pick the
+ * move and take the cube decisions.
  * Must complete within 2 seconds.
  */
-export class KingTubby implements AIPlayer {
+export class KingTubby extends EvaluatingAI {
   name = "King Tubby";
   difficulty = "hard" as const;
   private maxDepth = 2;
   private timeLimit = 1800; // ms, slightly under 2s for safety
 
+  constructor(databases?: BearoffDatabases) {
+    super(new HeuristicEvaluator(), databases);
+  }
+
   selectMoves(state: GameState): Move[] {
+    if (this.hasDatabases && isRace(state)) {
+      return selectBestTurn(this.evaluator, state);
+    }
+
     const turns = getAllLegalTurns(state);
     if (turns.length === 0 || (turns.length === 1 && turns[0].length === 0)) {
       return [];
@@ -194,17 +207,6 @@ export class KingTubby implements AIPlayer {
 
     return totalWeight > 0 ? totalScore / totalWeight : evaluateBoard(state, perspective);
   }
-
-  shouldDouble(state: GameState): boolean {
-    const score = evaluateBoard(state, state.currentPlayer);
-    return score > 40;
-  }
-
-  shouldAcceptDouble(state: GameState): boolean {
-    // Use the standard 25% equity threshold for acceptance
-    const score = evaluateBoard(state, opponent(state.currentPlayer));
-    return score > -60;
-  }
 }
 
 /**
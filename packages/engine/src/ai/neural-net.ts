@@ -0,0 +1,181 @@
+import { Player, type GameState } from "../types.js";
+import { POINTS_COUNT, PIECES_PER_PLAYER } from "../constants.js";
+import { opponent } from "../moves.js";
+import { fromPlayerPoint } from "../notation.js";
+import type { Evaluation, Evaluator } from "./evaluator.js";
+
+// Standard Tesauro encoding: four units per point per side, then bar and off
+export const INPUT_SIZE = 196;
+export const OUTPUT_SIZE = 5;
+
+/** Weights as stored in JSON. Hidden and output layers use sigmoid units. */
+export interface NetworkWeights {
+  inputs: number;
+  hidden: number;
+  outputs: number;
+  hiddenWeights: number[][]; // [hidden][inputs]
+  hiddenBias: number[];
+  outputWeights: number[][]; // [outputs][hidden]
+  outputBias: number[];
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Encode a position for the net from `player`'s side. For each side (the
+ * player first) and each of its points counted from its own ace point,
+ * the units are: 1+ checkers, 2+, 3+, and (n - 3) / 2 for the rest.
+ * Each side then gets bar / 2 and borne off / 15.
+ */
+export function encodeInputs(state: GameState, player: Player): number[] {
+  const inputs: number[] = [];
+
+  for (const side of [player, opponent(player)]) {
+    for (let point = 1; point <= POINTS_COUNT; point++) {
+      const p = state.points[fromPlayerPoint(point, side)];
+      const n = p && p.player === side ? p.count : 0;
+      inputs.push(
+        n >= 1 ? 1 : 0,
+        n >= 2 ? 1 : 0,
+        n >= 3 ? 1 : 0,
+        n > 3 ? (n - 3) / 2 : 0,
+      );
+    }
+    inputs.push(state.bar[side] / 2, state.borneOff[side] / PIECES_PER_PLAYER);
+  }
+
+  return inputs;
+}
+
+/**
+ * A small fully connected network with one hidden layer, evaluated in
+ * plain TypeScript.
+ */
+export class NeuralNetwork {
+  readonly inputs: number;
+  readonly hidden: number;
+  readonly outputs: number;
+  hiddenWeights: number[][];
+  hiddenBias: number[];
+  outputWeights: number[][];
+  outputBias: number[];
+
+  constructor(weights: NetworkWeights) {
+    if (
+      weights.hiddenWeights.length !== weights.hidden ||
+      weights.hiddenWeights.some((row) => row.length !== weights.inputs) ||
+      weights.outputWeights.length !== weights.outputs ||
+      weights.outputWeights.some((row) => row.length !== weights.hidden)
+    ) {
+      throw new Error("Network weights do not match the declared layer sizes.");
+    }
+    this.inputs = weights.inputs;
+    this.hidden = weights.hidden;
+    this.outputs = weights.outputs;
+    this.hiddenWeights = weights.hiddenWeights.map((row) => [...row]);
+    this.hiddenBias = [...weights.hiddenBias];
+    this.outputWeights = weights.outputWeights.map((row) => [...row]);
+    this.outputBias = [...weights.outputBias];
+  }
+
+  /**
+   * A network with small random weights, the starting point for training.
+   */
+  static random(
+    hidden: number,
+    random: () => number = Math.random,
+    inputs = INPUT_SIZE,
+    outputs = OUTPUT_SIZE,
+  ): NeuralNetwork {
+    const init = () => (random() - 0.5) * 0.2;
+    return new NeuralNetwork({
+      inputs,
+      hidden,
+      outputs,
+      hiddenWeights: Array.from({ length: hidden }, () =>
+        Array.from({ length: inputs }, init),
+      ),
+      hiddenBias: Array.from({ length: hidden }, init),
+      outputWeights: Array.from({ length: outputs }, () =>
+        Array.from({ length: hidden }, init),
+      ),
+      outputBias: Array.from({ length: outputs }, init),
+    });
+  }
+
+  /** Hidden-layer activations for the given inputs. */
+  activateHidden(inputs: number[]): number[] {
+    const hidden = new Array<number>(this.hidden);
+    for (let h = 0; h < this.hidden; h++) {
+      const w = this.hiddenWeights[h];
+      let sum = this.hiddenBias[h];
+      for (let i = 0; i < this.inputs; i++) {
+        // Most inputs are zero, so skipping them roughly halves the work
+        if (inputs[i] !== 0) sum += w[i] * inputs[i];
+      }
+      hidden[h] = sigmoid(sum);
+    }
+    return hidden;
+  }
+
+  /** Output activations for the given hidden-layer activations. */
+  activateOutputs(hidden: number[]): number[] {
+    const outputs = new Array<number>(this.outputs);
+    for (let o = 0; o < this.outputs; o++) {
+      const w = this.outputWeights[o];
+      let sum = this.outputBias[o];
+      for (let h = 0; h < this.hidden; h++) sum += w[h] * hidden[h];
+      outputs[o] = sigmoid(sum);
+    }
+    return outputs;
+  }
+
+  forward(inputs: number[]): number[] {
+    return this.activateOutputs(this.activateHidden(inputs));
+  }
+
+  toJSON(): NetworkWeights {
+    return {
+      inputs: this.inputs,
+      hidden: this.hidden,
+      outputs: this.outputs,
+      hiddenWeights: this.hiddenWeights,
+      hiddenBias: this.hiddenBias,
+      outputWeights: this.outputWeights,
+      outputBias: this.outputBias,
+    };
+  }
+}
+
+/**
+ * Evaluator backed by a NeuralNetwork whose five outputs are, in order:
+ * win, win gammon, win backgammon, lose gammon, lose backgammon.
+ */
+export class NeuralEvaluator implements Evaluator {
+  readonly network: NeuralNetwork;
+
+  constructor(network: NeuralNetwork | NetworkWeights) {
+    this.network =
+      network instanceof NeuralNetwork ? network : new NeuralNetwork(network);
+    if (this.network.inputs !== INPUT_SIZE || this.network.outputs !== OUTPUT_SIZE) {
+      throw new Error(
+        `Expected a ${INPUT_SIZE}-input, ${OUTPUT_SIZE}-output network.`,
+      );
+    }
+  }
+
+  evaluate(state: GameState, player: Player): Evaluation {
+    const [win, winGammon, winBackgammon, loseGammon, loseBackgammon] =
+      this.network.forward(encodeInputs(state, player));
+    // Keep the nested chances consistent even when the net is not
+    return {
+      win,
+      winGammon: Math.min(winGammon, win),
+      winBackgammon: Math.min(winBackgammon, winGammon, win),
+      loseGammon: Math.min(loseGammon, 1 - win),
+      loseBackgammon: Math.min(loseBackgammon, loseGammon, 1 - win),
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { Player, type GameState } from "../types.js";
+import { POINTS_COUNT } from "../constants.js";
+import { opponent } from "../moves.js";
+import { toPlayerPoint } from "../notation.js";
+import {
+  BEAROFF_POINTS,
+  DISTINCT_ROLLS,
+  getBearoffPosition,
+  type BearoffPosition,
+  type OneSidedBearoff,
+  type TwoSidedBearoff,
+} from "./bearoff.js";
+import type { Evaluation, Evaluator } from "./evaluator.js";
+
+/** The databases an AI consults once contact is broken. */
+export interface BearoffDatabases {
+  oneSided: OneSidedBearoff;
+  twoSided?: TwoSidedBearoff;
+}
+
+// Pips moved by one roll: mean and variance over all 36 rolls
+const ROLL_PIPS = DISTINCT_ROLLS.map(({ dice, probability }) => ({
+  pips: dice.reduce((sum, die) => sum + die, 0),
+  probability,
+}));
+const AVERAGE_ROLL = ROLL_PIPS.reduce((sum, r) => sum + r.probability * r.pips, 0);
+const ROLL_VARIANCE = ROLL_PIPS.reduce(
+  (sum, r) => sum + r.probability * (r.pips - AVERAGE_ROLL) ** 2,
+  0,
+);
+
+// How many rolls a side needs for something, as a mean and variance
+interface RollEstimate {
+  mean: number;
+  variance: number;
+}
+
+/**
+ * Whether contact is broken: nobody is on the bar and every Gold checker
+ * has passed every Red one, so neither side can hit or block again.
+ */
+export function isRace(state: GameState): boolean {
+  if (state.bar[Player.Gold] > 0 || state.bar[Player.Red] > 0) return false;
+  // Gold moves up the board and Red down
+  let lowestGold = POINTS_COUNT;
+  let highestRed = -1;
+  state.points.forEach((point, i) => {
+    if (point?.player === Player.Gold) lowestGold = Math.min(lowestGold, i);
+    if (point?.player === Player.Red) highestRed = Math.max(highestRed, i);
+  });
+  return lowestGold > highestRed;
+}
+
+/** Standard normal distribution function (Abramowitz and Stegun 26.2.17). */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Chance that `a` takes fewer rolls than `b`, with both taken as normal
+ * and `b` rolling first (so a tie goes to `b`).
+ */
+function chanceFewerRolls(a: RollEstimate, b: RollEstimate): number {
+  const spread = Math.sqrt(a.variance + b.variance);
+  const margin = b.mean - a.mean - 0.5;
+  if (spread === 0) return margin > 0 ? 1 : 0;
+  return normalCdf(margin / spread);
+}
+
+/**
+ * Rolls `side` needs to bear off. Checkers outside the home board are
+ * first walked to the 6-point at the average roll, then the bearoff is
+ * read from the database as if they were already there, which keeps the
+ * database's wastage in the estimate.
+ */
+function estimateRolls(
+  oneSided: OneSidedBearoff,
+  state: GameState,
+  side: Player,
+): RollEstimate | null {
+  const home: BearoffPosition = new Array<number>(BEAROFF_POINTS).fill(0);
+  let travel = 0;
+  state.points.forEach((point, i) => {
+    if (point?.player !== side) return;
+    const distance = toPlayerPoint(i, side);
+    home[Math.min(distance, BEAROFF_POINTS) - 1] += point.count;
+    travel += Math.max(0, distance - BEAROFF_POINTS) * point.count;
+  });
+  if (!oneSided.covers(home)) return null;
+
+  const bearoff = oneSided.getRollStatistics(home);
+  return {
+    mean: bearoff.mean + travel / AVERAGE_ROLL,
+    // Rolls to cover n pips vary by about n * var / mean^3
+    variance: bearoff.variance + (travel * ROLL_VARIANCE) / AVERAGE_ROLL ** 3,
+  };
+}
+
+/**
+ * Rolls `side` needs to bear off its first checker, or null once it has
+ * (no gammon left to lose). Bringing the last checker home is walked at
+ * the average roll, plus about half a roll to get one off.
+ */
+function estimateRollsToSaveGammon(state: GameState, side: Player): RollEstimate | null {
+  if (state.borneOff[side] > 0) return null;
+  let travel = 0;
+  state.points.forEach((point, i) => {
+    if (point?.player !== side) return;
+    travel += Math.max(0, toPlayerPoint(i, side) - BEAROFF_POINTS) * point.count;
+  });
+  if (travel === 0) return null;
+  return {
+    mean: travel / AVERAGE_ROLL + 0.5,
+    variance: (travel * ROLL_VARIANCE) / AVERAGE_ROLL ** 3,
+  };
+}
+
+/**
+ * Chances in a race for `player`, who has just moved, with the opponent
+ * on roll. Null if the position is not a race or the databases can't
+ * place it.
+ *
+ * - Both sides in the two-sided database: exact, no gammons possible.
+ * - Both sides bearing off: the one-sided roll distributions, combined
+ *   exactly. Gammons are left out; a side with every checker home gets
+ *   one off at once with almost any roll.
+ * - Otherwise: each side's rolls to finish as a normal estimate built
+ *   on the one-sided database, gammons included.
+ */
+export function evaluateRace(
+  databases: BearoffDatabases,
+  state: GameState,
+  player: Player,
+): Evaluation | null {
+  if (!isRace(state)) return null;
+  const { oneSided, twoSided } = databases;
+  const opp = opponent(player);
+  const mine = getBearoffPosition(state, player);
+  const theirs = getBearoffPosition(state, opp);
+
+  if (mine && theirs && twoSided?.covers(theirs, mine)) {
+    return onlyWins(1 - twoSided.getWinChance(theirs, mine));
+  }
+
+  if (mine && theirs && oneSided.covers(mine) && oneSided.covers(theirs)) {
+    const myRolls = oneSided.getRollDistribution(mine);
+    const theirRolls = oneSided.getRollDistribution(theirs);
+    // They roll first, so they win if they need no more rolls than we do
+    let win = 0;
+    let theirsLonger = 1;
+    for (let rolls = 0; rolls < myRolls.length; rolls++) {
+      theirsLonger -= theirRolls[rolls] ?? 0;
+      win += myRolls[rolls] * Math.max(0, theirsLonger);
+    }
+    return onlyWins(win);
+  }
+
+  const myRolls = estimateRolls(oneSided, state, player);
+  const theirRolls = estimateRolls(oneSided, state, opp);
+  if (!myRolls || !theirRolls) return null;
+  const win = chanceFewerRolls(myRolls, theirRolls);
+
+  const theirSave = estimateRollsToSaveGammon(state, opp);
+  const mySave = estimateRollsToSaveGammon(state, player);
+  return {
+    win,
+    winGammon: theirSave ? Math.min(win, chanceFewerRolls(myRolls, theirSave)) : 0,
+    winBackgammon: 0,
+    // They gammon us by finishing no later than our first checker comes off
+    loseGammon: mySave ? Math.min(1 - win, 1 - chanceFewerRolls(mySave, theirRolls)) : 0,
+    loseBackgammon: 0,
+  };
+}
+
+function onlyWins(win: number): Evaluation {
+  return { win, winGammon: 0, winBackgammon: 0, loseGammon: 0, loseBackgammon: 0 };
+}
+
+/**
+ * Judges races with the bearoff databases and everything else with
+ * `fallback`. Wrap any evaluator in one to have it play races and
+ * bearoffs (nearly) perfectly and take race cube decisions on the
+ * database's numbers.
+ */
+export class RaceEvaluator implements Evaluator {
+  readonly databases: BearoffDatabases;
+  readonly fallback: Evaluator;
+
+  constructor(databases: BearoffDatabases, fallback: Evaluator) {
+    this.databases = databases;
+    this.fallback = fallback;
+  }
+
+  evaluate(state: GameState, player: Player): Evaluation {
+    return evaluateRace(this.databases, state, player) ?? this.fallback.evaluate(state, player);
+  }
+}
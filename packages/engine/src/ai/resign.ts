@@ -0,0 +1,43 @@
+import type { GameState, WinType } from "../types.js";
+import { opponent } from "../moves.js";
+import { getPointsWon } from "../winner.js";
+import { getMatchEquityAfterGame } from "../match-equity.js";
+import { isMoneyGame } from "./cube.js";
+import type { Evaluation } from "./evaluator.js";
+
+const WIN_TYPES: WinType[] = ["ya_mon", "big_ya_mon", "massive_ya_mon"];
+
+/**
+ * Whether the opponent of the player on roll should accept their offer to
+ * resign `winType`. `e` is the resigning player's chances before rolling.
+ *
+ * The offered result is compared with playing on, both valued for the
+ * opponent in points (money game) or match winning chances (match).
+ * Playing on is valued cubeless, which slightly undervalues it for the
+ * player holding the cube, so a borderline offer is accepted.
+ */
+export function shouldAcceptResignation(
+  state: GameState,
+  e: Evaluation,
+  winType: WinType,
+): boolean {
+  const resigner = state.currentPlayer;
+  const player = opponent(resigner);
+  const cube = state.doublingCube.value;
+  const value = (winner: typeof player, type: WinType) => {
+    const points = getPointsWon(type, cube);
+    if (isMoneyGame(state)) return winner === player ? points : -points;
+    return getMatchEquityAfterGame(state, player, winner, points);
+  };
+  const [single, gammon, backgammon] = WIN_TYPES;
+
+  const playOn =
+    (1 - e.win - e.loseGammon) * value(player, single) +
+    (e.loseGammon - e.loseBackgammon) * value(player, gammon) +
+    e.loseBackgammon * value(player, backgammon) +
+    (e.win - e.winGammon) * value(resigner, single) +
+    (e.winGammon - e.winBackgammon) * value(resigner, gammon) +
+    e.winBackgammon * value(resigner, backgammon);
+
+  return value(player, winType) >= playOn;
+}
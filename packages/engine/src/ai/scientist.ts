@@ -0,0 +1,22 @@
+import type { GameState, Move } from "../types.js";
+import { selectBestTurn } from "./evaluator.js";
+import { EvaluatingAI } from "./evaluating-ai.js";
+
+/**
+ * Scientist - Expert AI
+ *
+ * Plays every distinct legal turn, scores each resulting position with an
+ * Evaluator (normally a NeuralEvaluator trained by self-play) and keeps
+ * the one with the best cubeless equity. Cube decisions feed the
+ * evaluator's win and gammon chances for the player on roll into
+ * getCubeDecision. Given bearoff databases, races are judged from those
+ * instead.
+ */
+export class Scientist extends EvaluatingAI {
+  name = "Scientist";
+  difficulty = "expert" as const;
+
+  selectMoves(state: GameState): Move[] {
+    return selectBestTurn(this.evaluator, state);
+  }
+}
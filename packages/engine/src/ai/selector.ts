@@ -1,6 +1,8 @@
 import { Player, type GameState, type Move } from "../types.js";
-import type { AIPlayer } from "./types.js";
 import { getAllLegalTurns } from "./turn-generator.js";
+import { selectBestTurn, HeuristicEvaluator } from "./evaluator.js";
+import { isRace, type BearoffDatabases } from "./race.js";
+import { EvaluatingAI } from "./evaluating-ai.js";
 import { applyMove, opponent } from "../moves.js";
 import {
   HOME_BOARD_START,
@@ -21,12 +23,23 @@ import {
  * +5 per piece in home board
  * -20 per piece on bar
  * +3 per pip count advantage
+ *
+ * Given bearoff databases, races are played and doubled from those.
  */
-export class Selector implements AIPlayer {
+export class Selector extends EvaluatingAI {
   name = "Selecta";
   difficulty = "medium" as const;
 
+  constructor(databases?: BearoffDatabases) {
+    // Cube decisions read the same heuristic as win and gammon chances
+    super(new HeuristicEvaluator(), databases);
+  }
+
   selectMoves(state: GameState): Move[] {
+    if (this.hasDatabases && isRace(state)) {
+      return selectBestTurn(this.evaluator, state);
+    }
+
     const turns = getAllLegalTurns(state);
     if (turns.length === 0 || (turns.length === 1 && turns[0].length === 0)) {
       return [];
@@ -51,18 +64,6 @@ export class Selector implements AIPlayer {
 
     return bestTurn;
   }
-
-  shouldDouble(state: GameState): boolean {
-    // Double if we have a significant advantage
-    const score = evaluateBoard(state, state.currentPlayer);
-    return score > 50;
-  }
-
-  shouldAcceptDouble(state: GameState): boolean {
-    // Accept if we're not too far behind
-    const score = evaluateBoard(state, opponent(state.currentPlayer));
-    return score > -80;
-  }
 }
 
 /**
@@ -0,0 +1,161 @@
+import { Player, type GameState } from "../types.js";
+import { createInitialState } from "../state.js";
+import { createSeededDice, rollDice } from "../dice.js";
+import { applyMove } from "../moves.js";
+import { endTurn } from "../turn.js";
+import { getFinalEvaluation, type Evaluation } from "./evaluator.js";
+import { encodeInputs, NeuralEvaluator, type NeuralNetwork } from "./neural-net.js";
+import { Scientist } from "./scientist.js";
+
+export interface TDTrainingOptions {
+  games: number;
+  seed: number;
+  alpha?: number; // Learning rate (default 0.1)
+  lambda?: number; // Trace decay (default 0.7)
+  onGame?: (gameNumber: number, turns: number) => void;
+}
+
+// Eligibility traces: the decayed sum of past output gradients, one set
+// per output, laid out to match the network's weight arrays
+interface Traces {
+  hiddenWeights: Float64Array; // [outputs][hidden][inputs]
+  hiddenBias: Float64Array; // [outputs][hidden]
+  outputWeights: Float64Array; // [outputs][hidden]
+  outputBias: Float64Array; // [outputs]
+}
+
+function createTraces(net: NeuralNetwork): Traces {
+  return {
+    hiddenWeights: new Float64Array(net.outputs * net.hidden * net.inputs),
+    hiddenBias: new Float64Array(net.outputs * net.hidden),
+    outputWeights: new Float64Array(net.outputs * net.hidden),
+    outputBias: new Float64Array(net.outputs),
+  };
+}
+
+function toOutputs(e: Evaluation): number[] {
+  return [e.win, e.winGammon, e.winBackgammon, e.loseGammon, e.loseBackgammon];
+}
+
+/** traces = lambda * traces + gradient of every output at `inputs`. */
+function accumulateTraces(
+  net: NeuralNetwork,
+  traces: Traces,
+  inputs: number[],
+  lambda: number,
+): number[] {
+  const hidden = net.activateHidden(inputs);
+  const outputs = net.activateOutputs(hidden);
+
+  for (const trace of Object.values(traces) as Float64Array[]) {
+    for (let i = 0; i < trace.length; i++) trace[i] *= lambda;
+  }
+
+  for (let o = 0; o < net.outputs; o++) {
+    const dOut = outputs[o] * (1 - outputs[o]);
+    traces.outputBias[o] += dOut;
+    for (let h = 0; h < net.hidden; h++) {
+      traces.outputWeights[o * net.hidden + h] += dOut * hidden[h];
+      const dHidden = dOut * net.outputWeights[o][h] * hidden[h] * (1 - hidden[h]);
+      traces.hiddenBias[o * net.hidden + h] += dHidden;
+      const row = (o * net.hidden + h) * net.inputs;
+      for (let i = 0; i < net.inputs; i++) {
+        if (inputs[i] !== 0) traces.hiddenWeights[row + i] += dHidden * inputs[i];
+      }
+    }
+  }
+
+  return outputs;
+}
+
+/** Move every weight by alpha * sum over outputs of error * trace. */
+function applyTraces(
+  net: NeuralNetwork,
+  traces: Traces,
+  errors: number[],
+  alpha: number,
+): void {
+  for (let o = 0; o < net.outputs; o++) {
+    const step = alpha * errors[o];
+    if (step === 0) continue;
+    net.outputBias[o] += step * traces.outputBias[o];
+    for (let h = 0; h < net.hidden; h++) {
+      net.outputWeights[o][h] += step * traces.outputWeights[o * net.hidden + h];
+      net.hiddenBias[h] += step * traces.hiddenBias[o * net.hidden + h];
+      const weights = net.hiddenWeights[h];
+      const row = (o * net.hidden + h) * net.inputs;
+      for (let i = 0; i < net.inputs; i++) {
+        weights[i] += step * traces.hiddenWeights[row + i];
+      }
+    }
+  }
+}
+
+/**
+ * Train `network` in place with TD(lambda) self-play. The network plays
+ * both sides greedily through a Scientist and learns to predict each
+ * position's outcome from the next one. Each side keeps its own traces
+ * over the positions it reaches after moving, since the network always
+ * judges a position for the player who just moved. Games are cubeless.
+ */
+export function trainTD(network: NeuralNetwork, options: TDTrainingOptions): void {
+  const alpha = options.alpha ?? 0.1;
+  const lambda = options.lambda ?? 0.7;
+  const source = createSeededDice(options.seed);
+  const ai = new Scientist(new NeuralEvaluator(network));
+
+  for (let game = 1; game <= options.games; game++) {
+    const traces = {
+      [Player.Gold]: createTraces(network),
+      [Player.Red]: createTraces(network),
+    } as Record<Player, Traces>;
+    const previous = { [Player.Gold]: null, [Player.Red]: null } as Record<
+      Player,
+      number[] | null
+    >;
+
+    let goldDie: number;
+    let redDie: number;
+    do {
+      goldDie = source.rollDie();
+      redDie = source.rollDie();
+    } while (goldDie === redDie);
+
+    let state: GameState = createInitialState();
+    state.currentPlayer = goldDie > redDie ? Player.Gold : Player.Red;
+    let dice = rollDice([goldDie, redDie]);
+    let turns = 0;
+
+    for (;;) {
+      turns++;
+      const mover = state.currentPlayer;
+      state = { ...state, phase: "MOVING", dice };
+      state = ai.selectMoves(state).reduce(applyMove, state);
+
+      const final = getFinalEvaluation(state, mover);
+      if (final) {
+        // Both sides learn the real result for their last position
+        for (const player of [Player.Gold, Player.Red]) {
+          const last = previous[player];
+          if (!last) continue;
+          const target = toOutputs(getFinalEvaluation(state, player)!);
+          applyTraces(network, traces[player], target.map((t, o) => t - last[o]), alpha);
+        }
+        break;
+      }
+
+      const inputs = encodeInputs(state, mover);
+      const last = previous[mover];
+      if (last) {
+        const current = network.forward(inputs);
+        applyTraces(network, traces[mover], current.map((c, o) => c - last[o]), alpha);
+      }
+      previous[mover] = accumulateTraces(network, traces[mover], inputs, lambda);
+
+      state = endTurn(state);
+      dice = rollDice(undefined, source);
+    }
+
+    options.onGame?.(game, turns);
+  }
+}
@@ -69,6 +69,72 @@ export function getAllLegalTurns(state: GameState): Move[][] {
   return uniqueTurns;
 }
 
+export interface TurnResult {
+  moves: Move[];
+  state: GameState; // Position after the moves, still in the MOVING phase
+}
+
+/** Identifies a position together with the dice still to play. */
+function positionKey(state: GameState): string {
+  const points = state.points
+    .map((p) => (p ? `${p.player === "gold" ? "" : "-"}${p.count}` : "0"))
+    .join(",");
+  return `${points}|${state.bar.gold},${state.bar.red}|${state.borneOff.gold},${state.borneOff.red}|${state.dice?.remaining.join("")}`;
+}
+
+/**
+ * Like getAllLegalTurns, but returns each distinct resulting position once,
+ * together with one turn that reaches it. Move orders that lead to the same
+ * position are explored only once, which makes doubles far cheaper. Use this
+ * when only the outcome of a turn matters, e.g. when evaluating positions.
+ */
+export function getDistinctTurns(state: GameState): TurnResult[] {
+  const leaves: TurnResult[] = [];
+  const visited = new Set<string>();
+
+  function explore(currentState: GameState, movesSoFar: Move[]): void {
+    const key = positionKey(currentState);
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const legalMoves = getLegalMoves(currentState);
+    if (legalMoves.length === 0) {
+      leaves.push({ moves: [...movesSoFar], state: currentState });
+      return;
+    }
+
+    for (const move of legalMoves) {
+      movesSoFar.push(move);
+      explore(applyMove(currentState, move), movesSoFar);
+      movesSoFar.pop();
+    }
+  }
+
+  explore(state, []);
+
+  // Same rules as getAllLegalTurns: use as many dice as possible, and the
+  // higher die when only one can be played
+  const maxMoves = Math.max(...leaves.map((t) => t.moves.length));
+  let results = leaves.filter((t) => t.moves.length === maxMoves);
+
+  if (maxMoves === 1 && state.dice && state.dice.remaining.length >= 2) {
+    const maxDie = Math.max(...state.dice.remaining);
+    const usingHigherDie = results.filter(
+      (t) => getDieUsedForMove(state, t.moves[0]) === maxDie,
+    );
+    if (usingHigherDie.length > 0) results = usingHigherDie;
+  }
+
+  // Different move sets can still end on the same position
+  const seen = new Set<string>();
+  return results.filter((t) => {
+    const key = positionKey(t.state);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
 /**
  * Determine which die value a move uses.
  */
@@ -1,9 +1,10 @@
-import type { GameState, Move } from "../types.js";
+import type { GameState, Move, WinType } from "../types.js";
 
 export interface AIPlayer {
   name: string;
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: "easy" | "medium" | "hard" | "expert";
   selectMoves(state: GameState): Move[];
   shouldDouble(state: GameState): boolean;
   shouldAcceptDouble(state: GameState): boolean;
+  shouldAcceptResignation(state: GameState, winType: WinType): boolean;
 }
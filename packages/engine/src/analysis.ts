@@ -0,0 +1,171 @@
+import { Player, type GameEvent, type GameState, type Move } from "./types.js";
+import { cloneState } from "./state.js";
+import { applyGameEvent } from "./replay.js";
+import { getDistinctTurns } from "./ai/turn-generator.js";
+import { evaluateAfterMove, getEquity, type Evaluator } from "./ai/evaluator.js";
+
+// Cubeless equity a turn may give up before it counts as an error, and
+// as a blunder
+export const ERROR_THRESHOLD = 0.04;
+export const BLUNDER_THRESHOLD = 0.08;
+
+// A performance rating is the average equity lost per decision, times this
+const PERFORMANCE_RATING_SCALE = 500;
+
+/** A complete turn and the cubeless equity it leaves the player with. */
+export interface RankedTurn {
+  moves: Move[];
+  equity: number;
+  equityLoss: number; // Behind the best turn
+}
+
+/** How a turn compares to the best one available. */
+export type MoveRating = "forced" | "good" | "error" | "blunder";
+
+/** One turn of checker play, judged against every alternative. */
+export interface TurnAnalysis {
+  player: Player;
+  position: GameState; // Before the turn, with the dice rolled
+  moves: Move[]; // As played
+  bestMoves: Move[];
+  equity: number; // Cubeless equity for `player` after the played turn
+  bestEquity: number;
+  equityLoss: number; // bestEquity - equity, never negative
+  rating: MoveRating;
+}
+
+export interface PlayerAnalysis {
+  decisions: number; // Turns with more than one distinct outcome
+  equityLoss: number; // Total over those turns
+  errors: number; // Errors, not counting blunders
+  blunders: number;
+  performanceRating: number; // 0 for perfect play; lower is better
+}
+
+export interface GameAnalysis {
+  turns: TurnAnalysis[];
+  players: Record<Player, PlayerAnalysis>;
+}
+
+/**
+ * Every distinct turn the player on roll can play from `state`, best
+ * first, scored by `evaluator`. Works part way through a turn too, for
+ * the dice still to play. Pass `limit` to keep only the top few.
+ */
+export function rankTurns(
+  evaluator: Evaluator,
+  state: GameState,
+  limit = Infinity,
+): RankedTurn[] {
+  const player = state.currentPlayer;
+  const scored = getDistinctTurns(state)
+    .map(({ moves, state: result }) => ({
+      moves,
+      equity: getEquity(evaluateAfterMove(evaluator, result, player)),
+    }))
+    .sort((a, b) => b.equity - a.equity);
+
+  const bestEquity = scored[0].equity;
+  return scored
+    .slice(0, limit)
+    .map((turn) => ({ ...turn, equityLoss: bestEquity - turn.equity }));
+}
+
+/** Rate a turn by the equity it gave up. */
+export function rateEquityLoss(equityLoss: number): MoveRating {
+  if (equityLoss >= BLUNDER_THRESHOLD) return "blunder";
+  if (equityLoss >= ERROR_THRESHOLD) return "error";
+  return "good";
+}
+
+/**
+ * Judge one turn: play every distinct legal turn from `position`, score
+ * each resulting position with `evaluator` and compare the played one
+ * (ending on `result`) with the best. Only the checker play is judged;
+ * the cube is left out.
+ */
+export function analyzeTurn(
+  evaluator: Evaluator,
+  position: GameState,
+  moves: Move[],
+  result: GameState,
+): TurnAnalysis {
+  const player = position.currentPlayer;
+  const equity = getEquity(evaluateAfterMove(evaluator, result, player));
+  const options = rankTurns(evaluator, position);
+
+  // The played turn is one of the options, so only a better one replaces it
+  const [best] = options;
+  const bestMoves = best.equity > equity ? best.moves : moves;
+  const bestEquity = Math.max(best.equity, equity);
+  const equityLoss = bestEquity - equity;
+  return {
+    player,
+    position,
+    moves,
+    bestMoves,
+    equity,
+    bestEquity,
+    equityLoss,
+    rating: options.length > 1 ? rateEquityLoss(equityLoss) : "forced",
+  };
+}
+
+/**
+ * Analyse every turn of checker play in a recorded game (as stored for
+ * replays) and sum up how well each player did. Turns in which nothing
+ * could be moved, and a turn cut short by a forfeit or an accepted
+ * resignation, are skipped.
+ */
+export function analyzeGame(
+  evaluator: Evaluator,
+  initialState: GameState,
+  events: GameEvent[],
+): GameAnalysis {
+  const turns: TurnAnalysis[] = [];
+  let state = cloneState(initialState);
+  let turn: { position: GameState; moves: Move[] } | null = null;
+
+  for (const event of events) {
+    const next = applyGameEvent(state, event);
+
+    if (event.type === "move") {
+      turn ??= { position: state, moves: [] };
+      turn.moves.push(event.move);
+      // Bearing off the last piece ends the turn without an end-turn event
+      if (next.phase === "GAME_OVER") {
+        turns.push(analyzeTurn(evaluator, turn.position, turn.moves, next));
+        turn = null;
+      }
+    } else if (event.type === "end-turn") {
+      if (turn) turns.push(analyzeTurn(evaluator, turn.position, turn.moves, state));
+      turn = null;
+    } else if (event.type !== "resign" && event.type !== "reject-resignation") {
+      // Anything else that happens mid-turn ends the game
+      turn = null;
+    }
+
+    state = next;
+  }
+
+  return {
+    turns,
+    players: {
+      [Player.Gold]: summarizePlayer(turns, Player.Gold),
+      [Player.Red]: summarizePlayer(turns, Player.Red),
+    },
+  };
+}
+
+function summarizePlayer(turns: TurnAnalysis[], player: Player): PlayerAnalysis {
+  const decisions = turns.filter((t) => t.player === player && t.rating !== "forced");
+  const equityLoss = decisions.reduce((sum, t) => sum + t.equityLoss, 0);
+  return {
+    decisions: decisions.length,
+    equityLoss,
+    errors: decisions.filter((t) => t.rating === "error").length,
+    blunders: decisions.filter((t) => t.rating === "blunder").length,
+    performanceRating:
+      decisions.length > 0 ? (PERFORMANCE_RATING_SCALE * equityLoss) / decisions.length : 0,
+  };
+}
@@ -1,16 +1,110 @@
 import type { Dice } from "./types.js";
 
-export function rollDice(forced?: [number, number]): Dice {
-  const values: [number, number] = forced ?? [
-    Math.floor(Math.random() * 6) + 1,
-    Math.floor(Math.random() * 6) + 1,
-  ];
+/**
+ * Where die values come from. Each call returns one die, 1-6.
+ */
+export interface DiceSource {
+  rollDie(): number;
+}
+
+/** The default source: Math.random(). */
+export const mathRandomDice: DiceSource = {
+  rollDie: () => Math.floor(Math.random() * 6) + 1,
+};
+
+/**
+ * A small, fast seeded PRNG (mulberry32). The same seed always gives the
+ * same sequence, which makes tests and self-play runs repeatable. Its
+ * state is only 32 bits, so it is not suitable for dice a player must
+ * not be able to predict.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Repeatable dice from a numeric seed. */
+export function createSeededDice(seed: number): DiceSource {
+  const random = createSeededRandom(seed);
+  return { rollDie: () => Math.floor(random() * 6) + 1 };
+}
+
+// Bytes at or above this are rejected so each face keeps an equal share
+const UNBIASED_BYTE_LIMIT = 252; // 6 * 42
+
+/**
+ * Turn random bytes into a fair die: the first byte below 252, mod 6.
+ * Used by the crypto source and by the server's verifiable dice, so a
+ * client can repeat the same derivation.
+ */
+export function dieFromBytes(bytes: ArrayLike<number>): number {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < UNBIASED_BYTE_LIMIT) return (bytes[i] % 6) + 1;
+  }
+  throw new Error("No unbiased byte to derive a die from.");
+}
+
+/**
+ * Unpredictable dice from the platform's cryptographic RNG
+ * (crypto.getRandomValues, available in browsers and Node 19+).
+ */
+export function createCryptoDice(): DiceSource {
+  const buffer = new Uint8Array(16);
+  return {
+    rollDie: () => {
+      for (;;) {
+        globalThis.crypto.getRandomValues(buffer);
+        try {
+          return dieFromBytes(buffer);
+        } catch {
+          // Every byte was rejected; draw again
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Dice that play back a fixed list of values, for tests and puzzles.
+ * Throws once the list is used up.
+ */
+export function createScriptedDice(values: number[]): DiceSource {
+  for (const value of values) {
+    if (!Number.isInteger(value) || value < 1 || value > 6) {
+      throw new Error(`Invalid die value ${value}.`);
+    }
+  }
+  let next = 0;
+  return {
+    rollDie: () => {
+      if (next >= values.length) {
+        throw new Error(`Scripted dice ran out after ${values.length} rolls.`);
+      }
+      return values[next++];
+    },
+  };
+}
+
+export function rollDice(
+  forced?: [number, number],
+  source: DiceSource = mathRandomDice,
+): Dice {
+  const values: [number, number] = forced ?? [source.rollDie(), source.rollDie()];
   const remaining = getDiceMoveCounts(values);
   return { values, remaining };
 }
 
-export function rollSingleDie(forced?: number): number {
-  return forced ?? Math.floor(Math.random() * 6) + 1;
+export function rollSingleDie(
+  forced?: number,
+  source: DiceSource = mathRandomDice,
+): number {
+  return forced ?? source.rollDie();
 }
 
 export function getDiceMoveCounts(values: [number, number]): number[] {
@@ -8,10 +8,12 @@ import { opponent } from "./moves.js";
  * - Before rolling (ROLLING phase)
  * - By cube owner or when cube is centered
  * - Not during Crawford game
+ * - Not while a resignation is waiting for an answer
  */
 export function canOfferDouble(state: GameState): boolean {
   if (state.phase !== "ROLLING") return false;
   if (state.isCrawford) return false;
+  if (state.resignation) return false;
   const { owner } = state.doublingCube;
   return owner === null || owner === state.currentPlayer;
 }
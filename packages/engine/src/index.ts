@@ -9,9 +9,30 @@ export * from "./bearing-off.js";
 export * from "./winner.js";
 export * from "./turn.js";
 export * from "./doubling.js";
+export * from "./resignation.js";
+export * from "./match.js";
+export * from "./match-equity.js";
+export * from "./replay.js";
+export * from "./analysis.js";
+export * from "./notation.js";
+export * from "./match-file.js";
+export * from "./position-id.js";
+export * from "./self-play.js";
 export * from "./ai/types.js";
 export { BeachBum } from "./ai/beach-bum.js";
 export { Selector, evaluateBoard, calculatePipCount } from "./ai/selector.js";
 export { KingTubby } from "./ai/king-tubby.js";
-export { getAllLegalTurns } from "./ai/turn-generator.js";
+export { Scientist } from "./ai/scientist.js";
+export * from "./ai/evaluator.js";
+export * from "./ai/cube.js";
+export * from "./ai/resign.js";
+export * from "./ai/neural-net.js";
+export * from "./ai/bearoff.js";
+export * from "./ai/race.js";
+export { trainTD, type TDTrainingOptions } from "./ai/td-training.js";
+export {
+  getAllLegalTurns,
+  getDistinctTurns,
+  type TurnResult,
+} from "./ai/turn-generator.js";
 export { getConstrainedMoves } from "./constrained-moves.js";
@@ -0,0 +1,108 @@
+import type { GameState, Player } from "./types.js";
+import { opponent } from "./moves.js";
+
+// Chance that a game is won with a gammon, used to build the table
+export const MET_GAMMON_RATE = 0.26;
+
+// Longest match the table covers; longer matches are treated as this
+export const MET_MAX_AWAY = 25;
+
+/**
+ * Match equity table: the chance of winning the match from each score,
+ * given as points still needed ("away") by each side.
+ *
+ * The table is computed rather than copied: every remaining game is an
+ * even one, won with a gammon MET_GAMMON_RATE of the time. Before the
+ * Crawford game the cube is left out; after it the trailer doubles at
+ * once, as good players do, so each post-Crawford game is worth 2 (or 4).
+ * Around the Crawford game this matches published tables closely; further
+ * out it favours the leader by a few percent, since the trailer gets no
+ * credit for using the cube.
+ */
+interface MatchEquityTable {
+  // preCrawford[a][b]: a-away against b-away, both 2 or more away
+  preCrawford: number[][];
+  // crawford[n]: n-away trailer against a 1-away leader in the Crawford game
+  crawford: number[];
+  // postCrawford[n]: n-away trailer against a 1-away leader after it
+  postCrawford: number[];
+}
+
+function buildMatchEquityTable(maxAway: number, g: number): MatchEquityTable {
+  const post: number[] = [];
+  const postAt = (n: number) => (n <= 0 ? 1 : post[n]);
+  for (let n = 1; n <= maxAway; n++) {
+    post[n] = 0.5 * ((1 - g) * postAt(n - 2) + g * postAt(n - 4));
+  }
+
+  const crawford: number[] = [];
+  for (let n = 1; n <= maxAway; n++) {
+    crawford[n] = 0.5 * ((1 - g) * postAt(n - 1) + g * postAt(n - 2));
+  }
+
+  const pre: number[][] = [];
+  const at = (a: number, b: number): number => {
+    if (a <= 0) return 1;
+    if (b <= 0) return 0;
+    if (a === 1) return 1 - crawford[b];
+    if (b === 1) return crawford[a];
+    return pre[a][b];
+  };
+  for (let a = 2; a <= maxAway; a++) {
+    pre[a] = [];
+    for (let b = 2; b <= maxAway; b++) {
+      // Each entry only looks at a smaller a or b, so row order works
+      pre[a][b] =
+        0.5 * ((1 - g) * at(a - 1, b) + g * at(a - 2, b)) +
+        0.5 * ((1 - g) * at(a, b - 1) + g * at(a, b - 2));
+    }
+  }
+
+  return { preCrawford: pre, crawford, postCrawford: post };
+}
+
+const table = buildMatchEquityTable(MET_MAX_AWAY, MET_GAMMON_RATE);
+
+/**
+ * Chance of winning the match when `away` points are still needed and
+ * the opponent needs `oppAway`.
+ *
+ * When one side is 1 away, `crawford` says whether the next game is the
+ * Crawford game (no cube) rather than a post-Crawford one.
+ */
+export function getMatchEquity(
+  away: number,
+  oppAway: number,
+  crawford = false,
+): number {
+  if (away <= 0) return 1;
+  if (oppAway <= 0) return 0;
+  const a = Math.min(away, MET_MAX_AWAY);
+  const b = Math.min(oppAway, MET_MAX_AWAY);
+
+  if (a === 1 && b === 1) return 0.5;
+  if (a === 1) return 1 - (crawford ? table.crawford[b] : table.postCrawford[b]);
+  if (b === 1) return crawford ? table.crawford[a] : table.postCrawford[a];
+  return table.preCrawford[a][b];
+}
+
+/**
+ * Chance of `player` winning the match if the game in progress ended with
+ * `points` going to `winner`. Works out whether the next game would be
+ * the Crawford game the same way startNextGame does.
+ */
+export function getMatchEquityAfterGame(
+  state: GameState,
+  player: Player,
+  winner: Player,
+  points: number,
+): number {
+  const away = state.matchLength - state.matchScore[player];
+  const oppAway = state.matchLength - state.matchScore[opponent(player)];
+  const atMatchPoint = away === 1 || oppAway === 1;
+
+  const newAway = winner === player ? away - points : away;
+  const newOppAway = winner === player ? oppAway : oppAway - points;
+  const crawford = !atMatchPoint && (newAway === 1 || newOppAway === 1);
+  return getMatchEquity(newAway, newOppAway, crawford);
+}
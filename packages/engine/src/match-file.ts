@@ -0,0 +1,398 @@
+import {
+  Player,
+  type ForfeitReason,
+  type GameEvent,
+  type GameState,
+  type Move,
+  type WinType,
+} from "./types.js";
+import { createInitialState } from "./state.js";
+import { rollDice } from "./dice.js";
+import { applyMove, opponent } from "./moves.js";
+import { getConstrainedMoves } from "./constrained-moves.js";
+import { endTurn } from "./turn.js";
+import { checkWinner, getPointsWon, getWinType } from "./winner.js";
+import {
+  acceptDouble,
+  canOfferDouble,
+  declineDouble,
+  offerDouble,
+} from "./doubling.js";
+import { canOfferResignation, offerResignation, acceptResignation } from "./resignation.js";
+import { isCrawfordGame, getScoreAfterGame, forfeitMatch } from "./match.js";
+import { formatMoves, parseMoves } from "./notation.js";
+
+// One player's action in a match file: a roll with the moves played (empty
+// when the roll could not be played), a cube action, or the game ending
+// with the player resigning (accepted) or forfeiting the match.
+export type MatchTurn =
+  | { type: "move"; player: Player; dice: [number, number]; moves: Move[] }
+  | { type: "double"; player: Player }
+  | { type: "take"; player: Player }
+  | { type: "drop"; player: Player }
+  | { type: "resign"; player: Player; winType: WinType }
+  | { type: "forfeit"; player: Player; reason: ForfeitReason };
+
+export interface MatchGame {
+  score: Record<Player, number>; // Match score before the game
+  turns: MatchTurn[];
+}
+
+export interface MatchRecord {
+  matchLength: number;
+  players: Record<Player, string>;
+  games: MatchGame[];
+}
+
+// Gold is written in the left column, Red in the right one
+const LEFT_COLUMN = 5;
+const RIGHT_COLUMN = 33;
+
+const RESIGN_TEXT: Record<WinType, string> = {
+  ya_mon: "Resigns",
+  big_ya_mon: "Resigns gammon",
+  massive_ya_mon: "Resigns backgammon",
+};
+
+/**
+ * Every position of one game in a match record: the opening position
+ * followed by the position after each turn. Each turn is checked against
+ * the rules, so a record that plays an illegal move is rejected.
+ */
+export function getGamePositions(
+  record: MatchRecord,
+  gameIndex: number,
+): GameState[] {
+  const game = record.games[gameIndex];
+  if (!game) {
+    throw new Error(`Game ${gameIndex + 1} is not in the match.`);
+  }
+
+  let state = createInitialState(record.matchLength);
+  state.matchScore = { ...game.score };
+  const previous = record.games[gameIndex - 1];
+  state.isCrawford =
+    previous !== undefined &&
+    isCrawfordGame(previous.score, game.score, record.matchLength);
+
+  const positions = [state];
+  game.turns.forEach((turn, i) => {
+    state = applyMatchTurn(state, turn, i + 1, game.turns[i + 1]);
+    positions.push(state);
+  });
+  return positions;
+}
+
+function applyMatchTurn(
+  state: GameState,
+  turn: MatchTurn,
+  turnNumber: number,
+  next: MatchTurn | undefined,
+): GameState {
+  const fail = (reason: string): never => {
+    throw new Error(`Turn ${turnNumber}: ${reason}`);
+  };
+
+  if (state.phase === "GAME_OVER") fail("the game is already over.");
+
+  switch (turn.type) {
+    case "move": {
+      if (state.phase === "OPENING_ROLL") {
+        if (turn.dice[0] === turn.dice[1]) fail("the opening roll cannot be a double.");
+      } else if (state.phase !== "ROLLING") {
+        fail("a double is waiting for an answer.");
+      } else if (state.currentPlayer !== turn.player) {
+        fail(`it is ${state.currentPlayer}'s turn.`);
+      }
+
+      let newState = { ...state, currentPlayer: turn.player };
+      newState.dice = rollDice(turn.dice);
+      newState.phase = "MOVING";
+
+      for (const move of turn.moves) {
+        const legal = getConstrainedMoves(newState).some(
+          (m) => m.from === move.from && m.to === move.to,
+        );
+        if (!legal) fail(`illegal move ${move.from}->${move.to}.`);
+        newState = applyMove(newState, move);
+
+        // Bearing off the last checker ends the game mid-turn
+        const winner = checkWinner(newState);
+        if (winner) {
+          newState.phase = "GAME_OVER";
+          newState.winner = winner;
+          newState.winType = getWinType(newState, winner);
+          return newState;
+        }
+      }
+
+      if (getConstrainedMoves(newState).length > 0) {
+        // Fine if the game ended there, by resigning or forfeiting mid-turn
+        if (next?.type !== "resign" && next?.type !== "forfeit") {
+          fail("not every playable die was played.");
+        }
+        return newState;
+      }
+      return endTurn(newState);
+    }
+    case "double":
+      if (state.phase === "OPENING_ROLL") fail("nobody can double before the first roll.");
+      if (state.currentPlayer !== turn.player || !canOfferDouble(state)) {
+        fail(`${turn.player} cannot double now.`);
+      }
+      return offerDouble(state);
+    case "take":
+    case "drop":
+      if (state.phase !== "DOUBLING" || turn.player !== opponent(state.currentPlayer)) {
+        fail(`${turn.player} has no double to answer.`);
+      }
+      return turn.type === "take" ? acceptDouble(state) : declineDouble(state);
+    case "resign":
+      if (state.currentPlayer !== turn.player || !canOfferResignation(state)) {
+        fail(`${turn.player} cannot resign now.`);
+      }
+      return acceptResignation(offerResignation(state, turn.winType));
+    case "forfeit":
+      return forfeitMatch(state, turn.player, turn.reason);
+  }
+}
+
+/**
+ * Convert a recorded game's events into match-file turns. Each roll is
+ * grouped with the moves played from it; tied opening rolls are dropped
+ * because match files only show the roll that started the game, and so
+ * are resignations that were rejected.
+ */
+export function turnsFromEvents(events: GameEvent[]): MatchTurn[] {
+  const turns: MatchTurn[] = [];
+  let current: Extract<MatchTurn, { type: "move" }> | null = null;
+  let resignation: Extract<MatchTurn, { type: "resign" }> | null = null;
+
+  for (const event of events) {
+    switch (event.type) {
+      case "opening-roll":
+        if (event.goldDie === event.redDie) break;
+        current = {
+          type: "move",
+          player: event.goldDie > event.redDie ? Player.Gold : Player.Red,
+          dice: [
+            Math.max(event.goldDie, event.redDie),
+            Math.min(event.goldDie, event.redDie),
+          ],
+          moves: [],
+        };
+        turns.push(current);
+        break;
+      case "roll":
+        current = { type: "move", player: event.player, dice: event.dice, moves: [] };
+        turns.push(current);
+        break;
+      case "move":
+        current?.moves.push(event.move);
+        break;
+      case "end-turn":
+        current = null;
+        break;
+      case "double":
+      case "take":
+      case "drop":
+        turns.push({ type: event.type, player: event.player });
+        break;
+      case "resign":
+        resignation = { type: "resign", player: event.player, winType: event.winType };
+        break;
+      case "accept-resignation":
+        if (resignation) turns.push(resignation);
+        resignation = null;
+        break;
+      case "reject-resignation":
+        resignation = null;
+        break;
+      case "forfeit":
+        turns.push({ type: "forfeit", player: event.player, reason: event.reason });
+        break;
+    }
+  }
+
+  return turns;
+}
+
+function formatTurn(state: GameState, turn: MatchTurn): string {
+  switch (turn.type) {
+    case "move": {
+      const rolled = { ...state, currentPlayer: turn.player };
+      rolled.dice = rollDice(turn.dice);
+      const moves = formatMoves(rolled, turn.moves);
+      return `${turn.dice[0]}${turn.dice[1]}:${moves ? ` ${moves}` : ""}`;
+    }
+    case "double":
+      return `Doubles => ${state.doublingCube.value * 2}`;
+    case "take":
+      return "Takes";
+    case "drop":
+      return "Drops";
+    case "resign":
+      return RESIGN_TEXT[turn.winType];
+    case "forfeit":
+      return `Forfeits (${turn.reason})`;
+  }
+}
+
+function pointsLabel(points: number): string {
+  return `${points} point${points === 1 ? "" : "s"}`;
+}
+
+/**
+ * Write a match in the plain-text match format used by most backgammon
+ * software (Jellyfish .mat / MatchQuest style):
+ *
+ *      5 point match
+ *
+ *      Game 1
+ *      Gold : 0                        Red : 0
+ *       1) 31: 8/5 6/5                 42: 24/22 13/9
+ *       2) 64: 24/18 13/9*             ...
+ */
+export function exportMatchText(record: MatchRecord): string {
+  const lines = [` ${record.matchLength} point match`, ""];
+
+  record.games.forEach((game, gameIndex) => {
+    const positions = getGamePositions(record, gameIndex);
+
+    lines.push(` Game ${gameIndex + 1}`);
+    lines.push(
+      ` ${record.players[Player.Gold]} : ${game.score[Player.Gold]}`.padEnd(RIGHT_COLUMN) +
+        `${record.players[Player.Red]} : ${game.score[Player.Red]}`,
+    );
+
+    // Fill Gold's column then Red's, starting a new line whenever the
+    // next action belongs to a column that is already used on this one
+    const rows: { left: string; right: string }[] = [];
+    game.turns.forEach((turn, i) => {
+      const text = formatTurn(positions[i], turn);
+      const row = rows[rows.length - 1];
+      if (turn.player === Player.Gold) {
+        if (!row || row.left || row.right) rows.push({ left: text, right: "" });
+        else row.left = text;
+      } else if (!row || row.right) {
+        rows.push({ left: "", right: text });
+      } else {
+        row.right = text;
+      }
+    });
+
+    rows.forEach((row, i) => {
+      const prefix = `${String(i + 1).padStart(3)}) `;
+      lines.push(
+        row.right
+          ? (prefix + row.left).padEnd(RIGHT_COLUMN) + row.right
+          : prefix + row.left,
+      );
+    });
+
+    const final = positions[positions.length - 1];
+    if (final.phase === "GAME_OVER" && final.winner && final.winType) {
+      const points = getPointsWon(final.winType, final.doublingCube.value);
+      const score = getScoreAfterGame(final);
+      const wonMatch = score[final.winner] >= record.matchLength;
+      const column = final.winner === Player.Gold ? LEFT_COLUMN : RIGHT_COLUMN;
+      lines.push(
+        " ".repeat(column) +
+          `Wins ${pointsLabel(points)}${wonMatch ? " and the match" : ""}`,
+      );
+    }
+    lines.push("");
+  });
+
+  return lines.join("\n");
+}
+
+const ACTION_START = /[1-6][1-6]:|Doubles|Takes|Drops|Passes|Accepts|Rejects|Resigns|Forfeits/g;
+
+function parseAction(text: string, player: Player, lineNumber: number): MatchTurn {
+  const roll = text.match(/^([1-6])([1-6]):(.*)$/);
+  if (roll) {
+    try {
+      return {
+        type: "move",
+        player,
+        dice: [Number(roll[1]), Number(roll[2])],
+        moves: parseMoves(roll[3], player),
+      };
+    } catch (err) {
+      throw new Error(`Line ${lineNumber}: ${(err as Error).message}`);
+    }
+  }
+  if (text.startsWith("Doubles")) return { type: "double", player };
+  if (text.startsWith("Resigns")) {
+    const winTypes = Object.keys(RESIGN_TEXT) as WinType[];
+    const winType = winTypes.find((w) => RESIGN_TEXT[w] === text) ?? "ya_mon";
+    return { type: "resign", player, winType };
+  }
+  const forfeit = text.match(/^Forfeits \((timeout|abandoned)\)$/);
+  if (forfeit) return { type: "forfeit", player, reason: forfeit[1] as ForfeitReason };
+  if (text === "Takes" || text === "Accepts") return { type: "take", player };
+  return { type: "drop", player };
+}
+
+/**
+ * Read a plain-text match file. Gold is taken to be the player in the
+ * left column. Moves are only parsed here; use getGamePositions() to
+ * play them out and validate them.
+ */
+export function parseMatchText(text: string): MatchRecord {
+  const record: MatchRecord = {
+    matchLength: 1,
+    players: { [Player.Gold]: "Gold", [Player.Red]: "Red" } as Record<Player, string>,
+    games: [],
+  };
+  let game: MatchGame | null = null;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const lineNumber = i + 1;
+
+    const length = line.match(/^\s*(\d+) point match/);
+    if (length) {
+      record.matchLength = Number(length[1]);
+      return;
+    }
+
+    if (/^\s*Game \d+/.test(line)) {
+      game = {
+        score: { [Player.Gold]: 0, [Player.Red]: 0 } as Record<Player, number>,
+        turns: [],
+      };
+      record.games.push(game);
+      return;
+    }
+
+    if (!game) return;
+
+    const score = line.match(/^\s*(.+?)\s*:\s*(\d+)\s+(.+?)\s*:\s*(\d+)\s*$/);
+    if (score && !/^\s*\d+\)/.test(line)) {
+      record.players[Player.Gold] = score[1];
+      record.players[Player.Red] = score[3];
+      game.score[Player.Gold] = Number(score[2]);
+      game.score[Player.Red] = Number(score[4]);
+      return;
+    }
+
+    if (!/^\s*\d+\)/.test(line)) return;
+
+    const starts = [...line.matchAll(ACTION_START)].map((m) => m.index!);
+    const actions = starts.map((start, j) =>
+      line.slice(start, starts[j + 1] ?? line.length).trim(),
+    );
+
+    if (actions.length === 2) {
+      game.turns.push(parseAction(actions[0], Player.Gold, lineNumber));
+      game.turns.push(parseAction(actions[1], Player.Red, lineNumber));
+    } else if (actions.length === 1) {
+      // A lone action is Red's when it sits in the right-hand column
+      const player = starts[0] >= RIGHT_COLUMN - 8 ? Player.Red : Player.Gold;
+      game.turns.push(parseAction(actions[0], player, lineNumber));
+    }
+  });
+
+  return record;
+}
@@ -0,0 +1,115 @@
+import { Player, type ForfeitReason, type GameState } from "./types.js";
+import { cloneState, createInitialState } from "./state.js";
+import { opponent } from "./moves.js";
+import { getPointsWon, getWinType } from "./winner.js";
+
+/**
+ * Match score once the finished game's points are credited to its winner.
+ * While the game is still in progress the current score is returned as-is.
+ * A forfeit credits the winner with at least enough points to win the match.
+ */
+export function getScoreAfterGame(state: GameState): Record<Player, number> {
+  const score = { ...state.matchScore };
+  if (state.phase === "GAME_OVER" && state.winner && state.winType) {
+    score[state.winner] += getPointsWon(state.winType, state.doublingCube.value);
+    if (state.forfeit) {
+      score[state.winner] = Math.max(score[state.winner], state.matchLength);
+    }
+  }
+  return score;
+}
+
+/**
+ * End the game in progress with `player` forfeiting the whole match, e.g.
+ * for running out of time. Their opponent wins the game as the position
+ * stands (a gammon or backgammon if the loser is that far behind) at the
+ * current cube, and is credited with the match.
+ */
+export function forfeitMatch(
+  state: GameState,
+  player: Player,
+  reason: ForfeitReason,
+): GameState {
+  if (state.phase === "GAME_OVER") {
+    throw new Error("Cannot forfeit a game that is already over.");
+  }
+  const newState = cloneState(state);
+  newState.phase = "GAME_OVER";
+  newState.dice = null;
+  newState.winner = opponent(player);
+  newState.winType = getWinType(state, newState.winner);
+  newState.forfeit = reason;
+  return newState;
+}
+
+/**
+ * The player who has reached the match length, counting a just-finished game.
+ * A single game is a match to 1, so its winner is also the match winner.
+ */
+export function getMatchWinner(state: GameState): Player | null {
+  const score = getScoreAfterGame(state);
+  if (score[Player.Gold] >= state.matchLength) return Player.Gold;
+  if (score[Player.Red] >= state.matchLength) return Player.Red;
+  return null;
+}
+
+export function isMatchOver(state: GameState): boolean {
+  return getMatchWinner(state) !== null;
+}
+
+/**
+ * Check if the game in progress is post-Crawford:
+ * - A player is one point away from winning the match
+ * - The Crawford game has already been played, so the cube is live again
+ */
+export function isPostCrawford(state: GameState): boolean {
+  if (state.matchLength <= 1 || state.isCrawford) return false;
+  const matchPoint = state.matchLength - 1;
+  return (
+    state.matchScore[Player.Gold] === matchPoint ||
+    state.matchScore[Player.Red] === matchPoint
+  );
+}
+
+/**
+ * The Crawford game is the one game immediately after a player first
+ * reaches match point (one away from winning).
+ */
+export function isCrawfordGame(
+  before: Record<Player, number>,
+  after: Record<Player, number>,
+  matchLength: number,
+): boolean {
+  const matchPoint = matchLength - 1;
+  if (matchPoint <= 0) return false;
+  const wasAtMatchPoint =
+    before[Player.Gold] === matchPoint || before[Player.Red] === matchPoint;
+  const isAtMatchPoint =
+    after[Player.Gold] === matchPoint || after[Player.Red] === matchPoint;
+  return isAtMatchPoint && !wasAtMatchPoint;
+}
+
+/**
+ * Start the next game of a match:
+ * 1. Add the finished game's points to the winner's match score
+ * 2. Reset the board and cube to the opening position
+ * 3. Flag the new game as Crawford if a player just reached match point
+ */
+export function startNextGame(state: GameState): GameState {
+  if (state.phase !== "GAME_OVER" || !state.winner || !state.winType) {
+    throw new Error("Cannot start the next game before this one is over.");
+  }
+  if (isMatchOver(state)) {
+    throw new Error("The match is already over.");
+  }
+
+  const matchScore = getScoreAfterGame(state);
+  const newState = createInitialState(state.matchLength);
+  newState.matchScore = matchScore;
+  newState.isCrawford = isCrawfordGame(
+    state.matchScore,
+    matchScore,
+    state.matchLength,
+  );
+  return newState;
+}
@@ -0,0 +1,115 @@
+import { Player, type GameState, type Move } from "./types.js";
+import { POINTS_COUNT } from "./constants.js";
+import { applyMove, opponent } from "./moves.js";
+
+// Standard notation counts points from the mover's side: their 24-point is
+// the furthest from home, the bar is 25 and bearing off goes to 0.
+const BAR_POINT = 25;
+const OFF_POINT = 0;
+
+/**
+ * Convert a board index to the point number the player would call it.
+ * Gold's 1-point is index 23, Red's 1-point is index 0.
+ */
+export function toPlayerPoint(index: number, player: Player): number {
+  return player === Player.Gold ? POINTS_COUNT - index : index + 1;
+}
+
+/**
+ * Convert a player's point number (1-24) back to a board index.
+ */
+export function fromPlayerPoint(point: number, player: Player): number {
+  return player === Player.Gold ? POINTS_COUNT - point : point - 1;
+}
+
+function formatFrom(from: Move["from"], player: Player): string {
+  return from === "bar" ? "bar" : String(toPlayerPoint(from, player));
+}
+
+function formatTo(to: Move["to"], player: Player): string {
+  return to === "off" ? "off" : String(toPlayerPoint(to, player));
+}
+
+/**
+ * Format a single move, e.g. `13/7`, `bar/22` or `6/off`.
+ */
+export function formatMove(move: Move, player: Player): string {
+  return `${formatFrom(move.from, player)}/${formatTo(move.to, player)}`;
+}
+
+/**
+ * Format a whole turn for the current player, e.g. `13/7* 8/7`.
+ * Moves are applied one by one so a hit is marked with `*` exactly when the
+ * move lands on an opponent's blot at that point in the turn.
+ */
+export function formatMoves(state: GameState, moves: Move[]): string {
+  const player = state.currentPlayer;
+  const opp = opponent(player);
+  const parts: string[] = [];
+  let current = state;
+
+  for (const move of moves) {
+    const target = move.to === "off" ? null : current.points[move.to];
+    const hit = target !== null && target.player === opp;
+    parts.push(formatMove(move, player) + (hit ? "*" : ""));
+    current = applyMove(current, move);
+  }
+
+  return parts.join(" ");
+}
+
+function parsePoint(token: string, player: Player): number | "bar" | "off" {
+  const lower = token.toLowerCase();
+  if (lower === "bar") return "bar";
+  if (lower === "off") return "off";
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid point "${token}".`);
+  }
+  const point = Number(token);
+  if (point === BAR_POINT) return "bar";
+  if (point === OFF_POINT) return "off";
+  if (point < 1 || point > POINTS_COUNT) {
+    throw new Error(`Point ${point} is off the board.`);
+  }
+  return fromPlayerPoint(point, player);
+}
+
+/**
+ * Parse a turn's moves as written in match files. Accepts:
+ * - `13/7 8/7` (one move per token)
+ * - `24/18/13` (one checker moving twice)
+ * - `13/7(2)` (the same move repeated)
+ * - `bar/22`, `25/22`, `6/off`, `6/0` and `*` hit markers (ignored,
+ *   since a hit follows from the position)
+ */
+export function parseMoves(text: string, player: Player): Move[] {
+  const moves: Move[] = [];
+
+  for (const token of text.trim().split(/\s+/)) {
+    if (token === "") continue;
+
+    const repeat = token.match(/\((\d+)\)$/);
+    const count = repeat ? Number(repeat[1]) : 1;
+    const path = (repeat ? token.slice(0, repeat.index) : token)
+      .split("/")
+      .map((p) => parsePoint(p.replace(/\*$/, ""), player));
+
+    if (path.length < 2) {
+      throw new Error(`Invalid move "${token}".`);
+    }
+
+    const steps: Move[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+      const from = path[i];
+      const to = path[i + 1];
+      if (from === "off" || to === "bar") {
+        throw new Error(`Invalid move "${token}".`);
+      }
+      steps.push({ from, to });
+    }
+
+    for (let n = 0; n < count; n++) moves.push(...steps);
+  }
+
+  return moves;
+}
@@ -0,0 +1,308 @@
+import { Player, type GameState, type PointState, type WinType } from "./types.js";
+import { PIECES_PER_PLAYER, POINTS_COUNT } from "./constants.js";
+import { createInitialState } from "./state.js";
+import { rollDice } from "./dice.js";
+import { opponent } from "./moves.js";
+import { isResignationPending } from "./resignation.js";
+import { fromPlayerPoint } from "./notation.js";
+import { checkWinner, getWinType } from "./winner.js";
+
+// GNU Backgammon IDs describe the board from the side of the player on
+// roll and number the two players 0 and 1. Gold is player 0, Red player 1.
+const GNU_PLAYER: Record<Player, 0 | 1> = {
+  [Player.Gold]: 0,
+  [Player.Red]: 1,
+};
+const FROM_GNU_PLAYER: Player[] = [Player.Gold, Player.Red];
+
+const POSITION_ID_BYTES = 10;
+const MATCH_ID_BYTES = 9;
+
+// Match ID game states
+const GAME_NONE = 0;
+const GAME_PLAYING = 1;
+const GAME_OVER = 2;
+const GAME_RESIGNED = 3;
+const GAME_DROP = 4;
+
+const CUBE_CENTERED = 3;
+
+// Match ID resignation levels; 0 is none, left unset as in a new game
+const RESIGN_LEVEL: Record<WinType, 1 | 2 | 3> = {
+  ya_mon: 1,
+  big_ya_mon: 2,
+  massive_ya_mon: 3,
+};
+const FROM_RESIGN_LEVEL: (WinType | undefined)[] = [
+  undefined,
+  "ya_mon",
+  "big_ya_mon",
+  "massive_ya_mon",
+];
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Plain base64 without padding — the engine cannot rely on btoa or Buffer
+function toBase64(bytes: number[]): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.ceil(((Math.min(3, bytes.length - i)) * 8) / 6);
+    for (let c = 0; c < chars; c++) {
+      out += BASE64[(chunk >> (18 - c * 6)) & 0x3f];
+    }
+  }
+  return out;
+}
+
+function fromBase64(text: string, byteCount: number): number[] {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of text.replace(/=+$/, "")) {
+    const value = BASE64.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid character "${char}" in ID.`);
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  if (bytes.length !== byteCount) {
+    throw new Error(`ID must encode ${byteCount} bytes, got ${bytes.length}.`);
+  }
+  return bytes;
+}
+
+// Both IDs pack their bit strings least significant bit first
+function setBits(bytes: number[], start: number, width: number, value: number): void {
+  for (let i = 0; i < width; i++) {
+    if ((value >> i) & 1) {
+      const bit = start + i;
+      bytes[bit >> 3] |= 1 << (bit & 7);
+    }
+  }
+}
+
+function getBits(bytes: number[], start: number, width: number): number {
+  let value = 0;
+  for (let i = 0; i < width; i++) {
+    const bit = start + i;
+    if ((bytes[bit >> 3] >> (bit & 7)) & 1) value |= 1 << i;
+  }
+  return value;
+}
+
+/** Checkers on each of the player's points 1-24, then on the bar. */
+function checkerCounts(state: GameState, player: Player): number[] {
+  const counts: number[] = [];
+  for (let point = 1; point <= POINTS_COUNT; point++) {
+    const p = state.points[fromPlayerPoint(point, player)];
+    counts.push(p && p.player === player ? p.count : 0);
+  }
+  counts.push(state.bar[player]);
+  return counts;
+}
+
+/**
+ * Encode the checker layout as a GNU Backgammon Position ID (14 characters).
+ * Each side is written from its own ace point up to its bar, one 1-bit per
+ * checker and a 0-bit after every point: first the player not on roll,
+ * then the player on roll (`state.currentPlayer`).
+ */
+export function encodePositionId(state: GameState): string {
+  const onRoll = state.currentPlayer;
+  const bytes = new Array<number>(POSITION_ID_BYTES).fill(0);
+  let bit = 0;
+
+  for (const player of [opponent(onRoll), onRoll]) {
+    for (const count of checkerCounts(state, player)) {
+      setBits(bytes, bit, count, (1 << count) - 1);
+      bit += count + 1;
+    }
+  }
+
+  return toBase64(bytes);
+}
+
+/**
+ * Decode a Position ID into our board layout. The ID does not say whose
+ * turn it is, so the caller names the player on roll. Checkers missing
+ * from the board are counted as borne off.
+ */
+export function decodePositionId(
+  id: string,
+  onRoll: Player,
+): Pick<GameState, "points" | "bar" | "borneOff"> {
+  const bytes = fromBase64(id, POSITION_ID_BYTES);
+  const points: PointState[] = Array.from({ length: POINTS_COUNT }, () => null);
+  const bar = { [Player.Gold]: 0, [Player.Red]: 0 } as Record<Player, number>;
+  const borneOff = { ...bar };
+  let bit = 0;
+
+  for (const player of [opponent(onRoll), onRoll]) {
+    let total = 0;
+    for (let slot = 0; slot <= POINTS_COUNT; slot++) {
+      let count = 0;
+      while (bit < POSITION_ID_BYTES * 8 && getBits(bytes, bit, 1) === 1) {
+        count++;
+        bit++;
+      }
+      bit++;
+      total += count;
+      if (count === 0) continue;
+
+      if (slot === POINTS_COUNT) {
+        bar[player] = count;
+        continue;
+      }
+      const index = fromPlayerPoint(slot + 1, player);
+      if (points[index]) {
+        throw new Error("Position ID puts both players on the same point.");
+      }
+      points[index] = { player, count };
+    }
+    if (total > PIECES_PER_PLAYER) {
+      throw new Error(`Position ID has more than ${PIECES_PER_PLAYER} checkers for one player.`);
+    }
+    borneOff[player] = PIECES_PER_PLAYER - total;
+  }
+
+  return { points, bar, borneOff };
+}
+
+/**
+ * Encode the cube, turn, dice, score, Crawford flag and resignation as a
+ * GNU Backgammon Match ID (12 characters). A single game is written as a
+ * match to 1.
+ */
+export function encodeMatchId(state: GameState): string {
+  const bytes = new Array<number>(MATCH_ID_BYTES).fill(0);
+  const onRoll = GNU_PLAYER[state.currentPlayer];
+  const { value, owner } = state.doublingCube;
+
+  const resignation = state.resignation ?? null;
+  const resigned = state.phase === "GAME_OVER" && resignation !== null;
+
+  let gameState = GAME_PLAYING;
+  if (state.phase === "OPENING_ROLL") gameState = GAME_NONE;
+  if (state.phase === "GAME_OVER") gameState = resigned ? GAME_RESIGNED : GAME_OVER;
+
+  // While a double or resignation is pending it is the opponent's decision
+  const deciding = state.phase === "DOUBLING" || isResignationPending(state);
+  const turn = deciding ? GNU_PLAYER[opponent(state.currentPlayer)] : onRoll;
+  const dice = state.phase === "MOVING" && state.dice ? state.dice.values : [0, 0];
+
+  setBits(bytes, 0, 4, Math.log2(value));
+  setBits(bytes, 4, 2, owner === null ? CUBE_CENTERED : GNU_PLAYER[owner]);
+  setBits(bytes, 6, 1, onRoll);
+  setBits(bytes, 7, 1, state.isCrawford ? 1 : 0);
+  setBits(bytes, 8, 3, gameState);
+  setBits(bytes, 11, 1, turn);
+  setBits(bytes, 12, 1, state.phase === "DOUBLING" ? 1 : 0);
+  setBits(bytes, 13, 2, resignation ? RESIGN_LEVEL[resignation] : 0);
+  setBits(bytes, 15, 3, dice[0]);
+  setBits(bytes, 18, 3, dice[1]);
+  setBits(bytes, 21, 15, state.matchLength);
+  setBits(bytes, 36, 15, state.matchScore[Player.Gold]);
+  setBits(bytes, 51, 15, state.matchScore[Player.Red]);
+
+  return toBase64(bytes);
+}
+
+/**
+ * Decode a Match ID into the parts of a GameState it describes.
+ */
+export function decodeMatchId(
+  id: string,
+): Pick<
+  GameState,
+  | "currentPlayer"
+  | "phase"
+  | "dice"
+  | "doublingCube"
+  | "matchScore"
+  | "matchLength"
+  | "isCrawford"
+  | "resignation"
+> {
+  const bytes = fromBase64(id, MATCH_ID_BYTES);
+
+  const cubeOwner = getBits(bytes, 4, 2);
+  const currentPlayer = FROM_GNU_PLAYER[getBits(bytes, 6, 1)];
+  const gameState = getBits(bytes, 8, 3);
+  const doubleOffered = getBits(bytes, 12, 1) === 1;
+  const die1 = getBits(bytes, 15, 3);
+  const die2 = getBits(bytes, 18, 3);
+  const matchLength = getBits(bytes, 21, 15);
+
+  if (cubeOwner === 2) {
+    throw new Error("Match ID has an invalid cube owner.");
+  }
+  if (matchLength === 0) {
+    throw new Error("Money game Match IDs are not supported.");
+  }
+
+  const rolled = die1 >= 1 && die1 <= 6 && die2 >= 1 && die2 <= 6;
+  let phase: GameState["phase"] = rolled ? "MOVING" : "ROLLING";
+  if (gameState === GAME_NONE) phase = "OPENING_ROLL";
+  else if (gameState === GAME_OVER || gameState === GAME_RESIGNED || gameState === GAME_DROP) {
+    phase = "GAME_OVER";
+  } else if (doubleOffered) phase = "DOUBLING";
+
+  return {
+    currentPlayer,
+    phase,
+    dice: phase === "MOVING" ? rollDice([die1, die2]) : null,
+    doublingCube: {
+      value: 2 ** getBits(bytes, 0, 4),
+      owner: cubeOwner === CUBE_CENTERED ? null : FROM_GNU_PLAYER[cubeOwner],
+    },
+    matchScore: {
+      [Player.Gold]: getBits(bytes, 36, 15),
+      [Player.Red]: getBits(bytes, 51, 15),
+    } as Record<Player, number>,
+    matchLength,
+    isCrawford: getBits(bytes, 7, 1) === 1,
+    resignation: FROM_RESIGN_LEVEL[getBits(bytes, 13, 2)],
+  };
+}
+
+/**
+ * The combined `PositionID:MatchID` string GNU Backgammon shows and accepts.
+ */
+export function encodeGnuId(state: GameState): string {
+  return `${encodePositionId(state)}:${encodeMatchId(state)}`;
+}
+
+/**
+ * Build a full GameState from a `PositionID:MatchID` string.
+ */
+export function decodeGnuId(gnuId: string): GameState {
+  const [positionId, matchId] = gnuId.trim().split(":");
+  if (!positionId || !matchId) {
+    throw new Error("Expected a Position ID and Match ID separated by ':'.");
+  }
+
+  const match = decodeMatchId(matchId);
+  const state: GameState = {
+    ...createInitialState(match.matchLength),
+    ...match,
+    ...decodePositionId(positionId, match.currentPlayer),
+  };
+
+  if (state.phase === "GAME_OVER" && state.resignation) {
+    // The player on roll resigned and the opponent accepted
+    state.winner = opponent(state.currentPlayer);
+    state.winType = state.resignation;
+  } else if (state.phase === "GAME_OVER") {
+    // Otherwise the IDs do not record the result; it is only known after a bear-off
+    state.winner = checkWinner(state);
+    state.winType = state.winner ? getWinType(state, state.winner) : null;
+  }
+  return state;
+}
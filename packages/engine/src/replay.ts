@@ -0,0 +1,87 @@
+import { Player, type GameEvent, type GameState } from "./types.js";
+import { cloneState } from "./state.js";
+import { rollDice } from "./dice.js";
+import { applyMove } from "./moves.js";
+import { endTurn } from "./turn.js";
+import { checkWinner, getWinType } from "./winner.js";
+import { offerDouble, acceptDouble, declineDouble } from "./doubling.js";
+import { forfeitMatch } from "./match.js";
+import {
+  offerResignation,
+  acceptResignation,
+  rejectResignation,
+} from "./resignation.js";
+
+/**
+ * Apply one recorded event to a game state, mirroring how the server
+ * advanced the game when the event happened. Events are trusted: they were
+ * validated when recorded, so no legality checks are repeated here.
+ */
+export function applyGameEvent(state: GameState, event: GameEvent): GameState {
+  switch (event.type) {
+    case "opening-roll": {
+      // A tied opening roll is re-rolled and leaves the board untouched
+      if (event.goldDie === event.redDie) return cloneState(state);
+      const newState = cloneState(state);
+      newState.currentPlayer =
+        event.goldDie > event.redDie ? Player.Gold : Player.Red;
+      newState.dice = rollDice([
+        Math.max(event.goldDie, event.redDie),
+        Math.min(event.goldDie, event.redDie),
+      ]);
+      newState.phase = "MOVING";
+      return newState;
+    }
+    case "roll": {
+      const newState = cloneState(state);
+      newState.dice = rollDice(event.dice);
+      newState.phase = "MOVING";
+      return newState;
+    }
+    case "move": {
+      const newState = applyMove(state, event.move);
+      // Bearing off the last piece ends the game without an end-turn event
+      const winner = checkWinner(newState);
+      if (winner) {
+        newState.phase = "GAME_OVER";
+        newState.winner = winner;
+        newState.winType = getWinType(newState, winner);
+      }
+      return newState;
+    }
+    case "end-turn":
+      return endTurn(state);
+    case "double":
+      return offerDouble(state);
+    case "take":
+      return acceptDouble(state);
+    case "drop":
+      return declineDouble(state);
+    case "forfeit":
+      return forfeitMatch(state, event.player, event.reason);
+    case "resign":
+      return offerResignation(state, event.winType);
+    case "accept-resignation":
+      return acceptResignation(state);
+    case "reject-resignation":
+      return rejectResignation(state);
+  }
+}
+
+/**
+ * Rebuild every position of a recorded game.
+ * Returns the initial state followed by the state after each event,
+ * so `positions[i + 1]` is the position once `events[i]` has happened.
+ */
+export function replayGame(
+  initialState: GameState,
+  events: GameEvent[],
+): GameState[] {
+  const positions = [cloneState(initialState)];
+  let state = positions[0];
+  for (const event of events) {
+    state = applyGameEvent(state, event);
+    positions.push(state);
+  }
+  return positions;
+}
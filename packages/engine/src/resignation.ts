@@ -0,0 +1,62 @@
+import type { GameState, WinType } from "./types.js";
+import { cloneState } from "./state.js";
+import { opponent } from "./moves.js";
+
+/**
+ * Check if the current player can offer to resign.
+ * Only allowed:
+ * - On their own turn, before or after rolling
+ * - While no other resignation is waiting for an answer
+ */
+export function canOfferResignation(state: GameState): boolean {
+  if (state.phase !== "ROLLING" && state.phase !== "MOVING") return false;
+  return !isResignationPending(state);
+}
+
+/** Check if a resignation has been offered and not yet answered. */
+export function isResignationPending(state: GameState): boolean {
+  return state.phase !== "GAME_OVER" && Boolean(state.resignation);
+}
+
+/**
+ * Offer to resign the game, conceding a single game, gammon or
+ * backgammon (1x, 2x or 3x the cube). The game waits, in the same phase,
+ * for the opponent to accept or reject.
+ */
+export function offerResignation(state: GameState, winType: WinType): GameState {
+  if (!canOfferResignation(state)) {
+    throw new Error("Cannot offer a resignation now.");
+  }
+  const newState = cloneState(state);
+  newState.resignation = winType;
+  return newState;
+}
+
+/**
+ * Accept the resignation offer.
+ * - The opponent of the resigning (current) player wins
+ * - The game is scored at the offered win type and the current cube
+ */
+export function acceptResignation(state: GameState): GameState {
+  if (!isResignationPending(state)) {
+    throw new Error("No resignation to accept.");
+  }
+  const newState = cloneState(state);
+  newState.phase = "GAME_OVER";
+  newState.dice = null;
+  newState.winner = opponent(newState.currentPlayer);
+  newState.winType = state.resignation!;
+  return newState;
+}
+
+/**
+ * Reject the resignation offer. Play continues where it stopped.
+ */
+export function rejectResignation(state: GameState): GameState {
+  if (!isResignationPending(state)) {
+    throw new Error("No resignation to reject.");
+  }
+  const newState = cloneState(state);
+  newState.resignation = null;
+  return newState;
+}
@@ -0,0 +1,229 @@
+import { Player, type GameState, type WinType } from "./types.js";
+import { createInitialState } from "./state.js";
+import { createSeededDice, rollDice, type DiceSource } from "./dice.js";
+import { applyMove, opponent } from "./moves.js";
+import { getConstrainedMoves } from "./constrained-moves.js";
+import { endTurn } from "./turn.js";
+import { checkWinner, getPointsWon, getWinType } from "./winner.js";
+import {
+  acceptDouble,
+  canOfferDouble,
+  declineDouble,
+  offerDouble,
+} from "./doubling.js";
+import type { AIPlayer } from "./ai/types.js";
+
+// A game that runs this long is stuck, not slow
+const MAX_TURNS = 2000;
+
+// Money games are usually played with the cube capped at 64
+const DEFAULT_MAX_CUBE = 64;
+
+// Two-sided 95% normal quantile
+const Z_95 = 1.959964;
+
+export interface SelfPlayOptions {
+  dice: DiceSource; // e.g. createSeededDice() for repeatable games
+  cube?: boolean; // Let the players double (default true)
+  maxCube?: number; // No doubles once the cube reaches this (default 64)
+}
+
+export interface SelfPlayResult {
+  winner: Player;
+  winType: WinType;
+  cubeValue: number;
+  points: number; // Points won by the winner
+  turns: number; // Turns started, including the opening roll
+  dropped: boolean; // Ended by a declined double
+}
+
+/** An estimate with its 95% confidence interval. */
+export interface Estimate {
+  value: number;
+  low: number;
+  high: number;
+}
+
+/** Results of a matchup, from the first player's side. */
+export interface MatchupStats {
+  games: number;
+  wins: number;
+  gammons: number; // Gammon wins, including backgammons
+  backgammons: number;
+  gammonsLost: number;
+  winRate: Estimate;
+  gammonRate: Estimate;
+  pointsPerGame: Estimate;
+}
+
+/**
+ * Play one money game between two AIs without any UI. Only the dice come
+ * from `options.dice`; AIs that make random choices of their own (such
+ * as BeachBum) still use Math.random.
+ */
+export function playSelfPlayGame(
+  gold: AIPlayer,
+  red: AIPlayer,
+  options: SelfPlayOptions,
+): SelfPlayResult {
+  const ais: Record<Player, AIPlayer> = { [Player.Gold]: gold, [Player.Red]: red };
+  const useCube = options.cube ?? true;
+  const maxCube = options.maxCube ?? DEFAULT_MAX_CUBE;
+
+  // Opening roll: each side rolls one die, ties roll again
+  let goldDie: number;
+  let redDie: number;
+  do {
+    goldDie = options.dice.rollDie();
+    redDie = options.dice.rollDie();
+  } while (goldDie === redDie);
+
+  let state: GameState = createInitialState();
+  state.currentPlayer = goldDie > redDie ? Player.Gold : Player.Red;
+  state.dice = rollDice([goldDie, redDie]);
+  state.phase = "MOVING";
+
+  let turns = 0;
+  while (state.phase !== "GAME_OVER") {
+    if (++turns > MAX_TURNS) {
+      throw new Error(`Game did not finish within ${MAX_TURNS} turns.`);
+    }
+
+    if (state.phase === "ROLLING") {
+      const ai = ais[state.currentPlayer];
+      if (
+        useCube &&
+        state.doublingCube.value < maxCube &&
+        canOfferDouble(state) &&
+        ai.shouldDouble(state)
+      ) {
+        state = offerDouble(state);
+        const taker = ais[opponent(state.currentPlayer)];
+        if (!taker.shouldAcceptDouble(state)) {
+          state = declineDouble(state);
+          break;
+        }
+        state = acceptDouble(state);
+      }
+      state = { ...state, phase: "MOVING" };
+      state.dice = rollDice(undefined, options.dice);
+    }
+
+    state = playTurn(state, ais[state.currentPlayer]);
+  }
+
+  const winner = state.winner!;
+  const winType = state.winType!;
+  return {
+    winner,
+    winType,
+    cubeValue: state.doublingCube.value,
+    points: getPointsWon(winType, state.doublingCube.value),
+    turns,
+    dropped: checkWinner(state) === null,
+  };
+}
+
+function playTurn(state: GameState, ai: AIPlayer): GameState {
+  let newState = state;
+  for (const move of ai.selectMoves(state)) {
+    const legal = getConstrainedMoves(newState).some(
+      (m) => m.from === move.from && m.to === move.to,
+    );
+    if (!legal) {
+      throw new Error(`${ai.name} played an illegal move ${move.from}->${move.to}.`);
+    }
+    newState = applyMove(newState, move);
+
+    const winner = checkWinner(newState);
+    if (winner) {
+      newState.phase = "GAME_OVER";
+      newState.winner = winner;
+      newState.winType = getWinType(newState, winner);
+      return newState;
+    }
+  }
+  return endTurn(newState);
+}
+
+/** Wilson score interval for a proportion. */
+export function rateEstimate(successes: number, trials: number): Estimate {
+  if (trials === 0) return { value: 0, low: 0, high: 1 };
+  const p = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const margin =
+    (Z_95 / (1 + z2 / trials)) *
+    Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials));
+  // The interval always contains p; clamping only absorbs rounding at 0 and 1
+  return {
+    value: p,
+    low: Math.max(0, Math.min(p, center - margin)),
+    high: Math.min(1, Math.max(p, center + margin)),
+  };
+}
+
+/** Mean with a normal-approximation interval. */
+export function meanEstimate(values: number[]): Estimate {
+  const n = values.length;
+  if (n === 0) return { value: 0, low: 0, high: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  if (n === 1) return { value: mean, low: mean, high: mean };
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const margin = Z_95 * Math.sqrt(variance / n);
+  return { value: mean, low: mean - margin, high: mean + margin };
+}
+
+/**
+ * Play `games` games between `a` and `b` and report the results from
+ * `a`'s side. The AIs swap colours every game so neither gains from
+ * always playing one side, and a fixed seed replays the same dice.
+ */
+export function runMatchup(
+  a: AIPlayer,
+  b: AIPlayer,
+  options: {
+    games: number;
+    seed: number;
+    cube?: boolean;
+    onGame?: (result: SelfPlayResult, gameNumber: number) => void;
+  },
+): MatchupStats {
+  const dice = createSeededDice(options.seed);
+  const points: number[] = [];
+  let wins = 0;
+  let gammons = 0;
+  let backgammons = 0;
+  let gammonsLost = 0;
+
+  for (let i = 0; i < options.games; i++) {
+    const aSide = i % 2 === 0 ? Player.Gold : Player.Red;
+    const result =
+      aSide === Player.Gold
+        ? playSelfPlayGame(a, b, { dice, cube: options.cube })
+        : playSelfPlayGame(b, a, { dice, cube: options.cube });
+
+    const aWon = result.winner === aSide;
+    const gammon = result.winType !== "ya_mon";
+    if (aWon) {
+      wins++;
+      if (gammon) gammons++;
+      if (result.winType === "massive_ya_mon") backgammons++;
+    } else if (gammon) {
+      gammonsLost++;
+    }
+    points.push(aWon ? result.points : -result.points);
+    options.onGame?.(result, i + 1);
+  }
+
+  return {
+    games: options.games,
+    wins,
+    gammons,
+    backgammons,
+    gammonsLost,
+    winRate: rateEstimate(wins, options.games),
+    gammonRate: rateEstimate(gammons, options.games),
+    pointsPerGame: meanEstimate(points),
+  };
+}
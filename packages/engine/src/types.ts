@@ -18,6 +18,10 @@ export type GamePhase =
 
 export type WinType = "ya_mon" | "big_ya_mon" | "massive_ya_mon";
 
+// Why a player gave up the match without finishing it on the board:
+// running out of time, or leaving and not coming back
+export type ForfeitReason = "timeout" | "abandoned";
+
 export interface DoublingCube {
   value: number; // 1, 2, 4, 8, 16, ...
   owner: Player | null; // null = centered (either can double)
@@ -46,4 +50,27 @@ export interface GameState {
   isCrawford: boolean;
   winner: Player | null;
   winType: WinType | null;
+  forfeit?: ForfeitReason; // Set when the loser forfeited the whole match
+  resignation?: WinType | null; // Offered by the player on roll; kept once accepted
 }
+
+// One entry in a recorded game. `at` is a Unix timestamp in milliseconds.
+export type GameEvent =
+  | { type: "opening-roll"; goldDie: number; redDie: number; at: number }
+  | { type: "roll"; player: Player; dice: [number, number]; at: number }
+  | { type: "move"; player: Player; move: Move; at: number }
+  | { type: "end-turn"; player: Player; at: number }
+  | { type: "double"; player: Player; at: number }
+  | { type: "take"; player: Player; at: number }
+  | { type: "drop"; player: Player; at: number }
+  | { type: "forfeit"; player: Player; reason: ForfeitReason; at: number }
+  | { type: "resign"; player: Player; winType: WinType; at: number }
+  | { type: "accept-resignation"; player: Player; at: number }
+  | { type: "reject-resignation"; player: Player; at: number };
+
+// A GameEvent before it is stamped with its time, distributed over each event type
+export type UntimedEvent = GameEvent extends infer E
+  ? E extends GameEvent
+    ? Omit<E, "at">
+    : never
+  : never;
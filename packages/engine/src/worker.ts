@@ -0,0 +1,169 @@
+// @backyamon/engine/worker - Run an AI off the main thread
+//
+// A Web Worker imports `serveAI` and answers the page's requests with an
+// AIPlayer, and hint and analysis requests with the expert network; the
+// page posts `AIWorkerMessage`s and gets `AIWorkerReply`s back. Only plain
+// game data crosses: the AI and whatever it was built from (weights,
+// bearoff databases) live in the worker.
+
+import type { GameEvent, GameState, Move, WinType } from "./types.js";
+import type { AIPlayer } from "./ai/types.js";
+import type { Evaluator } from "./ai/evaluator.js";
+import { BeachBum } from "./ai/beach-bum.js";
+import { Selector } from "./ai/selector.js";
+import { KingTubby } from "./ai/king-tubby.js";
+import { Scientist } from "./ai/scientist.js";
+import { NeuralEvaluator, type NetworkWeights } from "./ai/neural-net.js";
+import type { BearoffDatabases } from "./ai/race.js";
+import { analyzeGame, rankTurns, type GameAnalysis, type RankedTurn } from "./analysis.js";
+
+export type AIDifficulty = AIPlayer["difficulty"];
+
+/** Who plays at each difficulty, for the page that never builds the AI. */
+export const AI_NAMES: Record<AIDifficulty, string> = {
+  easy: "Beach Bum",
+  medium: "Selecta",
+  hard: "King Tubby",
+  expert: "Scientist",
+};
+
+/** What `createAIPlayer` builds the stronger AIs from. */
+export interface AIResources {
+  expertWeights?: NetworkWeights; // Required for "expert"
+  databases?: BearoffDatabases;
+}
+
+export function createAIPlayer(difficulty: AIDifficulty, resources: AIResources = {}): AIPlayer {
+  const { expertWeights, databases } = resources;
+  switch (difficulty) {
+    case "easy":
+      return new BeachBum();
+    case "medium":
+      return new Selector(databases);
+    case "hard":
+      return new KingTubby(databases);
+    case "expert":
+      if (!expertWeights) throw new Error("The expert AI needs network weights");
+      return new Scientist(new NeuralEvaluator(expertWeights), databases);
+  }
+}
+
+/** A question for the AI, one per AIPlayer method. */
+export type AIPlayerRequest =
+  | { type: "select-moves"; state: GameState }
+  | { type: "should-double"; state: GameState }
+  | { type: "should-accept-double"; state: GameState }
+  | { type: "should-accept-resignation"; state: GameState; winType: WinType };
+
+/** A question for the network behind hints and game analysis, whatever AI is playing. */
+export type AnalysisRequest =
+  | { type: "rank-turns"; state: GameState; limit?: number }
+  | { type: "analyze-game"; initialState: GameState; events: GameEvent[] };
+
+export type AIRequest = AIPlayerRequest | AnalysisRequest;
+
+/** The answer to each kind of request. */
+export interface AIResults {
+  "select-moves": Move[];
+  "should-double": boolean;
+  "should-accept-double": boolean;
+  "should-accept-resignation": boolean;
+  "rank-turns": RankedTurn[];
+  "analyze-game": GameAnalysis;
+}
+
+export type AIResult = AIResults[keyof AIResults];
+
+/**
+ * Page to worker: build the AI once, then ask it questions. Analysis
+ * requests need no AI, so a worker that only analyses is never sent "create".
+ */
+export type AIWorkerMessage =
+  | { type: "create"; difficulty: AIDifficulty }
+  | { type: "request"; id: number; request: AIRequest };
+
+/** Worker to page: the answer to request `id`, or why there isn't one. */
+export type AIWorkerReply =
+  | { id: number; result: AIResult }
+  | { id: number; error: string };
+
+/** The parts of a worker's global scope `serveAI` uses. */
+export interface AIWorkerScope {
+  onmessage: ((event: { data: AIWorkerMessage }) => void) | null;
+  postMessage(reply: AIWorkerReply): void;
+}
+
+export function answerAIRequest<T extends AIPlayerRequest>(
+  ai: AIPlayer,
+  request: T,
+): AIResults[T["type"]];
+export function answerAIRequest(ai: AIPlayer, request: AIPlayerRequest): AIResult {
+  switch (request.type) {
+    case "select-moves":
+      return ai.selectMoves(request.state);
+    case "should-double":
+      return ai.shouldDouble(request.state);
+    case "should-accept-double":
+      return ai.shouldAcceptDouble(request.state);
+    case "should-accept-resignation":
+      return ai.shouldAcceptResignation(request.state, request.winType);
+  }
+}
+
+export function answerAnalysisRequest<T extends AnalysisRequest>(
+  evaluator: Evaluator,
+  request: T,
+): AIResults[T["type"]];
+export function answerAnalysisRequest(evaluator: Evaluator, request: AnalysisRequest): AIResult {
+  switch (request.type) {
+    case "rank-turns":
+      return rankTurns(evaluator, request.state, request.limit);
+    case "analyze-game":
+      return analyzeGame(evaluator, request.initialState, request.events);
+  }
+}
+
+function isAnalysisRequest(request: AIRequest): request is AnalysisRequest {
+  return request.type === "rank-turns" || request.type === "analyze-game";
+}
+
+/**
+ * Answer the messages arriving at `scope`, in order. `createAI` may be
+ * async (to fetch databases, say); requests sent meanwhile wait for it.
+ * A request before any "create", or to an AI that failed to build, is
+ * answered with an error. Analysis requests go to the evaluator from
+ * `createEvaluator`, built when the first one arrives.
+ */
+export function serveAI(
+  scope: AIWorkerScope,
+  createAI: (difficulty: AIDifficulty) => AIPlayer | Promise<AIPlayer>,
+  createEvaluator?: () => Evaluator | Promise<Evaluator>,
+): void {
+  let ai: Promise<AIPlayer> = Promise.reject(new Error("No AI has been created"));
+  ai.catch(() => {}); // Reported to each request instead
+  let evaluator: Promise<Evaluator> | null = null;
+
+  const getEvaluator = () =>
+    (evaluator ??= Promise.resolve().then(() => {
+      if (!createEvaluator) throw new Error("This worker cannot analyse games");
+      return createEvaluator();
+    }));
+
+  scope.onmessage = ({ data }) => {
+    if (data.type === "create") {
+      ai = Promise.resolve(data.difficulty).then(createAI);
+      ai.catch(() => {});
+      return;
+    }
+
+    const { id, request } = data;
+    const answer = isAnalysisRequest(request)
+      ? getEvaluator().then((network) => answerAnalysisRequest(network, request))
+      : ai.then((player) => answerAIRequest(player, request));
+    answer.then(
+      (result) => scope.postMessage({ id, result }),
+      (error: unknown) =>
+        scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) }),
+    );
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { validateClientEvent, isClientEvent } from "../validate.js";
+
+describe("validateClientEvent", () => {
+  it("should accept a well-formed payload", () => {
+    const result = validateClientEvent("submit-turn", { moves: [{ from: "bar", to: 20 }] });
+    expect(result).toEqual({ ok: true, payload: { moves: [{ from: "bar", to: 20 }] } });
+  });
+
+  it("should drop fields the event doesn't define", () => {
+    const result = validateClientEvent("send-chat", { text: "Wah gwaan", admin: true });
+    expect(result).toEqual({ ok: true, payload: { text: "Wah gwaan" } });
+  });
+
+  it("should reject a malformed payload with the path of each problem", () => {
+    const result = validateClientEvent("submit-turn", { moves: [{ from: "nowhere", to: 3 }] });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe("invalid-payload");
+    expect(result.error.event).toBe("submit-turn");
+    expect(result.error.issues?.map((issue) => issue.path)).toEqual(["moves.0.from"]);
+  });
+
+  it("should reject a missing payload for an event that needs one", () => {
+    const result = validateClientEvent("join-room", undefined);
+    expect(result.ok).toBe(false);
+  });
+
+  it("should accept null or nothing for an optional payload", () => {
+    expect(validateClientEvent("quick-match", null).ok).toBe(true);
+    expect(validateClientEvent("quick-match", undefined).ok).toBe(true);
+    expect(validateClientEvent("register", {}).ok).toBe(true);
+  });
+
+  it("should check nested values such as the time control", () => {
+    const result = validateClientEvent("create-room", {
+      timeControl: { bankSeconds: 600, delaySeconds: 12, style: "sudden-death" },
+    });
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.issues?.[0].path).toBe("timeControl.style");
+  });
+
+  it("should not accept more moves than a turn can have", () => {
+    const move = { from: 6, to: 3 };
+    expect(validateClientEvent("submit-turn", { moves: [move, move, move, move] }).ok).toBe(true);
+    expect(validateClientEvent("submit-turn", { moves: [move, move, move, move, move] }).ok).toBe(false);
+  });
+
+  it("should ignore anything sent with an event that carries no payload", () => {
+    expect(validateClientEvent("roll-dice", { cheat: 6 })).toEqual({ ok: true, payload: undefined });
+  });
+
+  it("should reject events the protocol doesn't define", () => {
+    const result = validateClientEvent("set-dice", { values: [6, 6] });
+    expect(result).toEqual({
+      ok: false,
+      error: { message: 'Unknown event "set-dice".', code: "unknown-event", event: "set-dice" },
+    });
+  });
+});
+
+describe("isClientEvent", () => {
+  it("should not treat inherited object keys as events", () => {
+    expect(isClientEvent("toString")).toBe(false);
+    expect(isClientEvent("roll-dice")).toBe(true);
+  });
+});
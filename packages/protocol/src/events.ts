@@ -0,0 +1,135 @@
+import type { Dice, GameState, Move } from "@backyamon/engine";
+import type { ClientPayload } from "./schemas.js";
+import type {
+  AckError,
+  Asset,
+  ChatMessage,
+  ClockSnapshot,
+  ErrorPayload,
+  GameOver,
+  GameStart,
+  LeaderboardEntry,
+  ListedPlayer,
+  LiveGame,
+  OfferResponse,
+  OpeningRollResult,
+  PlayerProfile,
+  QueueStatus,
+  RecentMatch,
+  Registration,
+  Replay,
+  ResignationOffered,
+  RoomJoined,
+  TurnEnded,
+  WaitingRoom,
+  WatchedGame,
+} from "./payloads.js";
+
+/** Callback for an acknowledged request: the answer, or why there isn't one. */
+export type Ack<T> = (response: T | AckError) => void;
+
+/**
+ * Every event a client sends, for `Server<ClientToServerEvents, ...>` and
+ * the client's `Socket<..., ClientToServerEvents>`. Payloads are checked
+ * against clientEventSchemas before any handler sees them.
+ */
+export interface ClientToServerEvents {
+  "register": (data?: ClientPayload<"register">) => void;
+  "claim-username": (data: ClientPayload<"claim-username">) => void;
+  "list-rooms": () => void; // Answered with "room-list"
+  "list-live-games": () => void; // Answered with "live-games"
+  "list-players": () => void; // Answered with "player-list"
+  "watch-room": (data: ClientPayload<"watch-room">) => void;
+  "stop-watching": () => void;
+  "get-leaderboard": (
+    data: ClientPayload<"get-leaderboard">,
+    callback: Ack<{ players: LeaderboardEntry[] }>,
+  ) => void;
+  "get-player-profile": (
+    data: ClientPayload<"get-player-profile">,
+    callback: Ack<PlayerProfile>,
+  ) => void;
+  "get-recent-matches": (
+    data: ClientPayload<"get-recent-matches">,
+    callback: Ack<{ matches: RecentMatch[] }>,
+  ) => void;
+  "get-replay": (data: ClientPayload<"get-replay">, callback: Ack<{ replay: Replay }>) => void;
+  "create-room": (data?: ClientPayload<"create-room">) => void;
+  "join-room": (data: ClientPayload<"join-room">) => void;
+  "quick-match": (data?: ClientPayload<"quick-match">) => void;
+  "leave-queue": () => void;
+  "roll-dice": () => void;
+  "submit-turn": (data: ClientPayload<"submit-turn">, callback: Ack<{ ok: true }>) => void;
+  "end-turn": () => void;
+  "offer-double": () => void;
+  "respond-double": (data: ClientPayload<"respond-double">) => void;
+  "offer-resignation": (data: ClientPayload<"offer-resignation">) => void;
+  "respond-resignation": (data: ClientPayload<"respond-resignation">) => void;
+  "send-chat": (data: ClientPayload<"send-chat">) => void;
+  "reconnect-to-game": (data: ClientPayload<"reconnect-to-game">) => void;
+  "leave-room": (data: ClientPayload<"leave-room">) => void;
+  "create-asset": (
+    data: ClientPayload<"create-asset">,
+    callback: Ack<{ id: string; uploadUrl: string | null }>,
+  ) => void;
+  "list-my-assets": (
+    data: ClientPayload<"list-my-assets">,
+    callback: Ack<{ assets: Asset[] }>,
+  ) => void;
+  "list-gallery": (
+    data: ClientPayload<"list-gallery">,
+    callback: Ack<{ assets: Asset[] }>,
+  ) => void;
+  "publish-asset": (data: ClientPayload<"publish-asset">, callback: Ack<{ ok: true }>) => void;
+  "delete-asset": (data: ClientPayload<"delete-asset">, callback: Ack<{ ok: true }>) => void;
+  "report-asset": (data: ClientPayload<"report-asset">, callback: Ack<{ ok: true }>) => void;
+}
+
+/** Client events answered through an acknowledgement callback. */
+export type AckEventName = {
+  [E in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[E]> extends [
+    unknown,
+    Ack<never>,
+  ]
+    ? E
+    : never;
+}[keyof ClientToServerEvents];
+
+/** What an acknowledged client event is answered with when it succeeds. */
+export type AckResponse<E extends AckEventName> =
+  Parameters<ClientToServerEvents[E]> extends [unknown, Ack<infer T>] ? T : never;
+
+/** Every event the server sends. */
+export interface ServerToClientEvents {
+  "error": (data: ErrorPayload) => void;
+  "registered": (data: Registration) => void;
+  "username-claimed": (data: { username: string | null; token: string }) => void;
+  "username-error": (data: { message: string }) => void;
+  "room-list": (data: { rooms: WaitingRoom[] }) => void;
+  "live-games": (data: { games: LiveGame[] }) => void;
+  "player-list": (data: { players: ListedPlayer[] }) => void;
+  "queue-status": (data: QueueStatus) => void;
+  "match-found": (data: { roomId: string }) => void;
+  "room-created": (data: { roomId: string }) => void;
+  "room-joined": (data: RoomJoined) => void;
+  "watching": (data: WatchedGame) => void;
+  "watch-ended": (data: { roomId: string }) => void; // To spectators when the room closes
+  "spectators-changed": (data: { count: number }) => void;
+  "game-start": (data: GameStart) => void;
+  "opening-roll-tied": (data: { goldDie: number; redDie: number }) => void;
+  "opening-roll-result": (data: OpeningRollResult) => void;
+  "dice-rolled": (data: { dice: Dice; clock: ClockSnapshot | null }) => void;
+  "move-made": (data: { move: Move; state: GameState }) => void;
+  "turn-ended": (data: TurnEnded) => void;
+  "double-offered": (data: { currentCubeValue: number; clock: ClockSnapshot | null }) => void;
+  "clock-updated": (data: { clock: ClockSnapshot | null }) => void;
+  "double-response": (data: OfferResponse) => void;
+  "resignation-offered": (data: ResignationOffered) => void;
+  "resignation-response": (data: OfferResponse) => void;
+  "game-over": (data: GameOver) => void;
+  "chat-message": (data: ChatMessage) => void;
+  // Time left before the absent player forfeits; null if there is no match left to forfeit
+  "opponent-disconnected": (data: { forfeitInMs: number | null }) => void;
+  "opponent-reconnected": () => void;
+  "opponent-left": () => void;
+}
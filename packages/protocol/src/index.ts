@@ -0,0 +1,6 @@
+// @backyamon/protocol - Socket.io events shared by the server and web client
+
+export * from "./payloads.js";
+export * from "./schemas.js";
+export * from "./events.js";
+export * from "./validate.js";
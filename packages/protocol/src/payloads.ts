@@ -0,0 +1,252 @@
+import type {
+  Dice,
+  ForfeitReason,
+  GameEvent,
+  GameState,
+  Player,
+  WinType,
+} from "@backyamon/engine";
+
+// Shapes of the data the server sends to clients. Dates travel as ISO
+// strings, except where noted as milliseconds.
+
+/** Bronstein delay is free time before the bank runs; Fischer adds it to the bank each move. */
+export type DelayStyle = "bronstein" | "fischer";
+
+/** Time allowed per player for a whole match, plus a per-move delay. */
+export interface TimeControl {
+  bankSeconds: number; // Per player, for the whole match
+  delaySeconds: number; // Per move, see DelayStyle
+  style: DelayStyle;
+}
+
+/** A match clock as sent to clients, charged up to the moment it was taken. */
+export interface ClockSnapshot {
+  control: TimeControl;
+  banks: Record<Player, number>; // Milliseconds left
+  running: Player | null;
+  delayLeft: number; // Milliseconds of Bronstein delay before the bank runs
+}
+
+/** Sent to a socket that registered or signed in again with its token. */
+export interface Registration {
+  playerId: string;
+  displayName: string;
+  username: string | null;
+  token: string;
+}
+
+/** Anything the server refused to do, and why. */
+export interface ErrorPayload {
+  message: string;
+  code?: ProtocolErrorCode;
+  event?: string; // The client event that was refused
+  issues?: PayloadIssue[];
+}
+
+export type ProtocolErrorCode = "invalid-payload" | "unknown-event";
+
+/** One thing wrong with a payload, at a dotted path into it ("move.from"). */
+export interface PayloadIssue {
+  path: string;
+  message: string;
+}
+
+/** Answer to an acknowledged request that failed. */
+export interface AckError {
+  error: string;
+  code?: ProtocolErrorCode;
+  issues?: PayloadIssue[];
+}
+
+/** A room with a free seat, listed in the lobby. */
+export interface WaitingRoom {
+  id: string;
+  hostName: string;
+  matchLength: number;
+  timeControl: TimeControl | null;
+  createdAt: string;
+}
+
+/** A game in progress that can be watched. */
+export interface LiveGame {
+  id: string;
+  goldName: string;
+  redName: string;
+  matchLength: number;
+  matchScore: Record<Player, number>;
+  timeControl: TimeControl | null;
+  spectators: number;
+}
+
+/** A player who has claimed a username. */
+export interface ListedPlayer {
+  username: string;
+  createdAt: string;
+  rating: number;
+  wins: number;
+  losses: number;
+  points: number;
+}
+
+export interface QueueStatus {
+  position: number; // 1-based, by time waited
+  queueSize: number;
+  ratingWindow: number | null; // Largest rating gap accepted now; null once any will do
+  estimatedWaitSeconds: number;
+}
+
+/** Sent to a player when they take (or get back) their seat in a room. */
+export interface RoomJoined {
+  roomId: string;
+  player: Player;
+  state: GameState;
+  diceHash: string;
+  diceRolled: number;
+  clock: ClockSnapshot | null;
+  spectators: number;
+  opponent: { displayName: string } | null;
+}
+
+/** Everything a spectator needs to pick up a game in progress. */
+export interface WatchedGame {
+  roomId: string;
+  state: GameState;
+  players: Record<Player, string>; // Display names
+  gameNumber: number;
+  diceHash: string;
+  diceRolled: number;
+  clock: ClockSnapshot | null;
+  spectators: number;
+  canChat: boolean; // Whether spectators may post in this room's chat
+}
+
+export interface GameStart {
+  state: GameState;
+  gameNumber: number;
+  diceHash: string;
+  clock: ClockSnapshot | null;
+}
+
+export interface OpeningRollResult {
+  goldDie: number;
+  redDie: number;
+  firstPlayer: Player;
+  dice: Dice;
+  clock: ClockSnapshot | null;
+}
+
+export interface TurnEnded {
+  state: GameState;
+  currentPlayer: Player;
+  clock: ClockSnapshot | null;
+}
+
+/** The answer to a double or a resignation offer. */
+export interface OfferResponse {
+  accepted: boolean;
+  state: GameState;
+  clock: ClockSnapshot | null;
+}
+
+export interface ResignationOffered {
+  player: Player;
+  winType: WinType;
+  points: number;
+  clock: ClockSnapshot | null;
+}
+
+export interface GameOver {
+  winner: Player;
+  winType: WinType;
+  pointsWon: number;
+  matchScore: Record<Player, number>;
+  matchWinner: Player | null;
+  matchLength: number;
+  reason: ForfeitReason | null; // Why the loser forfeited, if they did
+  clock: ClockSnapshot | null;
+  diceSeed: string; // Revealed so clients can check every roll of the game
+  diceHash: string;
+}
+
+/** A chat line relayed by the server, already filtered. */
+export interface ChatMessage {
+  from: string; // Display name
+  role: Player | "spectator";
+  text: string;
+  sentAt: number; // ms
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  rating: number;
+  peakRating: number;
+  experience: number;
+}
+
+export interface PlayerProfile {
+  username: string;
+  rating: number;
+  peakRating: number;
+  experience: number;
+  ratingHistory: { rating: number; change: number; createdAt: number }[]; // createdAt in ms
+  wins: number;
+  losses: number;
+  winPct: number;
+  recentMatches: {
+    id: string;
+    opponent: string;
+    result: "win" | "loss";
+    winType: string | null;
+    pointsWon: number | null;
+    matchLength: number;
+    gameNumber: number;
+    matchResult: "win" | "loss" | null;
+    forfeitReason: ForfeitReason | null;
+    completedAt: string | null;
+  }[];
+  headToHead: {
+    opponent: string;
+    wins: number;
+    losses: number;
+  }[];
+}
+
+export interface RecentMatch {
+  id: string;
+  goldPlayer: string;
+  redPlayer: string;
+  winner: string;
+  winType: string | null;
+  pointsWon: number | null;
+  matchLength: number;
+  goldScore: number | null;
+  redScore: number | null;
+  completedAt: string | null;
+}
+
+/** One recorded game of a finished match. */
+export interface Replay {
+  matchId: string;
+  goldPlayer: string;
+  redPlayer: string;
+  gameNumber: number;
+  initialState: GameState;
+  events: GameEvent[];
+  completedAt: string | null;
+}
+
+/** A piece design, sound or music loop made in the creation station. */
+export interface Asset {
+  id: string;
+  creatorId: string;
+  type: string; // "piece" | "sfx" | "music"
+  title: string;
+  status: string; // "private" | "published" | "removed"
+  metadata: string | null; // JSON
+  r2Key: string | null;
+  createdAt: number; // ms
+  updatedAt: number; // ms
+  url: string | null;
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+// Schemas for everything a client may send. They check shape only:
+// whether a move is legal or a time control sensible is the server's call.
+// Optional payloads also accept null, which is what an `undefined`
+// argument becomes on the wire.
+
+export const timeControlSchema = z.object({
+  bankSeconds: z.number(),
+  delaySeconds: z.number(),
+  style: z.enum(["bronstein", "fischer"]),
+});
+
+export const moveSchema = z.object({
+  from: z.union([z.number().int(), z.literal("bar")]),
+  to: z.union([z.number().int(), z.literal("off")]),
+});
+
+export const winTypeSchema = z.enum(["ya_mon", "big_ya_mon", "massive_ya_mon"]);
+
+export const assetTypeSchema = z.enum(["piece", "sfx", "music"]);
+
+const roomIdPayload = z.object({ roomId: z.string() });
+const assetIdPayload = z.object({ assetId: z.string() });
+const limitPayload = z.object({ limit: z.number().optional() }).nullish();
+const assetListPayload = z.object({ type: z.string().optional() }).nullish();
+const answerPayload = z.object({ accept: z.boolean() });
+
+/**
+ * The payload schema of every client event, or null for events that carry
+ * no payload.
+ */
+export const clientEventSchemas = {
+  "register": z.object({ token: z.string().optional() }).nullish(),
+  "claim-username": z.object({ username: z.string() }),
+  "list-rooms": null,
+  "list-live-games": null,
+  "list-players": null,
+  "watch-room": roomIdPayload,
+  "stop-watching": null,
+  "get-leaderboard": limitPayload,
+  "get-player-profile": z.object({ username: z.string() }),
+  "get-recent-matches": limitPayload,
+  "get-replay": z.object({ matchId: z.string() }),
+  "create-room": z.object({
+    roomName: z.string().optional(),
+    matchLength: z.number().optional(),
+    timeControl: timeControlSchema.nullish(),
+    spectatorChat: z.boolean().optional(),
+  }).nullish(),
+  "join-room": roomIdPayload,
+  "quick-match": z.object({
+    matchLength: z.number().optional(), // Only pair for this match length (default: any)
+    unrated: z.boolean().optional(), // Only pair with others who want an unrated match
+  }).nullish(),
+  "leave-queue": null,
+  "roll-dice": null,
+  "submit-turn": z.object({ moves: z.array(moveSchema).max(4) }), // A whole turn, in play order
+  "end-turn": null,
+  "offer-double": null,
+  "respond-double": answerPayload,
+  "offer-resignation": z.object({ winType: winTypeSchema }),
+  "respond-resignation": answerPayload,
+  "send-chat": z.object({ text: z.string() }),
+  "reconnect-to-game": z.object({ playerId: z.string(), roomId: z.string() }),
+  "leave-room": roomIdPayload,
+  "create-asset": z.object({
+    type: assetTypeSchema,
+    title: z.string(),
+    metadata: z.string(),
+    needsUpload: z.boolean(),
+    contentType: z.string().optional(),
+    fileSize: z.number().optional(),
+  }),
+  "list-my-assets": assetListPayload,
+  "list-gallery": assetListPayload,
+  "publish-asset": assetIdPayload,
+  "delete-asset": assetIdPayload,
+  "report-asset": z.object({ assetId: z.string(), reason: z.string() }),
+} as const;
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+
+/** What `event` carries, once its schema has accepted it. */
+export type ClientPayload<E extends ClientEventName> =
+  (typeof clientEventSchemas)[E] extends z.ZodType<infer T> ? T : never;
+
+export type QueuePreferences = NonNullable<ClientPayload<"quick-match">>;
+export type CreateRoomOptions = NonNullable<ClientPayload<"create-room">>;
+export type NewAsset = ClientPayload<"create-asset">;
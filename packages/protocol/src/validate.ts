@@ -0,0 +1,39 @@
+import type { z } from "zod";
+import { clientEventSchemas, type ClientEventName } from "./schemas.js";
+import type { ErrorPayload, PayloadIssue } from "./payloads.js";
+
+export type ClientEventCheck =
+  | { ok: true; payload: unknown } // As parsed: unknown fields dropped
+  | { ok: false; error: ErrorPayload };
+
+export function isClientEvent(event: string): event is ClientEventName {
+  return Object.hasOwn(clientEventSchemas, event);
+}
+
+/**
+ * Check what a client sent with `event` against the event's schema.
+ * Events that carry no payload ignore whatever was sent with them.
+ */
+export function validateClientEvent(event: string, payload: unknown): ClientEventCheck {
+  if (!isClientEvent(event)) {
+    return {
+      ok: false,
+      error: { message: `Unknown event "${event}".`, code: "unknown-event", event },
+    };
+  }
+
+  const schema: z.ZodType | null = clientEventSchemas[event];
+  if (schema === null) return { ok: true, payload: undefined };
+
+  const result = schema.safeParse(payload);
+  if (result.success) return { ok: true, payload: result.data };
+
+  const issues: PayloadIssue[] = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join("."),
+    message: issue.message,
+  }));
+  return {
+    ok: false,
+    error: { message: `Invalid "${event}" request.`, code: "invalid-payload", event, issues },
+  };
+}